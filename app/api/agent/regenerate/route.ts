@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { regeneratePart } from "@/lib/agent";
+import { authorize } from "@/lib/auth";
+import { getBrand } from "@/lib/brands";
+import { getVoiceProfile } from "@/lib/voiceProfiles";
+import { AgentOutputError, regenerateRequestSchema } from "@/lib/validation/agent";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(regenerateRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid regenerate request", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const { response, target } = parsed.value;
+    const exists =
+      target.kind === "scene"
+        ? target.index < response.scenes.length
+        : response.socialPosts.some((post) => post.platform === target.platform);
+    if (!exists) {
+      return NextResponse.json(
+        {
+          error: "Invalid regenerate request",
+          issues: [{ path: "target", code: "mismatch", message: "Target is not part of this campaign" }],
+        },
+        { status: 400 }
+      );
+    }
+
+    // A brand or voice that was deleted since generation no longer constrains the rewrite.
+    const { brandId, voiceProfileId } = parsed.value.request;
+    const brand = brandId ? await getBrand(brandId, auth.workspace.id) : null;
+    const voice = voiceProfileId ? await getVoiceProfile(voiceProfileId, auth.workspace.id) : null;
+
+    const result = await regeneratePart(parsed.value, { signal: request.signal, brand, voice });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof AgentOutputError) {
+      console.error("Agent returned invalid output", error.issues);
+      return NextResponse.json(
+        { error: "Agent returned an invalid rewrite.", issues: error.issues },
+        { status: 502 }
+      );
+    }
+    console.error("Regenerate request failed", error);
+    return NextResponse.json({ error: "Failed to regenerate." }, { status: 500 });
+  }
+}
@@ -1,48 +1,66 @@
 import { NextResponse } from "next/server";
 import { runAgent } from "@/lib/agent";
-import { AgentRequest } from "@/types/agent";
+import { authorize } from "@/lib/auth";
+import { getBrand } from "@/lib/brands";
+import { insightsFor } from "@/lib/insights";
+import { getVoiceProfile } from "@/lib/voiceProfiles";
+import { AgentOutputError, parseAgentRequest } from "@/lib/validation/agent";
 
 export const dynamic = "force-dynamic";
 
-const validate = (payload: Partial<AgentRequest>) => {
-  if (!payload.idea || payload.idea.trim().length === 0) {
-    return "Missing campaign idea";
-  }
-  if (!payload.tone) {
-    return "Missing tone";
-  }
-  if (!payload.targetAudience) {
-    return "Missing target audience";
-  }
-  if (!payload.lengthSeconds || Number.isNaN(payload.lengthSeconds)) {
-    return "Missing desired length";
-  }
-  if (!payload.platforms || payload.platforms.length === 0) {
-    return "Select at least one platform";
-  }
-  return null;
-};
-
 export async function POST(request: Request) {
   try {
-    const json = (await request.json()) as Partial<AgentRequest>;
-    const error = validate(json);
-    if (error) {
-      return NextResponse.json({ error }, { status: 400 });
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parseAgentRequest(json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid campaign request", issues: parsed.issues },
+        { status: 400 }
+      );
     }
 
-    const payload: AgentRequest = {
-      idea: json.idea!.trim(),
-      tone: json.tone!,
-      lengthSeconds: Number(json.lengthSeconds),
-      platforms: json.platforms!,
-      targetAudience: json.targetAudience!,
-    };
+    const { brandId } = parsed.value;
+    const brand = brandId ? await getBrand(brandId, auth.workspace.id) : null;
+    if (brandId && !brand) {
+      return NextResponse.json(
+        {
+          error: "Invalid campaign request",
+          issues: [{ path: "brandId", code: "mismatch", message: "Brand kit not found" }],
+        },
+        { status: 400 }
+      );
+    }
 
-    const result = await runAgent(payload);
+    const { voiceProfileId } = parsed.value;
+    const voice = voiceProfileId ? await getVoiceProfile(voiceProfileId, auth.workspace.id) : null;
+    if (voiceProfileId && !voice) {
+      return NextResponse.json(
+        {
+          error: "Invalid campaign request",
+          issues: [
+            { path: "voiceProfileId", code: "mismatch", message: "Voice profile not found" },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const insights = await insightsFor(parsed.value, auth.workspace.id);
+    const result = await runAgent(parsed.value, { signal: request.signal, brand, voice, insights });
 
     return NextResponse.json(result, { status: 200 });
   } catch (error) {
+    if (error instanceof AgentOutputError) {
+      console.error("Agent returned invalid output", error.issues);
+      return NextResponse.json(
+        { error: "Agent returned an invalid campaign.", issues: error.issues },
+        { status: 502 }
+      );
+    }
     console.error("Agent request failed", error);
     return NextResponse.json(
       {
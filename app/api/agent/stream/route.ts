@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { encodeEvent, runAgentStream } from "@/lib/agent";
+import { authorize } from "@/lib/auth";
+import { getBrand } from "@/lib/brands";
+import { insightsFor } from "@/lib/insights";
+import { getVoiceProfile } from "@/lib/voiceProfiles";
+import { AgentOutputError, parseAgentRequest } from "@/lib/validation/agent";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "create");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const json = await request.json().catch(() => undefined);
+  const parsed = parseAgentRequest(json);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: "Invalid campaign request", issues: parsed.issues },
+      { status: 400 }
+    );
+  }
+
+  const { brandId } = parsed.value;
+  const brand = brandId ? await getBrand(brandId, auth.workspace.id) : null;
+  if (brandId && !brand) {
+    return NextResponse.json(
+      {
+        error: "Invalid campaign request",
+        issues: [{ path: "brandId", code: "mismatch", message: "Brand kit not found" }],
+      },
+      { status: 400 }
+    );
+  }
+
+  const { voiceProfileId } = parsed.value;
+  const voice = voiceProfileId ? await getVoiceProfile(voiceProfileId, auth.workspace.id) : null;
+  if (voiceProfileId && !voice) {
+    return NextResponse.json(
+      {
+        error: "Invalid campaign request",
+        issues: [
+          { path: "voiceProfileId", code: "mismatch", message: "Voice profile not found" },
+        ],
+      },
+      { status: 400 }
+    );
+  }
+
+  const insights = await insightsFor(parsed.value, auth.workspace.id);
+  const controller = new AbortController();
+  request.signal.addEventListener("abort", () => controller.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(sink) {
+      try {
+        for await (const event of runAgentStream(parsed.value, {
+          signal: controller.signal,
+          brand,
+          voice,
+          insights,
+        })) {
+          sink.enqueue(encoder.encode(encodeEvent(event)));
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error("Agent stream failed", err);
+          const message =
+            err instanceof AgentOutputError
+              ? "Agent returned an invalid campaign."
+              : "Failed to orchestrate agent.";
+          sink.enqueue(encoder.encode(encodeEvent({ type: "error", error: message })));
+        }
+      } finally {
+        try {
+          sink.close();
+        } catch {
+          // Stream already closed by the client.
+        }
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { translateCampaign } from "@/lib/agent";
+import { authorize } from "@/lib/auth";
+import { getBrand } from "@/lib/brands";
+import { getVoiceProfile } from "@/lib/voiceProfiles";
+import { AgentOutputError, translateRequestSchema } from "@/lib/validation/agent";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(translateRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid translate request", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    // As with rewrites, a brand or voice deleted since generation no longer applies.
+    const { brandId, voiceProfileId } = parsed.value.request;
+    const brand = brandId ? await getBrand(brandId, auth.workspace.id) : null;
+    const voice = voiceProfileId ? await getVoiceProfile(voiceProfileId, auth.workspace.id) : null;
+
+    const localization = await translateCampaign(parsed.value, {
+      signal: request.signal,
+      brand,
+      voice,
+    });
+
+    return NextResponse.json(localization, { status: 200 });
+  } catch (error) {
+    if (error instanceof AgentOutputError) {
+      console.error("Agent returned invalid output", error.issues);
+      return NextResponse.json(
+        { error: "Agent returned an invalid translation.", issues: error.issues },
+        { status: 502 }
+      );
+    }
+    console.error("Translate request failed", error);
+    return NextResponse.json({ error: "Failed to translate." }, { status: 500 });
+  }
+}
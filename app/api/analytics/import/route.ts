@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { importMetrics } from "@/lib/analytics";
+import { authorize } from "@/lib/auth";
+import { getCampaign } from "@/lib/campaigns";
+import { evaluateExperiments } from "@/lib/experiments";
+import { metricsImportSchema } from "@/lib/validation/analytics";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(metricsImportSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: "Invalid import", issues: parsed.issues }, { status: 400 });
+    }
+
+    if (!(await getCampaign(parsed.value.campaignId, auth.workspace.id))) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+
+    const result = await importMetrics(parsed.value.campaignId, parsed.value.csv);
+    if (result && result.imported > 0) {
+      await evaluateExperiments();
+    }
+    return result
+      ? NextResponse.json(result, { status: 200 })
+      : NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  } catch (error) {
+    console.error("Failed to import analytics", error);
+    return NextResponse.json({ error: "Failed to import analytics." }, { status: 500 });
+  }
+}
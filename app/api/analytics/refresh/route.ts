@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { collectMetrics, listMetrics } from "@/lib/analytics";
+import { authorize } from "@/lib/auth";
+import { campaignIdsIn } from "@/lib/campaigns";
+import { evaluateExperiments } from "@/lib/experiments";
+import { metricsRefreshSchema } from "@/lib/validation/analytics";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => ({}));
+    const parsed = parse(metricsRefreshSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid refresh", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const { campaignId } = parsed.value;
+    const campaignIds = await campaignIdsIn(auth.workspace.id);
+    if (campaignId && !campaignIds.includes(campaignId)) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    const result = await collectMetrics({ campaignId, force: true });
+    await evaluateExperiments();
+    const metrics = await listMetrics({ campaignId, campaignIds });
+    return NextResponse.json({ ...result, metrics }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to refresh analytics", error);
+    return NextResponse.json({ error: "Failed to refresh analytics." }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { listMetrics } from "@/lib/analytics";
+import { authorize } from "@/lib/auth";
+import { campaignIdsIn } from "@/lib/campaigns";
+import { toCsv } from "@/lib/analytics/csv";
+import { startAnalyticsPoller } from "@/lib/analytics/worker";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  startAnalyticsPoller();
+  const params = new URL(request.url).searchParams;
+  const campaignId = params.get("campaignId") ?? undefined;
+  const metrics = await listMetrics({
+    campaignId,
+    campaignIds: await campaignIdsIn(auth.workspace.id),
+  });
+  if (params.get("format") === "csv") {
+    const fileName = campaignId
+      ? `agentic-analytics-${campaignId.slice(0, 8)}.csv`
+      : "agentic-analytics.csv";
+    return new Response(toCsv(metrics), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  }
+  return NextResponse.json({ metrics }, { status: 200 });
+}
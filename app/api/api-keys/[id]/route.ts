@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { revokeApiKey } from "@/lib/apiKeys";
+import { authorize } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "manage");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const apiKey = await revokeApiKey(auth.workspace.id, params.id);
+    return apiKey
+      ? NextResponse.json(apiKey, { status: 200 })
+      : NextResponse.json({ error: "API key not found" }, { status: 404 });
+  } catch (error) {
+    console.error("Failed to revoke API key", error);
+    return NextResponse.json({ error: "Failed to revoke API key." }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { createApiKey, listApiKeys } from "@/lib/apiKeys";
+import { authorize } from "@/lib/auth";
+import { apiKeyRequestSchema } from "@/lib/validation/apiKey";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "manage");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const apiKeys = await listApiKeys(auth.workspace.id);
+  return NextResponse.json({ apiKeys }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "manage");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(apiKeyRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid API key", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const created = await createApiKey(auth.workspace.id, parsed.value, auth.user.displayName);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create API key", error);
+    return NextResponse.json({ error: "Failed to create API key." }, { status: 500 });
+  }
+}
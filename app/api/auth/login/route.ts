@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { openSession, SESSION_COOKIE, sessionCookieOptions, signIn } from "@/lib/auth";
+import { signInRequestSchema } from "@/lib/validation/auth";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(signInRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid sign-in", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const user = await signIn(parsed.value.username, parsed.value.password);
+    if (!user) {
+      return NextResponse.json({ error: "Wrong username or password." }, { status: 401 });
+    }
+    const opened = await openSession(user);
+    if (!opened) {
+      return NextResponse.json(
+        { error: "You're not a member of any workspace yet; ask an admin to add you." },
+        { status: 403 }
+      );
+    }
+    const response = NextResponse.json(opened.session, { status: 200 });
+    response.cookies.set(SESSION_COOKIE, opened.token, sessionCookieOptions());
+    return response;
+  } catch (error) {
+    console.error("Failed to sign in", error);
+    return NextResponse.json({ error: "Failed to sign in." }, { status: 500 });
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE, sessionCookieOptions } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.set(SESSION_COOKIE, "", { ...sessionCookieOptions(), maxAge: 0 });
+  return response;
+}
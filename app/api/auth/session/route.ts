@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { authorize, sessionInfo } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json(await sessionInfo(auth.user, auth.workspace), { status: 200 });
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import {
+  AccountError,
+  openSession,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+  signUp,
+  SignUpClosedError,
+} from "@/lib/auth";
+import { signUpRequestSchema } from "@/lib/validation/auth";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(signUpRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid sign-up", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+    const user = await signUp(parsed.value);
+    const opened = (await openSession(user))!;
+    const response = NextResponse.json(opened.session, { status: 201 });
+    response.cookies.set(SESSION_COOKIE, opened.token, sessionCookieOptions());
+    return response;
+  } catch (error) {
+    if (error instanceof SignUpClosedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof AccountError) {
+      return NextResponse.json(
+        {
+          error: "Invalid sign-up",
+          issues: [{ path: "username", code: "mismatch", message: error.message }],
+        },
+        { status: 409 }
+      );
+    }
+    console.error("Failed to sign up", error);
+    return NextResponse.json({ error: "Failed to sign up." }, { status: 500 });
+  }
+}
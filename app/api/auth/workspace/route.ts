@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { authorize, openSession, SESSION_COOKIE, sessionCookieOptions } from "@/lib/auth";
+import { workspaceSwitchRequestSchema } from "@/lib/validation/auth";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(workspaceSwitchRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid workspace switch", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const opened = await openSession(auth.user, parsed.value.workspaceId);
+    if (!opened || opened.session.workspace.id !== parsed.value.workspaceId) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+    const response = NextResponse.json(opened.session, { status: 200 });
+    response.cookies.set(SESSION_COOKIE, opened.token, sessionCookieOptions());
+    return response;
+  } catch (error) {
+    console.error("Failed to switch workspace", error);
+    return NextResponse.json({ error: "Failed to switch workspace." }, { status: 500 });
+  }
+}
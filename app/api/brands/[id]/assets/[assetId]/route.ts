@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getBrand, readBrandAsset } from "@/lib/brands";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string; assetId: string };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const brand = await getBrand(params.id, auth.workspace.id);
+  const found = brand ? await readBrandAsset(brand.id, params.assetId) : null;
+  if (!found) {
+    return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+  }
+  return new Response(found.data, {
+    headers: {
+      "Content-Type": found.asset.mimeType,
+      "Content-Length": String(found.asset.size),
+      "Cache-Control": "private, max-age=3600",
+      // Opened directly, e.g. an SVG logo, the file can't run script in the app's origin.
+      "X-Content-Type-Options": "nosniff",
+      "Content-Security-Policy": "sandbox",
+    },
+  });
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { addBrandAsset, getBrand } from "@/lib/brands";
+import { brandAssetKindSchema, brandAssetType } from "@/lib/validation/brand";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Brand kit not found" }, { status: 404 });
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "create");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const url = new URL(request.url);
+  const kind = parse(brandAssetKindSchema, url.searchParams.get("kind") ?? undefined);
+  const fileName = url.searchParams.get("fileName") ?? "brand-asset";
+  if (!kind.ok) {
+    return NextResponse.json({ error: "Invalid asset kind", issues: kind.issues }, { status: 400 });
+  }
+  const mimeType = brandAssetType(
+    kind.value,
+    fileName,
+    request.headers.get("content-type") ?? "application/octet-stream"
+  );
+  if (!mimeType) {
+    const expected =
+      kind.value === "font" ? "a WOFF, WOFF2, TTF or OTF font" : "a PNG, JPEG, WebP or SVG image";
+    return NextResponse.json(
+      {
+        error: "Invalid upload",
+        issues: [{ path: "content-type", code: "mismatch", message: `Expected ${expected}` }],
+      },
+      { status: 400 }
+    );
+  }
+  if (!(await getBrand(params.id, auth.workspace.id))) {
+    return notFound();
+  }
+
+  try {
+    const data = new Uint8Array(await request.arrayBuffer());
+    if (data.byteLength === 0) {
+      return NextResponse.json({ error: "Empty upload" }, { status: 400 });
+    }
+    const asset = await addBrandAsset(params.id, {
+      kind: kind.value,
+      fileName,
+      mimeType,
+      data,
+    });
+    return asset ? NextResponse.json(asset, { status: 201 }) : notFound();
+  } catch (error) {
+    console.error("Failed to store brand asset", error);
+    return NextResponse.json({ error: "Failed to store brand asset." }, { status: 500 });
+  }
+}
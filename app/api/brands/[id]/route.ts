@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { deleteBrand, getBrand, updateBrand } from "@/lib/brands";
+import { brandPatchSchema } from "@/lib/validation/brand";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Brand kit not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const brand = await getBrand(params.id, auth.workspace.id);
+  return brand ? NextResponse.json(brand, { status: 200 }) : notFound();
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(brandPatchSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid brand kit update", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+    if (!(await getBrand(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+
+    const brand = await updateBrand(params.id, parsed.value);
+    return brand ? NextResponse.json(brand, { status: 200 }) : notFound();
+  } catch (error) {
+    console.error("Failed to update brand kit", error);
+    return NextResponse.json({ error: "Failed to update brand kit." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "create");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!(await getBrand(params.id, auth.workspace.id))) {
+    return notFound();
+  }
+  const removed = await deleteBrand(params.id);
+  return removed ? new Response(null, { status: 204 }) : notFound();
+}
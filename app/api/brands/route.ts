@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { createBrand, listBrands } from "@/lib/brands";
+import { brandSettingsSchema } from "@/lib/validation/brand";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const brands = await listBrands({ workspaceId: auth.workspace.id });
+  return NextResponse.json({ brands }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(brandSettingsSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: "Invalid brand kit", issues: parsed.issues }, { status: 400 });
+    }
+
+    const brand = await createBrand(parsed.value, auth.workspace.id);
+    return NextResponse.json(brand, { status: 201 });
+  } catch (error) {
+    console.error("Failed to save brand kit", error);
+    return NextResponse.json({ error: "Failed to save brand kit." }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getCampaign, readAsset } from "@/lib/campaigns";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string; assetId: string };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const campaign = await getCampaign(params.id, auth.workspace.id);
+  const found = campaign ? await readAsset(params.id, params.assetId) : null;
+  if (!found) {
+    return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+  }
+  return new Response(found.data, {
+    headers: {
+      "Content-Type": found.asset.mimeType,
+      "Content-Length": String(found.asset.size),
+      "Content-Disposition": `attachment; filename="${found.asset.fileName}"`,
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { addAsset, getCampaign } from "@/lib/campaigns";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "create");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!(await getCampaign(params.id, auth.workspace.id))) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+  const url = new URL(request.url);
+  const generationId = url.searchParams.get("generationId");
+  const fileName = url.searchParams.get("fileName") ?? "agentic-video.webm";
+  if (!generationId) {
+    return NextResponse.json({ error: "Missing generationId" }, { status: 400 });
+  }
+
+  try {
+    const data = new Uint8Array(await request.arrayBuffer());
+    if (data.byteLength === 0) {
+      return NextResponse.json({ error: "Empty upload" }, { status: 400 });
+    }
+    const asset = await addAsset(params.id, generationId, {
+      fileName,
+      mimeType: request.headers.get("content-type") ?? "application/octet-stream",
+      data,
+    });
+    return asset
+      ? NextResponse.json(asset, { status: 201 })
+      : NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  } catch (error) {
+    console.error("Failed to store asset", error);
+    return NextResponse.json({ error: "Failed to store asset." }, { status: 500 });
+  }
+}
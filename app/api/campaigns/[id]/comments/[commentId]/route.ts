@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getCampaign } from "@/lib/campaigns";
+import { resolveComment } from "@/lib/review";
+import { commentPatchSchema } from "@/lib/validation/review";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string; commentId: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Comment not found" }, { status: 404 });
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(commentPatchSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid comment update", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+    if (!(await getCampaign(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+
+    const campaign = await resolveComment(params.id, params.commentId, parsed.value.resolved);
+    return campaign ? NextResponse.json(campaign, { status: 200 }) : notFound();
+  } catch (error) {
+    console.error("Failed to update comment", error);
+    return NextResponse.json({ error: "Failed to update comment." }, { status: 500 });
+  }
+}
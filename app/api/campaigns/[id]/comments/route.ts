@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getCampaign } from "@/lib/campaigns";
+import { addComment, CommentTargetError } from "@/lib/review";
+import { commentRequestSchema } from "@/lib/validation/review";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(commentRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid comment", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+    if (!(await getCampaign(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+
+    const campaign = await addComment(params.id, parsed.value, auth.user);
+    return campaign ? NextResponse.json(campaign, { status: 201 }) : notFound();
+  } catch (error) {
+    if (error instanceof CommentTargetError) {
+      return NextResponse.json(
+        {
+          error: "Invalid comment",
+          issues: [{ path: error.path, code: "mismatch", message: error.message }],
+        },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to add comment", error);
+    return NextResponse.json({ error: "Failed to add comment." }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getCampaign } from "@/lib/campaigns";
+import { ExperimentSetupError, listExperiments, startExperiment } from "@/lib/experiments";
+import { startAnalyticsPoller } from "@/lib/analytics/worker";
+import { ApprovalRequiredError } from "@/lib/schedule";
+import { startRenderWorker } from "@/lib/render/worker";
+import { startScheduler } from "@/lib/schedule/worker";
+import { experimentRequestSchema } from "@/lib/validation/experiment";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!(await getCampaign(params.id, auth.workspace.id))) {
+    return notFound();
+  }
+  const experiments = await listExperiments({ campaignId: params.id });
+  return NextResponse.json({ experiments }, { status: 200 });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(experimentRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid A/B test", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getCampaign(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+
+    startScheduler();
+    startRenderWorker();
+    startAnalyticsPoller();
+    const started = await startExperiment(params.id, parsed.value);
+    return started ? NextResponse.json(started, { status: 201 }) : notFound();
+  } catch (error) {
+    if (error instanceof ExperimentSetupError) {
+      return NextResponse.json(
+        {
+          error: "Invalid A/B test",
+          issues: [{ path: error.path, code: "mismatch", message: error.message }],
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ApprovalRequiredError) {
+      return NextResponse.json({ error: error.message, state: error.state }, { status: 409 });
+    }
+    console.error("Failed to start A/B test", error);
+    return NextResponse.json({ error: "Failed to start A/B test." }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getCampaign } from "@/lib/campaigns";
+import { listRenderJobs, queueRenders } from "@/lib/render";
+import { startRenderWorker } from "@/lib/render/worker";
+import { renderRequestSchema } from "@/lib/validation/render";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!(await getCampaign(params.id, auth.workspace.id))) {
+    return notFound();
+  }
+  const renders = await listRenderJobs({ campaignId: params.id });
+  return NextResponse.json({ renders }, { status: 200 });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(renderRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: "Invalid render", issues: parsed.issues }, { status: 400 });
+    }
+
+    const campaign = await getCampaign(params.id, auth.workspace.id);
+    if (!campaign) {
+      return notFound();
+    }
+
+    startRenderWorker();
+    const renders = await queueRenders(campaign, parsed.value);
+    return NextResponse.json({ renders }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to queue renders", error);
+    return NextResponse.json({ error: "Failed to queue renders." }, { status: 500 });
+  }
+}
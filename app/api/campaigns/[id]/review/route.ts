@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { reviewActionPermissions } from "@/types/review";
+import { authorize } from "@/lib/auth";
+import { getCampaign } from "@/lib/campaigns";
+import { applyReviewAction, ReviewStateError } from "@/lib/review";
+import { reviewActionRequestSchema } from "@/lib/validation/review";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(reviewActionRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid review action", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+    const auth = await authorize(request, reviewActionPermissions[parsed.value.action]);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    if (!(await getCampaign(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+
+    const campaign = await applyReviewAction(params.id, parsed.value, auth.user);
+    return campaign ? NextResponse.json(campaign, { status: 200 }) : notFound();
+  } catch (error) {
+    if (error instanceof ReviewStateError) {
+      return NextResponse.json({ error: error.message, state: error.state }, { status: 409 });
+    }
+    console.error("Failed to update review", error);
+    return NextResponse.json({ error: "Failed to update review." }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { deleteCampaign, getCampaign, updateCampaign } from "@/lib/campaigns";
+import { campaignPatchSchema } from "@/lib/validation/campaign";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const campaign = await getCampaign(params.id, auth.workspace.id);
+  return campaign ? NextResponse.json(campaign, { status: 200 }) : notFound();
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(campaignPatchSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid campaign update", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+    if (!(await getCampaign(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+
+    const campaign = await updateCampaign(params.id, parsed.value, {
+      updatedBy: auth.user.displayName,
+    });
+    return campaign ? NextResponse.json(campaign, { status: 200 }) : notFound();
+  } catch (error) {
+    console.error("Failed to update campaign", error);
+    return NextResponse.json({ error: "Failed to update campaign." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "create");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!(await getCampaign(params.id, auth.workspace.id))) {
+    return notFound();
+  }
+  const removed = await deleteCampaign(params.id);
+  return removed ? new Response(null, { status: 204 }) : notFound();
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getCampaign } from "@/lib/campaigns";
+import { ApprovalRequiredError, scheduleCampaignPosts } from "@/lib/schedule";
+import { startRenderWorker } from "@/lib/render/worker";
+import { startScheduler } from "@/lib/schedule/worker";
+import { scheduleRequestSchema } from "@/lib/validation/schedule";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(scheduleRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: "Invalid schedule", issues: parsed.issues }, { status: 400 });
+    }
+
+    if (!(await getCampaign(params.id, auth.workspace.id))) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+
+    startScheduler();
+    startRenderWorker();
+    const jobs = await scheduleCampaignPosts(params.id, parsed.value);
+    return jobs
+      ? NextResponse.json({ jobs }, { status: 201 })
+      : NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  } catch (error) {
+    if (error instanceof ApprovalRequiredError) {
+      return NextResponse.json({ error: error.message, state: error.state }, { status: 409 });
+    }
+    console.error("Failed to schedule posts", error);
+    return NextResponse.json({ error: "Failed to schedule posts." }, { status: 500 });
+  }
+}
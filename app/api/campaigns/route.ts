@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { listCampaigns, saveGeneration } from "@/lib/campaigns";
+import { campaignCreateSchema } from "@/lib/validation/campaign";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const campaigns = await listCampaigns({ workspaceId: auth.workspace.id });
+  return NextResponse.json({ campaigns }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(campaignCreateSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid campaign", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await saveGeneration(parsed.value.request, parsed.value.response, {
+      workspaceId: auth.workspace.id,
+    });
+    return NextResponse.json(campaign, { status: 201 });
+  } catch (error) {
+    console.error("Failed to save campaign", error);
+    return NextResponse.json({ error: "Failed to save campaign." }, { status: 500 });
+  }
+}
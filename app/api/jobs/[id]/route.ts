@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getCampaign } from "@/lib/campaigns";
+import { applyJobAction, getJob, JobStateError } from "@/lib/schedule";
+import { jobActionSchema } from "@/lib/validation/schedule";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Job not found" }, { status: 404 });
+
+const jobIn = async (id: string, workspaceId: string) => {
+  const job = await getJob(id);
+  return job && (await getCampaign(job.campaignId, workspaceId)) ? job : null;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const job = await jobIn(params.id, auth.workspace.id);
+  return job ? NextResponse.json(job, { status: 200 }) : notFound();
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(jobActionSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: "Invalid job action", issues: parsed.issues }, { status: 400 });
+    }
+    if (parsed.value.action === "reschedule" && !parsed.value.runAt) {
+      return NextResponse.json(
+        {
+          error: "Invalid job action",
+          issues: [{ path: "runAt", code: "required", message: "runAt is required to reschedule" }],
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(await jobIn(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+
+    const job = await applyJobAction(params.id, parsed.value);
+    return job ? NextResponse.json(job, { status: 200 }) : notFound();
+  } catch (error) {
+    if (error instanceof JobStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Failed to update job", error);
+    return NextResponse.json({ error: "Failed to update job." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    if (!(await jobIn(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+    const job = await applyJobAction(params.id, { action: "cancel" });
+    return job ? NextResponse.json(job, { status: 200 }) : notFound();
+  } catch (error) {
+    if (error instanceof JobStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Failed to cancel job", error);
+    return NextResponse.json({ error: "Failed to cancel job." }, { status: 500 });
+  }
+}
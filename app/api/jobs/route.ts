@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { campaignIdsIn } from "@/lib/campaigns";
+import { listJobs } from "@/lib/schedule";
+import { startScheduler } from "@/lib/schedule/worker";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  startScheduler();
+  const campaignId = new URL(request.url).searchParams.get("campaignId") ?? undefined;
+  const jobs = await listJobs({ campaignId, campaignIds: await campaignIdsIn(auth.workspace.id) });
+  return NextResponse.json({ jobs }, { status: 200 });
+}
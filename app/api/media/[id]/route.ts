@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { deleteMedia, getMedia, readMediaFile, updateMedia } from "@/lib/media";
+import { mediaPatchSchema } from "@/lib/validation/media";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Media not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const found = await readMediaFile(params.id, auth.workspace.id);
+  if (!found) {
+    return notFound();
+  }
+  return new Response(found.data, {
+    headers: {
+      "Content-Type": found.asset.mimeType,
+      "Content-Length": String(found.asset.size),
+      "Cache-Control": "private, max-age=3600",
+      // Opened directly, the file can't run script in the app's origin.
+      "X-Content-Type-Options": "nosniff",
+      "Content-Security-Policy": "sandbox",
+    },
+  });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(mediaPatchSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid media update", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+    if (!(await getMedia(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+
+    const asset = await updateMedia(params.id, parsed.value);
+    return asset ? NextResponse.json(asset, { status: 200 }) : notFound();
+  } catch (error) {
+    console.error("Failed to update media", error);
+    return NextResponse.json({ error: "Failed to update media." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "create");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!(await getMedia(params.id, auth.workspace.id))) {
+    return notFound();
+  }
+  const removed = await deleteMedia(params.id);
+  return removed ? new Response(null, { status: 204 }) : notFound();
+}
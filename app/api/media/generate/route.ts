@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { createImageGenerator, generateMedia, readMediaConfig } from "@/lib/media";
+import { generateImageSchema } from "@/lib/validation/media";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "create");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const generator = createImageGenerator(readMediaConfig());
+  if (!generator) {
+    return NextResponse.json({ error: "No image generator is configured." }, { status: 501 });
+  }
+  try {
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(generateImageSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid image request", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const asset = await generateMedia(generator, parsed.value, auth.workspace.id, {
+      signal: request.signal,
+    });
+    return NextResponse.json(asset, { status: 201 });
+  } catch (error) {
+    console.error("Image generation failed", error);
+    return NextResponse.json({ error: "Image generation failed." }, { status: 502 });
+  }
+}
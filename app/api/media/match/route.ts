@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { matchVisuals } from "@/lib/media";
+import { visualMatchSchema } from "@/lib/validation/media";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(visualMatchSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid visual match request", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const matches = await matchVisuals(parsed.value.directions, auth.workspace.id);
+    return NextResponse.json({ matches }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to match visuals", error);
+    return NextResponse.json({ error: "Failed to match visuals." }, { status: 500 });
+  }
+}
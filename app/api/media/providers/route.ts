@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { createImageGenerator, createStockProvider, readMediaConfig } from "@/lib/media";
+import type { MediaProviders } from "@/types/media";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const config = readMediaConfig();
+  const providers: MediaProviders = {
+    stock: createStockProvider(config)?.label ?? null,
+    generate: createImageGenerator(config)?.label ?? null,
+  };
+  return NextResponse.json(providers, { status: 200 });
+}
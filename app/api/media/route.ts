@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { mediaUploadTypes } from "@/types/media";
+import { authorize } from "@/lib/auth";
+import { addMedia, listMedia } from "@/lib/media";
+import { mediaKindSchema } from "@/lib/validation/media";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+const splitTags = (value: string | null) =>
+  (value ?? "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0)
+    .slice(0, 40);
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const kind = new URL(request.url).searchParams.get("kind");
+  const parsed = kind ? parse(mediaKindSchema, kind) : null;
+  if (parsed && !parsed.ok) {
+    return NextResponse.json(
+      { error: "Invalid media kind", issues: parsed.issues },
+      { status: 400 }
+    );
+  }
+  const assets = await listMedia({ workspaceId: auth.workspace.id, kind: parsed?.value });
+  return NextResponse.json({ assets }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "create");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const url = new URL(request.url);
+  const kind = parse(mediaKindSchema, url.searchParams.get("kind") ?? undefined);
+  if (!kind.ok) {
+    return NextResponse.json({ error: "Invalid media kind", issues: kind.issues }, { status: 400 });
+  }
+  const mimeType = (request.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+  if (!mediaUploadTypes[kind.value].includes(mimeType)) {
+    const expected = mediaUploadTypes[kind.value].join(", ");
+    return NextResponse.json(
+      {
+        error: "Invalid upload",
+        issues: [
+          { path: "content-type", code: "mismatch", message: `Expected one of ${expected}` },
+        ],
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const data = new Uint8Array(await request.arrayBuffer());
+    if (data.byteLength === 0) {
+      return NextResponse.json({ error: "Empty upload" }, { status: 400 });
+    }
+    const asset = await addMedia({
+      kind: kind.value,
+      fileName: url.searchParams.get("fileName") ?? `upload.${kind.value}`,
+      mimeType,
+      data,
+      description: (url.searchParams.get("description") ?? "").slice(0, 1000),
+      tags: splitTags(url.searchParams.get("tags")),
+      source: "upload",
+      workspaceId: auth.workspace.id,
+    });
+    return NextResponse.json(asset, { status: 201 });
+  } catch (error) {
+    console.error("Failed to store media", error);
+    return NextResponse.json({ error: "Failed to store media." }, { status: 500 });
+  }
+}
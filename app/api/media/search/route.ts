@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { searchMedia } from "@/lib/media";
+import { mediaKindSchema } from "@/lib/validation/media";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const params = new URL(request.url).searchParams;
+  const query = params.get("q")?.trim() ?? "";
+  if (!query) {
+    return NextResponse.json(
+      {
+        error: "Invalid media search",
+        issues: [{ path: "q", code: "required", message: "q is required" }],
+      },
+      { status: 400 }
+    );
+  }
+  const kind = params.get("kind") ? parse(mediaKindSchema, params.get("kind")) : null;
+  if (kind && !kind.ok) {
+    return NextResponse.json({ error: "Invalid media kind", issues: kind.issues }, { status: 400 });
+  }
+  const matches = await searchMedia(query.slice(0, 1000), {
+    workspaceId: auth.workspace.id,
+    kind: kind?.value,
+  });
+  return NextResponse.json({ matches }, { status: 200 });
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { createStockProvider, importStockMedia, readMediaConfig } from "@/lib/media";
+import { mediaKindSchema, stockImportSchema } from "@/lib/validation/media";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+const notConfigured = () =>
+  NextResponse.json({ error: "No stock media provider is configured." }, { status: 501 });
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const provider = createStockProvider(readMediaConfig());
+  if (!provider) {
+    return notConfigured();
+  }
+  const params = new URL(request.url).searchParams;
+  const query = params.get("q")?.trim() ?? "";
+  const kind = parse(mediaKindSchema, params.get("kind") ?? "image");
+  if (!query || !kind.ok) {
+    return NextResponse.json(
+      {
+        error: "Invalid stock search",
+        issues: kind.ok ? [{ path: "q", code: "required", message: "q is required" }] : kind.issues,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const candidates = await provider.search(
+      { query: query.slice(0, 200), kind: kind.value, limit: 15 },
+      { signal: request.signal }
+    );
+    return NextResponse.json({ candidates }, { status: 200 });
+  } catch (error) {
+    console.error("Stock search failed", error);
+    return NextResponse.json({ error: "Stock search failed." }, { status: 502 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "create");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const provider = createStockProvider(readMediaConfig());
+  if (!provider) {
+    return notConfigured();
+  }
+  try {
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(stockImportSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid stock import", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+    if (parsed.value.provider !== provider.id) {
+      return NextResponse.json(
+        {
+          error: "Invalid stock import",
+          issues: [{ path: "provider", code: "mismatch", message: "Provider is not configured" }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const { externalId, kind } = parsed.value;
+    const asset = await importStockMedia(provider, externalId, kind, auth.workspace.id, {
+      signal: request.signal,
+    });
+    return asset
+      ? NextResponse.json(asset, { status: 201 })
+      : NextResponse.json({ error: "Stock item not found" }, { status: 404 });
+  } catch (error) {
+    console.error("Failed to import stock media", error);
+    return NextResponse.json({ error: "Failed to import stock media." }, { status: 502 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getCampaign } from "@/lib/campaigns";
+import { cancelRenderJob, getRenderJob, RenderStateError } from "@/lib/render";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Render not found" }, { status: 404 });
+
+const renderIn = async (id: string, workspaceId: string) => {
+  const render = await getRenderJob(id);
+  return render && (await getCampaign(render.campaignId, workspaceId)) ? render : null;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const render = await renderIn(params.id, auth.workspace.id);
+  return render ? NextResponse.json(render, { status: 200 }) : notFound();
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    if (!(await renderIn(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+    const render = await cancelRenderJob(params.id);
+    return render ? NextResponse.json(render, { status: 200 }) : notFound();
+  } catch (error) {
+    if (error instanceof RenderStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Failed to cancel render", error);
+    return NextResponse.json({ error: "Failed to cancel render." }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { reschedulePost, SeriesPlanError } from "@/lib/series";
+import { rescheduleRequestSchema } from "@/lib/validation/series";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(rescheduleRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid reschedule", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const entries = await reschedulePost(params.id, parsed.value, auth.workspace.id);
+    return entries
+      ? NextResponse.json({ entries }, { status: 200 })
+      : NextResponse.json({ error: "Series not found" }, { status: 404 });
+  } catch (error) {
+    if (error instanceof SeriesPlanError) {
+      return NextResponse.json(
+        {
+          error: "Invalid reschedule",
+          issues: [{ path: error.path, code: "mismatch", message: error.message }],
+        },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to reschedule post", error);
+    return NextResponse.json({ error: "Failed to reschedule post." }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getSeries, seriesCalendar } from "@/lib/series";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const series = await getSeries(params.id, auth.workspace.id);
+  if (!series) {
+    return NextResponse.json({ error: "Series not found" }, { status: 404 });
+  }
+  const entries = await seriesCalendar(series);
+  return NextResponse.json({ series, entries }, { status: 200 });
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getBrand } from "@/lib/brands";
+import { createSeries, listSeries, seriesCalendar, SeriesPlanError } from "@/lib/series";
+import { getVoiceProfile } from "@/lib/voiceProfiles";
+import { AgentOutputError } from "@/lib/validation/agent";
+import { seriesRequestSchema } from "@/lib/validation/series";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const series = await listSeries({ workspaceId: auth.workspace.id });
+  return NextResponse.json({ series }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(seriesRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid series request", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const { brandId } = parsed.value;
+    const brand = brandId ? await getBrand(brandId, auth.workspace.id) : null;
+    if (brandId && !brand) {
+      return NextResponse.json(
+        {
+          error: "Invalid series request",
+          issues: [{ path: "brandId", code: "mismatch", message: "Brand kit not found" }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const { voiceProfileId } = parsed.value;
+    const voice = voiceProfileId ? await getVoiceProfile(voiceProfileId, auth.workspace.id) : null;
+    if (voiceProfileId && !voice) {
+      return NextResponse.json(
+        {
+          error: "Invalid series request",
+          issues: [
+            { path: "voiceProfileId", code: "mismatch", message: "Voice profile not found" },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const series = await createSeries(parsed.value, {
+      signal: request.signal,
+      brand,
+      voice,
+      workspaceId: auth.workspace.id,
+    });
+    const entries = await seriesCalendar(series);
+    return NextResponse.json({ series, entries }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SeriesPlanError) {
+      return NextResponse.json(
+        {
+          error: "Invalid series request",
+          issues: [{ path: error.path, code: "mismatch", message: error.message }],
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AgentOutputError) {
+      console.error("Agent returned invalid output", error.issues);
+      return NextResponse.json(
+        { error: "Agent returned an invalid episode.", issues: error.issues },
+        { status: 502 }
+      );
+    }
+    console.error("Failed to plan series", error);
+    return NextResponse.json({ error: "Failed to plan series." }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { listMetrics } from "@/lib/analytics";
+import { toCsv } from "@/lib/analytics/csv";
+import { startAnalyticsPoller } from "@/lib/analytics/worker";
+import { authorizeApiKey } from "@/lib/apiKeys";
+import { campaignIdsIn } from "@/lib/campaigns";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorizeApiKey(request, "analytics:read");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+  }
+  startAnalyticsPoller();
+  const params = new URL(request.url).searchParams;
+  const metrics = await listMetrics({
+    campaignId: params.get("campaignId") ?? undefined,
+    campaignIds: await campaignIdsIn(auth.workspace.id),
+  });
+  if (params.get("format") === "csv") {
+    return new Response(toCsv(metrics), {
+      status: 200,
+      headers: { "Content-Type": "text/csv; charset=utf-8" },
+    });
+  }
+  return NextResponse.json({ metrics }, { status: 200 });
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { authorizeApiKey } from "@/lib/apiKeys";
+import { getCampaign } from "@/lib/campaigns";
+import { listRenderJobs, queueRenders } from "@/lib/render";
+import { startRenderWorker } from "@/lib/render/worker";
+import { renderRequestSchema } from "@/lib/validation/render";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, "campaigns:read");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+  }
+  if (!(await getCampaign(params.id, auth.workspace.id))) {
+    return notFound();
+  }
+  const renders = await listRenderJobs({ campaignId: params.id });
+  return NextResponse.json({ renders }, { status: 200 });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorizeApiKey(request, "renders:write");
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(renderRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: "Invalid render", issues: parsed.issues }, { status: 400 });
+    }
+
+    const campaign = await getCampaign(params.id, auth.workspace.id);
+    if (!campaign) {
+      return notFound();
+    }
+
+    startRenderWorker();
+    const renders = await queueRenders(campaign, parsed.value);
+    return NextResponse.json({ renders }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to queue renders", error);
+    return NextResponse.json({ error: "Failed to queue renders." }, { status: 500 });
+  }
+}
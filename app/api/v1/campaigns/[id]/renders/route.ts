@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { authorizeApiKey } from "@/lib/apiKeys";
+import { addAsset, getCampaign } from "@/lib/campaigns";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, "campaigns:read");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+  }
+  const campaign = await getCampaign(params.id, auth.workspace.id);
+  return campaign ? NextResponse.json({ renders: campaign.assets }, { status: 200 }) : notFound();
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorizeApiKey(request, "renders:write");
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+    const campaign = await getCampaign(params.id, auth.workspace.id);
+    if (!campaign) {
+      return notFound();
+    }
+    const url = new URL(request.url);
+    const generationId = url.searchParams.get("generationId") ?? campaign.activeGenerationId;
+    if (!campaign.generations.some((generation) => generation.id === generationId)) {
+      return NextResponse.json({ error: "No such generation in this campaign" }, { status: 400 });
+    }
+
+    const data = new Uint8Array(await request.arrayBuffer());
+    if (data.byteLength === 0) {
+      return NextResponse.json({ error: "Empty upload" }, { status: 400 });
+    }
+    const asset = await addAsset(params.id, generationId, {
+      fileName: url.searchParams.get("fileName") ?? "agentic-video.webm",
+      mimeType: request.headers.get("content-type") ?? "application/octet-stream",
+      data,
+    });
+    return asset ? NextResponse.json(asset, { status: 201 }) : notFound();
+  } catch (error) {
+    console.error("Failed to store render", error);
+    return NextResponse.json({ error: "Failed to store render." }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { authorizeApiKey } from "@/lib/apiKeys";
+import { getCampaign } from "@/lib/campaigns";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, "campaigns:read");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+  }
+  const campaign = await getCampaign(params.id, auth.workspace.id);
+  return campaign
+    ? NextResponse.json(campaign, { status: 200 })
+    : NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { authorizeApiKey } from "@/lib/apiKeys";
+import { getCampaign } from "@/lib/campaigns";
+import { ApprovalRequiredError, listJobs, scheduleCampaignPosts } from "@/lib/schedule";
+import { startRenderWorker } from "@/lib/render/worker";
+import { startScheduler } from "@/lib/schedule/worker";
+import { scheduleRequestSchema } from "@/lib/validation/schedule";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, "campaigns:read");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+  }
+  if (!(await getCampaign(params.id, auth.workspace.id))) {
+    return notFound();
+  }
+  const jobs = await listJobs({ campaignId: params.id });
+  return NextResponse.json({ jobs }, { status: 200 });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorizeApiKey(request, "schedule:write");
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(scheduleRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid schedule", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getCampaign(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+
+    startScheduler();
+    startRenderWorker();
+    const jobs = await scheduleCampaignPosts(params.id, parsed.value);
+    return jobs ? NextResponse.json({ jobs }, { status: 201 }) : notFound();
+  } catch (error) {
+    if (error instanceof ApprovalRequiredError) {
+      return NextResponse.json({ error: error.message, state: error.state }, { status: 409 });
+    }
+    console.error("Failed to schedule posts", error);
+    return NextResponse.json({ error: "Failed to schedule posts." }, { status: 500 });
+  }
+}
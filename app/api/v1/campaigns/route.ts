@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { runAgent } from "@/lib/agent";
+import { authorizeApiKey } from "@/lib/apiKeys";
+import { getBrand } from "@/lib/brands";
+import { listCampaigns, saveGeneration } from "@/lib/campaigns";
+import { insightsFor } from "@/lib/insights";
+import { getVoiceProfile } from "@/lib/voiceProfiles";
+import { AgentOutputError, parseAgentRequest } from "@/lib/validation/agent";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorizeApiKey(request, "campaigns:read");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+  }
+  const campaigns = await listCampaigns({ workspaceId: auth.workspace.id });
+  return NextResponse.json({ campaigns }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorizeApiKey(request, "campaigns:write");
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parseAgentRequest(json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid campaign request", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const { brandId, voiceProfileId } = parsed.value;
+    const brand = brandId ? await getBrand(brandId, auth.workspace.id) : null;
+    const voice = voiceProfileId ? await getVoiceProfile(voiceProfileId, auth.workspace.id) : null;
+    const issues = [
+      ...(brandId && !brand
+        ? [{ path: "brandId", code: "mismatch", message: "Brand kit not found" }]
+        : []),
+      ...(voiceProfileId && !voice
+        ? [{ path: "voiceProfileId", code: "mismatch", message: "Voice profile not found" }]
+        : []),
+    ];
+    if (issues.length > 0) {
+      return NextResponse.json({ error: "Invalid campaign request", issues }, { status: 400 });
+    }
+
+    const insights = await insightsFor(parsed.value, auth.workspace.id);
+    const result = await runAgent(parsed.value, { signal: request.signal, brand, voice, insights });
+    const campaign = await saveGeneration(parsed.value, result, {
+      workspaceId: auth.workspace.id,
+    });
+    return NextResponse.json(campaign, { status: 201 });
+  } catch (error) {
+    if (error instanceof AgentOutputError) {
+      console.error("Agent returned invalid output", error.issues);
+      return NextResponse.json(
+        { error: "Agent returned an invalid campaign.", issues: error.issues },
+        { status: 502 }
+      );
+    }
+    console.error("Failed to generate campaign", error);
+    return NextResponse.json({ error: "Failed to generate campaign." }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { deleteVoiceProfile, getVoiceProfile, updateVoiceProfile } from "@/lib/voiceProfiles";
+import { voiceProfilePatchSchema } from "@/lib/validation/voiceProfile";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Voice profile not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const profile = await getVoiceProfile(params.id, auth.workspace.id);
+  return profile ? NextResponse.json(profile, { status: 200 }) : notFound();
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(voiceProfilePatchSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid voice profile update", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+    if (!(await getVoiceProfile(params.id, auth.workspace.id))) {
+      return notFound();
+    }
+
+    const profile = await updateVoiceProfile(params.id, parsed.value);
+    return profile ? NextResponse.json(profile, { status: 200 }) : notFound();
+  } catch (error) {
+    console.error("Failed to update voice profile", error);
+    return NextResponse.json({ error: "Failed to update voice profile." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "create");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!(await getVoiceProfile(params.id, auth.workspace.id))) {
+    return notFound();
+  }
+  const removed = await deleteVoiceProfile(params.id);
+  return removed ? new Response(null, { status: 204 }) : notFound();
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { createVoiceProfile, listVoiceProfiles } from "@/lib/voiceProfiles";
+import { voiceProfileSettingsSchema } from "@/lib/validation/voiceProfile";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const profiles = await listVoiceProfiles({ workspaceId: auth.workspace.id });
+  return NextResponse.json({ profiles }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "create");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(voiceProfileSettingsSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid voice profile", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const profile = await createVoiceProfile(parsed.value, auth.workspace.id);
+    return NextResponse.json(profile, { status: 201 });
+  } catch (error) {
+    console.error("Failed to save voice profile", error);
+    return NextResponse.json({ error: "Failed to save voice profile." }, { status: 500 });
+  }
+}
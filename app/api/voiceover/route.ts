@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { synthesizeSpeech } from "@/lib/voice";
+import { speechRequestSchema } from "@/lib/validation/voice";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    // Reviewers hear the voiceover when they preview, so any member may synthesize it.
+    const auth = await authorize(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(speechRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid voiceover request", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const audio = await synthesizeSpeech(parsed.value, { signal: request.signal });
+
+    return new Response(Buffer.from(audio.data), {
+      status: 200,
+      headers: { "Content-Type": audio.mimeType, "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Voiceover request failed", error);
+    return NextResponse.json({ error: "Failed to synthesize voiceover." }, { status: 500 });
+  }
+}
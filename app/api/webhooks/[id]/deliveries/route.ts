@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { listDeliveries } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "manage");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const deliveries = await listDeliveries(auth.workspace.id, params.id);
+  return deliveries
+    ? NextResponse.json({ deliveries }, { status: 200 })
+    : NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { deleteWebhook, updateWebhook } from "@/lib/webhooks";
+import { webhookPatchSchema } from "@/lib/validation/webhook";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "manage");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(webhookPatchSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid webhook update", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const webhook = await updateWebhook(auth.workspace.id, params.id, parsed.value);
+    return webhook ? NextResponse.json(webhook, { status: 200 }) : notFound();
+  } catch (error) {
+    console.error("Failed to update webhook", error);
+    return NextResponse.json({ error: "Failed to update webhook." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "manage");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const removed = await deleteWebhook(auth.workspace.id, params.id);
+    return removed ? new Response(null, { status: 204 }) : notFound();
+  } catch (error) {
+    console.error("Failed to delete webhook", error);
+    return NextResponse.json({ error: "Failed to delete webhook." }, { status: 500 });
+  }
+}
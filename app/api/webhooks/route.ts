@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { createWebhook, listWebhooks } from "@/lib/webhooks";
+import { startWebhookDispatcher } from "@/lib/webhooks/worker";
+import { webhookRequestSchema } from "@/lib/validation/webhook";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "manage");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const webhooks = await listWebhooks(auth.workspace.id);
+  return NextResponse.json({ webhooks }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "manage");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(webhookRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid webhook", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    startWebhookDispatcher();
+    const created = await createWebhook(auth.workspace.id, parsed.value);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create webhook", error);
+    return NextResponse.json({ error: "Failed to create webhook." }, { status: 500 });
+  }
+}
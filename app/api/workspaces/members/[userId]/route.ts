@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { listMembers, MembershipError, removeMember, setMemberRole } from "@/lib/workspaces";
+import { memberPatchSchema } from "@/lib/validation/auth";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { userId: string };
+}
+
+const notFound = () => NextResponse.json({ error: "Member not found" }, { status: 404 });
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "manage");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(memberPatchSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid member update", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await setMemberRole(auth.workspace.id, params.userId, parsed.value.role);
+    return workspace
+      ? NextResponse.json({ members: await listMembers(workspace) }, { status: 200 })
+      : notFound();
+  } catch (error) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Failed to update member", error);
+    return NextResponse.json({ error: "Failed to update member." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await authorize(request, "manage");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const workspace = await removeMember(auth.workspace.id, params.userId);
+    return workspace ? new Response(null, { status: 204 }) : notFound();
+  } catch (error) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Failed to remove member", error);
+    return NextResponse.json({ error: "Failed to remove member." }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { AccountError, authorize } from "@/lib/auth";
+import { addMember, listMembers, MembershipError } from "@/lib/workspaces";
+import { memberRequestSchema } from "@/lib/validation/auth";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const members = await listMembers(auth.workspace);
+  return NextResponse.json({ members }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "manage");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(memberRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: "Invalid member", issues: parsed.issues }, { status: 400 });
+    }
+
+    const workspace = await addMember(auth.workspace.id, parsed.value);
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+    return NextResponse.json({ members: await listMembers(workspace) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof MembershipError && error.path) {
+      return NextResponse.json(
+        {
+          error: "Invalid member",
+          issues: [{ path: error.path, code: "required", message: error.message }],
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof MembershipError || error instanceof AccountError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Failed to add member", error);
+    return NextResponse.json({ error: "Failed to add member." }, { status: 500 });
+  }
+}
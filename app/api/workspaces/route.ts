@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authorize, openSession, SESSION_COOKIE, sessionCookieOptions } from "@/lib/auth";
+import { createWorkspace } from "@/lib/workspaces";
+import { workspaceCreateRequestSchema } from "@/lib/validation/auth";
+import { parse } from "@/lib/validation/schema";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const json = await request.json().catch(() => undefined);
+    const parsed = parse(workspaceCreateRequestSchema, json);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid workspace", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await createWorkspace(parsed.value.name, auth.user.id);
+    const opened = (await openSession(auth.user, workspace.id))!;
+    const response = NextResponse.json(opened.session, { status: 201 });
+    response.cookies.set(SESSION_COOKIE, opened.token, sessionCookieOptions());
+    return response;
+  } catch (error) {
+    console.error("Failed to create workspace", error);
+    return NextResponse.json({ error: "Failed to create workspace." }, { status: 500 });
+  }
+}
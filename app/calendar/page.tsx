@@ -0,0 +1,11 @@
+import { SeriesPlanner } from "@/components/SeriesPlanner";
+import { WorkspaceBar } from "@/components/WorkspaceBar";
+
+export default function CalendarPage() {
+  return (
+    <main>
+      <WorkspaceBar />
+      <SeriesPlanner />
+    </main>
+  );
+}
@@ -0,0 +1,18 @@
+import { SignInForm } from "@/components/SignInForm";
+
+interface LoginPageProps {
+  searchParams: { next?: string };
+}
+
+export default function LoginPage({ searchParams }: LoginPageProps) {
+  // Only same-site paths, so the link can't bounce someone to another origin after sign-in.
+  const next =
+    searchParams.next?.startsWith("/") && !searchParams.next.startsWith("//")
+      ? searchParams.next
+      : "/";
+  return (
+    <main>
+      <SignInForm next={next} />
+    </main>
+  );
+}
@@ -1,10 +1,74 @@
 "use client";
 
-import { FormEvent, useMemo, useState } from "react";
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import clsx from "clsx";
-import type { AgentResponse, Platform } from "@/types/agent";
+import {
+  lengthBounds,
+  variantBounds,
+  type AgentResponse,
+  type AgentStreamEvent,
+  type Platform,
+  type RegenerateTarget,
+  type ScenePlan,
+  type SocialPostPlan,
+} from "@/types/agent";
+import type { Campaign, CampaignSummary } from "@/types/campaign";
+import type { SessionInfo } from "@/types/workspace";
+import {
+  AgentRequestError,
+  requestRegenerate,
+  requestTranslation,
+  streamAgentRun,
+} from "@/lib/agent/client";
+import {
+  assetUrl,
+  createCampaign,
+  fetchCampaign,
+  fetchCampaigns,
+  patchCampaign,
+  removeCampaign,
+  uploadAsset,
+} from "@/lib/campaigns/client";
+import { defaultSoundtrack, type SoundtrackSettings } from "@/lib/audio/soundtrack";
+import { fetchBrand, loadBrandStyle } from "@/lib/brands/client";
+import { fetchVoiceProfile } from "@/lib/voiceProfiles/client";
+import { matchVisuals } from "@/lib/media/client";
+import { withBrandCards, type SceneStyle } from "@/lib/video/scene";
+import { lintContextFor } from "@/lib/rules";
+import { totalDuration } from "@/lib/timeline";
+import { selectVariant } from "@/lib/agent/variants";
+import {
+  liveKey,
+  localizationFor,
+  localizeResponse,
+  mergeLocalizedEdit,
+  sourceLocale,
+  textDirection,
+} from "@/lib/localization";
+import type { LintContext } from "@/types/lint";
+import { localeBounds, localeNames, locales, type Locale } from "@/types/locale";
+import type { BrandKit } from "@/types/brand";
+import type { VoiceProfile } from "@/types/voiceProfile";
+import type { JobActionRequest, PublishJob } from "@/types/schedule";
+import { fetchJobs, localTimeZone, schedulePosts, updateJob } from "@/lib/schedule/client";
+import { can } from "@/lib/auth/roles";
+import { canPublish, reviewStateOf } from "@/lib/review/state";
 import { VideoComposer } from "./VideoComposer";
 import { SocialPlanner } from "./SocialPlanner";
+import { CampaignHistory } from "./CampaignHistory";
+import { SceneCards } from "./SceneCards";
+import { SceneTimeline } from "./SceneTimeline";
+import { GenerationCompare } from "./GenerationCompare";
+import { SoundtrackPanel } from "./SoundtrackPanel";
+import { BrandKitPanel } from "./BrandKitPanel";
+import { VoiceProfilePanel } from "./VoiceProfilePanel";
+import { AnalyticsPanel } from "./AnalyticsPanel";
+import { HookRationaleCard } from "./HookRationaleCard";
+import { VariantPanel } from "./VariantPanel";
+import { LocalizationBar } from "./LocalizationBar";
+import { ReviewPanel } from "./ReviewPanel";
+import { RenderQueue } from "./RenderQueue";
+import { WorkspaceBar } from "./WorkspaceBar";
 
 interface FormState {
   idea: string;
@@ -12,17 +76,56 @@ interface FormState {
   lengthSeconds: number;
   targetAudience: string;
   platforms: Platform[];
+  brandId?: string;
+  voiceProfileId?: string;
+  learnFromResults?: boolean;
+  variants?: number;
+  locales?: Locale[];
 }
 
-const tones = [
-  "Energetic",
-  "Educational",
-  "Inspirational",
-  "Persuasive",
-  "Playful",
-  "Analytical",
+interface DraftResponse {
+  hook?: string;
+  script?: string;
+  scenes: ScenePlan[];
+  socialPosts: SocialPostPlan[];
+  talkingPoints?: string[];
+}
+
+const emptyDraft: DraftResponse = { scenes: [], socialPosts: [] };
+
+const applyEvent = (draft: DraftResponse, event: AgentStreamEvent): DraftResponse => {
+  switch (event.type) {
+    case "hook":
+      return { ...draft, hook: event.hook };
+    case "script":
+      return { ...draft, script: event.script };
+    case "scene": {
+      const scenes = [...draft.scenes];
+      scenes[event.index] = event.scene;
+      return { ...draft, scenes };
+    }
+    case "socialPost": {
+      const socialPosts = [...draft.socialPosts];
+      socialPosts[event.index] = event.post;
+      return { ...draft, socialPosts };
+    }
+    case "talkingPoints":
+      return { ...draft, talkingPoints: event.talkingPoints };
+    default:
+      return draft;
+  }
+};
+
+const stages: { key: string; label: string; done: (draft: DraftResponse) => boolean }[] = [
+  { key: "hook", label: "Hook", done: (draft) => Boolean(draft.hook) },
+  { key: "script", label: "Script", done: (draft) => Boolean(draft.script) },
+  { key: "scenes", label: "Scenes", done: (draft) => draft.scenes.length > 0 },
+  { key: "posts", label: "Posts", done: (draft) => draft.socialPosts.length > 0 },
+  { key: "points", label: "Talking points", done: (draft) => Boolean(draft.talkingPoints) },
 ];
 
+const variantCounts = Array.from({ length: variantBounds.max }, (_, index) => index + 1);
+
 const defaultState: FormState = {
   idea: "How AI can automate your weekly content calendar",
   tone: "Energetic",
@@ -42,12 +145,209 @@ export const AgentDashboard = () => {
   const [form, setForm] = useState<FormState>(defaultState);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [result, setResult] = useState<AgentResponse | null>(null);
+  const [draft, setDraft] = useState<DraftResponse | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(true);
+  const [campaign, setCampaign] = useState<Campaign | null>(null);
+  const [renderVersion, setRenderVersion] = useState(0);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [regenerating, setRegenerating] = useState<RegenerateTarget | null>(null);
+  const [matchingVisuals, setMatchingVisuals] = useState(false);
+  // The translation on screen; null shows the source language.
+  const [viewLocale, setViewLocale] = useState<Locale | null>(null);
+  const [translating, setTranslating] = useState<Locale | null>(null);
+  const [soundtrack, setSoundtrack] = useState<SoundtrackSettings>(defaultSoundtrack);
+  const [brand, setBrand] = useState<BrandKit | null>(null);
+  const [voiceProfile, setVoiceProfile] = useState<VoiceProfile | null>(null);
+  const [jobs, setJobs] = useState<PublishJob[]>([]);
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const jobsRef = useRef<PublishJob[]>([]);
+  const [brandStyle, setBrandStyle] = useState<SceneStyle | undefined>(undefined);
+  const abortRef = useRef<AbortController | null>(null);
+  const campaignRef = useRef<Campaign | null>(null);
+
+  const localization = result && viewLocale ? localizationFor(result, viewLocale) : null;
+  const shown = useMemo(
+    () => (result ? localizeResponse(result, localization) : null),
+    [result, localization]
+  );
+  const view: DraftResponse | null = shown ?? draft;
+  // Translated posts, jobs and renders are tracked apart from the source language's.
+  const locale = localization?.locale;
+  // Reviewers read, comment and approve; only creators and admins change or schedule campaigns.
+  const creates = session ? can(session.role, "create") : false;
+  const approved = campaign ? canPublish(reviewStateOf(campaign)) : false;
+
+  useEffect(() => {
+    campaignRef.current = campaign;
+  }, [campaign]);
+
+  const refreshHistory = useCallback(async () => {
+    try {
+      setCampaigns(await fetchCampaigns());
+    } catch (err) {
+      console.warn("Failed to load campaign history", err);
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
+  const activeGeneration = useMemo(
+    () =>
+      campaign?.generations.find((generation) => generation.id === campaign.activeGenerationId) ??
+      null,
+    [campaign]
+  );
+
+  const brandId = (activeGeneration?.request ?? form).brandId;
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!brandId) {
+      setBrand(null);
+      return;
+    }
+    fetchBrand(brandId)
+      .then((loaded) => !cancelled && setBrand(loaded))
+      .catch((err) => console.warn("Failed to load brand kit", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [brandId]);
+
+  const voiceProfileId = (activeGeneration?.request ?? form).voiceProfileId;
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!voiceProfileId) {
+      setVoiceProfile(null);
+      return;
+    }
+    fetchVoiceProfile(voiceProfileId)
+      .then((loaded) => !cancelled && setVoiceProfile(loaded))
+      .catch((err) => console.warn("Failed to load voice profile", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [voiceProfileId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!brand) {
+      setBrandStyle(undefined);
+      return;
+    }
+    loadBrandStyle(brand)
+      .then((style) => !cancelled && setBrandStyle(style))
+      .catch((err) => console.warn("Failed to load brand fonts or logo", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [brand]);
+
+  const campaignId = campaign?.id;
+
+  const refreshJobs = useCallback(
+    async (id: string) => {
+      const next = await fetchJobs(id);
+      const published = next.some(
+        (job) =>
+          job.status === "published" &&
+          jobsRef.current.some((item) => item.id === job.id && item.status !== "published")
+      );
+      jobsRef.current = next;
+      setJobs(next);
+      // A post went live server-side; pick up the campaign's new published list.
+      if (published) {
+        setCampaign(await fetchCampaign(id));
+        await refreshHistory();
+      }
+    },
+    [refreshHistory]
+  );
+
+  const hasActiveJobs = jobs.some((job) => job.status === "queued" || job.status === "running");
+
+  useEffect(() => {
+    if (!campaignId) {
+      jobsRef.current = [];
+      setJobs([]);
+      return;
+    }
+    refreshJobs(campaignId).catch((err) => console.warn("Failed to load publish jobs", err));
+  }, [campaignId, refreshJobs]);
+
+  useEffect(() => {
+    if (!campaignId || !hasActiveJobs) {
+      return;
+    }
+    const timer = setInterval(() => {
+      refreshJobs(campaignId).catch((err) => console.warn("Failed to refresh publish jobs", err));
+    }, 10_000);
+    return () => clearInterval(timer);
+  }, [campaignId, hasActiveJobs, refreshJobs]);
+
+  // A server render was saved; pick up the campaign's new asset.
+  const handleServerRender = useCallback(() => {
+    if (!campaignId) {
+      return;
+    }
+    fetchCampaign(campaignId)
+      .then(setCampaign)
+      .catch((err) => console.warn("Failed to reload the campaign", err));
+  }, [campaignId]);
+
+  const savedRenders = useMemo(
+    () =>
+      campaign && activeGeneration
+        ? campaign.assets.filter((asset) => asset.generationId === activeGeneration.id)
+        : [],
+    [campaign, activeGeneration]
+  );
+
+  const lintContext = useMemo(() => {
+    const plannedSeconds = totalDuration(withBrandCards(view?.scenes ?? [], brandStyle));
+    return Object.fromEntries(
+      (view?.socialPosts ?? []).map((post) => [
+        post.platform,
+        campaign
+          ? lintContextFor(post.platform, savedRenders, plannedSeconds, locale)
+          : { plannedSeconds },
+      ])
+    ) as Partial<Record<Platform, LintContext>>;
+  }, [view, brandStyle, campaign, savedRenders, locale]);
+
+  const pendingPosts = useMemo(() => {
+    const posts = view?.socialPosts ?? [];
+    if (!campaign) {
+      return posts;
+    }
+    const live = new Set(campaign.published.map(liveKey));
+    return posts.filter((post) => !live.has(liveKey({ platform: post.platform, locale })));
+  }, [view, campaign, locale]);
+
+  const localeJobs = useMemo(() => jobs.filter((job) => job.locale === locale), [jobs, locale]);
+  const localePublished = useMemo(
+    () => campaign?.published.filter((post) => post.locale === locale),
+    [campaign, locale]
+  );
+
+  const language = locale ?? sourceLocale(activeGeneration?.request ?? form);
+  const direction = textDirection(language);
+  const formSource = sourceLocale(form);
+  const formTranslations = (form.locales ?? []).slice(1);
 
   const hookPreview = useMemo(
-    () => result?.hook ?? "Give me a topic and I\'ll orchestrate everything for you.",
-    [result]
+    () => view?.hook ?? "Give me a topic and I\'ll orchestrate everything for you.",
+    [view]
   );
 
   const togglePlatform = (platform: Platform) => {
@@ -60,174 +360,778 @@ export const AgentDashboard = () => {
     });
   };
 
+  const setSourceLanguage = (next: Locale) =>
+    setForm((prev) => ({
+      ...prev,
+      locales: [next, ...(prev.locales ?? []).slice(1).filter((item) => item !== next)],
+    }));
+
+  const toggleTranslation = (target: Locale) =>
+    setForm((prev) => {
+      const [source = "en", ...rest] = prev.locales ?? [];
+      const next = rest.includes(target)
+        ? rest.filter((item) => item !== target)
+        : [...rest, target];
+      return { ...prev, locales: [source, ...next] };
+    });
+
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
     setError(null);
+    setFieldErrors({});
     setVideoUrl(null);
+    setResult(null);
+    setCampaign(null);
+    setViewLocale(null);
+    setDraft(emptyDraft);
+    const submitted = form;
     try {
-      const response = await fetch("/api/agent", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(form),
+      await streamAgentRun(submitted, {
+        signal: controller.signal,
+        onEvent: (agentEvent) => {
+          if (agentEvent.type === "done") {
+            setResult(agentEvent.response);
+            setDirty(false);
+            setRenderVersion((prev) => prev + 1);
+            createCampaign(submitted, agentEvent.response)
+              .then((saved) => {
+                setCampaign(saved);
+                return refreshHistory();
+              })
+              .catch((err) => console.warn("Failed to save campaign", err));
+          } else if (agentEvent.type === "error") {
+            setError(agentEvent.error);
+          } else {
+            setDraft((prev) => applyEvent(prev ?? emptyDraft, agentEvent));
+          }
+        },
       });
-      if (!response.ok) {
-        const payload = await response.json();
-        throw new Error(payload.error ?? "Failed to generate");
-      }
-      const payload = (await response.json()) as AgentResponse;
-      setResult(payload);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Unable to complete request");
+      if (controller.signal.aborted) {
+        setError("Run cancelled.");
+      } else if (err instanceof AgentRequestError && err.issues.length > 0) {
+        setDraft(null);
+        setError(err.message);
+        setFieldErrors(
+          err.issues.reduce<Record<string, string>>((acc, issue) => {
+            const field = issue.path.split(/[.[]/)[0];
+            acc[field] = acc[field] ?? issue.message;
+            return acc;
+          }, {})
+        );
+      } else {
+        setError(err instanceof Error ? err.message : "Unable to complete request");
+      }
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleOpenCampaign = async (id: string) => {
+    if (loading) {
+      return;
+    }
+    try {
+      const opened = await fetchCampaign(id);
+      const generation =
+        opened.generations.find((item) => item.id === opened.activeGenerationId) ??
+        opened.generations[opened.generations.length - 1];
+      setCampaign(opened);
+      setForm(generation.request);
+      setResult(generation.response);
+      setViewLocale(null);
+      setDirty(false);
+      setRenderVersion((prev) => prev + 1);
+      setDraft(null);
+      setVideoUrl(null);
+      setError(null);
+      setFieldErrors({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to open campaign");
+    }
+  };
+
+  // The content calendar links episodes here as /?campaign=<id>.
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("campaign");
+    if (id) {
+      handleOpenCampaign(id);
+    }
+  }, []);
+
+  const handleDeleteCampaign = async (id: string) => {
+    try {
+      await removeCampaign(id);
+      if (campaignRef.current?.id === id) {
+        setCampaign(null);
+      }
+      await refreshHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to delete campaign");
+    }
+  };
+
+  const storeRender = useCallback(
+    async (url: string, fileName: string) => {
+      const current = campaignRef.current;
+      if (!current || !creates) {
+        return;
+      }
+      try {
+        const blob = await (await fetch(url)).blob();
+        const asset = await uploadAsset(
+          current.id,
+          current.activeGenerationId,
+          blob,
+          fileName
+        );
+        setCampaign((prev) =>
+          prev && prev.id === current.id ? { ...prev, assets: [...prev.assets, asset] } : prev
+        );
+      } catch (err) {
+        console.warn("Failed to store rendered video", err);
+      }
+    },
+    [creates]
+  );
+
+  const handleVideoReady = useCallback(
+    (url: string, fileName: string) => {
+      setVideoUrl(url);
+      void storeRender(url, fileName);
+    },
+    [storeRender]
+  );
+
+  // Edits made while a translation is on screen change that translation's copy.
+  const editResult = (apply: (response: AgentResponse) => AgentResponse) => {
+    setResult((prev) => {
+      if (!prev) {
+        return prev;
+      }
+      const current = viewLocale && localizationFor(prev, viewLocale);
+      return current
+        ? mergeLocalizedEdit(prev, apply(localizeResponse(prev, current)), current.locale)
+        : apply(prev);
+    });
+    setDirty(true);
+  };
+
+  const handleScriptChange = (index: number, value: string) =>
+    editResult((prev) => {
+      const paragraphs = prev.script.split(/\n\n+/);
+      paragraphs[index] = value;
+      return { ...prev, script: paragraphs.join("\n\n") };
+    });
+
+  const handleSceneChange = (index: number, patch: Partial<ScenePlan>) =>
+    editResult((prev) => ({
+      ...prev,
+      scenes: prev.scenes.map((scene, position) =>
+        position === index ? { ...scene, ...patch } : scene
+      ),
+    }));
+
+  // Fills scenes that have no visual yet from the library; picked visuals are left alone.
+  const handleMatchVisuals = async () => {
+    if (!result) {
+      return;
+    }
+    setMatchingVisuals(true);
+    setError(null);
+    try {
+      const matches = await matchVisuals(result.scenes.map((scene) => scene.visualDirection));
+      if (!matches.some((match, index) => match && !result.scenes[index].visual)) {
+        setError("No library visuals are close enough to these scenes yet.");
+        return;
+      }
+      editResult((prev) => ({
+        ...prev,
+        scenes: prev.scenes.map((scene, index) => {
+          const match = matches[index];
+          return scene.visual || !match
+            ? scene
+            : { ...scene, visual: { assetId: match.asset.id, kind: match.asset.kind } };
+        }),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to match visuals");
+    } finally {
+      setMatchingVisuals(false);
+    }
+  };
+
+  const handlePostChange = (platform: Platform, patch: Partial<SocialPostPlan>) =>
+    editResult((prev) => ({
+      ...prev,
+      socialPosts: prev.socialPosts.map((post) =>
+        post.platform === platform ? { ...post, ...patch } : post
+      ),
+    }));
+
+  const handleRegenerate = async (target: RegenerateTarget) => {
+    if (!result) {
+      return;
+    }
+    setRegenerating(target);
+    setError(null);
+    try {
+      const rewrite = await requestRegenerate({
+        request: activeGeneration?.request ?? form,
+        response: result,
+        target,
+      });
+      if (rewrite.kind === "scene") {
+        handleSceneChange(rewrite.index, rewrite.scene);
+      } else {
+        handlePostChange(rewrite.post.platform, rewrite.post);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to regenerate");
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleSaveEdits = async () => {
+    const current = campaignRef.current;
+    if (!current || !result) {
+      return;
+    }
+    setSaving(true);
+    try {
+      setCampaign(await patchCampaign(current.id, { response: result }));
+      setDirty(false);
+      // Saved copy goes back to draft if it had been reviewed.
+      await refreshHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save edits");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSchedule = async (platforms: Platform[], options: { now?: boolean } = {}) => {
+    if (!campaignId) {
+      return;
+    }
+    try {
+      await schedulePosts(campaignId, {
+        timeZone: localTimeZone(),
+        platforms,
+        now: options.now,
+        locale,
+      });
+      await refreshJobs(campaignId);
+      setCampaign(await fetchCampaign(campaignId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to schedule posts");
+    }
+  };
+
+  // Translates the source copy into `target`, replacing an earlier translation there.
+  const handleTranslate = async (target: Locale) => {
+    if (!result) {
+      return;
+    }
+    setTranslating(target);
+    setError(null);
+    try {
+      const translated = await requestTranslation({
+        request: activeGeneration?.request ?? form,
+        response: result,
+        locale: target,
+      });
+      setResult((prev) => {
+        if (!prev) {
+          return prev;
+        }
+        const existing = prev.localizations ?? [];
+        const localizations = existing.some((item) => item.locale === target)
+          ? existing.map((item) => (item.locale === target ? translated : item))
+          : [...existing, translated];
+        return { ...prev, localizations };
+      });
+      setDirty(true);
+      setViewLocale(target);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to translate");
+    } finally {
+      setTranslating(null);
+    }
+  };
+
+  const handleAnalyticsChange = async () => {
+    if (!campaignId) {
+      return;
+    }
+    try {
+      setCampaign(await fetchCampaign(campaignId));
+    } catch (err) {
+      console.warn("Failed to reload campaign analytics", err);
+    }
+  };
+
+  const handleReviewChange = (updated: Campaign) => {
+    setCampaign(updated);
+    refreshHistory();
+  };
+
+  const handleJobAction = async (job: PublishJob, action: JobActionRequest) => {
+    try {
+      await updateJob(job.id, action);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update the scheduled post");
+    } finally {
+      await refreshJobs(job.campaignId).catch(() => undefined);
+    }
+  };
+
   return (
-    <div className="shell">
-      <section className="hero">
-        <div>
-          <h1>Agentic Creator Studio</h1>
-          <p>
-            Deploy an autonomous creative director that writes viral-ready scripts, renders motion
-            graphics, and queues optimized posts across your social ecosystem.
-          </p>
-          <div className="hook">
-            <span className="label">Live hook</span>
-            <span className="value">{hookPreview}</span>
+    <div className="layout">
+      <WorkspaceBar onSession={setSession} />
+      <CampaignHistory
+        campaigns={campaigns}
+        activeId={campaign?.id ?? null}
+        loading={historyLoading}
+        onOpen={handleOpenCampaign}
+        onDelete={creates ? handleDeleteCampaign : undefined}
+      />
+      <div className="shell">
+        <section className="hero">
+          <div>
+            <h1>Agentic Creator Studio</h1>
+            <p>
+              Deploy an autonomous creative director that writes viral-ready scripts, renders motion
+              graphics, and queues optimized posts across your social ecosystem.
+            </p>
+            <div className="hook">
+              <span className="label">Live hook</span>
+              <span className="value">{hookPreview}</span>
+            </div>
+            <a href="/calendar" className="calendar-link">
+              Plan a multi-week series →
+            </a>
           </div>
-        </div>
-        <div className="glow" aria-hidden />
-      </section>
-
-      <form className="control" onSubmit={handleSubmit}>
-        <div className="field">
-          <label htmlFor="idea">Campaign focus</label>
-          <textarea
-            id="idea"
-            rows={3}
-            value={form.idea}
-            onChange={(event) => setForm((prev) => ({ ...prev, idea: event.target.value }))}
-            placeholder="Ex: Launching a new AI-powered video assistant"
-            required
-          />
-        </div>
-        <div className="grid">
+          <div className="glow" aria-hidden />
+        </section>
+
+        <form className="control" onSubmit={handleSubmit}>
           <div className="field">
-            <label htmlFor="tone">Voice profile</label>
+            <label htmlFor="idea">Campaign focus</label>
+            <textarea
+              id="idea"
+              className={clsx({ invalid: fieldErrors.idea })}
+              rows={3}
+              value={form.idea}
+              onChange={(event) => setForm((prev) => ({ ...prev, idea: event.target.value }))}
+              placeholder="Ex: Launching a new AI-powered video assistant"
+              required
+            />
+            {fieldErrors.idea && <span className="field-error">{fieldErrors.idea}</span>}
+          </div>
+          <div className="field">
+            <VoiceProfilePanel
+              tone={form.tone}
+              voiceProfileId={form.voiceProfileId}
+              invalid={Boolean(fieldErrors.tone || fieldErrors.voiceProfileId)}
+              onSelect={(selection) =>
+                setForm((prev) => ({
+                  ...prev,
+                  tone: selection.tone,
+                  voiceProfileId: selection.voiceProfileId,
+                }))
+              }
+              onSaved={(saved) => saved.id === voiceProfileId && setVoiceProfile(saved)}
+            />
+            {(fieldErrors.tone || fieldErrors.voiceProfileId) && (
+              <span className="field-error">{fieldErrors.tone || fieldErrors.voiceProfileId}</span>
+            )}
+          </div>
+          <div className="grid">
+            <div className="field">
+              <label htmlFor="length">Video length (seconds)</label>
+              <input
+                id="length"
+                type="number"
+                className={clsx({ invalid: fieldErrors.lengthSeconds })}
+                min={lengthBounds.min}
+                max={lengthBounds.max}
+                value={form.lengthSeconds}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, lengthSeconds: Number(event.target.value) }))
+                }
+              />
+              {fieldErrors.lengthSeconds && (
+                <span className="field-error">{fieldErrors.lengthSeconds}</span>
+              )}
+            </div>
+            <div className="field">
+              <label htmlFor="variants">Hook &amp; caption variants</label>
+              <select
+                id="variants"
+                value={form.variants ?? 1}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, variants: Number(event.target.value) }))
+                }
+              >
+                {variantCounts.map((count) => (
+                  <option key={count} value={count}>
+                    {count === 1 ? "Single take" : `${count} variants`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="field">
+              <label htmlFor="audience">Target audience</label>
+              <input
+                id="audience"
+                className={clsx({ invalid: fieldErrors.targetAudience })}
+                value={form.targetAudience}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, targetAudience: event.target.value }))
+                }
+                placeholder="Product builders, creators, coaches…"
+                required
+              />
+              {fieldErrors.targetAudience && (
+                <span className="field-error">{fieldErrors.targetAudience}</span>
+              )}
+            </div>
+          </div>
+          <div className="field">
+            <span className="label">Distribution channels</span>
+            <div className={clsx("platforms", { invalid: fieldErrors.platforms })}>
+              {platformBadges.map((platform) => {
+                const active = form.platforms.includes(platform.value);
+                return (
+                  <button
+                    key={platform.value}
+                    type="button"
+                    className={clsx({ active })}
+                    onClick={() => togglePlatform(platform.value)}
+                  >
+                    {platform.label}
+                  </button>
+                );
+              })}
+            </div>
+            {fieldErrors.platforms && <span className="field-error">{fieldErrors.platforms}</span>}
+          </div>
+          <div className="field">
+            <label htmlFor="language">Language</label>
             <select
-              id="tone"
-              value={form.tone}
-              onChange={(event) => setForm((prev) => ({ ...prev, tone: event.target.value }))}
+              id="language"
+              value={formSource}
+              onChange={(event) => setSourceLanguage(event.target.value as Locale)}
             >
-              {tones.map((tone) => (
-                <option key={tone}>{tone}</option>
+              {locales.map((item) => (
+                <option key={item} value={item}>
+                  {localeNames[item]}
+                </option>
               ))}
             </select>
+            <span className="label">Also translate to</span>
+            <div className={clsx("platforms", { invalid: fieldErrors.locales })}>
+              {locales
+                .filter((item) => item !== formSource)
+                .map((item) => {
+                  const active = formTranslations.includes(item);
+                  return (
+                    <button
+                      key={item}
+                      type="button"
+                      className={clsx({ active })}
+                      onClick={() => toggleTranslation(item)}
+                      disabled={!active && formTranslations.length + 1 >= localeBounds.max}
+                    >
+                      {localeNames[item]}
+                    </button>
+                  );
+                })}
+            </div>
+            {fieldErrors.locales && <span className="field-error">{fieldErrors.locales}</span>}
           </div>
           <div className="field">
-            <label htmlFor="length">Video length (seconds)</label>
-            <input
-              id="length"
-              type="number"
-              min={30}
-              max={120}
-              value={form.lengthSeconds}
-              onChange={(event) =>
-                setForm((prev) => ({ ...prev, lengthSeconds: Number(event.target.value) }))
-              }
+            <BrandKitPanel
+              brandId={form.brandId}
+              onSelect={(id) => setForm((prev) => ({ ...prev, brandId: id }))}
+              onSaved={(saved) => saved.id === brandId && setBrand(saved)}
             />
+            {fieldErrors.brandId && <span className="field-error">{fieldErrors.brandId}</span>}
           </div>
-          <div className="field">
-            <label htmlFor="audience">Target audience</label>
+          <label className="check">
             <input
-              id="audience"
-              value={form.targetAudience}
+              type="checkbox"
+              checked={form.learnFromResults !== false}
               onChange={(event) =>
-                setForm((prev) => ({ ...prev, targetAudience: event.target.value }))
+                setForm((prev) => ({ ...prev, learnFromResults: event.target.checked }))
               }
-              placeholder="Product builders, creators, coaches…"
-              required
             />
+            Learn from past results: steer hooks and posting times by what performed before
+          </label>
+          <div className="actions">
+            <button type="submit" disabled={loading || !creates}>
+              {loading ? "Assembling agent…" : "Launch campaign"}
+            </button>
+            {loading && (
+              <button type="button" className="cancel" onClick={handleCancel}>
+                Cancel
+              </button>
+            )}
+            {error && <span className="error">{error}</span>}
           </div>
-        </div>
-        <div className="field">
-          <span className="label">Distribution channels</span>
-          <div className="platforms">
-            {platformBadges.map((platform) => {
-              const active = form.platforms.includes(platform.value);
-              return (
-                <button
-                  key={platform.value}
-                  type="button"
-                  className={clsx({ active })}
-                  onClick={() => togglePlatform(platform.value)}
-                >
-                  {platform.label}
-                </button>
-              );
-            })}
-          </div>
-        </div>
-        <div className="actions">
-          <button type="submit" disabled={loading}>
-            {loading ? "Assembling agent…" : "Launch campaign"}
-          </button>
-          {error && <span className="error">{error}</span>}
-        </div>
-      </form>
-
-      {result && (
-        <section className="output">
-          <div className="panel script">
-            <header>
-              <h2>Script dossier</h2>
-              <p>Ready-to-read voiceover. Tweak copy inline before recording.</p>
-            </header>
-            <article>
-              {result.script.split(/\n\n+/).map((paragraph, index) => (
-                <p key={index}>{paragraph}</p>
+          {loading && draft && (
+            <ol className="stages">
+              {stages.map((stage) => (
+                <li key={stage.key} className={clsx({ done: stage.done(draft) })}>
+                  {stage.label}
+                </li>
               ))}
-            </article>
-            <aside>
-              <h3>Talking points</h3>
-              <ul>
-                {result.talkingPoints.map((point, index) => (
-                  <li key={index}>{point}</li>
-                ))}
-              </ul>
-            </aside>
-          </div>
-          <div className="panel video">
-            <header>
-              <h2>Auto video render</h2>
-              <p>Each scene is storyboarded and stylized for vertical delivery.</p>
-            </header>
-            <VideoComposer scenes={result.scenes} onVideoReady={setVideoUrl} />
-            <div className="scene-grid">
-              {result.scenes.map((scene, index) => (
-                <div key={scene.id} className="scene">
-                  <span className="index">Scene {index + 1}</span>
-                  <h4>{scene.title}</h4>
-                  <p>{scene.narration}</p>
-                  <div className="visual">{scene.visualDirection}</div>
+            </ol>
+          )}
+        </form>
+
+        {view && (
+          <section className="output">
+            {result && !loading && (
+              <LocalizationBar
+                source={sourceLocale(activeGeneration?.request ?? form)}
+                localizations={result.localizations ?? []}
+                active={locale ?? null}
+                translating={translating}
+                onSelect={setViewLocale}
+                onTranslate={creates ? handleTranslate : undefined}
+              />
+            )}
+            {result && shown && campaign && session && !loading && (
+              <ReviewPanel
+                campaign={campaign}
+                response={shown}
+                locale={locale ?? null}
+                role={session.role}
+                blockedReason={dirty ? "Save your edits first" : undefined}
+                onCampaignChange={handleReviewChange}
+              />
+            )}
+            <div className="panel script">
+              <header>
+                <h2>Script dossier</h2>
+                <p>Ready-to-read voiceover. Tweak copy inline before recording.</p>
+                {result && campaign && dirty && creates && (
+                  <div className="save-bar">
+                    <span>Unsaved edits</span>
+                    <button type="button" onClick={handleSaveEdits} disabled={saving}>
+                      {saving ? "Saving…" : "Save edits"}
+                    </button>
+                  </div>
+                )}
+              </header>
+              <article dir={direction}>
+                {shown ? (
+                  shown.script.split(/\n\n+/).map((paragraph, index) => (
+                    <textarea
+                      key={index}
+                      rows={Math.max(2, Math.ceil(paragraph.length / 80))}
+                      value={paragraph}
+                      onChange={(event) => handleScriptChange(index, event.target.value)}
+                      aria-label={`Script paragraph ${index + 1}`}
+                    />
+                  ))
+                ) : view.script ? (
+                  view.script.split(/\n\n+/).map((paragraph, index) => (
+                    <p key={index}>{paragraph}</p>
+                  ))
+                ) : (
+                  <p className="pending">Writing script…</p>
+                )}
+              </article>
+              <aside>
+                <h3>Talking points</h3>
+                {view.talkingPoints ? (
+                  <ul>
+                    {view.talkingPoints.map((point, index) => (
+                      <li key={index}>{point}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="pending">Distilling talking points…</p>
+                )}
+                {result?.rationale && <HookRationaleCard rationale={result.rationale} />}
+              </aside>
+            </div>
+            <div className="panel video">
+              <header>
+                <h2>Auto video render</h2>
+                <p>Each scene is storyboarded and stylized for vertical delivery.</p>
+              </header>
+              {shown ? (
+                <VideoComposer
+                  key={locale ?? "source"}
+                  scenes={shown.scenes}
+                  platforms={(activeGeneration?.request ?? form).platforms}
+                  soundtrack={soundtrack}
+                  brandStyle={brandStyle}
+                  renderKey={String(renderVersion)}
+                  locale={locale}
+                  direction={direction}
+                  onVideoReady={handleVideoReady}
+                  onExportReady={storeRender}
+                />
+              ) : (
+                <p className="pending">Storyboarding scenes… the render starts once the plan is complete.</p>
+              )}
+              {campaign && savedRenders.length > 0 && (
+                <div className="renders">
+                  <span className="label">Saved renders</span>
+                  {savedRenders.map((asset) => (
+                    <a key={asset.id} href={assetUrl(campaign.id, asset.id)} download={asset.fileName}>
+                      {new Date(asset.createdAt).toLocaleString()} · {(asset.size / 1024 / 1024).toFixed(1)} MB
+                    </a>
+                  ))}
                 </div>
-              ))}
+              )}
+              {campaign && activeGeneration && (
+                <RenderQueue
+                  campaign={campaign}
+                  platforms={activeGeneration.request.platforms}
+                  locale={locale}
+                  soundtrack={soundtrack}
+                  canRender={creates}
+                  onRendered={handleServerRender}
+                />
+              )}
+              {shown && (
+                <SoundtrackPanel
+                  scenes={shown.scenes}
+                  settings={soundtrack}
+                  onChange={setSoundtrack}
+                  onFitScenes={(scenes) => editResult((prev) => ({ ...prev, scenes }))}
+                />
+              )}
+              {shown && (
+                <SceneTimeline
+                  scenes={shown.scenes}
+                  lengthSeconds={(activeGeneration?.request ?? form).lengthSeconds}
+                  platforms={(activeGeneration?.request ?? form).platforms}
+                  wordsPerMinute={voiceProfile?.wordsPerMinute}
+                  onChange={(scenes) => editResult((prev) => ({ ...prev, scenes }))}
+                />
+              )}
+              {result && (
+                <div className="visual-bar">
+                  <button type="button" onClick={handleMatchVisuals} disabled={matchingVisuals}>
+                    {matchingVisuals ? "Matching…" : "Auto-match visuals"}
+                  </button>
+                  <span>Fills empty scenes from your media library by visual direction.</span>
+                </div>
+              )}
+              {shown ? (
+                <SceneCards
+                  scenes={shown.scenes}
+                  regeneratingIndex={regenerating?.kind === "scene" ? regenerating.index : null}
+                  onChange={handleSceneChange}
+                  onRegenerate={
+                    locale ? undefined : (index) => handleRegenerate({ kind: "scene", index })
+                  }
+                />
+              ) : (
+                <SceneCards scenes={view.scenes} />
+              )}
             </div>
-          </div>
-          <div className="panel social">
-            <header>
-              <h2>Social control center</h2>
-              <p>Approve captions and blast them to your social community.</p>
-            </header>
-            <SocialPlanner posts={result.socialPosts} />
-          </div>
-        </section>
-      )}
+            {!locale && result?.variants && result.variants.length > 1 && (
+              <div className="panel variants">
+                <header>
+                  <h2>Variants</h2>
+                  <p>Pick the take you like, or let your audience decide with an A/B test.</p>
+                </header>
+                <VariantPanel
+                  key={campaign?.id ?? "draft"}
+                  response={result}
+                  platforms={(activeGeneration?.request ?? form).platforms}
+                  campaign={campaign}
+                  canTest={Boolean(campaign) && !dirty && approved && creates}
+                  onSelect={(id) => editResult((prev) => selectVariant(prev, id))}
+                  onTestStarted={() => {
+                    if (campaign) {
+                      refreshJobs(campaign.id).catch(() => undefined);
+                    }
+                  }}
+                />
+              </div>
+            )}
+            <div className="panel social">
+              <header>
+                <h2>Social control center</h2>
+                <p>Approve captions and blast them to your social community.</p>
+              </header>
+              <SocialPlanner
+                posts={pendingPosts}
+                regeneratingPlatform={regenerating?.kind === "socialPost" ? regenerating.platform : null}
+                jobs={campaign ? localeJobs : undefined}
+                published={localePublished}
+                lintContext={lintContext}
+                onSchedule={campaign && !dirty && approved && creates ? handleSchedule : undefined}
+                onJobAction={campaign && creates ? handleJobAction : undefined}
+                onPostChange={result ? handlePostChange : undefined}
+                onRegenerate={
+                  result && !locale
+                    ? (platform) => handleRegenerate({ kind: "socialPost", platform })
+                    : undefined
+                }
+              />
+            </div>
+            {campaign && campaign.published.length > 0 && (
+              <div className="panel analytics">
+                <header>
+                  <h2>Performance</h2>
+                  <p>Real numbers pulled from each platform, plus anything you import.</p>
+                </header>
+                <AnalyticsPanel campaign={campaign} onCampaignChange={handleAnalyticsChange} />
+              </div>
+            )}
+            {campaign && campaign.generations.length > 1 && (
+              <div className="panel compare">
+                <header>
+                  <h2>Compare generations</h2>
+                  <p>Every run of this idea is kept. Pick two to see what changed.</p>
+                </header>
+                <GenerationCompare
+                  key={`${campaign.id}-${campaign.generations.length}`}
+                  generations={campaign.generations}
+                />
+              </div>
+            )}
+          </section>
+        )}
+      </div>
 
       <style jsx>{`
+        .layout {
+          max-width: 1400px;
+          margin: 0 auto;
+          padding: 0 20px;
+          display: grid;
+          grid-template-columns: 280px minmax(0, 1fr);
+          gap: 32px;
+          align-items: start;
+        }
+        .layout > :global(.workspace) {
+          grid-column: 1 / -1;
+        }
+        .layout > :global(.history) {
+          margin-top: 48px;
+        }
         .shell {
+          width: 100%;
           max-width: 1080px;
           margin: 0 auto;
           padding: 48px 20px 120px;
@@ -271,6 +1175,12 @@ export const AgentDashboard = () => {
         .hook .value {
           font-weight: 600;
         }
+        .calendar-link {
+          display: block;
+          margin-top: 16px;
+          color: #38bdf8;
+          font-weight: 600;
+        }
         .glow {
           position: absolute;
           inset: -120px -240px auto auto;
@@ -322,6 +1232,30 @@ export const AgentDashboard = () => {
           outline: 2px solid rgba(56, 189, 248, 0.5);
           outline-offset: 2px;
         }
+        label.check {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+        }
+        label.check input {
+          padding: 0;
+          width: 16px;
+          height: 16px;
+        }
+        textarea.invalid,
+        input.invalid,
+        select.invalid {
+          border-color: rgba(248, 113, 113, 0.8);
+        }
+        .platforms.invalid {
+          padding: 8px;
+          border-radius: 16px;
+          border: 1px solid rgba(248, 113, 113, 0.8);
+        }
+        .field-error {
+          color: #fca5a5;
+          font-size: 0.8rem;
+        }
         .platforms {
           display: flex;
           gap: 12px;
@@ -343,6 +1277,10 @@ export const AgentDashboard = () => {
           color: #0f172a;
           box-shadow: 0 8px 24px rgba(56, 189, 248, 0.35);
         }
+        .platforms button[disabled] {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
         .actions {
           display: flex;
           align-items: center;
@@ -367,10 +1305,43 @@ export const AgentDashboard = () => {
           transform: none;
           box-shadow: none;
         }
+        .actions .cancel {
+          background: transparent;
+          border: 1px solid rgba(248, 113, 113, 0.55);
+          color: #fca5a5;
+          padding: 12px 20px;
+          border-radius: 18px;
+          font-weight: 600;
+          cursor: pointer;
+        }
         .error {
           color: #fca5a5;
           font-size: 0.9rem;
         }
+        .stages {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-wrap: wrap;
+          gap: 10px;
+        }
+        .stages li {
+          padding: 6px 12px;
+          border-radius: 999px;
+          font-size: 0.8rem;
+          border: 1px solid rgba(148, 163, 184, 0.35);
+          color: rgba(226, 232, 240, 0.6);
+        }
+        .stages li.done {
+          border-color: rgba(56, 189, 248, 0.65);
+          color: #38bdf8;
+        }
+        .pending {
+          margin: 0;
+          color: rgba(226, 232, 240, 0.55);
+          font-style: italic;
+        }
         .output {
           display: flex;
           flex-direction: column;
@@ -408,38 +1379,66 @@ export const AgentDashboard = () => {
           display: grid;
           gap: 8px;
         }
-        .scene-grid {
-          display: grid;
-          gap: 18px;
-          grid-template-columns: repeat(auto-fit, minmax(220px, 1fr));
+        .panel.script article textarea {
+          background: transparent;
+          border: 1px solid transparent;
+          border-radius: 10px;
+          padding: 6px 8px;
+          line-height: 1.5;
         }
-        .scene {
-          border-radius: 20px;
-          padding: 18px;
-          background: rgba(30, 41, 59, 0.9);
-          border: 1px solid rgba(56, 189, 248, 0.2);
+        .panel.script article textarea:hover,
+        .panel.script article textarea:focus {
+          border-color: rgba(148, 163, 184, 0.35);
+          background: rgba(15, 23, 42, 0.45);
+        }
+        .save-bar {
+          margin-top: 12px;
           display: flex;
-          flex-direction: column;
-          gap: 10px;
+          align-items: center;
+          gap: 12px;
+          font-size: 0.85rem;
+          color: #fcd34d;
         }
-        .scene .index {
-          font-size: 0.78rem;
-          letter-spacing: 0.06em;
-          text-transform: uppercase;
-          color: rgba(96, 165, 250, 0.9);
+        .save-bar button {
+          background: rgba(56, 189, 248, 0.2);
+          border: 1px solid rgba(56, 189, 248, 0.5);
+          color: #f8fafc;
+          border-radius: 10px;
+          padding: 6px 12px;
+          cursor: pointer;
         }
-        .scene h4 {
-          margin: 0;
-          font-size: 1.1rem;
+        .visual-bar {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          font-size: 0.85rem;
+          color: rgba(226, 232, 240, 0.6);
         }
-        .scene p {
-          margin: 0;
-          color: rgba(226, 232, 240, 0.85);
+        .visual-bar button {
+          background: rgba(56, 189, 248, 0.2);
+          border: 1px solid rgba(56, 189, 248, 0.5);
+          color: #f8fafc;
+          border-radius: 10px;
+          padding: 6px 12px;
+          cursor: pointer;
         }
-        .scene .visual {
-          margin-top: auto;
+        .visual-bar button[disabled] {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+        .renders {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
           font-size: 0.85rem;
-          color: rgba(226, 232, 240, 0.64);
+        }
+        .renders a {
+          color: #38bdf8;
+        }
+        @media (max-width: 1100px) {
+          .layout {
+            grid-template-columns: 1fr;
+          }
         }
         @media (max-width: 768px) {
           .hero {
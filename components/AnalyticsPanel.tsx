@@ -0,0 +1,468 @@
+"use client";
+
+import { ChangeEvent, useCallback, useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import type { Platform } from "@/types/agent";
+import type { Campaign } from "@/types/campaign";
+import type { MetricsImportResult, PostMetrics } from "@/types/analytics";
+import { fetchMetrics, importMetrics, metricsCsvUrl, refreshMetrics } from "@/lib/analytics/client";
+import {
+  bestHour,
+  comparePlatforms,
+  engagementRate,
+  growthSeries,
+  latestSample,
+  viewsByPublishHour,
+} from "@/lib/analytics/summary";
+import { platformSpecs } from "@/lib/platforms";
+
+interface AnalyticsPanelProps {
+  campaign: Campaign;
+  // Called after a refresh or import changed the campaign's mirrored counts.
+  onCampaignChange?: () => void;
+}
+
+const platformColors: Record<Platform, string> = {
+  tiktok: "#f472b6",
+  instagram: "#facc15",
+  youtube: "#f87171",
+  linkedin: "#38bdf8",
+};
+
+const WIDTH = 560;
+const HEIGHT = 200;
+const PAD = 32;
+
+const compact = (value: number) =>
+  new Intl.NumberFormat(undefined, { notation: "compact", maximumFractionDigits: 1 }).format(value);
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const seriesLabel = (metrics: PostMetrics) =>
+  metrics.locale
+    ? `${platformSpecs[metrics.platform].label} · ${metrics.locale.toUpperCase()}`
+    : platformSpecs[metrics.platform].label;
+
+const GrowthChart = ({ series }: { series: PostMetrics[] }) => {
+  const lines = series.map((metrics) => ({ metrics, points: growthSeries(metrics) }));
+  const all = lines.flatMap(({ points }) => points);
+  const maxHours = Math.max(1, ...all.map((point) => point.hours));
+  const maxViews = Math.max(1, ...all.map((point) => point.views));
+  const x = (hours: number) => PAD + (hours / maxHours) * (WIDTH - PAD * 2);
+  const y = (views: number) => HEIGHT - PAD - (views / maxViews) * (HEIGHT - PAD * 2);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label="Views since publishing">
+      <line x1={PAD} y1={HEIGHT - PAD} x2={WIDTH - PAD} y2={HEIGHT - PAD} className="axis" />
+      <line x1={PAD} y1={PAD} x2={PAD} y2={HEIGHT - PAD} className="axis" />
+      <text x={PAD} y={PAD - 10} className="tick">
+        {compact(maxViews)} views
+      </text>
+      <text x={WIDTH - PAD} y={HEIGHT - 10} className="tick" textAnchor="end">
+        {maxHours < 48 ? `${Math.round(maxHours)}h` : `${Math.round(maxHours / 24)}d`} live
+      </text>
+      {lines.map(({ metrics, points }) => (
+        <g key={metrics.id} stroke={platformColors[metrics.platform]}>
+          <polyline
+            fill="none"
+            strokeWidth={2}
+            points={points.map((point) => `${x(point.hours)},${y(point.views)}`).join(" ")}
+          />
+          {points.map((point) => (
+            <circle
+              key={point.hours}
+              cx={x(point.hours)}
+              cy={y(point.views)}
+              r={2.5}
+              fill={platformColors[metrics.platform]}
+            />
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const Bars = ({
+  rows,
+}: {
+  rows: { key: string; label: string; value: number; display: string; color: string }[];
+}) => {
+  const max = Math.max(...rows.map((row) => row.value), 0);
+  return (
+    <ul className="bars">
+      {rows.map((row) => (
+        <li key={row.key}>
+          <span className="bar-label">{row.label}</span>
+          <span className="bar-track">
+            <span
+              className="bar-fill"
+              style={{
+                width: `${max > 0 ? (row.value / max) * 100 : 0}%`,
+                background: row.color,
+              }}
+            />
+          </span>
+          <span className="bar-value">{row.display}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const AnalyticsPanel = ({ campaign, onCampaignChange }: AnalyticsPanelProps) => {
+  const [metrics, setMetrics] = useState<PostMetrics[]>([]);
+  const [selected, setSelected] = useState<Platform | "all">("all");
+  const [busy, setBusy] = useState<"refresh" | "import" | null>(null);
+  const [imported, setImported] = useState<MetricsImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setMetrics(await fetchMetrics());
+  }, []);
+
+  const liveCount = campaign.published.length;
+  const livePlatforms = Array.from(new Set(campaign.published.map((post) => post.platform)));
+  useEffect(() => {
+    load().catch((err) =>
+      setError(err instanceof Error ? err.message : "Unable to load analytics")
+    );
+  }, [load, campaign.id, liveCount]);
+
+  const campaignMetrics = useMemo(
+    () => metrics.filter((item) => item.campaignId === campaign.id),
+    [metrics, campaign.id]
+  );
+  const shown =
+    selected === "all"
+      ? campaignMetrics
+      : campaignMetrics.filter((item) => item.platform === selected);
+  const platforms = useMemo(() => comparePlatforms(metrics), [metrics]);
+  const hours = useMemo(() => viewsByPublishHour(metrics), [metrics]);
+  const best = bestHour(hours);
+  const maxHourViews = Math.max(...hours.map((hour) => hour.averageViews), 0);
+
+  const handleRefresh = async () => {
+    setBusy("refresh");
+    setError(null);
+    try {
+      const result = await refreshMetrics(campaign.id);
+      await load();
+      onCampaignChange?.();
+      if (result.failed > 0) {
+        setError(`${result.failed} platform(s) could not be reached; older numbers are kept.`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to refresh analytics");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    setBusy("import");
+    setError(null);
+    try {
+      setImported(await importMetrics(campaign.id, await file.text()));
+      await load();
+      onCampaignChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to import analytics");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="analytics">
+      <div className="toolbar">
+        <select
+          value={selected}
+          onChange={(event) => setSelected(event.target.value as Platform | "all")}
+          aria-label="Post"
+        >
+          <option value="all">All live posts</option>
+          {livePlatforms.map((platform) => (
+            <option key={platform} value={platform}>
+              {platformSpecs[platform].label}
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={handleRefresh} disabled={busy !== null}>
+          {busy === "refresh" ? "Refreshing…" : "Refresh now"}
+        </button>
+        <label className={clsx("import", busy !== null && "disabled")}>
+          {busy === "import" ? "Importing…" : "Import CSV"}
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleImport}
+            disabled={busy !== null}
+          />
+        </label>
+        <a href={metricsCsvUrl(campaign.id)} download>
+          Export campaign CSV
+        </a>
+        <a href={metricsCsvUrl()} download>
+          Export all
+        </a>
+      </div>
+      {error && <p className="error">{error}</p>}
+      {imported && (
+        <p className="notice">
+          Imported {imported.imported} row{imported.imported === 1 ? "" : "s"}
+          {imported.skipped.length > 0 &&
+            `; skipped ${imported.skipped.length} (${imported.skipped
+              .slice(0, 3)
+              .map((item) => `line ${item.line}: ${item.reason}`)
+              .join("; ")})`}
+        </p>
+      )}
+
+      {campaignMetrics.length === 0 ? (
+        <p className="empty">
+          No numbers yet. Live posts are sampled automatically, or import a CSV exported from a
+          platform&apos;s analytics (columns: platform, date, views, likes, comments, shares).
+        </p>
+      ) : (
+        <>
+          <section>
+            <h3>Growth</h3>
+            <GrowthChart series={shown} />
+            <div className="legend">
+              {shown.map((item) => {
+                const latest = latestSample(item);
+                return (
+                  <span key={item.id}>
+                    <i style={{ background: platformColors[item.platform] }} />
+                    {seriesLabel(item)}
+                    {latest &&
+                      ` · ${compact(latest.views)} views · ${percent(engagementRate(latest))}`}
+                    {item.lastError && <em title={item.lastError}> · last fetch failed</em>}
+                  </span>
+                );
+              })}
+            </div>
+          </section>
+          <section>
+            <h3>Engagement rate</h3>
+            <Bars
+              rows={campaignMetrics.flatMap((item) => {
+                const latest = latestSample(item);
+                if (!latest) {
+                  return [];
+                }
+                const rate = engagementRate(latest);
+                return [
+                  {
+                    key: item.id,
+                    label: seriesLabel(item),
+                    value: rate,
+                    display: percent(rate),
+                    color: platformColors[item.platform],
+                  },
+                ];
+              })}
+            />
+          </section>
+        </>
+      )}
+
+      {metrics.length > 0 && (
+        <div className="split">
+          <section>
+            <h3>Platforms, all campaigns</h3>
+            <p className="hint">Average views and engagement one week after publishing.</p>
+            <Bars
+              rows={platforms.map((row) => ({
+                key: row.platform,
+                label: `${platformSpecs[row.platform].label} (${row.posts})`,
+                value: row.averageViews,
+                display: `${compact(row.averageViews)} · ${percent(row.averageEngagement)}`,
+                color: platformColors[row.platform],
+              }))}
+            />
+          </section>
+          <section>
+            <h3>Best hour to post</h3>
+            <p className="hint">
+              {best
+                ? `Posts going live around ${best.hour}:00 average ${compact(
+                    best.averageViews
+                  )} first-day views.`
+                : "Not enough history yet."}
+            </p>
+            <div className="hours">
+              {hours.map((hour) => (
+                <span
+                  key={hour.hour}
+                  className={clsx("hour", best?.hour === hour.hour && "best")}
+                  style={{
+                    height: `${maxHourViews > 0 ? (hour.averageViews / maxHourViews) * 100 : 0}%`,
+                  }}
+                  title={`${hour.hour}:00 · ${hour.posts} post(s) · ${compact(
+                    hour.averageViews
+                  )} avg views`}
+                />
+              ))}
+            </div>
+            <div className="hour-axis">
+              <span>0h</span>
+              <span>12h</span>
+              <span>23h</span>
+            </div>
+          </section>
+        </div>
+      )}
+
+      <style jsx>{`
+        .analytics {
+          display: flex;
+          flex-direction: column;
+          gap: 20px;
+        }
+        .toolbar {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 10px;
+        }
+        select,
+        button,
+        .import,
+        .toolbar a {
+          border-radius: 10px;
+          border: 1px solid rgba(148, 163, 184, 0.35);
+          background: rgba(15, 23, 42, 0.6);
+          color: #f8fafc;
+          padding: 8px 12px;
+          font-size: 0.85rem;
+          text-decoration: none;
+          cursor: pointer;
+        }
+        button[disabled],
+        .import.disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+        .import input {
+          display: none;
+        }
+        section {
+          border-radius: 20px;
+          padding: 20px;
+          background: rgba(15, 23, 42, 0.7);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+        h3 {
+          margin: 0;
+          font-size: 1rem;
+        }
+        .hint,
+        .empty,
+        .notice {
+          margin: 0;
+          color: rgba(226, 232, 240, 0.65);
+          font-size: 0.85rem;
+        }
+        .error {
+          margin: 0;
+          color: #fca5a5;
+          font-size: 0.85rem;
+        }
+        .split {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(280px, 1fr));
+          gap: 20px;
+        }
+        svg {
+          width: 100%;
+          height: auto;
+        }
+        svg :global(.axis) {
+          stroke: rgba(148, 163, 184, 0.4);
+        }
+        svg :global(.tick) {
+          fill: rgba(226, 232, 240, 0.6);
+          font-size: 11px;
+        }
+        .legend {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 12px;
+          font-size: 0.8rem;
+          color: rgba(226, 232, 240, 0.8);
+        }
+        .legend i {
+          display: inline-block;
+          width: 10px;
+          height: 10px;
+          border-radius: 50%;
+          margin-right: 6px;
+        }
+        .legend em {
+          color: #fca5a5;
+          font-style: normal;
+        }
+        .bars {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+        .bars li {
+          display: grid;
+          grid-template-columns: 130px 1fr auto;
+          align-items: center;
+          gap: 10px;
+          font-size: 0.8rem;
+        }
+        .bar-track {
+          height: 10px;
+          border-radius: 999px;
+          background: rgba(148, 163, 184, 0.15);
+          overflow: hidden;
+        }
+        .bar-fill {
+          display: block;
+          height: 100%;
+          border-radius: 999px;
+        }
+        .bar-value {
+          color: rgba(226, 232, 240, 0.8);
+        }
+        .hours {
+          display: flex;
+          align-items: flex-end;
+          gap: 2px;
+          height: 100px;
+        }
+        .hour {
+          flex: 1;
+          min-height: 2px;
+          border-radius: 3px 3px 0 0;
+          background: rgba(56, 189, 248, 0.4);
+        }
+        .hour.best {
+          background: #38bdf8;
+        }
+        .hour-axis {
+          display: flex;
+          justify-content: space-between;
+          font-size: 0.7rem;
+          color: rgba(226, 232, 240, 0.5);
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,351 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import clsx from "clsx";
+import {
+  apiScopeLabels,
+  apiScopes,
+  rateLimitBounds,
+  type ApiKey,
+  type ApiScope,
+} from "@/types/apiKey";
+import {
+  webhookEventLabels,
+  webhookEvents,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from "@/types/webhook";
+import { createApiKey, fetchApiKeys, revokeApiKey } from "@/lib/apiKeys/client";
+import {
+  createWebhook,
+  deleteWebhook,
+  fetchDeliveries,
+  fetchWebhooks,
+  updateWebhook,
+} from "@/lib/webhooks/client";
+
+const emptyKey = { name: "", scopes: ["campaigns:read"] as ApiScope[], rateLimit: "" };
+const emptyWebhook = { url: "", events: [...webhookEvents] as WebhookEvent[] };
+
+const toggle = <T,>(list: T[], item: T) =>
+  list.includes(item) ? list.filter((entry) => entry !== item) : [...list, item];
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : "never");
+
+/** Admin-only: the workspace's API keys and outbound webhooks. */
+export const ApiAccessPanel = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [key, setKey] = useState(emptyKey);
+  const [webhook, setWebhook] = useState(emptyWebhook);
+  // A new key or signing secret, shown once because only its hash or the server keeps it.
+  const [secret, setSecret] = useState<{ label: string; value: string } | null>(null);
+  const [deliveries, setDeliveries] = useState<{ id: string; items: WebhookDelivery[] } | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([fetchApiKeys(), fetchWebhooks()])
+      .then(([keys, hooks]) => {
+        setApiKeys(keys);
+        setWebhooks(hooks);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Unable to load API access"));
+  }, []);
+
+  const run = async (change: () => Promise<void>) => {
+    setError(null);
+    try {
+      await change();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update API access");
+    }
+  };
+
+  const handleCreateKey = (event: FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      const created = await createApiKey({
+        name: key.name,
+        scopes: key.scopes,
+        ...(key.rateLimit ? { rateLimit: Number(key.rateLimit) } : {}),
+      });
+      setApiKeys([created.apiKey, ...apiKeys]);
+      setSecret({ label: `API key "${created.apiKey.name}"`, value: created.secret });
+      setKey(emptyKey);
+    });
+  };
+
+  const handleRevoke = (id: string) =>
+    run(async () => {
+      const revoked = await revokeApiKey(id);
+      setApiKeys(apiKeys.map((item) => (item.id === id ? revoked : item)));
+    });
+
+  const handleCreateWebhook = (event: FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      const created = await createWebhook(webhook);
+      setWebhooks([...webhooks, created.webhook]);
+      setSecret({ label: `Signing secret for ${created.webhook.url}`, value: created.secret });
+      setWebhook(emptyWebhook);
+    });
+  };
+
+  const handleActive = (item: Webhook) =>
+    run(async () => {
+      const updated = await updateWebhook(item.id, { active: !item.active });
+      setWebhooks(webhooks.map((entry) => (entry.id === item.id ? updated : entry)));
+    });
+
+  const handleDelete = (id: string) =>
+    run(async () => {
+      await deleteWebhook(id);
+      setWebhooks(webhooks.filter((entry) => entry.id !== id));
+      setDeliveries(deliveries?.id === id ? null : deliveries);
+    });
+
+  const toggleDeliveries = (id: string) =>
+    run(async () => {
+      setDeliveries(deliveries?.id === id ? null : { id, items: await fetchDeliveries(id) });
+    });
+
+  return (
+    <div className="api">
+      {secret && (
+        <div className="secret">
+          <span>{secret.label} — copy it now, it won&apos;t be shown again:</span>
+          <code>{secret.value}</code>
+          <button type="button" onClick={() => setSecret(null)}>
+            Done
+          </button>
+        </div>
+      )}
+      <section>
+        <h4>API keys</h4>
+        <ul>
+          {apiKeys.map((item) => (
+            <li key={item.id} className={clsx({ revoked: item.revokedAt })}>
+              <span>
+                {item.name} <em>{item.prefix}…</em>
+                <small>
+                  {item.scopes.join(", ")} · {item.rateLimit}/min · last used{" "}
+                  {formatDate(item.lastUsedAt)}
+                </small>
+              </span>
+              {item.revokedAt ? (
+                <em>Revoked</em>
+              ) : (
+                <button type="button" onClick={() => handleRevoke(item.id)}>
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleCreateKey}>
+          <input
+            value={key.name}
+            onChange={(event) => setKey({ ...key, name: event.target.value })}
+            placeholder="Key name, e.g. Reporting script"
+            required
+          />
+          <input
+            type="number"
+            min={rateLimitBounds.min}
+            max={rateLimitBounds.max}
+            value={key.rateLimit}
+            onChange={(event) => setKey({ ...key, rateLimit: event.target.value })}
+            placeholder={`${rateLimitBounds.default} requests/min`}
+            aria-label="Rate limit per minute"
+          />
+          <div className="checks">
+            {apiScopes.map((scope) => (
+              <label key={scope} title={apiScopeLabels[scope]}>
+                <input
+                  type="checkbox"
+                  checked={key.scopes.includes(scope)}
+                  onChange={() => setKey({ ...key, scopes: toggle(key.scopes, scope) })}
+                />
+                {scope}
+              </label>
+            ))}
+          </div>
+          <button type="submit" disabled={key.scopes.length === 0}>
+            Create key
+          </button>
+        </form>
+      </section>
+      <section>
+        <h4>Webhooks</h4>
+        <ul>
+          {webhooks.map((item) => (
+            <li key={item.id} className={clsx({ revoked: !item.active })}>
+              <span>
+                {item.url}
+                <small>{item.events.join(", ")}</small>
+              </span>
+              <button type="button" onClick={() => toggleDeliveries(item.id)}>
+                {deliveries?.id === item.id ? "Hide deliveries" : "Deliveries"}
+              </button>
+              <button type="button" onClick={() => handleActive(item)}>
+                {item.active ? "Pause" : "Resume"}
+              </button>
+              <button type="button" onClick={() => handleDelete(item.id)}>
+                Delete
+              </button>
+              {deliveries?.id === item.id && (
+                <ol>
+                  {deliveries.items.length === 0 && <li>Nothing sent yet.</li>}
+                  {deliveries.items.map((delivery) => (
+                    <li key={delivery.id}>
+                      <span className={clsx("status", delivery.status)}>{delivery.status}</span>
+                      {delivery.payload.type} · {formatDate(delivery.createdAt)} ·{" "}
+                      {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                      {delivery.history.at(-1)?.error && (
+                        <small>{delivery.history.at(-1)?.error}</small>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleCreateWebhook}>
+          <input
+            type="url"
+            value={webhook.url}
+            onChange={(event) => setWebhook({ ...webhook, url: event.target.value })}
+            placeholder="https://example.com/hooks/agentic"
+            required
+          />
+          <div className="checks">
+            {webhookEvents.map((type) => (
+              <label key={type} title={webhookEventLabels[type]}>
+                <input
+                  type="checkbox"
+                  checked={webhook.events.includes(type)}
+                  onChange={() => setWebhook({ ...webhook, events: toggle(webhook.events, type) })}
+                />
+                {type}
+              </label>
+            ))}
+          </div>
+          <button type="submit" disabled={webhook.events.length === 0}>
+            Add webhook
+          </button>
+        </form>
+      </section>
+      {error && <p className="error">{error}</p>}
+      <style jsx>{`
+        .api {
+          align-self: flex-end;
+          display: flex;
+          flex-direction: column;
+          gap: 14px;
+          max-width: 720px;
+          padding: 16px;
+          border-radius: 18px;
+          background: rgba(15, 23, 42, 0.78);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+        }
+        h4 {
+          margin: 0 0 8px;
+        }
+        ul,
+        ol {
+          list-style: none;
+          margin: 0 0 10px;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+        li,
+        form,
+        .checks,
+        .secret {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+        }
+        li > span {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          word-break: break-all;
+        }
+        ol {
+          width: 100%;
+          padding-left: 12px;
+          border-left: 2px solid rgba(148, 163, 184, 0.25);
+          font-size: 0.8rem;
+        }
+        small,
+        em {
+          color: rgba(226, 232, 240, 0.6);
+          font-style: normal;
+          font-size: 0.8rem;
+        }
+        .revoked {
+          opacity: 0.5;
+        }
+        .status {
+          padding: 2px 8px;
+          border-radius: 999px;
+          background: rgba(148, 163, 184, 0.2);
+        }
+        .status.delivered {
+          background: rgba(74, 222, 128, 0.2);
+          color: #bbf7d0;
+        }
+        .status.failed {
+          background: rgba(248, 113, 113, 0.2);
+          color: #fecaca;
+        }
+        .secret {
+          padding: 10px 12px;
+          border-radius: 12px;
+          background: rgba(250, 204, 21, 0.12);
+          border: 1px solid rgba(250, 204, 21, 0.4);
+        }
+        code {
+          user-select: all;
+          word-break: break-all;
+        }
+        input,
+        button {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.35);
+          color: #f8fafc;
+          border-radius: 999px;
+          padding: 6px 14px;
+        }
+        input[type="checkbox"] {
+          padding: 0;
+        }
+        button {
+          cursor: pointer;
+        }
+        button[disabled] {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+        label {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          font-size: 0.8rem;
+        }
+        .error {
+          margin: 0;
+          color: #fca5a5;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,497 @@
+"use client";
+
+import { ChangeEvent, useCallback, useEffect, useState } from "react";
+import {
+  logoPositions,
+  type BrandCard,
+  type BrandKit,
+  type BrandSettings,
+  type BrandSummary,
+  type LogoPosition,
+} from "@/types/brand";
+import { defaultBrandSettings } from "@/lib/brands/defaults";
+import {
+  createBrand,
+  fetchBrand,
+  fetchBrands,
+  patchBrand,
+  removeBrand,
+  uploadBrandAsset,
+} from "@/lib/brands/client";
+
+interface BrandKitPanelProps {
+  brandId?: string;
+  onSelect: (brandId: string | undefined) => void;
+  // Fires after a save or upload so the caller can refresh the resolved style.
+  onSaved: (brand: BrandKit) => void;
+}
+
+const toSettings = (brand: BrandKit): BrandSettings => ({
+  name: brand.name,
+  palette: brand.palette,
+  textColor: brand.textColor,
+  accentColor: brand.accentColor,
+  fonts: brand.fonts,
+  logo: brand.logo,
+  intro: brand.intro,
+  outro: brand.outro,
+  bannedWords: brand.bannedWords,
+  requiredHashtags: brand.requiredHashtags,
+  defaultCallToAction: brand.defaultCallToAction,
+});
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+export const BrandKitPanel = ({ brandId, onSelect, onSaved }: BrandKitPanelProps) => {
+  const [brands, setBrands] = useState<BrandSummary[]>([]);
+  // null = closed, "" = a new kit, otherwise the id being edited.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BrandSettings>(defaultBrandSettings);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setBrands(await fetchBrands());
+    } catch (err) {
+      console.warn("Failed to load brand kits", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Brand kit request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openEditor = (id: string | undefined) =>
+    run(async () => {
+      if (!id) {
+        setDraft(defaultBrandSettings);
+        setEditingId("");
+        return;
+      }
+      setDraft(toSettings(await fetchBrand(id)));
+      setEditingId(id);
+    });
+
+  const handleSave = () =>
+    run(async () => {
+      const saved = editingId ? await patchBrand(editingId, draft) : await createBrand(draft);
+      setEditingId(saved.id);
+      setDraft(toSettings(saved));
+      onSaved(saved);
+      onSelect(saved.id);
+      await refresh();
+    });
+
+  const handleDelete = () =>
+    run(async () => {
+      if (!editingId) {
+        return;
+      }
+      await removeBrand(editingId);
+      if (brandId === editingId) {
+        onSelect(undefined);
+      }
+      setEditingId(null);
+      await refresh();
+    });
+
+  const handleUpload =
+    (target: "logo" | "heading" | "body") => (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file || !editingId) {
+        return;
+      }
+      run(async () => {
+        const asset = await uploadBrandAsset(editingId, target === "logo" ? "logo" : "font", file);
+        const patch: Partial<BrandSettings> =
+          target === "logo"
+            ? { logo: { ...draft.logo, assetId: asset.id } }
+            : {
+                fonts: { ...draft.fonts, [target]: { ...draft.fonts[target], assetId: asset.id } },
+              };
+        const saved = await patchBrand(editingId, patch);
+        setDraft((prev) => ({ ...prev, ...patch }));
+        onSaved(saved);
+      });
+    };
+
+  const setCard = (key: "intro" | "outro", update: Partial<BrandCard>) =>
+    setDraft((prev) => ({ ...prev, [key]: { ...prev[key], ...update } }));
+
+  return (
+    <div className="brand">
+      <div className="row">
+        <label>
+          Brand kit
+          <select
+            value={brandId ?? ""}
+            onChange={(event) => onSelect(event.target.value || undefined)}
+          >
+            <option value="">No brand</option>
+            {brands.map((brand) => (
+              <option key={brand.id} value={brand.id}>
+                {brand.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="button" onClick={() => openEditor(brandId)} disabled={busy || !brandId}>
+          Edit
+        </button>
+        <button type="button" onClick={() => openEditor(undefined)} disabled={busy}>
+          New kit
+        </button>
+      </div>
+
+      {editingId !== null && (
+        <div className="editor">
+          <div className="row">
+            <label>
+              Name
+              <input
+                value={draft.name}
+                onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+              />
+            </label>
+            <label>
+              Palette
+              <span className="swatches">
+                {draft.palette.map((color, index) => (
+                  <input
+                    key={index}
+                    type="color"
+                    value={color}
+                    aria-label={`Palette color ${index + 1}`}
+                    onChange={(event) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        palette: prev.palette.map((item, itemIndex) =>
+                          itemIndex === index ? event.target.value : item
+                        ),
+                      }))
+                    }
+                  />
+                ))}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDraft((prev) => ({ ...prev, palette: [...prev.palette, "#0f172a"] }))
+                  }
+                  disabled={draft.palette.length >= 12}
+                >
+                  +
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDraft((prev) => ({ ...prev, palette: prev.palette.slice(0, -1) }))
+                  }
+                  disabled={draft.palette.length <= 2}
+                >
+                  −
+                </button>
+              </span>
+            </label>
+            <label>
+              Text
+              <input
+                type="color"
+                value={draft.textColor}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, textColor: event.target.value }))
+                }
+              />
+            </label>
+            <label>
+              Accent
+              <input
+                type="color"
+                value={draft.accentColor}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, accentColor: event.target.value }))
+                }
+              />
+            </label>
+          </div>
+
+          <div className="row">
+            {(["heading", "body"] as const).map((key) => (
+              <label key={key}>
+                {key === "heading" ? "Heading font" : "Body font"}
+                <input
+                  value={draft.fonts[key].family}
+                  onChange={(event) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      fonts: {
+                        ...prev.fonts,
+                        [key]: { ...prev.fonts[key], family: event.target.value },
+                      },
+                    }))
+                  }
+                />
+                <input
+                  type="file"
+                  accept=".woff,.woff2,.ttf,.otf"
+                  disabled={!editingId || busy}
+                  onChange={handleUpload(key)}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="row">
+            <label>
+              Logo
+              <input
+                type="file"
+                accept="image/png,image/svg+xml,image/webp,image/jpeg"
+                disabled={!editingId || busy}
+                onChange={handleUpload("logo")}
+              />
+            </label>
+            <label>
+              Position
+              <select
+                value={draft.logo.position}
+                onChange={(event) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    logo: { ...prev.logo, position: event.target.value as LogoPosition },
+                  }))
+                }
+              >
+                {logoPositions.map((position) => (
+                  <option key={position} value={position}>
+                    {position}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Opacity
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={draft.logo.opacity}
+                onChange={(event) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    logo: { ...prev.logo, opacity: Number(event.target.value) },
+                  }))
+                }
+              />
+            </label>
+            <label>
+              Size
+              <input
+                type="range"
+                min={0.05}
+                max={0.5}
+                step={0.01}
+                value={draft.logo.scale}
+                onChange={(event) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    logo: { ...prev.logo, scale: Number(event.target.value) },
+                  }))
+                }
+              />
+            </label>
+          </div>
+          {!editingId && <p className="hint">Save the kit before uploading fonts or a logo.</p>}
+
+          {(["intro", "outro"] as const).map((key) => (
+            <div className="row" key={key}>
+              <label className="check">
+                <input
+                  type="checkbox"
+                  checked={draft[key].enabled}
+                  onChange={(event) => setCard(key, { enabled: event.target.checked })}
+                />
+                {key === "intro" ? "Intro card" : "Outro card"}
+              </label>
+              <label className="grow">
+                Text
+                <input
+                  value={draft[key].text}
+                  disabled={!draft[key].enabled}
+                  onChange={(event) => setCard(key, { text: event.target.value })}
+                />
+              </label>
+              <label>
+                Seconds
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={draft[key].durationSeconds}
+                  disabled={!draft[key].enabled}
+                  onChange={(event) =>
+                    setCard(key, { durationSeconds: Number(event.target.value) })
+                  }
+                />
+              </label>
+            </div>
+          ))}
+
+          <div className="row">
+            <label className="grow">
+              Banned words
+              <input
+                value={draft.bannedWords.join(", ")}
+                placeholder="cheap, guaranteed"
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, bannedWords: splitList(event.target.value) }))
+                }
+              />
+            </label>
+            <label className="grow">
+              Required hashtags
+              <input
+                value={draft.requiredHashtags.join(", ")}
+                placeholder="#acme, #buildinpublic"
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, requiredHashtags: splitList(event.target.value) }))
+                }
+              />
+            </label>
+          </div>
+          <div className="row">
+            <label className="grow">
+              Default call to action
+              <input
+                value={draft.defaultCallToAction}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, defaultCallToAction: event.target.value }))
+                }
+              />
+            </label>
+          </div>
+
+          <div className="row">
+            <button type="button" onClick={handleSave} disabled={busy}>
+              {busy ? "Saving…" : "Save kit"}
+            </button>
+            {editingId && (
+              <button type="button" className="danger" onClick={handleDelete} disabled={busy}>
+                Delete
+              </button>
+            )}
+            <button type="button" onClick={() => setEditingId(null)} disabled={busy}>
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+      {error && <p className="error">{error}</p>}
+      <style jsx>{`
+        .brand,
+        .editor {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+        .editor {
+          padding: 14px;
+          border-radius: 16px;
+          background: rgba(30, 41, 59, 0.7);
+          border: 1px solid rgba(148, 163, 184, 0.18);
+        }
+        .row {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: flex-end;
+          gap: 12px;
+        }
+        label {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 0.75rem;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        label.grow {
+          flex: 1;
+          min-width: 200px;
+        }
+        label.check {
+          flex-direction: row;
+          align-items: center;
+          gap: 6px;
+        }
+        .swatches {
+          display: flex;
+          gap: 4px;
+        }
+        input[type="color"] {
+          width: 32px;
+          height: 28px;
+          padding: 0;
+          border: none;
+          background: none;
+        }
+        select,
+        input:not([type]),
+        input[type="number"] {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+          border-radius: 10px;
+          padding: 6px 10px;
+          color: #f8fafc;
+          font: inherit;
+        }
+        input[type="number"] {
+          width: 72px;
+        }
+        button {
+          background: rgba(56, 189, 248, 0.12);
+          border: 1px solid rgba(56, 189, 248, 0.4);
+          color: #f8fafc;
+          border-radius: 10px;
+          padding: 6px 12px;
+          font-size: 0.85rem;
+          cursor: pointer;
+        }
+        button.danger {
+          background: rgba(248, 113, 113, 0.12);
+          border-color: rgba(248, 113, 113, 0.4);
+        }
+        button[disabled] {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+        .hint {
+          margin: 0;
+          font-size: 0.8rem;
+          color: rgba(226, 232, 240, 0.55);
+        }
+        .error {
+          margin: 0;
+          color: #fca5a5;
+          font-size: 0.85rem;
+        }
+      `}</style>
+    </div>
+  );
+};
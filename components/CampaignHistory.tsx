@@ -0,0 +1,170 @@
+"use client";
+
+import clsx from "clsx";
+import type { CampaignSummary } from "@/types/campaign";
+import { reviewStateLabels } from "@/types/review";
+
+interface CampaignHistoryProps {
+  campaigns: CampaignSummary[];
+  activeId: string | null;
+  loading?: boolean;
+  onOpen: (id: string) => void;
+  // Omitted for roles that can't delete campaigns.
+  onDelete?: (id: string) => void;
+}
+
+const stateLabels: Record<CampaignSummary["publishState"], string> = {
+  draft: "Draft",
+  "partially-published": "Partly live",
+  published: "Live",
+};
+
+// Until a post goes live, where the campaign is in review says more than "draft".
+const statusOf = (campaign: CampaignSummary) =>
+  campaign.publishState === "draft"
+    ? reviewStateLabels[campaign.reviewState]
+    : stateLabels[campaign.publishState];
+
+const formatDate = (value: string) => {
+  try {
+    return new Date(value).toLocaleDateString();
+  } catch (error) {
+    return value;
+  }
+};
+
+export const CampaignHistory = ({
+  campaigns,
+  activeId,
+  loading = false,
+  onOpen,
+  onDelete,
+}: CampaignHistoryProps) => (
+  <aside className="history">
+    <header>
+      <h2>Campaign history</h2>
+      <p>Reopen past runs or compare generations.</p>
+    </header>
+    {loading && campaigns.length === 0 ? (
+      <div className="empty">Loading campaigns…</div>
+    ) : campaigns.length === 0 ? (
+      <div className="empty">Launched campaigns will appear here.</div>
+    ) : (
+      <ul>
+        {campaigns.map((campaign) => (
+          <li key={campaign.id} className={clsx({ active: campaign.id === activeId })}>
+            <button type="button" className="open" onClick={() => onOpen(campaign.id)}>
+              <span className="title">{campaign.title}</span>
+              <span className="meta">
+                {formatDate(campaign.updatedAt)} · {campaign.generationCount} run
+                {campaign.generationCount === 1 ? "" : "s"} · {statusOf(campaign)}
+                {campaign.series && ` · Episode ${campaign.series.episode + 1}`}
+              </span>
+            </button>
+            {onDelete && (
+              <button
+                type="button"
+                className="delete"
+                aria-label={`Delete ${campaign.title}`}
+                onClick={() => onDelete(campaign.id)}
+              >
+                ×
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+    <style jsx>{`
+      .history {
+        position: sticky;
+        top: 48px;
+        border-radius: 28px;
+        padding: 24px;
+        background: rgba(15, 23, 42, 0.78);
+        border: 1px solid rgba(148, 163, 184, 0.25);
+        display: flex;
+        flex-direction: column;
+        gap: 16px;
+        max-height: calc(100vh - 96px);
+        overflow-y: auto;
+      }
+      header h2 {
+        margin: 0;
+        font-size: 1.1rem;
+      }
+      header p {
+        margin: 4px 0 0;
+        color: rgba(226, 232, 240, 0.65);
+        font-size: 0.85rem;
+      }
+      ul {
+        list-style: none;
+        margin: 0;
+        padding: 0;
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+      }
+      li {
+        display: flex;
+        align-items: flex-start;
+        gap: 6px;
+        border-radius: 16px;
+        border: 1px solid rgba(148, 163, 184, 0.18);
+        background: rgba(30, 41, 59, 0.7);
+        transition: border-color 0.2s ease;
+      }
+      li.active {
+        border-color: rgba(56, 189, 248, 0.65);
+      }
+      .open {
+        flex: 1;
+        text-align: left;
+        background: none;
+        border: none;
+        color: inherit;
+        padding: 12px 14px;
+        cursor: pointer;
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+      }
+      .title {
+        font-weight: 600;
+        font-size: 0.92rem;
+        display: -webkit-box;
+        -webkit-line-clamp: 2;
+        -webkit-box-orient: vertical;
+        overflow: hidden;
+      }
+      .meta {
+        font-size: 0.75rem;
+        color: rgba(226, 232, 240, 0.55);
+      }
+      .delete {
+        background: none;
+        border: none;
+        color: rgba(226, 232, 240, 0.45);
+        font-size: 1.1rem;
+        padding: 10px 12px;
+        cursor: pointer;
+      }
+      .delete:hover {
+        color: #fca5a5;
+      }
+      .empty {
+        color: rgba(226, 232, 240, 0.6);
+        font-size: 0.85rem;
+        text-align: center;
+        padding: 16px;
+      }
+      @media (max-width: 1100px) {
+        .history {
+          position: static;
+          max-height: none;
+        }
+      }
+    `}</style>
+  </aside>
+);
@@ -0,0 +1,342 @@
+"use client";
+
+import { DragEvent, useState } from "react";
+import clsx from "clsx";
+import type { CalendarEntry } from "@/types/series";
+import { platformSpecs } from "@/lib/platforms";
+
+type CalendarView = "month" | "week";
+
+interface ContentCalendarProps {
+  entries: CalendarEntry[];
+  // Where the calendar opens, e.g. the series' first day.
+  initialDate: string;
+  busy?: boolean;
+  onMove: (entry: CalendarEntry, scheduledTime: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Week view rows; posts outside these hours sit in the nearest row.
+const FIRST_HOUR = 6;
+const LAST_HOUR = 23;
+const hours = Array.from({ length: LAST_HOUR - FIRST_HOUR + 1 }, (_, row) => FIRST_HOUR + row);
+const weekdays = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const statusLabels: Record<CalendarEntry["status"], string> = {
+  planned: "Planned",
+  queued: "Scheduled",
+  running: "Publishing",
+  paused: "Paused",
+  failed: "Failed",
+  published: "Live",
+};
+
+// Everything is laid out in the viewer's local time.
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+const startOfWeek = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+const entryKey = (entry: CalendarEntry) => `${entry.campaignId}:${entry.platform}`;
+
+const movable = (entry: CalendarEntry) =>
+  entry.status !== "published" && entry.status !== "running";
+
+export const ContentCalendar = ({ entries, initialDate, busy, onMove }: ContentCalendarProps) => {
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(() => new Date(`${initialDate}T12:00:00`));
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const byKey = new Map(entries.map((entry) => [entryKey(entry), entry]));
+  const onDay = (day: Date) =>
+    entries.filter((entry) => dayKey(new Date(entry.scheduledTime)) === dayKey(day));
+
+  const days =
+    view === "week"
+      ? Array.from({ length: 7 }, (_, index) => addDays(startOfWeek(cursor), index))
+      : (() => {
+          const first = startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth(), 1));
+          const last = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0);
+          // Rounded, since a DST switch makes some local days 23 or 25 hours long.
+          const span = Math.round((last.getTime() - first.getTime()) / DAY_MS) + 1;
+          const weeks = Math.ceil(span / 7);
+          return Array.from({ length: weeks * 7 }, (_, index) => addDays(first, index));
+        })();
+
+  const shift = (direction: 1 | -1) =>
+    setCursor((prev) =>
+      view === "week"
+        ? addDays(prev, 7 * direction)
+        : new Date(prev.getFullYear(), prev.getMonth() + direction, 1)
+    );
+
+  const title =
+    view === "week"
+      ? `Week of ${days[0].toLocaleDateString(undefined, { month: "short", day: "numeric" })}`
+      : cursor.toLocaleDateString(undefined, { month: "long", year: "numeric" });
+
+  // Month cells keep the post's time of day; week cells also set the hour.
+  const dropHandlers = (target: string, day: Date, hour?: number) => ({
+    onDragOver: (event: DragEvent) => {
+      event.preventDefault();
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget((prev) => (prev === target ? null : prev)),
+    onDrop: (event: DragEvent) => {
+      event.preventDefault();
+      setDropTarget(null);
+      const entry = byKey.get(event.dataTransfer.getData("text/plain"));
+      if (!entry || !movable(entry)) {
+        return;
+      }
+      const current = new Date(entry.scheduledTime);
+      const next = new Date(
+        day.getFullYear(),
+        day.getMonth(),
+        day.getDate(),
+        hour ?? current.getHours(),
+        hour === undefined ? current.getMinutes() : 0
+      );
+      if (next.getTime() !== current.getTime()) {
+        onMove(entry, next.toISOString());
+      }
+    },
+  });
+
+  const renderEntry = (entry: CalendarEntry) => (
+    <a
+      key={entryKey(entry)}
+      href={`/?campaign=${entry.campaignId}`}
+      className={clsx("entry", entry.status, { locked: !movable(entry) })}
+      draggable={movable(entry) && !busy}
+      onDragStart={(event) => event.dataTransfer.setData("text/plain", entryKey(entry))}
+      title={`Episode ${entry.episode + 1}: ${entry.hook}\n${statusLabels[entry.status]}`}
+    >
+      <span className="time">{formatTime(entry.scheduledTime)}</span>
+      <span className="platform">{platformSpecs[entry.platform].label}</span>
+      <span className="episode">
+        Ep {entry.episode + 1} · {entry.angle}
+      </span>
+    </a>
+  );
+
+  return (
+    <div className={clsx("calendar", { busy })}>
+      <div className="toolbar">
+        <div className="nav">
+          <button type="button" onClick={() => shift(-1)} aria-label="Previous">
+            ‹
+          </button>
+          <strong>{title}</strong>
+          <button type="button" onClick={() => shift(1)} aria-label="Next">
+            ›
+          </button>
+        </div>
+        <div className="views">
+          {(["month", "week"] as const).map((item) => (
+            <button
+              key={item}
+              type="button"
+              className={clsx({ active: view === item })}
+              onClick={() => setView(item)}
+            >
+              {item === "month" ? "Month" : "Week"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === "month" ? (
+        <div className="month">
+          {weekdays.map((weekday) => (
+            <div key={weekday} className="weekday">
+              {weekday}
+            </div>
+          ))}
+          {days.map((day) => {
+            const key = dayKey(day);
+            return (
+              <div
+                key={key}
+                className={clsx("day", {
+                  outside: day.getMonth() !== cursor.getMonth(),
+                  target: dropTarget === key,
+                })}
+                {...dropHandlers(key, day)}
+              >
+                <span className="date">{day.getDate()}</span>
+                {onDay(day).map(renderEntry)}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="week">
+          <div className="corner" />
+          {days.map((day) => (
+            <div key={dayKey(day)} className="weekday">
+              {day.toLocaleDateString(undefined, { weekday: "short", day: "numeric" })}
+            </div>
+          ))}
+          {hours.map((hour) => [
+            <div key={`hour-${hour}`} className="hour">
+              {new Date(2000, 0, 1, hour).toLocaleTimeString(undefined, { hour: "numeric" })}
+            </div>,
+            ...days.map((day) => {
+              const key = `${dayKey(day)}-${hour}`;
+              const slot = onDay(day).filter((entry) => {
+                const at = new Date(entry.scheduledTime).getHours();
+                return Math.min(LAST_HOUR, Math.max(FIRST_HOUR, at)) === hour;
+              });
+              return (
+                <div
+                  key={key}
+                  className={clsx("slot", { target: dropTarget === key })}
+                  {...dropHandlers(key, day, hour)}
+                >
+                  {slot.map(renderEntry)}
+                </div>
+              );
+            }),
+          ])}
+        </div>
+      )}
+
+      <style jsx>{`
+        .calendar {
+          display: flex;
+          flex-direction: column;
+          gap: 16px;
+        }
+        .calendar.busy {
+          opacity: 0.7;
+        }
+        .toolbar,
+        .nav,
+        .views {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+        }
+        .toolbar {
+          justify-content: space-between;
+        }
+        button {
+          background: rgba(56, 189, 248, 0.08);
+          border: 1px solid rgba(148, 163, 184, 0.3);
+          color: #f8fafc;
+          border-radius: 10px;
+          padding: 6px 12px;
+          cursor: pointer;
+        }
+        .views button.active {
+          background: rgba(56, 189, 248, 0.35);
+          border-color: rgba(56, 189, 248, 0.65);
+        }
+        .month,
+        .week {
+          display: grid;
+          gap: 4px;
+        }
+        .month {
+          grid-template-columns: repeat(7, minmax(0, 1fr));
+        }
+        .week {
+          grid-template-columns: 56px repeat(7, minmax(0, 1fr));
+          max-height: 640px;
+          overflow-y: auto;
+        }
+        .weekday {
+          font-size: 0.75rem;
+          text-transform: uppercase;
+          letter-spacing: 0.06em;
+          color: rgba(226, 232, 240, 0.6);
+          padding: 4px 6px;
+        }
+        .day,
+        .slot {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          padding: 6px;
+          border-radius: 10px;
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.12);
+        }
+        .day {
+          min-height: 110px;
+        }
+        .slot {
+          min-height: 44px;
+        }
+        .day.outside {
+          opacity: 0.45;
+        }
+        .day.target,
+        .slot.target {
+          border-color: rgba(56, 189, 248, 0.8);
+          background: rgba(56, 189, 248, 0.12);
+        }
+        .date,
+        .hour {
+          font-size: 0.75rem;
+          color: rgba(226, 232, 240, 0.55);
+        }
+        .hour {
+          text-align: right;
+          padding: 6px 4px 0 0;
+        }
+        .entry {
+          display: flex;
+          flex-direction: column;
+          gap: 1px;
+          padding: 6px 8px;
+          border-radius: 8px;
+          font-size: 0.75rem;
+          background: rgba(56, 189, 248, 0.16);
+          border: 1px solid rgba(56, 189, 248, 0.4);
+          cursor: grab;
+        }
+        .entry.planned {
+          border-style: dashed;
+          background: rgba(30, 41, 59, 0.9);
+        }
+        .entry.published {
+          background: rgba(74, 222, 128, 0.14);
+          border-color: rgba(74, 222, 128, 0.5);
+        }
+        .entry.failed {
+          border-color: rgba(248, 113, 113, 0.7);
+        }
+        .entry.paused {
+          opacity: 0.7;
+        }
+        .entry.locked {
+          cursor: pointer;
+        }
+        .entry .time {
+          color: rgba(226, 232, 240, 0.65);
+        }
+        .entry .platform {
+          font-weight: 600;
+        }
+        .entry .episode {
+          color: rgba(226, 232, 240, 0.75);
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+      `}</style>
+    </div>
+  );
+};
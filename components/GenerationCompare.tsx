@@ -0,0 +1,156 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { CampaignGeneration } from "@/types/campaign";
+import { diffWords, type DiffSegment } from "@/lib/campaigns/diff";
+
+interface GenerationCompareProps {
+  generations: CampaignGeneration[];
+}
+
+interface CompareRow {
+  label: string;
+  before: string;
+  after: string;
+}
+
+const buildRows = (left: CampaignGeneration, right: CampaignGeneration): CompareRow[] => {
+  const rows: CompareRow[] = [
+    { label: "Hook", before: left.response.hook, after: right.response.hook },
+    { label: "Script", before: left.response.script, after: right.response.script },
+  ];
+
+  const sceneCount = Math.max(left.response.scenes.length, right.response.scenes.length);
+  for (let index = 0; index < sceneCount; index += 1) {
+    const before = left.response.scenes[index];
+    const after = right.response.scenes[index];
+    rows.push({
+      label: `Scene ${index + 1}`,
+      before: before ? `${before.title} (${before.durationSeconds}s) — ${before.narration}` : "",
+      after: after ? `${after.title} (${after.durationSeconds}s) — ${after.narration}` : "",
+    });
+  }
+
+  const platforms = Array.from(
+    new Set([...left.request.platforms, ...right.request.platforms])
+  );
+  platforms.forEach((platform) => {
+    const before = left.response.socialPosts.find((post) => post.platform === platform);
+    const after = right.response.socialPosts.find((post) => post.platform === platform);
+    rows.push({
+      label: `Caption · ${platform}`,
+      before: before?.caption ?? "",
+      after: after?.caption ?? "",
+    });
+  });
+
+  return rows;
+};
+
+const formatLabel = (generation: CampaignGeneration, index: number) =>
+  `Run ${index + 1} · ${new Date(generation.createdAt).toLocaleString()} · ${generation.request.tone}`;
+
+const renderSide = (segments: DiffSegment[], hide: DiffSegment["type"]) =>
+  segments
+    .filter((segment) => segment.type !== hide)
+    .map((segment, index) => (
+      <span key={index} className={segment.type}>
+        {segment.text}
+      </span>
+    ));
+
+export const GenerationCompare = ({ generations }: GenerationCompareProps) => {
+  const [leftId, setLeftId] = useState(generations[generations.length - 2]?.id ?? "");
+  const [rightId, setRightId] = useState(generations[generations.length - 1]?.id ?? "");
+
+  const left = generations.find((generation) => generation.id === leftId);
+  const right = generations.find((generation) => generation.id === rightId);
+
+  const rows = useMemo(() => (left && right ? buildRows(left, right) : []), [left, right]);
+
+  return (
+    <div className="compare">
+      <div className="pickers">
+        <select value={leftId} onChange={(event) => setLeftId(event.target.value)}>
+          {generations.map((generation, index) => (
+            <option key={generation.id} value={generation.id}>
+              {formatLabel(generation, index)}
+            </option>
+          ))}
+        </select>
+        <select value={rightId} onChange={(event) => setRightId(event.target.value)}>
+          {generations.map((generation, index) => (
+            <option key={generation.id} value={generation.id}>
+              {formatLabel(generation, index)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="rows">
+        {rows.map((row) => {
+          const segments = diffWords(row.before, row.after);
+          return (
+            <div key={row.label} className="row">
+              <span className="label">{row.label}</span>
+              <p>{renderSide(segments, "added")}</p>
+              <p>{renderSide(segments, "removed")}</p>
+            </div>
+          );
+        })}
+      </div>
+      <style jsx>{`
+        .compare {
+          display: flex;
+          flex-direction: column;
+          gap: 16px;
+        }
+        .pickers {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 12px;
+        }
+        select {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.35);
+          border-radius: 12px;
+          padding: 10px 12px;
+          color: #f8fafc;
+        }
+        .rows {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+        .row {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 12px;
+          border-radius: 16px;
+          padding: 14px;
+          background: rgba(30, 41, 59, 0.8);
+          border: 1px solid rgba(148, 163, 184, 0.18);
+        }
+        .row .label {
+          grid-column: 1 / -1;
+          font-size: 0.75rem;
+          text-transform: uppercase;
+          letter-spacing: 0.06em;
+          color: rgba(96, 165, 250, 0.9);
+        }
+        .row p {
+          margin: 0;
+          white-space: pre-wrap;
+          color: rgba(226, 232, 240, 0.85);
+          font-size: 0.9rem;
+        }
+        .row :global(.removed) {
+          background: rgba(248, 113, 113, 0.25);
+          text-decoration: line-through;
+        }
+        .row :global(.added) {
+          background: rgba(74, 222, 128, 0.25);
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+"use client";
+
+import type { Platform } from "@/types/agent";
+import type { HookRationale } from "@/types/insights";
+import { platformSpecs } from "@/lib/platforms";
+
+interface HookRationaleCardProps {
+  rationale: HookRationale;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const platformNames = (items: Platform[]) =>
+  items.map((platform) => platformSpecs[platform].label).join(", ");
+
+export const HookRationaleCard = ({ rationale }: HookRationaleCardProps) => (
+  <div className="rationale">
+    <h3>Why this hook</h3>
+    <p>{rationale.summary}</p>
+    {rationale.notes.length > 0 && (
+      <ul>
+        {rationale.notes.map((note) => (
+          <li key={note}>{note}</li>
+        ))}
+      </ul>
+    )}
+    {rationale.references.length > 0 && (
+      <div className="references">
+        <span className="label">Based on</span>
+        {rationale.references.map((reference) => (
+          <div key={reference.campaignId} className="reference">
+            <strong>“{reference.hook}”</strong>
+            <span>
+              {reference.title} · {reference.tone} · {reference.lengthSeconds}s
+            </span>
+            <span>
+              {platformNames(reference.platforms)} · {reference.views.toLocaleString()} views ·{" "}
+              {percent(reference.engagementRate)} engagement · {reference.score.toFixed(1)}× typical
+            </span>
+          </div>
+        ))}
+      </div>
+    )}
+    <style jsx>{`
+      .rationale {
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+        margin-top: 20px;
+      }
+      h3 {
+        margin: 0;
+      }
+      p {
+        margin: 0;
+        color: rgba(226, 232, 240, 0.85);
+      }
+      ul {
+        margin: 0;
+        padding-left: 20px;
+        display: grid;
+        gap: 6px;
+        color: rgba(226, 232, 240, 0.75);
+        font-size: 0.9rem;
+      }
+      .references {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+      .label {
+        font-size: 0.75rem;
+        text-transform: uppercase;
+        letter-spacing: 0.06em;
+        color: rgba(96, 165, 250, 0.9);
+      }
+      .reference {
+        display: flex;
+        flex-direction: column;
+        gap: 2px;
+        border-radius: 14px;
+        padding: 10px 12px;
+        background: rgba(30, 41, 59, 0.8);
+        border: 1px solid rgba(148, 163, 184, 0.18);
+        font-size: 0.85rem;
+      }
+      .reference span {
+        color: rgba(226, 232, 240, 0.6);
+      }
+    `}</style>
+  </div>
+);
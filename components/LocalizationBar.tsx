@@ -0,0 +1,133 @@
+"use client";
+
+import clsx from "clsx";
+import type { Localization } from "@/types/agent";
+import { localeBounds, localeNames, locales, type Locale } from "@/types/locale";
+
+interface LocalizationBarProps {
+  source: Locale;
+  localizations: Localization[];
+  // The translation being viewed; null for the source language.
+  active: Locale | null;
+  translating: Locale | null;
+  onSelect: (locale: Locale | null) => void;
+  // Omitted while the campaign can't be translated, e.g. mid-run.
+  onTranslate?: (locale: Locale) => void;
+}
+
+export const LocalizationBar = ({
+  source,
+  localizations,
+  active,
+  translating,
+  onSelect,
+  onTranslate,
+}: LocalizationBarProps) => {
+  const current = localizations.find((item) => item.locale === active) ?? null;
+  const taken = new Set<Locale>([source, ...localizations.map((item) => item.locale)]);
+  const available = locales.filter((locale) => !taken.has(locale));
+  const canAdd = available.length > 0 && taken.size < localeBounds.max;
+
+  return (
+    <div className="localization">
+      <div className="tabs" role="tablist" aria-label="Campaign language">
+        <button
+          type="button"
+          role="tab"
+          aria-selected={active === null}
+          className={clsx({ active: active === null })}
+          onClick={() => onSelect(null)}
+        >
+          {localeNames[source]} <span>source</span>
+        </button>
+        {localizations.map((item) => (
+          <button
+            key={item.locale}
+            type="button"
+            role="tab"
+            aria-selected={active === item.locale}
+            className={clsx({ active: active === item.locale, draft: !item.translated })}
+            onClick={() => onSelect(item.locale)}
+          >
+            {localeNames[item.locale]}
+          </button>
+        ))}
+        {onTranslate && canAdd && (
+          <select
+            value=""
+            onChange={(event) => onTranslate(event.target.value as Locale)}
+            disabled={translating !== null}
+            aria-label="Add a language"
+          >
+            <option value="">{translating ? "Translating…" : "Add language…"}</option>
+            {available.map((locale) => (
+              <option key={locale} value={locale}>
+                {localeNames[locale]}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {current && (
+        <div className="status">
+          <span>
+            {current.translated
+              ? "Machine translated; review the copy before it goes out."
+              : "Not translated: this is the source copy, ready to be translated by hand."}
+          </span>
+          {onTranslate && (
+            <button
+              type="button"
+              onClick={() => onTranslate(current.locale)}
+              disabled={translating !== null}
+            >
+              {translating === current.locale ? "Translating…" : "Translate again"}
+            </button>
+          )}
+        </div>
+      )}
+      <style jsx>{`
+        .localization {
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+        }
+        .tabs,
+        .status {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+        }
+        .tabs button,
+        .status button {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.35);
+          color: #f8fafc;
+          border-radius: 999px;
+          padding: 6px 14px;
+          cursor: pointer;
+        }
+        .tabs button.active {
+          background: rgba(56, 189, 248, 0.2);
+          border-color: rgba(56, 189, 248, 0.6);
+        }
+        .tabs button.draft {
+          border-style: dashed;
+        }
+        .tabs span {
+          font-size: 0.75rem;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        button[disabled] {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+        .status {
+          font-size: 0.85rem;
+          color: rgba(226, 232, 240, 0.7);
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import clsx from "clsx";
+import type { Platform } from "@/types/agent";
+import type { Campaign } from "@/types/campaign";
+import type { Locale } from "@/types/locale";
+import type { RenderJob } from "@/types/render";
+import type { SoundtrackSettings } from "@/lib/audio/soundtrack";
+import { platformSpecs } from "@/lib/platforms";
+import { cancelRender, fetchRenders, queueRenders } from "@/lib/render/client";
+import { captionPresetLabels, captionPresets, type CaptionPreset } from "@/lib/video/captions";
+
+interface RenderQueueProps {
+  campaign: Campaign;
+  platforms: Platform[];
+  // Set while a translation is on screen; only its renders are listed and queued.
+  locale?: Locale;
+  // Renders are narrated and scored with these; the voice is synthesized again on the server.
+  soundtrack: SoundtrackSettings;
+  canRender: boolean;
+  // A render finished and was saved to the campaign.
+  onRendered: () => void;
+}
+
+const POLL_MS = 3_000;
+
+const targetLabel = (render: RenderJob) =>
+  render.platform ? platformSpecs[render.platform].label : "Full video";
+
+const isActive = (render: RenderJob) => render.status === "queued" || render.status === "rendering";
+
+/** Server renders of the saved campaign, for posts that go out while nobody has this tab open. */
+export const RenderQueue = ({
+  campaign,
+  platforms,
+  locale,
+  soundtrack,
+  canRender,
+  onRendered,
+}: RenderQueueProps) => {
+  const [renders, setRenders] = useState<RenderJob[]>([]);
+  const [target, setTarget] = useState<Platform | "full">("full");
+  const [captions, setCaptions] = useState<CaptionPreset>("classic");
+  const [error, setError] = useState<string | null>(null);
+  const rendersRef = useRef<RenderJob[]>([]);
+
+  const shown = renders.filter(
+    (render) => render.generationId === campaign.activeGenerationId && render.locale === locale
+  );
+  const hasActive = renders.some(isActive);
+
+  const refresh = useCallback(async () => {
+    const next = await fetchRenders(campaign.id);
+    const finished = next.some(
+      (render) =>
+        render.status === "done" &&
+        rendersRef.current.some((item) => item.id === render.id && item.status !== "done")
+    );
+    rendersRef.current = next;
+    setRenders(next);
+    if (finished) {
+      onRendered();
+    }
+  }, [campaign.id, onRendered]);
+
+  // Scheduling queues renders too, and saving the campaign is what signals it.
+  useEffect(() => {
+    refresh().catch((err) => console.warn("Failed to load server renders", err));
+  }, [refresh, campaign.updatedAt]);
+
+  useEffect(() => {
+    if (!hasActive) {
+      return;
+    }
+    const timer = setInterval(() => {
+      refresh().catch((err) => console.warn("Failed to refresh server renders", err));
+    }, POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasActive, refresh]);
+
+  const run = async (change: () => Promise<void>) => {
+    setError(null);
+    try {
+      await change();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update server renders");
+    }
+  };
+
+  const handleQueue = () =>
+    run(async () => {
+      await queueRenders(campaign.id, {
+        ...(target === "full" ? {} : { platforms: [target] }),
+        ...(locale ? { locale } : {}),
+        captions,
+        soundtrack: {
+          voice: soundtrack.voice,
+          music: soundtrack.music,
+          musicVolume: soundtrack.musicVolume,
+          ducking: soundtrack.ducking,
+        },
+      });
+    });
+
+  const handleCancel = (id: string) =>
+    run(async () => {
+      await cancelRender(id);
+    });
+
+  return (
+    <div className="queue">
+      <span className="label">Server renders</span>
+      {canRender && (
+        <div className="controls">
+          <select
+            value={target}
+            onChange={(event) => setTarget(event.target.value as Platform | "full")}
+            aria-label="What to render"
+          >
+            <option value="full">Full video</option>
+            {platforms.map((platform) => (
+              <option key={platform} value={platform}>
+                {platformSpecs[platform].label} cut
+              </option>
+            ))}
+          </select>
+          <select
+            value={captions}
+            onChange={(event) => setCaptions(event.target.value as CaptionPreset)}
+            aria-label="Caption style"
+          >
+            {captionPresets.map((preset) => (
+              <option key={preset} value={preset}>
+                {captionPresetLabels[preset]}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={handleQueue}>
+            Render on server
+          </button>
+          <small>Uses the saved campaign, with the voice and music picked below.</small>
+        </div>
+      )}
+      {shown.length > 0 && (
+        <ul>
+          {shown.map((render) => (
+            <li key={render.id}>
+              <span className={clsx("status", render.status)}>{render.status}</span>
+              <span className="target">
+                {targetLabel(render)}
+                {render.error && <small>{render.error}</small>}
+              </span>
+              {render.status === "rendering" && (
+                <div className="bar">
+                  <div style={{ width: `${Math.round(render.progress * 100)}%` }} />
+                </div>
+              )}
+              {canRender && isActive(render) && (
+                <button type="button" onClick={() => handleCancel(render.id)}>
+                  Cancel
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="error">{error}</p>}
+      <style jsx>{`
+        .queue {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+        .label {
+          font-size: 0.8rem;
+          text-transform: uppercase;
+          letter-spacing: 0.08em;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        .controls,
+        li {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+        }
+        ul {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          font-size: 0.85rem;
+        }
+        .target {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+        }
+        small {
+          color: rgba(226, 232, 240, 0.6);
+          font-size: 0.8rem;
+        }
+        .status {
+          padding: 2px 8px;
+          border-radius: 999px;
+          background: rgba(148, 163, 184, 0.2);
+          font-size: 0.8rem;
+        }
+        .status.done {
+          background: rgba(74, 222, 128, 0.2);
+          color: #bbf7d0;
+        }
+        .status.failed {
+          background: rgba(248, 113, 113, 0.2);
+          color: #fecaca;
+        }
+        .bar {
+          width: 120px;
+          height: 6px;
+          border-radius: 999px;
+          background: rgba(148, 163, 184, 0.25);
+          overflow: hidden;
+        }
+        .bar div {
+          height: 100%;
+          background: #38bdf8;
+        }
+        select,
+        button {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.35);
+          color: #f8fafc;
+          border-radius: 999px;
+          padding: 6px 14px;
+        }
+        button {
+          cursor: pointer;
+        }
+        .error {
+          margin: 0;
+          color: #fca5a5;
+        }
+      `}</style>
+    </div>
+  );
+};
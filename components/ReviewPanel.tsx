@@ -0,0 +1,322 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import clsx from "clsx";
+import type { AgentResponse } from "@/types/agent";
+import type { Campaign } from "@/types/campaign";
+import { localeNames, type Locale } from "@/types/locale";
+import {
+  reviewActionPermissions,
+  reviewActions,
+  reviewStateLabels,
+  type CommentTarget,
+  type ReviewAction,
+} from "@/types/review";
+import type { Role } from "@/types/workspace";
+import { can } from "@/lib/auth/roles";
+import { platformSpecs } from "@/lib/platforms";
+import { addComment, resolveComment, reviewCampaign } from "@/lib/review/client";
+import { nextReviewState, reviewStateOf } from "@/lib/review/state";
+
+interface ReviewPanelProps {
+  campaign: Campaign;
+  // The copy on screen, which is what new comments point at.
+  response: AgentResponse;
+  // Set while a translation is on screen; caption comments then refer to it.
+  locale: Locale | null;
+  role: Role;
+  // Why review actions are unavailable right now, e.g. unsaved edits.
+  blockedReason?: string;
+  onCampaignChange: (campaign: Campaign) => void;
+}
+
+const actionLabels: Record<ReviewAction, string> = {
+  submit: "Submit for review",
+  withdraw: "Withdraw",
+  approve: "Approve",
+  "request-changes": "Request changes",
+};
+
+const targetKey = (target: CommentTarget) => {
+  switch (target.kind) {
+    case "scene":
+      return `scene:${target.sceneId}`;
+    case "socialPost":
+      return `socialPost:${target.platform}:${target.locale ?? ""}`;
+    case "campaign":
+    default:
+      return "campaign";
+  }
+};
+
+const targetLabel = (target: CommentTarget, response: AgentResponse) => {
+  if (target.kind === "scene") {
+    const index = response.scenes.findIndex((scene) => scene.id === target.sceneId);
+    return index === -1 ? "Removed scene" : `Scene ${index + 1}: ${response.scenes[index].title}`;
+  }
+  if (target.kind === "socialPost") {
+    const label = `${platformSpecs[target.platform].label} caption`;
+    return target.locale ? `${label} (${localeNames[target.locale]})` : label;
+  }
+  return "Whole campaign";
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+export const ReviewPanel = ({
+  campaign,
+  response,
+  locale,
+  role,
+  blockedReason,
+  onCampaignChange,
+}: ReviewPanelProps) => {
+  const state = reviewStateOf(campaign);
+  const [note, setNote] = useState("");
+  const [body, setBody] = useState("");
+  const [target, setTarget] = useState("campaign");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targets: CommentTarget[] = [
+    { kind: "campaign" },
+    ...response.scenes.map((scene): CommentTarget => ({ kind: "scene", sceneId: scene.id })),
+    ...response.socialPosts.map(
+      (post): CommentTarget => ({
+        kind: "socialPost",
+        platform: post.platform,
+        ...(locale ? { locale } : {}),
+      })
+    ),
+  ];
+  const actions = reviewActions.filter(
+    (action) => nextReviewState(state, action) && can(role, reviewActionPermissions[action])
+  );
+  const comments = campaign.comments ?? [];
+  const groups = Array.from(
+    comments.reduce((byTarget, comment) => {
+      const key = targetKey(comment.target);
+      return byTarget.set(key, [...(byTarget.get(key) ?? []), comment]);
+    }, new Map<string, typeof comments>())
+  );
+
+  const run = async (change: Promise<Campaign>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onCampaignChange(await change);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update the review");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAction = async (action: ReviewAction) => {
+    const done = await run(
+      reviewCampaign(campaign.id, { action, ...(note.trim() ? { note: note.trim() } : {}) })
+    );
+    if (done) {
+      setNote("");
+    }
+  };
+
+  const handleComment = async (event: FormEvent) => {
+    event.preventDefault();
+    const chosen = targets.find((item) => targetKey(item) === target) ?? { kind: "campaign" };
+    const done = await run(addComment(campaign.id, { target: chosen, body }));
+    if (done) {
+      setBody("");
+    }
+  };
+
+  return (
+    <section className="review">
+      <header>
+        <h3>Review</h3>
+        <span className={clsx("badge", state)}>{reviewStateLabels[state]}</span>
+        {campaign.review?.updatedBy && (
+          <span className="meta">
+            by {campaign.review.updatedBy}, {formatDate(campaign.review.updatedAt)}
+          </span>
+        )}
+      </header>
+      {state !== "approved" && state !== "scheduled" && (
+        <p className="meta">Posts can be scheduled once a reviewer approves this campaign.</p>
+      )}
+      {actions.length > 0 && (
+        <div className="actions">
+          <input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Note for the team (optional)"
+            aria-label="Review note"
+          />
+          {actions.map((action) => (
+            <button
+              key={action}
+              type="button"
+              className={clsx({ primary: action === "approve" || action === "submit" })}
+              onClick={() => handleAction(action)}
+              disabled={busy || Boolean(blockedReason)}
+              title={blockedReason}
+            >
+              {actionLabels[action]}
+            </button>
+          ))}
+        </div>
+      )}
+      {groups.length > 0 && (
+        <ul className="threads">
+          {groups.map(([key, thread]) => (
+            <li key={key}>
+              <strong>{targetLabel(thread[0].target, response)}</strong>
+              <ul>
+                {thread.map((comment) => (
+                  <li key={comment.id} className={clsx({ resolved: comment.resolvedAt })}>
+                    <span className="meta">
+                      {comment.authorName} · {formatDate(comment.createdAt)}
+                    </span>
+                    <p>{comment.body}</p>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        run(resolveComment(campaign.id, comment.id, !comment.resolvedAt))
+                      }
+                      disabled={busy}
+                    >
+                      {comment.resolvedAt ? "Reopen" : "Resolve"}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleComment}>
+        <select
+          value={target}
+          onChange={(event) => setTarget(event.target.value)}
+          aria-label="Comment on"
+        >
+          {targets.map((item) => (
+            <option key={targetKey(item)} value={targetKey(item)}>
+              {targetLabel(item, response)}
+            </option>
+          ))}
+        </select>
+        <textarea
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+          placeholder="Leave a comment"
+          rows={2}
+          required
+        />
+        <button type="submit" disabled={busy || !body.trim()}>
+          Comment
+        </button>
+      </form>
+      {error && <p className="error">{error}</p>}
+      <style jsx>{`
+        .review {
+          display: flex;
+          flex-direction: column;
+          gap: 14px;
+          padding: 24px;
+          border-radius: 24px;
+          background: rgba(15, 23, 42, 0.78);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+        }
+        header,
+        .actions,
+        form {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 10px;
+        }
+        h3 {
+          margin: 0;
+        }
+        .badge {
+          padding: 4px 12px;
+          border-radius: 999px;
+          font-size: 0.8rem;
+          background: rgba(148, 163, 184, 0.2);
+        }
+        .badge.in-review {
+          background: rgba(250, 204, 21, 0.2);
+          color: #fde68a;
+        }
+        .badge.approved,
+        .badge.scheduled {
+          background: rgba(74, 222, 128, 0.2);
+          color: #bbf7d0;
+        }
+        .meta {
+          margin: 0;
+          font-size: 0.8rem;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        input,
+        select,
+        textarea {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.35);
+          border-radius: 12px;
+          padding: 8px 12px;
+          color: #f8fafc;
+        }
+        input,
+        textarea {
+          flex: 1;
+          min-width: 200px;
+        }
+        button {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.35);
+          color: #f8fafc;
+          border-radius: 999px;
+          padding: 6px 14px;
+          cursor: pointer;
+        }
+        button.primary {
+          background: rgba(56, 189, 248, 0.2);
+          border-color: rgba(56, 189, 248, 0.6);
+        }
+        button[disabled] {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+        .threads,
+        .threads ul {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+        }
+        .threads ul {
+          margin-top: 8px;
+          padding-left: 12px;
+          border-left: 2px solid rgba(148, 163, 184, 0.25);
+        }
+        .threads p {
+          margin: 4px 0;
+        }
+        .resolved {
+          opacity: 0.5;
+        }
+        .error {
+          margin: 0;
+          color: #fca5a5;
+          font-size: 0.9rem;
+        }
+      `}</style>
+    </section>
+  );
+};
@@ -0,0 +1,270 @@
+"use client";
+
+import {
+  backgroundMotions,
+  captionMotions,
+  sceneTransitions,
+  type SceneAnimation,
+  type ScenePlan,
+} from "@/types/agent";
+import { defaultAnimation } from "@/lib/video/scene";
+import { VisualPicker } from "./VisualPicker";
+
+type SceneField =
+  | "title"
+  | "narration"
+  | "visualDirection"
+  | "durationSeconds"
+  | "transition"
+  | "animation"
+  | "visual";
+
+interface SceneCardsProps {
+  scenes: ScenePlan[];
+  regeneratingIndex?: number | null;
+  onChange?: (index: number, patch: Partial<Pick<ScenePlan, SceneField>>) => void;
+  onRegenerate?: (index: number) => void;
+}
+
+export const SceneCards = ({
+  scenes,
+  regeneratingIndex = null,
+  onChange,
+  onRegenerate,
+}: SceneCardsProps) => (
+  <div className="scene-grid">
+    {scenes.map((scene, index) =>
+      onChange ? (
+        <div key={scene.id} className="scene editable">
+          <div className="scene-head">
+            <span className="index">Scene {index + 1}</span>
+            <label className="duration">
+              <input
+                type="number"
+                min={1}
+                value={scene.durationSeconds}
+                onChange={(event) =>
+                  onChange(index, { durationSeconds: Math.max(1, Number(event.target.value) || 1) })
+                }
+                aria-label={`Scene ${index + 1} duration in seconds`}
+              />
+              s
+            </label>
+          </div>
+          <input
+            className="title"
+            value={scene.title}
+            onChange={(event) => onChange(index, { title: event.target.value })}
+            aria-label={`Scene ${index + 1} title`}
+          />
+          <textarea
+            rows={4}
+            value={scene.narration}
+            onChange={(event) => onChange(index, { narration: event.target.value })}
+            aria-label={`Scene ${index + 1} narration`}
+          />
+          <textarea
+            className="visual"
+            rows={2}
+            value={scene.visualDirection}
+            onChange={(event) => onChange(index, { visualDirection: event.target.value })}
+            aria-label={`Scene ${index + 1} visual direction`}
+          />
+          <VisualPicker
+            label={`Scene ${index + 1}`}
+            direction={scene.visualDirection}
+            visual={scene.visual}
+            onChange={(visual) => onChange(index, { visual })}
+          />
+          <div className="motion">
+            <label>
+              Transition
+              <select
+                value={scene.transition ?? "cut"}
+                disabled={index === 0}
+                onChange={(event) =>
+                  onChange(index, { transition: event.target.value as ScenePlan["transition"] })
+                }
+              >
+                {sceneTransitions.map((transition) => (
+                  <option key={transition} value={transition}>
+                    {transition}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Background
+              <select
+                value={(scene.animation ?? defaultAnimation).background}
+                onChange={(event) =>
+                  onChange(index, {
+                    animation: {
+                      ...(scene.animation ?? defaultAnimation),
+                      background: event.target.value as SceneAnimation["background"],
+                    },
+                  })
+                }
+              >
+                {backgroundMotions.map((motion) => (
+                  <option key={motion} value={motion}>
+                    {motion}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Captions
+              <select
+                value={(scene.animation ?? defaultAnimation).captions}
+                onChange={(event) =>
+                  onChange(index, {
+                    animation: {
+                      ...(scene.animation ?? defaultAnimation),
+                      captions: event.target.value as SceneAnimation["captions"],
+                    },
+                  })
+                }
+              >
+                {captionMotions.map((motion) => (
+                  <option key={motion} value={motion}>
+                    {motion}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="check">
+              <input
+                type="checkbox"
+                checked={(scene.animation ?? defaultAnimation).progressBar}
+                onChange={(event) =>
+                  onChange(index, {
+                    animation: {
+                      ...(scene.animation ?? defaultAnimation),
+                      progressBar: event.target.checked,
+                    },
+                  })
+                }
+              />
+              Progress bar
+            </label>
+          </div>
+          {onRegenerate && (
+            <button
+              type="button"
+              onClick={() => onRegenerate(index)}
+              disabled={regeneratingIndex !== null}
+            >
+              {regeneratingIndex === index ? "Rewriting…" : "Regenerate scene"}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div key={scene.id} className="scene">
+          <span className="index">Scene {index + 1}</span>
+          <h4>{scene.title}</h4>
+          <p>{scene.narration}</p>
+          <div className="visual">{scene.visualDirection}</div>
+        </div>
+      )
+    )}
+    <style jsx>{`
+      .scene-grid {
+        display: grid;
+        gap: 18px;
+        grid-template-columns: repeat(auto-fit, minmax(220px, 1fr));
+      }
+      .scene {
+        border-radius: 20px;
+        padding: 18px;
+        background: rgba(30, 41, 59, 0.9);
+        border: 1px solid rgba(56, 189, 248, 0.2);
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+      }
+      .scene-head {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+      }
+      .index {
+        font-size: 0.78rem;
+        letter-spacing: 0.06em;
+        text-transform: uppercase;
+        color: rgba(96, 165, 250, 0.9);
+      }
+      h4 {
+        margin: 0;
+        font-size: 1.1rem;
+      }
+      p {
+        margin: 0;
+        color: rgba(226, 232, 240, 0.85);
+      }
+      .visual {
+        margin-top: auto;
+        font-size: 0.85rem;
+        color: rgba(226, 232, 240, 0.64);
+      }
+      .motion {
+        display: grid;
+        grid-template-columns: repeat(2, minmax(0, 1fr));
+        gap: 8px;
+      }
+      .motion label {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        font-size: 0.75rem;
+        color: rgba(226, 232, 240, 0.6);
+      }
+      .motion label.check {
+        flex-direction: row;
+        align-items: center;
+        align-self: end;
+        gap: 6px;
+      }
+      input,
+      select,
+      textarea {
+        background: rgba(15, 23, 42, 0.6);
+        border: 1px solid rgba(148, 163, 184, 0.25);
+        border-radius: 10px;
+        padding: 8px 10px;
+        color: #f8fafc;
+        font: inherit;
+        resize: vertical;
+      }
+      input.title {
+        font-weight: 600;
+        font-size: 1.05rem;
+      }
+      .duration {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        font-size: 0.8rem;
+        color: rgba(226, 232, 240, 0.6);
+      }
+      .duration input {
+        width: 64px;
+        padding: 4px 8px;
+      }
+      button {
+        align-self: flex-start;
+        background: rgba(56, 189, 248, 0.12);
+        border: 1px solid rgba(56, 189, 248, 0.4);
+        color: #f8fafc;
+        border-radius: 10px;
+        padding: 6px 12px;
+        font-size: 0.85rem;
+        cursor: pointer;
+      }
+      button[disabled] {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    `}</style>
+  </div>
+);
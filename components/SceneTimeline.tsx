@@ -0,0 +1,428 @@
+"use client";
+
+import { PointerEvent as ReactPointerEvent, useMemo, useRef, useState } from "react";
+import clsx from "clsx";
+import type { Platform, ScenePlan } from "@/types/agent";
+import { platformSpecs } from "@/lib/platforms";
+import {
+  canSplitScene,
+  insertScene,
+  mergeWithNext,
+  moveScene,
+  narrationWords,
+  removeScene,
+  resizeScene,
+  splitScene,
+  totalDuration,
+} from "@/lib/timeline";
+import { fitToPace, scenePacing } from "@/lib/voiceProfiles/pacing";
+
+interface SceneTimelineProps {
+  scenes: ScenePlan[];
+  lengthSeconds: number;
+  platforms: Platform[];
+  // The voice profile's reading pace; without one narration length isn't checked.
+  wordsPerMinute?: number;
+  onChange: (scenes: ScenePlan[]) => void;
+}
+
+interface TrimState {
+  index: number;
+  startX: number;
+  startDuration: number;
+}
+
+const formatSeconds = (value: number) => `${Number.isInteger(value) ? value : value.toFixed(1)}s`;
+
+export const SceneTimeline = ({
+  scenes,
+  lengthSeconds,
+  platforms,
+  wordsPerMinute,
+  onChange,
+}: SceneTimelineProps) => {
+  const trackRef = useRef<HTMLDivElement | null>(null);
+  const trimRef = useRef<TrimState | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const total = totalDuration(scenes);
+  const limits = useMemo(
+    () =>
+      platforms
+        .map((platform) => ({ platform, ...platformSpecs[platform] }))
+        .sort((a, b) => a.maxDurationSeconds - b.maxDurationSeconds),
+    [platforms]
+  );
+  const scale = Math.max(total, lengthSeconds) * 1.1;
+  const current = scenes[Math.min(selected, scenes.length - 1)];
+  const currentIndex = Math.min(selected, scenes.length - 1);
+
+  const secondsPerPixel = () => {
+    const width = trackRef.current?.getBoundingClientRect().width ?? 1;
+    return scale / width;
+  };
+
+  const handleTrimStart = (index: number) => (event: ReactPointerEvent<HTMLSpanElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    trimRef.current = { index, startX: event.clientX, startDuration: scenes[index].durationSeconds };
+  };
+
+  const handleTrimMove = (event: ReactPointerEvent<HTMLSpanElement>) => {
+    const trim = trimRef.current;
+    if (!trim) {
+      return;
+    }
+    const delta = (event.clientX - trim.startX) * secondsPerPixel();
+    onChange(resizeScene(scenes, trim.index, trim.startDuration + delta));
+  };
+
+  const handleTrimEnd = (event: ReactPointerEvent<HTMLSpanElement>) => {
+    if (trimRef.current) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+      trimRef.current = null;
+    }
+  };
+
+  const handleDrop = () => {
+    if (dragIndex !== null && dropIndex !== null) {
+      const target = dropIndex > dragIndex ? dropIndex - 1 : dropIndex;
+      onChange(moveScene(scenes, dragIndex, target));
+      setSelected(target);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const overLimits = limits.filter((limit) => total > limit.maxDurationSeconds);
+  const pacing = wordsPerMinute ? scenePacing(scenes, wordsPerMinute) : [];
+  const rushed = pacing.filter((item) => item.rushed);
+
+  return (
+    <div className="timeline">
+      <div className="summary">
+        <span className={clsx("total", { over: total > lengthSeconds, under: total < lengthSeconds })}>
+          {formatSeconds(total)} of {formatSeconds(lengthSeconds)} requested
+        </span>
+        {limits.map((limit) => (
+          <span
+            key={limit.platform}
+            className={clsx("limit", { over: total > limit.maxDurationSeconds })}
+          >
+            {limit.label} max {formatSeconds(limit.maxDurationSeconds)}
+          </span>
+        ))}
+        {wordsPerMinute && (
+          <span className={clsx("limit", { over: rushed.length > 0 })}>
+            Read at {wordsPerMinute} wpm
+          </span>
+        )}
+      </div>
+
+      <div
+        className="track"
+        ref={trackRef}
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={handleDrop}
+      >
+        {scenes.map((scene, index) => (
+          <div
+            key={scene.id}
+            className={clsx("clip", {
+              selected: index === currentIndex,
+              rushed: pacing[index]?.rushed,
+              dragging: index === dragIndex,
+              "drop-before": index === dropIndex,
+            })}
+            style={{ width: `${(scene.durationSeconds / scale) * 100}%` }}
+            draggable
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = "move";
+              setDragIndex(index);
+            }}
+            onDragOver={(event) => {
+              event.preventDefault();
+              const rect = event.currentTarget.getBoundingClientRect();
+              setDropIndex(event.clientX < rect.left + rect.width / 2 ? index : index + 1);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            onClick={() => setSelected(index)}
+          >
+            <span className="clip-title">{scene.title}</span>
+            <span className="clip-duration">{formatSeconds(scene.durationSeconds)}</span>
+            <span
+              className="handle"
+              role="separator"
+              aria-label={`Trim ${scene.title}`}
+              onPointerDown={handleTrimStart(index)}
+              onPointerMove={handleTrimMove}
+              onPointerUp={handleTrimEnd}
+              onPointerCancel={handleTrimEnd}
+            />
+          </div>
+        ))}
+        <span
+          className="marker requested"
+          style={{ left: `${(lengthSeconds / scale) * 100}%` }}
+          title="Requested length"
+        />
+        {limits
+          .filter((limit) => limit.maxDurationSeconds <= scale)
+          .map((limit) => (
+            <span
+              key={limit.platform}
+              className="marker cap"
+              style={{ left: `${(limit.maxDurationSeconds / scale) * 100}%` }}
+              title={`${limit.label} maximum`}
+            />
+          ))}
+      </div>
+
+      {overLimits.length > 0 && (
+        <p className="warning">
+          Too long for {overLimits.map((limit) => limit.label).join(", ")}.
+        </p>
+      )}
+
+      {wordsPerMinute && rushed.length > 0 && (
+        <div className="pacing">
+          <p className="warning">
+            Narration won&apos;t fit at {wordsPerMinute} wpm:{" "}
+            {rushed
+              .map(
+                (item) =>
+                  `${scenes[item.index].title} needs ${formatSeconds(
+                    Math.ceil(item.neededSeconds * 2) / 2
+                  )}, has ${formatSeconds(scenes[item.index].durationSeconds)}`
+              )
+              .join("; ")}
+            .
+          </p>
+          <button type="button" onClick={() => onChange(fitToPace(scenes, wordsPerMinute))}>
+            Lengthen to fit
+          </button>
+        </div>
+      )}
+
+      {current && (
+        <div className="inspector">
+          <div className="tools">
+            <button type="button" onClick={() => onChange(insertScene(scenes, currentIndex))}>
+              Add after
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(mergeWithNext(scenes, currentIndex))}
+              disabled={currentIndex >= scenes.length - 1}
+            >
+              Merge with next
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                onChange(removeScene(scenes, currentIndex));
+                setSelected(Math.max(0, currentIndex - 1));
+              }}
+              disabled={scenes.length <= 1}
+            >
+              Delete
+            </button>
+          </div>
+          <p className="hint">
+            {canSplitScene(current)
+              ? "Click a word to split the scene before it."
+              : "Lengthen the scene to split it; each part needs a second or more."}
+          </p>
+          <p className="words">
+            {narrationWords(current).map((word, wordIndex) => (
+              <button
+                key={`${wordIndex}-${word}`}
+                type="button"
+                className="word"
+                disabled={wordIndex === 0 || !canSplitScene(current)}
+                onClick={() => onChange(splitScene(scenes, currentIndex, wordIndex))}
+              >
+                {word}
+              </button>
+            ))}
+          </p>
+        </div>
+      )}
+
+      <style jsx>{`
+        .timeline {
+          display: flex;
+          flex-direction: column;
+          gap: 14px;
+        }
+        .summary {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 10px;
+          font-size: 0.82rem;
+        }
+        .total,
+        .limit {
+          padding: 4px 10px;
+          border-radius: 999px;
+          border: 1px solid rgba(148, 163, 184, 0.3);
+          color: rgba(226, 232, 240, 0.75);
+        }
+        .total {
+          border-color: rgba(74, 222, 128, 0.6);
+          color: #86efac;
+        }
+        .total.under {
+          border-color: rgba(148, 163, 184, 0.5);
+          color: rgba(226, 232, 240, 0.75);
+        }
+        .total.over,
+        .limit.over {
+          border-color: rgba(248, 113, 113, 0.7);
+          color: #fca5a5;
+        }
+        .track {
+          position: relative;
+          display: flex;
+          height: 72px;
+          padding: 8px 0;
+          border-radius: 16px;
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.2);
+          overflow: hidden;
+        }
+        .clip {
+          position: relative;
+          flex: none;
+          margin-right: 2px;
+          border-radius: 10px;
+          padding: 6px 14px 6px 8px;
+          background: linear-gradient(135deg, rgba(56, 189, 248, 0.35), rgba(30, 64, 175, 0.55));
+          border: 1px solid rgba(56, 189, 248, 0.35);
+          display: flex;
+          flex-direction: column;
+          justify-content: space-between;
+          overflow: hidden;
+          cursor: grab;
+          user-select: none;
+        }
+        .clip.selected {
+          border-color: #f8fafc;
+        }
+        .clip.dragging {
+          opacity: 0.4;
+        }
+        .clip.drop-before {
+          box-shadow: -3px 0 0 #fcd34d;
+        }
+        .clip.rushed {
+          border-color: rgba(248, 113, 113, 0.8);
+        }
+        .clip-title {
+          font-size: 0.75rem;
+          font-weight: 600;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+        .clip-duration {
+          font-size: 0.7rem;
+          color: rgba(226, 232, 240, 0.7);
+        }
+        .handle {
+          position: absolute;
+          top: 0;
+          right: 0;
+          width: 8px;
+          height: 100%;
+          cursor: ew-resize;
+          background: rgba(248, 250, 252, 0.25);
+          touch-action: none;
+        }
+        .marker {
+          position: absolute;
+          top: 0;
+          bottom: 0;
+          width: 2px;
+          pointer-events: none;
+        }
+        .marker.requested {
+          background: #4ade80;
+        }
+        .marker.cap {
+          background: #f87171;
+        }
+        .warning {
+          margin: 0;
+          color: #fca5a5;
+          font-size: 0.85rem;
+        }
+        .inspector {
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+          padding: 14px;
+          border-radius: 16px;
+          background: rgba(30, 41, 59, 0.7);
+          border: 1px solid rgba(148, 163, 184, 0.18);
+        }
+        .pacing {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          flex-wrap: wrap;
+        }
+        .tools {
+          display: flex;
+          gap: 8px;
+          flex-wrap: wrap;
+        }
+        .pacing button,
+        .tools button {
+          background: rgba(56, 189, 248, 0.12);
+          border: 1px solid rgba(56, 189, 248, 0.4);
+          color: #f8fafc;
+          border-radius: 10px;
+          padding: 6px 12px;
+          font-size: 0.85rem;
+          cursor: pointer;
+        }
+        .tools button[disabled] {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+        .hint {
+          margin: 0;
+          font-size: 0.78rem;
+          color: rgba(226, 232, 240, 0.55);
+        }
+        .words {
+          margin: 0;
+          display: flex;
+          flex-wrap: wrap;
+          gap: 2px;
+        }
+        .word {
+          background: none;
+          border: none;
+          border-left: 2px solid transparent;
+          color: rgba(226, 232, 240, 0.85);
+          padding: 2px 4px;
+          cursor: pointer;
+        }
+        .word:not([disabled]):hover {
+          border-left-color: #fcd34d;
+        }
+        .word[disabled] {
+          cursor: default;
+        }
+      `}</style>
+    </div>
+  );
+};
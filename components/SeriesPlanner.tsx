@@ -0,0 +1,551 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import { lengthBounds, platforms, tonePresets, type Platform } from "@/types/agent";
+import type { BrandSummary } from "@/types/brand";
+import type { VoiceProfileSummary } from "@/types/voiceProfile";
+import {
+  seriesBounds,
+  type CalendarEntry,
+  type SeriesRequest,
+  type SeriesSummary,
+} from "@/types/series";
+import { fetchBrands } from "@/lib/brands/client";
+import { fetchVoiceProfiles } from "@/lib/voiceProfiles/client";
+import { localTimeZone } from "@/lib/schedule/client";
+import {
+  createSeries,
+  fetchSeries,
+  fetchSeriesList,
+  reschedulePost,
+  type SeriesCalendar,
+} from "@/lib/series/client";
+import { planSeries } from "@/lib/series/plan";
+import { platformSpecs } from "@/lib/platforms";
+import { ContentCalendar } from "./ContentCalendar";
+
+type SeriesForm = Omit<SeriesRequest, "timeZone">;
+
+const localDate = (date: Date) =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part) => String(part).padStart(2, "0"))
+    .join("-");
+
+const defaultForm = (): SeriesForm => {
+  const today = new Date();
+  return {
+    theme: "Building a content engine for a small team",
+    tone: "Educational",
+    lengthSeconds: 45,
+    targetAudience: "founders and marketing leads",
+    startDate: localDate(today),
+    endDate: localDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 27)),
+    cadence: { tiktok: 2, instagram: 1, linkedin: 1 },
+  };
+};
+
+const formatDay = (value: string) =>
+  new Date(`${value}T12:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+export const SeriesPlanner = () => {
+  const [form, setForm] = useState<SeriesForm>(defaultForm);
+  const [brands, setBrands] = useState<BrandSummary[]>([]);
+  const [voices, setVoices] = useState<VoiceProfileSummary[]>([]);
+  const [seriesList, setSeriesList] = useState<SeriesSummary[]>([]);
+  const [active, setActive] = useState<SeriesCalendar | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [moving, setMoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshList = useCallback(async () => {
+    try {
+      setSeriesList(await fetchSeriesList());
+    } catch (err) {
+      console.warn("Failed to load series", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshList();
+    fetchBrands()
+      .then(setBrands)
+      .catch((err) => console.warn("Failed to load brand kits", err));
+    fetchVoiceProfiles()
+      .then(setVoices)
+      .catch((err) => console.warn("Failed to load voice profiles", err));
+  }, [refreshList]);
+
+  const preview = useMemo(() => {
+    if (form.endDate < form.startDate) {
+      return null;
+    }
+    const { days, episodes } = planSeries({ ...form, timeZone: localTimeZone() });
+    return { days, episodes: episodes.length, posts: episodes.flatMap((item) => item.posts) };
+  }, [form]);
+  const tooLong = Boolean(preview && preview.days > seriesBounds.maxWeeks * 7);
+  const tooMany = Boolean(preview && preview.episodes > seriesBounds.maxEpisodes);
+
+  const setCadence = (platform: Platform, value: number) =>
+    setForm((prev) => ({ ...prev, cadence: { ...prev.cadence, [platform]: value } }));
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setPlanning(true);
+    setError(null);
+    try {
+      setActive(await createSeries({ ...form, timeZone: localTimeZone() }));
+      await refreshList();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to plan the series");
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    setError(null);
+    try {
+      setActive(await fetchSeries(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to open the series");
+    }
+  };
+
+  const handleMove = async (entry: CalendarEntry, scheduledTime: string) => {
+    if (!active) {
+      return;
+    }
+    const previous = active;
+    // Moved right away; the server's answer replaces it, or the move is undone on failure.
+    setActive({
+      ...active,
+      entries: active.entries.map((item) =>
+        item.campaignId === entry.campaignId && item.platform === entry.platform
+          ? { ...item, scheduledTime }
+          : item
+      ),
+    });
+    setMoving(true);
+    setError(null);
+    try {
+      const entries = await reschedulePost(active.series.id, {
+        campaignId: entry.campaignId,
+        platform: entry.platform,
+        scheduledTime,
+      });
+      setActive((prev) => (prev ? { ...prev, entries } : prev));
+    } catch (err) {
+      setActive(previous);
+      setError(err instanceof Error ? err.message : "Unable to move the post");
+    } finally {
+      setMoving(false);
+    }
+  };
+
+  const episodes = active
+    ? active.series.episodes.map((episode) => ({
+        ...episode,
+        entry: active.entries.find((entry) => entry.campaignId === episode.campaignId),
+      }))
+    : [];
+
+  return (
+    <div className="planner">
+      <header className="hero">
+        <a href="/" className="back">
+          ← Studio
+        </a>
+        <h1>Content calendar</h1>
+        <p>
+          Plan a theme as a series of episodes, each with its own angle and hook, spread over the
+          weeks at the cadence you post. Drag posts around the calendar to reschedule them.
+        </p>
+      </header>
+
+      <div className="columns">
+        <form className="control" onSubmit={handleSubmit}>
+          <div className="field">
+            <label htmlFor="theme">Series theme</label>
+            <textarea
+              id="theme"
+              rows={2}
+              value={form.theme}
+              onChange={(event) => setForm((prev) => ({ ...prev, theme: event.target.value }))}
+              required
+            />
+          </div>
+          <div className="grid">
+            <div className="field">
+              <label htmlFor="series-tone">Voice</label>
+              <select
+                id="series-tone"
+                value={form.voiceProfileId ? `profile:${form.voiceProfileId}` : form.tone}
+                onChange={(event) => {
+                  const voice = voices.find(
+                    (item) => `profile:${item.id}` === event.target.value
+                  );
+                  setForm((prev) => ({
+                    ...prev,
+                    tone: voice?.tone ?? event.target.value,
+                    voiceProfileId: voice?.id,
+                  }));
+                }}
+              >
+                <optgroup label="Tones">
+                  {tonePresets.map((tone) => (
+                    <option key={tone}>{tone}</option>
+                  ))}
+                </optgroup>
+                {voices.length > 0 && (
+                  <optgroup label="Your voices">
+                    {voices.map((voice) => (
+                      <option key={voice.id} value={`profile:${voice.id}`}>
+                        {voice.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+            <div className="field">
+              <label htmlFor="series-length">Video length (seconds)</label>
+              <input
+                id="series-length"
+                type="number"
+                min={lengthBounds.min}
+                max={lengthBounds.max}
+                value={form.lengthSeconds}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, lengthSeconds: Number(event.target.value) }))
+                }
+              />
+            </div>
+          </div>
+          <div className="field">
+            <label htmlFor="series-audience">Target audience</label>
+            <input
+              id="series-audience"
+              value={form.targetAudience}
+              onChange={(event) =>
+                setForm((prev) => ({ ...prev, targetAudience: event.target.value }))
+              }
+              required
+            />
+          </div>
+          <div className="grid">
+            <div className="field">
+              <label htmlFor="series-start">First day</label>
+              <input
+                id="series-start"
+                type="date"
+                value={form.startDate}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, startDate: event.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="field">
+              <label htmlFor="series-end">Last day</label>
+              <input
+                id="series-end"
+                type="date"
+                min={form.startDate}
+                value={form.endDate}
+                onChange={(event) => setForm((prev) => ({ ...prev, endDate: event.target.value }))}
+                required
+              />
+            </div>
+          </div>
+          <div className="field">
+            <span className="label">Posts per week</span>
+            <div className="cadence">
+              {platforms.map((platform) => (
+                <label key={platform}>
+                  {platformSpecs[platform].label}
+                  <input
+                    type="number"
+                    min={0}
+                    max={seriesBounds.maxPerWeek}
+                    value={form.cadence[platform] ?? 0}
+                    onChange={(event) => setCadence(platform, Number(event.target.value))}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+          {brands.length > 0 && (
+            <div className="field">
+              <label htmlFor="series-brand">Brand kit</label>
+              <select
+                id="series-brand"
+                value={form.brandId ?? ""}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, brandId: event.target.value || undefined }))
+                }
+              >
+                <option value="">No brand kit</option>
+                {brands.map((brand) => (
+                  <option key={brand.id} value={brand.id}>
+                    {brand.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <label className="check">
+            <input
+              type="checkbox"
+              checked={form.learnFromResults !== false}
+              onChange={(event) =>
+                setForm((prev) => ({ ...prev, learnFromResults: event.target.checked }))
+              }
+            />
+            Learn from past results
+          </label>
+          {preview && (
+            <p className={clsx("preview", { invalid: tooLong || tooMany })}>
+              {tooLong
+                ? `A series can span at most ${seriesBounds.maxWeeks} weeks.`
+                : tooMany
+                  ? `${preview.episodes} episodes is more than the ${seriesBounds.maxEpisodes} ` +
+                    "a series can have; shorten the range or post less often."
+                  : `${preview.episodes} episode${preview.episodes === 1 ? "" : "s"} · ` +
+                    `${preview.posts.length} post${preview.posts.length === 1 ? "" : "s"} over ` +
+                    `${preview.days} day${preview.days === 1 ? "" : "s"}`}
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={planning || !preview || preview.episodes === 0 || tooLong || tooMany}
+          >
+            {planning ? `Writing ${preview?.episodes ?? ""} episodes…` : "Plan series"}
+          </button>
+          {error && <span className="error">{error}</span>}
+        </form>
+
+        <aside className="list">
+          <h2>Series</h2>
+          {seriesList.length === 0 ? (
+            <p className="empty">Planned series will appear here.</p>
+          ) : (
+            <ul>
+              {seriesList.map((item) => (
+                <li key={item.id}>
+                  <button
+                    type="button"
+                    className={clsx({ active: active?.series.id === item.id })}
+                    onClick={() => handleOpen(item.id)}
+                  >
+                    <span className="title">{item.title}</span>
+                    <span className="meta">
+                      {formatDay(item.startDate)} – {formatDay(item.endDate)} ·{" "}
+                      {item.episodeCount} episode{item.episodeCount === 1 ? "" : "s"}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </aside>
+      </div>
+
+      {active && (
+        <section className="panel">
+          <header>
+            <h2>{active.series.title}</h2>
+            <p>
+              Dashed posts are planned but not queued yet; open an episode to render and schedule
+              it. Live posts stay put.
+            </p>
+          </header>
+          <ContentCalendar
+            key={active.series.id}
+            entries={active.entries}
+            initialDate={active.series.request.startDate}
+            busy={moving}
+            onMove={handleMove}
+          />
+          <ol className="episodes">
+            {episodes.map((episode) => (
+              <li key={episode.campaignId}>
+                <a href={`/?campaign=${episode.campaignId}`}>
+                  <span className="angle">
+                    Episode {episode.index + 1} · {episode.angle}
+                  </span>
+                  <span className="hook">{episode.entry?.hook ?? "Campaign deleted"}</span>
+                </a>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      <style jsx>{`
+        .planner {
+          max-width: 1280px;
+          margin: 0 auto;
+          padding: 48px 20px 120px;
+          display: flex;
+          flex-direction: column;
+          gap: 32px;
+        }
+        .hero {
+          padding: 40px 48px;
+          border-radius: 32px;
+          background: linear-gradient(135deg, rgba(56, 189, 248, 0.25), rgba(15, 23, 42, 0.95));
+        }
+        .hero h1 {
+          margin: 12px 0 0;
+          font-size: clamp(2rem, 2.8vw, 2.8rem);
+        }
+        .hero p {
+          max-width: 640px;
+          color: rgba(226, 232, 240, 0.78);
+          line-height: 1.5;
+        }
+        .back {
+          font-size: 0.85rem;
+          color: rgba(226, 232, 240, 0.7);
+        }
+        .columns {
+          display: grid;
+          grid-template-columns: minmax(0, 1fr) 300px;
+          gap: 24px;
+          align-items: start;
+        }
+        .control,
+        .list,
+        .panel {
+          border-radius: 28px;
+          padding: 28px;
+          display: flex;
+          flex-direction: column;
+          gap: 18px;
+          background: rgba(15, 23, 42, 0.78);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+        }
+        .grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(180px, 1fr));
+          gap: 16px;
+        }
+        .field {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+        label,
+        .label {
+          font-size: 0.85rem;
+          color: rgba(226, 232, 240, 0.72);
+          letter-spacing: 0.04em;
+        }
+        textarea,
+        input,
+        select {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.35);
+          border-radius: 12px;
+          padding: 10px 12px;
+          color: #f8fafc;
+          font-size: 1rem;
+          resize: vertical;
+        }
+        .cadence {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(120px, 1fr));
+          gap: 12px;
+        }
+        .cadence label {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+        label.check {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+        }
+        label.check input {
+          padding: 0;
+          width: 16px;
+          height: 16px;
+        }
+        .preview {
+          margin: 0;
+          color: rgba(226, 232, 240, 0.75);
+        }
+        .preview.invalid,
+        .error {
+          color: #fca5a5;
+        }
+        button[type="submit"] {
+          align-self: flex-start;
+          background: linear-gradient(120deg, #38bdf8, #22d3ee);
+          border: none;
+          color: #0f172a;
+          padding: 12px 22px;
+          border-radius: 999px;
+          font-weight: 700;
+          cursor: pointer;
+        }
+        button[type="submit"][disabled] {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+        h2 {
+          margin: 0;
+        }
+        .list ul,
+        .episodes {
+          margin: 0;
+          padding: 0;
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+        .list button,
+        .episodes a {
+          width: 100%;
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          text-align: left;
+          padding: 10px 12px;
+          border-radius: 14px;
+          background: rgba(30, 41, 59, 0.8);
+          border: 1px solid rgba(148, 163, 184, 0.18);
+          color: #f8fafc;
+          cursor: pointer;
+        }
+        .list button.active {
+          border-color: rgba(56, 189, 248, 0.65);
+        }
+        .meta,
+        .empty,
+        .panel header p {
+          margin: 0;
+          font-size: 0.85rem;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        .angle {
+          font-size: 0.75rem;
+          text-transform: uppercase;
+          letter-spacing: 0.06em;
+          color: rgba(96, 165, 250, 0.9);
+        }
+        .hook {
+          font-size: 0.9rem;
+        }
+        @media (max-width: 900px) {
+          .columns {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
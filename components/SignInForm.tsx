@@ -0,0 +1,174 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { credentialBounds } from "@/types/workspace";
+import { signIn, signUp } from "@/lib/auth/client";
+
+interface SignInFormProps {
+  // Where to go once signed in.
+  next: string;
+}
+
+type Mode = "sign-in" | "sign-up";
+
+export const SignInForm = ({ next }: SignInFormProps) => {
+  const [mode, setMode] = useState<Mode>("sign-in");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      if (mode === "sign-in") {
+        await signIn({ username, password });
+      } else {
+        await signUp({
+          username,
+          password,
+          ...(displayName.trim() ? { displayName: displayName.trim() } : {}),
+          ...(workspaceName.trim() ? { workspaceName: workspaceName.trim() } : {}),
+        });
+      }
+      // A full load, so the page is rendered again with the new session cookie.
+      window.location.assign(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to sign in");
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form className="card" onSubmit={handleSubmit}>
+      <h1>Agentic Creator Studio</h1>
+      <p>
+        {mode === "sign-in"
+          ? "Sign in to your workspace."
+          : "Create an account and a workspace you administer."}
+      </p>
+      <label>
+        Username
+        <input
+          value={username}
+          onChange={(event) => setUsername(event.target.value)}
+          autoComplete="username"
+          autoFocus
+          required
+        />
+      </label>
+      <label>
+        Password
+        <input
+          type="password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+          minLength={mode === "sign-up" ? credentialBounds.minPassword : undefined}
+          required
+        />
+      </label>
+      {mode === "sign-up" && (
+        <>
+          <label>
+            Display name
+            <input
+              value={displayName}
+              onChange={(event) => setDisplayName(event.target.value)}
+              placeholder="Shown on comments and approvals"
+            />
+          </label>
+          <label>
+            Workspace name
+            <input
+              value={workspaceName}
+              onChange={(event) => setWorkspaceName(event.target.value)}
+              placeholder="e.g. Acme social team"
+            />
+          </label>
+        </>
+      )}
+      {error && <p className="error">{error}</p>}
+      <button type="submit" className="primary" disabled={busy}>
+        {busy ? "One moment…" : mode === "sign-in" ? "Sign in" : "Create account"}
+      </button>
+      <button
+        type="button"
+        className="switch"
+        onClick={() => {
+          setMode(mode === "sign-in" ? "sign-up" : "sign-in");
+          setError(null);
+        }}
+      >
+        {mode === "sign-in" ? "New here? Create an account" : "Have an account? Sign in"}
+      </button>
+      <style jsx>{`
+        .card {
+          max-width: 420px;
+          margin: 96px auto;
+          padding: 32px;
+          border-radius: 28px;
+          display: flex;
+          flex-direction: column;
+          gap: 16px;
+          background: rgba(15, 23, 42, 0.78);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+        }
+        h1 {
+          margin: 0;
+          font-size: 1.6rem;
+        }
+        p {
+          margin: 0;
+          color: rgba(226, 232, 240, 0.72);
+        }
+        label {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          font-size: 0.85rem;
+          color: rgba(226, 232, 240, 0.72);
+          letter-spacing: 0.04em;
+        }
+        input {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.35);
+          border-radius: 12px;
+          padding: 12px 14px;
+          color: #f8fafc;
+          font-size: 1rem;
+        }
+        input:focus {
+          outline: 2px solid rgba(56, 189, 248, 0.5);
+          outline-offset: 2px;
+        }
+        .primary {
+          background: linear-gradient(120deg, #38bdf8, #22d3ee);
+          border: none;
+          color: #0f172a;
+          padding: 14px 24px;
+          font-weight: 700;
+          border-radius: 18px;
+          cursor: pointer;
+        }
+        .primary[disabled] {
+          opacity: 0.5;
+        }
+        .switch {
+          background: none;
+          border: none;
+          color: #38bdf8;
+          cursor: pointer;
+        }
+        .error {
+          color: #fca5a5;
+          font-size: 0.9rem;
+        }
+      `}</style>
+    </form>
+  );
+};
@@ -1,19 +1,30 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import type { SocialPostPlan } from "@/types/agent";
+import type { Platform, SocialPostPlan } from "@/types/agent";
+import type { PublishedPost } from "@/types/campaign";
+import type { LintContext, LintIssue } from "@/types/lint";
+import type { JobActionRequest, JobStatus, PublishJob } from "@/types/schedule";
+import { applyFix, hasErrors, lintPost } from "@/lib/rules";
+import { toWallClock } from "@/lib/schedule/time";
+import { variantLabel } from "@/lib/agent/variants";
 
 interface SocialPlannerProps {
   posts: SocialPostPlan[];
-}
-
-interface PublishedPost extends SocialPostPlan {
-  publishedAt: string;
-  analytics: {
-    views: number;
-    likes: number;
-    comments: number;
-  };
+  // Latest queue job per platform; only passed once the campaign is saved.
+  jobs?: PublishJob[];
+  regeneratingPlatform?: SocialPostPlan["platform"] | null;
+  // Posts the campaign has live, newest last.
+  published?: PublishedPost[];
+  // What is known about each platform's video, for the duration/format/size rules.
+  lintContext?: Partial<Record<Platform, LintContext>>;
+  onSchedule?: (platforms: SocialPostPlan["platform"][], options?: { now?: boolean }) => void;
+  onJobAction?: (job: PublishJob, action: JobActionRequest) => void;
+  onPostChange?: (
+    platform: SocialPostPlan["platform"],
+    patch: Partial<Pick<SocialPostPlan, "caption" | "tags">>
+  ) => void;
+  onRegenerate?: (platform: SocialPostPlan["platform"]) => void;
 }
 
 const formatPlatform = (platform: SocialPostPlan["platform"]) => {
@@ -38,48 +49,69 @@ const formatDate = (value: string) => {
   }
 };
 
-const randomRange = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
+const formatInZone = (value: string, timeZone: string) =>
+  new Date(value).toLocaleString(undefined, { timeZone, timeZoneName: "short" });
 
-export const SocialPlanner = ({ posts }: SocialPlannerProps) => {
-  const [scheduled, setScheduled] = useState<SocialPostPlan[]>([]);
-  const [published, setPublished] = useState<PublishedPost[]>([]);
+const statusLabels: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Publishing…",
+  published: "Published",
+  failed: "Failed",
+  paused: "Paused",
+  cancelled: "Cancelled",
+};
 
-  useEffect(() => {
-    setScheduled(posts);
-  }, [posts]);
+const parseTags = (value: string) =>
+  value
+    .split(/[,\s]+/)
+    .map((tag) => tag.replace(/^#/, "").trim())
+    .filter((tag) => tag.length > 0);
 
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    const stored = window.localStorage.getItem("agentic-published");
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored) as PublishedPost[];
-        setPublished(parsed);
-      } catch (error) {
-        console.warn("Failed to parse stored posts", error);
-      }
-    }
-  }, []);
+const TagInput = ({ tags, onCommit }: { tags: string[]; onCommit: (tags: string[]) => void }) => {
+  const [text, setText] = useState(tags.map((tag) => `#${tag}`).join(" "));
 
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    window.localStorage.setItem("agentic-published", JSON.stringify(published));
-  }, [published]);
+    setText(tags.map((tag) => `#${tag}`).join(" "));
+  }, [tags]);
 
-  const handlePostNow = (post: SocialPostPlan) => {
-    const publishedPost: PublishedPost = {
-      ...post,
-      publishedAt: new Date().toISOString(),
-      analytics: {
-        views: randomRange(1200, 9500),
-        likes: randomRange(120, 2100),
-        comments: randomRange(12, 320),
-      },
-    };
+  return (
+    <input
+      className="tags"
+      value={text}
+      onChange={(event) => setText(event.target.value)}
+      onBlur={() => onCommit(parseTags(text))}
+      aria-label="Hashtags"
+    />
+  );
+};
 
-    setPublished((prev) => [publishedPost, ...prev]);
-    setScheduled((prev) => prev.filter((item) => item.platform !== post.platform));
-  };
+export const SocialPlanner = ({
+  posts,
+  jobs = [],
+  regeneratingPlatform = null,
+  published = [],
+  lintContext = {},
+  onSchedule,
+  onJobAction,
+  onPostChange,
+  onRegenerate,
+}: SocialPlannerProps) => {
+  const feed = useMemo(() => [...published].reverse(), [published]);
+
+  const jobFor = (platform: SocialPostPlan["platform"]) =>
+    jobs.filter((job) => job.post.platform === platform && job.status !== "cancelled").pop();
+
+  const issues = useMemo(
+    () =>
+      Object.fromEntries(
+        posts.map((post) => [post.platform, lintPost(post, lintContext[post.platform])])
+      ) as Partial<Record<Platform, LintIssue[]>>,
+    [posts, lintContext]
+  );
+  const blocked = (post: SocialPostPlan) => hasErrors(issues[post.platform] ?? []);
+
+  // Posts with lint errors stay out of the queue until they are fixed.
+  const unscheduled = posts.filter((post) => !jobFor(post.platform) && !blocked(post));
 
   const totalStats = useMemo(
     () =>
@@ -101,24 +133,174 @@ export const SocialPlanner = ({ posts }: SocialPlannerProps) => {
         <header>
           <h3>Auto Scheduler</h3>
           <p>Agent staged posts. Approve to push live and watch analytics roll in.</p>
+          {onSchedule && unscheduled.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onSchedule(unscheduled.map((post) => post.platform))}
+            >
+              Schedule all
+            </button>
+          )}
         </header>
         <div className="scheduled">
-          {scheduled.length === 0 ? (
+          {posts.length === 0 ? (
             <div className="empty">All optimized captions are already live.</div>
           ) : (
-            scheduled.map((post) => (
-              <article key={post.platform}>
-                <div className="platform">{formatPlatform(post.platform)}</div>
-                <div className="meta">
-                  <span>{formatDate(post.scheduledTime)}</span>
-                  <span>{post.callToAction}</span>
-                </div>
-                <p className="caption">{post.caption}</p>
-                <button type="button" onClick={() => handlePostNow(post)}>
-                  Publish now
-                </button>
-              </article>
-            ))
+            posts.map((post) => {
+              const job = jobFor(post.platform);
+              const active = job?.status === "queued" || job?.status === "running";
+              const postIssues = issues[post.platform] ?? [];
+              const blockedReason = blocked(post) ? "Fix the errors above first" : undefined;
+              return (
+                <article key={post.platform}>
+                  <div className="platform">
+                    {formatPlatform(post.platform)}
+                    {job && (
+                      <span className={`status ${job.status}`}>
+                        {statusLabels[job.status]}
+                        {job.variantId && ` · ${variantLabel(job.variantId)}`}
+                      </span>
+                    )}
+                  </div>
+                  <div className="meta">
+                    <span>
+                      {job ? formatInZone(job.runAt, job.timeZone) : formatDate(post.scheduledTime)}
+                    </span>
+                    <span>{post.callToAction}</span>
+                  </div>
+                  {job?.status === "failed" && (
+                    <p className="job-error">
+                      {job.lastError ?? "Publish failed"} · {job.attempts} of {job.maxAttempts}{" "}
+                      attempts
+                    </p>
+                  )}
+                  {job?.status === "queued" && job.attempts > 0 && (
+                    <p className="job-error">
+                      Retrying {formatInZone(job.dueAt, job.timeZone)} after: {job.lastError}
+                    </p>
+                  )}
+                  {onPostChange ? (
+                    <>
+                      <textarea
+                        className="caption"
+                        rows={4}
+                        value={post.caption}
+                        onChange={(event) =>
+                          onPostChange(post.platform, { caption: event.target.value })
+                        }
+                        aria-label={`${formatPlatform(post.platform)} caption`}
+                      />
+                      <TagInput
+                        tags={post.tags}
+                        onCommit={(tags) => onPostChange(post.platform, { tags })}
+                      />
+                    </>
+                  ) : (
+                    <p className="caption">{post.caption}</p>
+                  )}
+                  {postIssues.length > 0 && (
+                    <ul className="lint">
+                      {postIssues.map((issue) => (
+                        <li key={`${issue.rule}-${issue.field}`} className={issue.severity}>
+                          <span>{issue.message}</span>
+                          {issue.fix && onPostChange && (
+                            <button
+                              type="button"
+                              className="fix"
+                              onClick={() => {
+                                const fixed = applyFix(post, issue.fix!.action);
+                                onPostChange(post.platform, {
+                                  caption: fixed.caption,
+                                  tags: fixed.tags,
+                                });
+                              }}
+                            >
+                              {issue.fix.label}
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="buttons">
+                    {onSchedule && !active && (
+                      <button
+                        type="button"
+                        onClick={() => onSchedule([post.platform], { now: true })}
+                        disabled={Boolean(blockedReason)}
+                        title={blockedReason}
+                      >
+                        Publish now
+                      </button>
+                    )}
+                    {onSchedule && !job && (
+                      <button
+                        type="button"
+                        onClick={() => onSchedule([post.platform])}
+                        disabled={Boolean(blockedReason)}
+                        title={blockedReason}
+                      >
+                        Schedule
+                      </button>
+                    )}
+                    {onJobAction && job?.status === "queued" && (
+                      <button
+                        type="button"
+                        className="secondary"
+                        onClick={() => onJobAction(job, { action: "pause" })}
+                      >
+                        Pause
+                      </button>
+                    )}
+                    {onJobAction && job?.status === "paused" && (
+                      <button type="button" onClick={() => onJobAction(job, { action: "resume" })}>
+                        Resume
+                      </button>
+                    )}
+                    {onJobAction && job?.status === "failed" && (
+                      <button type="button" onClick={() => onJobAction(job, { action: "retry" })}>
+                        Retry
+                      </button>
+                    )}
+                    {onJobAction && job && job.status !== "running" && (
+                      <button
+                        type="button"
+                        className="secondary"
+                        onClick={() => onJobAction(job, { action: "cancel" })}
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    {onRegenerate && (
+                      <button
+                        type="button"
+                        className="secondary"
+                        onClick={() => onRegenerate(post.platform)}
+                        disabled={regeneratingPlatform !== null}
+                      >
+                        {regeneratingPlatform === post.platform ? "Rewriting…" : "Regenerate"}
+                      </button>
+                    )}
+                  </div>
+                  {onJobAction && job && job.status !== "running" && (
+                    <label className="reschedule">
+                      Reschedule ({job.timeZone})
+                      <input
+                        type="datetime-local"
+                        defaultValue={toWallClock(job.runAt, job.timeZone)}
+                        key={job.runAt}
+                        onBlur={(event) => {
+                          const value = event.target.value;
+                          if (value && value !== toWallClock(job.runAt, job.timeZone)) {
+                            onJobAction(job, { action: "reschedule", runAt: value });
+                          }
+                        }}
+                      />
+                    </label>
+                  )}
+                </article>
+              );
+            })
           )}
         </div>
       </section>
@@ -142,13 +324,26 @@ export const SocialPlanner = ({ posts }: SocialPlannerProps) => {
           </div>
         </div>
         <ul className="feed">
-          {published.length === 0 ? (
+          {feed.length === 0 ? (
             <li className="empty">Publish a post to populate your social wall.</li>
           ) : (
-            published.map((post) => (
-              <li key={`${post.platform}-${post.publishedAt}`}>
-                <div className="platform">{formatPlatform(post.platform)}</div>
-                <span className="time">{formatDate(post.publishedAt)}</span>
+            feed.map((post) => (
+              <li key={`${post.platform}-${post.variantId ?? ""}-${post.publishedAt}`}>
+                <div className="platform">
+                  {formatPlatform(post.platform)}
+                  {post.variantId && ` · ${variantLabel(post.variantId)}`}
+                </div>
+                <span className="time">
+                  {formatDate(post.publishedAt)}
+                  {post.url && (
+                    <>
+                      {" · "}
+                      <a href={post.url} target="_blank" rel="noreferrer">
+                        View post
+                      </a>
+                    </>
+                  )}
+                </span>
                 <p>{post.caption}</p>
                 <div className="analytics">
                   <span>👁️ {post.analytics.views.toLocaleString()}</span>
@@ -179,6 +374,9 @@ export const SocialPlanner = ({ posts }: SocialPlannerProps) => {
           margin: 0;
           font-size: 1.2rem;
         }
+        header button {
+          margin-top: 12px;
+        }
         header p {
           margin: 4px 0 0;
           color: rgba(226, 232, 240, 0.7);
@@ -205,6 +403,82 @@ export const SocialPlanner = ({ posts }: SocialPlannerProps) => {
           text-transform: uppercase;
           font-size: 0.75rem;
         }
+        .status {
+          margin-left: 8px;
+          padding: 2px 8px;
+          border-radius: 999px;
+          font-size: 0.7rem;
+          letter-spacing: 0;
+          text-transform: none;
+          background: rgba(148, 163, 184, 0.2);
+          color: #e2e8f0;
+        }
+        .status.queued,
+        .status.running {
+          background: rgba(56, 189, 248, 0.2);
+          color: #7dd3fc;
+        }
+        .status.paused {
+          background: rgba(250, 204, 21, 0.18);
+          color: #fde047;
+        }
+        .status.failed {
+          background: rgba(248, 113, 113, 0.2);
+          color: #fca5a5;
+        }
+        .job-error {
+          margin: 0;
+          color: #fca5a5;
+          font-size: 0.8rem;
+        }
+        .lint {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          font-size: 0.8rem;
+        }
+        .lint li {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 8px;
+          padding: 6px 10px;
+          border-radius: 10px;
+          border-left: 3px solid;
+        }
+        .lint li.error {
+          color: #fca5a5;
+          border-color: #f87171;
+          background: rgba(248, 113, 113, 0.1);
+        }
+        .lint li.warning {
+          color: #fde68a;
+          border-color: #facc15;
+          background: rgba(250, 204, 21, 0.08);
+        }
+        .lint .fix {
+          flex-shrink: 0;
+          padding: 4px 10px;
+          font-size: 0.75rem;
+        }
+        .reschedule {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 0.75rem;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        .reschedule input {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+          border-radius: 10px;
+          padding: 6px 10px;
+          color: #f8fafc;
+          font: inherit;
+        }
         .meta {
           display: flex;
           justify-content: space-between;
@@ -215,6 +489,32 @@ export const SocialPlanner = ({ posts }: SocialPlannerProps) => {
           margin: 0;
           color: rgba(226, 232, 240, 0.88);
         }
+        textarea.caption,
+        article :global(.tags) {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+          border-radius: 10px;
+          padding: 8px 10px;
+          font: inherit;
+          resize: vertical;
+        }
+        article :global(.tags) {
+          color: rgba(125, 211, 252, 0.9);
+          font-size: 0.85rem;
+        }
+        .buttons {
+          display: flex;
+          gap: 8px;
+        }
+        button.secondary {
+          background: transparent;
+          border-color: rgba(148, 163, 184, 0.4);
+        }
+        button[disabled] {
+          opacity: 0.5;
+          cursor: not-allowed;
+          transform: none;
+        }
         button {
           align-self: flex-start;
           background: rgba(56, 189, 248, 0.15);
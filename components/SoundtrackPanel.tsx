@@ -0,0 +1,198 @@
+"use client";
+
+import { Dispatch, SetStateAction, useEffect, useRef, useState } from "react";
+import type { ScenePlan } from "@/types/agent";
+import { voices, type Voice } from "@/types/voice";
+import { musicBedLabels, musicBeds, type MusicBed } from "@/lib/audio/music";
+import {
+  fitScenesToVoiceover,
+  missingVoiceClips,
+  synthesizeVoiceClips,
+  type SoundtrackSettings,
+} from "@/lib/audio/soundtrack";
+
+interface SoundtrackPanelProps {
+  scenes: ScenePlan[];
+  settings: SoundtrackSettings;
+  onChange: Dispatch<SetStateAction<SoundtrackSettings>>;
+  onFitScenes: (scenes: ScenePlan[]) => void;
+}
+
+export const SoundtrackPanel = ({ scenes, settings, onChange, onFitScenes }: SoundtrackPanelProps) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const missing = missingVoiceClips(scenes, settings);
+  const voiced = scenes.length - missing.length;
+
+  const handleVoiceover = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const clips = await synthesizeVoiceClips(missing, settings.voice, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      const voicedIds = new Set(clips.map((clip) => clip.sceneId));
+      onChange((prev) =>
+        prev.voice === settings.voice
+          ? { ...prev, clips: [...prev.clips.filter((clip) => !voicedIds.has(clip.sceneId)), ...clips] }
+          : prev
+      );
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Unable to synthesize voiceover");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        setProgress(null);
+      }
+    }
+  };
+
+  return (
+    <div className="soundtrack">
+      <div className="row">
+        <label>
+          Voice
+          <select
+            value={settings.voice}
+            onChange={(event) =>
+              // Clips from another voice would mix two speakers, so start over.
+              onChange({ ...settings, voice: event.target.value as Voice, clips: [] })
+            }
+          >
+            {voices.map((voice) => (
+              <option key={voice} value={voice}>
+                {voice}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={handleVoiceover}
+          disabled={progress !== null || missing.length === 0}
+        >
+          {progress !== null
+            ? `Voicing… ${Math.round(progress * 100)}%`
+            : voiced > 0
+              ? "Voice edited scenes"
+              : "Generate voiceover"}
+        </button>
+        <button
+          type="button"
+          onClick={() => onFitScenes(fitScenesToVoiceover(scenes, settings))}
+          disabled={voiced === 0}
+        >
+          Fit scenes to voiceover
+        </button>
+        <span className="status">
+          {voiced} of {scenes.length} scenes voiced
+        </span>
+      </div>
+      <div className="row">
+        <label>
+          Music
+          <select
+            value={settings.music}
+            onChange={(event) => onChange({ ...settings, music: event.target.value as MusicBed })}
+          >
+            {musicBeds.map((bed) => (
+              <option key={bed} value={bed}>
+                {musicBedLabels[bed]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Volume
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.musicVolume}
+            disabled={settings.music === "none"}
+            onChange={(event) => onChange({ ...settings, musicVolume: Number(event.target.value) })}
+          />
+        </label>
+        <label className="check">
+          <input
+            type="checkbox"
+            checked={settings.ducking}
+            disabled={settings.music === "none"}
+            onChange={(event) => onChange({ ...settings, ducking: event.target.checked })}
+          />
+          Duck under voice
+        </label>
+      </div>
+      {error && <p className="error">{error}</p>}
+      <style jsx>{`
+        .soundtrack {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+          padding: 14px;
+          border-radius: 16px;
+          background: rgba(30, 41, 59, 0.7);
+          border: 1px solid rgba(148, 163, 184, 0.18);
+        }
+        .row {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: flex-end;
+          gap: 12px;
+        }
+        label {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 0.75rem;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        label.check {
+          flex-direction: row;
+          align-items: center;
+          gap: 6px;
+        }
+        select {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+          border-radius: 10px;
+          padding: 6px 10px;
+          color: #f8fafc;
+          font: inherit;
+        }
+        button {
+          background: rgba(56, 189, 248, 0.12);
+          border: 1px solid rgba(56, 189, 248, 0.4);
+          color: #f8fafc;
+          border-radius: 10px;
+          padding: 6px 12px;
+          font-size: 0.85rem;
+          cursor: pointer;
+        }
+        button[disabled] {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+        .status {
+          font-size: 0.8rem;
+          color: rgba(226, 232, 240, 0.55);
+        }
+        .error {
+          margin: 0;
+          color: #fca5a5;
+          font-size: 0.85rem;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,416 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import type { AgentResponse, Platform } from "@/types/agent";
+import type { Campaign } from "@/types/campaign";
+import {
+  confidenceLevels,
+  experimentMetrics,
+  type Experiment,
+  type ExperimentMetric,
+} from "@/types/experiment";
+import { fetchExperiments, startExperiment } from "@/lib/experiments/client";
+import { localTimeZone } from "@/lib/schedule/client";
+import { variantLabel } from "@/lib/agent/variants";
+import { platformSpecs } from "@/lib/platforms";
+
+interface VariantPanelProps {
+  response: AgentResponse;
+  platforms: Platform[];
+  campaign?: Campaign | null;
+  // Tests publish the saved copy, so they wait until edits are saved.
+  canTest?: boolean;
+  onSelect: (variantId: string) => void;
+  onTestStarted?: () => void;
+}
+
+const metricLabels: Record<ExperimentMetric, string> = {
+  views: "Views",
+  engagement: "Engagement rate",
+};
+
+const statusLabels: Record<Experiment["status"], string> = {
+  running: "Running",
+  decided: "Winner found",
+  inconclusive: "Inconclusive",
+  cancelled: "Cancelled",
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const VariantPanel = ({
+  response,
+  platforms,
+  campaign,
+  canTest = false,
+  onSelect,
+  onTestStarted,
+}: VariantPanelProps) => {
+  const variants = useMemo(() => response.variants ?? [], [response.variants]);
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [platform, setPlatform] = useState<Platform | "">("");
+  const [chosen, setChosen] = useState<string[]>(() => variants.map((variant) => variant.id));
+  const [metric, setMetric] = useState<ExperimentMetric>("engagement");
+  const [confidence, setConfidence] = useState<number>(0.95);
+  const [spacingHours, setSpacingHours] = useState(24);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const campaignId = campaign?.id;
+  const load = useCallback(async () => {
+    setExperiments(campaignId ? await fetchExperiments(campaignId) : []);
+  }, [campaignId]);
+
+  // Winners are declared as analytics arrive, which also updates the campaign.
+  useEffect(() => {
+    load().catch((err) => setError(err instanceof Error ? err.message : "Unable to load tests"));
+  }, [load, campaign?.updatedAt]);
+
+  const busyPlatforms = new Set([
+    ...(campaign?.published ?? []).map((post) => post.platform),
+    ...experiments
+      .filter((experiment) => experiment.status === "running")
+      .map((experiment) => experiment.platform),
+  ]);
+  const testable = platforms.filter((item) => !busyPlatforms.has(item));
+  const target = platform && testable.includes(platform) ? platform : testable[0];
+
+  const toggle = (id: string) =>
+    setChosen((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]));
+
+  const handleStart = async () => {
+    if (!campaign || !target) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await startExperiment(campaign.id, {
+        platform: target,
+        variantIds: variants.map((variant) => variant.id).filter((id) => chosen.includes(id)),
+        metric,
+        confidence,
+        spacingHours,
+        timeZone: localTimeZone(),
+      });
+      await load();
+      onTestStarted?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to start the test");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="variants">
+      <div className="takes">
+        {variants.map((variant) => {
+          const active = variant.id === response.activeVariantId;
+          // The active take's copy may have been edited since generation.
+          const hook = active ? response.hook : variant.hook;
+          const posts = active ? response.socialPosts : variant.socialPosts;
+          return (
+            <article key={variant.id} className={clsx("take", { active })}>
+              <header>
+                <span className="label">{variantLabel(variant.id)}</span>
+                {active ? (
+                  <span className="badge">In use</span>
+                ) : (
+                  <button type="button" onClick={() => onSelect(variant.id)}>
+                    Use this
+                  </button>
+                )}
+              </header>
+              <strong>{hook}</strong>
+              {posts.map((post) => (
+                <p key={post.platform}>
+                  <span className="platform">{platformSpecs[post.platform].label}</span>
+                  {post.caption}
+                </p>
+              ))}
+            </article>
+          );
+        })}
+      </div>
+
+      {campaign && (
+        <div className="test">
+          <h3>A/B test</h3>
+          <p className="hint">
+            Each variant goes out in its own slot on one platform. The winner is declared once the
+            leader beats every other variant at the chosen confidence, comparing posts at equal age.
+          </p>
+          <div className="row">
+            <label>
+              Platform
+              <select
+                value={target ?? ""}
+                disabled={testable.length === 0}
+                onChange={(event) => setPlatform(event.target.value as Platform)}
+              >
+                {testable.length === 0 && <option value="">No platform free to test</option>}
+                {testable.map((item) => (
+                  <option key={item} value={item}>
+                    {platformSpecs[item].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Metric
+              <select
+                value={metric}
+                onChange={(event) => setMetric(event.target.value as ExperimentMetric)}
+              >
+                {experimentMetrics.map((item) => (
+                  <option key={item} value={item}>
+                    {metricLabels[item]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Confidence
+              <select
+                value={confidence}
+                onChange={(event) => setConfidence(Number(event.target.value))}
+              >
+                {confidenceLevels.map((level) => (
+                  <option key={level} value={level}>
+                    {Math.round(level * 100)}%
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Hours between slots
+              <input
+                type="number"
+                min={0}
+                max={168}
+                value={spacingHours}
+                onChange={(event) => setSpacingHours(Number(event.target.value))}
+              />
+            </label>
+          </div>
+          <div className="row">
+            {variants.map((variant) => (
+              <label key={variant.id} className="check">
+                <input
+                  type="checkbox"
+                  checked={chosen.includes(variant.id)}
+                  onChange={() => toggle(variant.id)}
+                />
+                {variantLabel(variant.id)}
+              </label>
+            ))}
+            <button
+              type="button"
+              onClick={handleStart}
+              disabled={!canTest || busy || !target || chosen.length < 2}
+              title={canTest ? undefined : "Save your edits before starting a test"}
+            >
+              {busy ? "Scheduling…" : "Start A/B test"}
+            </button>
+          </div>
+          {error && <p className="error">{error}</p>}
+
+          {experiments.map((experiment) => {
+            const winner = experiment.winnerVariantId;
+            return (
+              <div key={experiment.id} className={clsx("experiment", experiment.status)}>
+                <div className="summary">
+                  <span className="label">
+                    {platformSpecs[experiment.platform].label} · {metricLabels[experiment.metric]}{" "}
+                    · {Math.round(experiment.confidence * 100)}% confidence
+                  </span>
+                  <span className="status">{statusLabels[experiment.status]}</span>
+                </div>
+                {experiment.results.length > 0 ? (
+                  <table>
+                    <tbody>
+                      {experiment.results.map((result) => (
+                        <tr
+                          key={result.variantId}
+                          className={clsx({ winner: result.variantId === winner })}
+                        >
+                          <td>{variantLabel(result.variantId)}</td>
+                          <td>{result.views.toLocaleString()} views</td>
+                          <td>{percent(result.engagementRate)} engagement</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="hint">
+                    Waiting for every variant to go live and report numbers.
+                  </p>
+                )}
+                {experiment.leaderVariantId && experiment.achievedConfidence !== undefined && (
+                  <p className="hint">
+                    {variantLabel(experiment.leaderVariantId)} leads at{" "}
+                    {percent(experiment.achievedConfidence)} confidence after{" "}
+                    {Math.round(experiment.comparedAtHours ?? 0)}h
+                    {winner ? "." : `; ${Math.round(experiment.confidence * 100)}% needed.`}
+                  </p>
+                )}
+                {winner && winner !== response.activeVariantId && (
+                  <button type="button" onClick={() => onSelect(winner)}>
+                    Use {variantLabel(winner)}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <style jsx>{`
+        .variants {
+          display: flex;
+          flex-direction: column;
+          gap: 20px;
+        }
+        .takes {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(220px, 1fr));
+          gap: 14px;
+        }
+        .take {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          padding: 14px;
+          border-radius: 16px;
+          background: rgba(30, 41, 59, 0.8);
+          border: 1px solid rgba(148, 163, 184, 0.18);
+        }
+        .take.active {
+          border-color: rgba(56, 189, 248, 0.65);
+        }
+        .take header,
+        .summary {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 8px;
+        }
+        .take p {
+          margin: 0;
+          font-size: 0.85rem;
+          white-space: pre-wrap;
+          color: rgba(226, 232, 240, 0.8);
+        }
+        .platform {
+          display: block;
+          font-size: 0.7rem;
+          text-transform: uppercase;
+          letter-spacing: 0.06em;
+          color: rgba(226, 232, 240, 0.5);
+        }
+        .label {
+          font-size: 0.75rem;
+          text-transform: uppercase;
+          letter-spacing: 0.06em;
+          color: rgba(96, 165, 250, 0.9);
+        }
+        .badge,
+        .status {
+          font-size: 0.75rem;
+          color: #38bdf8;
+        }
+        .test {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+        h3 {
+          margin: 0;
+        }
+        .hint {
+          margin: 0;
+          font-size: 0.85rem;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        .row {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: flex-end;
+          gap: 12px;
+        }
+        label {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 0.75rem;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        label.check {
+          flex-direction: row;
+          align-items: center;
+          gap: 6px;
+        }
+        select,
+        input[type="number"] {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+          border-radius: 10px;
+          padding: 6px 10px;
+          color: #f8fafc;
+          font: inherit;
+        }
+        input[type="number"] {
+          width: 90px;
+        }
+        button {
+          align-self: flex-start;
+          background: rgba(56, 189, 248, 0.12);
+          border: 1px solid rgba(56, 189, 248, 0.4);
+          color: #f8fafc;
+          border-radius: 10px;
+          padding: 6px 12px;
+          font-size: 0.85rem;
+          cursor: pointer;
+        }
+        button[disabled] {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+        .experiment {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          padding: 14px;
+          border-radius: 16px;
+          background: rgba(30, 41, 59, 0.7);
+          border: 1px solid rgba(148, 163, 184, 0.18);
+        }
+        .experiment.decided {
+          border-color: rgba(74, 222, 128, 0.6);
+        }
+        .experiment.cancelled {
+          opacity: 0.6;
+        }
+        table {
+          border-collapse: collapse;
+          font-size: 0.85rem;
+        }
+        td {
+          padding: 4px 12px 4px 0;
+          color: rgba(226, 232, 240, 0.8);
+        }
+        tr.winner td {
+          color: #4ade80;
+          font-weight: 600;
+        }
+        .error {
+          margin: 0;
+          color: #fca5a5;
+          font-size: 0.85rem;
+        }
+      `}</style>
+    </div>
+  );
+};
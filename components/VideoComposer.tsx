@@ -1,178 +1,250 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { ScenePlan } from "@/types/agent";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Platform, ScenePlan } from "@/types/agent";
+import type { Locale } from "@/types/locale";
+import type { TextDirection } from "@/lib/localization";
+import { exportFileName, platformSpecs, renderFileName, verticalFormat } from "@/lib/platforms";
+import { clipToDuration, totalDuration } from "@/lib/timeline";
+import { mixSoundtrack, voiceTimings, type SoundtrackSettings } from "@/lib/audio/soundtrack";
+import {
+  buildCaptionCues,
+  captionPresetLabels,
+  captionPresets,
+  toSrt,
+  toVtt,
+  type CaptionPreset,
+} from "@/lib/video/captions";
+import {
+  realtimeMimeType,
+  renderVideo,
+  supportsFrameStepping,
+  type RenderMode,
+} from "@/lib/video/render";
+import { withBrandCards, type SceneStyle } from "@/lib/video/scene";
+import { loadSceneVisuals, releaseSceneVisuals } from "@/lib/media/client";
 
 interface VideoComposerProps {
   scenes: ScenePlan[];
+  platforms?: Platform[];
+  soundtrack?: SoundtrackSettings;
+  // Resolved brand kit: colors, fonts, logo and intro/outro cards.
+  brandStyle?: SceneStyle;
   autoGenerate?: boolean;
-  onVideoReady?: (url: string) => void;
+  // Auto-render fires when this changes; defaults to the scenes array itself.
+  renderKey?: string;
+  // Set when rendering a translation; its files are named after the locale.
+  locale?: Locale;
+  direction?: TextDirection;
+  onVideoReady?: (url: string, fileName: string) => void;
+  // Fires per platform cut so it can be stored for publishing.
+  onExportReady?: (url: string, fileName: string) => void;
 }
 
-const wait = (durationMs: number) =>
-  new Promise<void>((resolve) => setTimeout(() => resolve(), durationMs));
-
-const colors = [
-  ["#0ea5e9", "#1e3a8a"],
-  ["#22d3ee", "#0f172a"],
-  ["#a855f7", "#312e81"],
-  ["#f97316", "#7c2d12"],
-  ["#38bdf8", "#1e293b"],
-];
-
-const pickPalette = (index: number) => colors[index % colors.length];
-
-const drawScene = (
-  ctx: CanvasRenderingContext2D,
-  canvas: HTMLCanvasElement,
-  scene: ScenePlan,
-  palette: string[]
-) => {
-  const [start, end] = palette;
-  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
-  gradient.addColorStop(0, start);
-  gradient.addColorStop(1, end);
-
-  ctx.fillStyle = gradient;
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-  const padding = 48;
-  ctx.fillStyle = "rgba(15, 23, 42, 0.75)";
-  ctx.fillRect(padding, 200, canvas.width - padding * 2, canvas.height - 400);
-
-  ctx.fillStyle = "#f8fafc";
-  ctx.font = "bold 64px Inter, sans-serif";
-  ctx.textAlign = "center";
-  ctx.fillText(scene.title, canvas.width / 2, 320, canvas.width - padding * 2 - 32);
-
-  ctx.font = "400 36px Inter, sans-serif";
-  ctx.textAlign = "left";
-  const textWidth = canvas.width - padding * 2 - 80;
-  const lines: string[] = [];
-  const words = scene.narration.split(/\s+/);
-  let currentLine = "";
-
-  words.forEach((word) => {
-    const testLine = currentLine.length === 0 ? word : `${currentLine} ${word}`;
-    const metrics = ctx.measureText(testLine);
-    if (metrics.width > textWidth) {
-      lines.push(currentLine);
-      currentLine = word;
-    } else {
-      currentLine = testLine;
-    }
-  });
-
-  if (currentLine.trim().length > 0) {
-    lines.push(currentLine);
-  }
+const saveText = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
-  lines.forEach((line, idx) => {
-    ctx.fillText(line, padding + 40, 420 + idx * 48);
-  });
+const captionsFor = (scenes: ScenePlan[], soundtrack?: SoundtrackSettings) =>
+  buildCaptionCues(scenes, soundtrack ? voiceTimings(scenes, soundtrack) : {});
 
-  ctx.fillStyle = "rgba(226, 232, 240, 0.72)";
-  ctx.font = "500 28px Inter, sans-serif";
-  ctx.textAlign = "left";
-  ctx.fillText(`Visual: ${scene.visualDirection}`, padding + 40, canvas.height - 120, textWidth);
-};
+interface PlatformExport {
+  platform: Platform;
+  url: string;
+  fileName: string;
+  clipped: boolean;
+}
 
-export const VideoComposer = ({ scenes, autoGenerate = true, onVideoReady }: VideoComposerProps) => {
+export const VideoComposer = ({
+  scenes,
+  platforms = [],
+  soundtrack,
+  brandStyle,
+  autoGenerate = true,
+  renderKey,
+  locale,
+  direction,
+  onVideoReady,
+  onExportReady,
+}: VideoComposerProps) => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const renderedScenesRef = useRef<ScenePlan[] | null>(null);
+  const renderedSoundtrackRef = useRef<SoundtrackSettings | undefined>(undefined);
+  const renderedStyleRef = useRef<SceneStyle | undefined>(undefined);
   const [status, setStatus] = useState<"idle" | "rendering" | "ready" | "error">("idle");
   const [error, setError] = useState<string | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
 
-  const supportedMimeType = useMemo(() => {
-    if (typeof window === "undefined" || typeof MediaRecorder === "undefined") {
-      return null;
-    }
-    const candidates = [
-      "video/webm;codecs=vp9",
-      "video/webm;codecs=vp8",
-      "video/webm",
-    ];
-    return candidates.find((mimeType) => MediaRecorder.isTypeSupported(mimeType)) ?? null;
-  }, []);
+  const [progress, setProgress] = useState(0);
+  const [captionPreset, setCaptionPreset] = useState<CaptionPreset>("classic");
+  const renderedPresetRef = useRef<CaptionPreset>(captionPreset);
+  const [mode, setMode] = useState<RenderMode | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [exports, setExports] = useState<PlatformExport[]>([]);
+  const [exporting, setExporting] = useState<{ platform: Platform; progress: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const exportsRef = useRef<PlatformExport[]>([]);
+  exportsRef.current = exports;
+
+  useEffect(
+    () => () => {
+      abortRef.current?.abort();
+      exportAbortRef.current?.abort();
+      exportsRef.current.forEach((item) => URL.revokeObjectURL(item.url));
+    },
+    []
+  );
 
   const generateVideo = useCallback(async () => {
     if (!canvasRef.current) {
       return;
     }
-    if (typeof window === "undefined" || typeof MediaRecorder === "undefined") {
-      setError("Browser does not support MediaRecorder API.");
-      setStatus("error");
-      return;
-    }
-    if (!supportedMimeType) {
-      setError("No compatible video codec available in this browser.");
+    if (!supportsFrameStepping() && !realtimeMimeType()) {
+      setError("Browser supports neither WebCodecs nor MediaRecorder video capture.");
       setStatus("error");
       return;
     }
 
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setStatus("rendering");
+      setProgress(0);
       setError(null);
       if (videoUrl) {
         URL.revokeObjectURL(videoUrl);
         setVideoUrl(null);
       }
 
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) {
-        throw new Error("Canvas context unavailable");
-      }
-
-      canvas.width = 720;
-      canvas.height = 1280;
-
-      const stream = canvas.captureStream(30);
-      const recorder = new MediaRecorder(stream, { mimeType: supportedMimeType });
-      const chunks: BlobPart[] = [];
-
-      const recordingPromise = new Promise<Blob>((resolve, reject) => {
-        recorder.ondataavailable = (event) => {
-          if (event.data.size > 0) {
-            chunks.push(event.data);
-          }
-        };
-        recorder.onerror = (event) => {
-          reject(event.error);
-        };
-        recorder.onstop = () => {
-          resolve(new Blob(chunks, { type: supportedMimeType }));
-        };
-      });
-
-      recorder.start();
+      renderedScenesRef.current = scenes;
+      renderedSoundtrackRef.current = soundtrack;
+      renderedStyleRef.current = brandStyle;
+      renderedPresetRef.current = captionPreset;
+      const framed = withBrandCards(scenes, brandStyle);
+      const visuals = await loadSceneVisuals(framed);
+      const rendered = await renderVideo({
+        scenes: framed,
+        audio: soundtrack ? await mixSoundtrack(framed, soundtrack) : null,
+        captions: { preset: captionPreset, cues: captionsFor(framed, soundtrack) },
+        style: brandStyle,
+        visuals,
+        direction,
+        canvas: canvasRef.current,
+        width: verticalFormat.width,
+        height: verticalFormat.height,
+        signal: controller.signal,
+        onProgress: setProgress,
+      }).finally(() => releaseSceneVisuals(visuals));
 
-      for (let index = 0; index < scenes.length; index += 1) {
-        const scene = scenes[index];
-        drawScene(ctx, canvas, scene, pickPalette(index));
-        // Give MediaRecorder at least one full frame before waiting
-        await wait(200);
-        await wait(scene.durationSeconds * 1000);
-      }
-
-      recorder.stop();
-      const blob = await recordingPromise;
-      const url = URL.createObjectURL(blob);
+      const url = URL.createObjectURL(rendered.blob);
+      setMode(rendered.mode);
       setVideoUrl(url);
-      onVideoReady?.(url);
+      onVideoReady?.(url, renderFileName(locale));
       setStatus("ready");
     } catch (err) {
+      if (controller.signal.aborted) {
+        return;
+      }
       console.error(err);
       setStatus("error");
       setError(err instanceof Error ? err.message : "Failed to render video");
     }
-  }, [onVideoReady, scenes, supportedMimeType, videoUrl]);
+  }, [brandStyle, captionPreset, direction, locale, onVideoReady, scenes, soundtrack, videoUrl]);
+
+  const exportPlatforms = async () => {
+    if (!canvasRef.current || platforms.length === 0) {
+      return;
+    }
+    exportAbortRef.current?.abort();
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    exports.forEach((item) => URL.revokeObjectURL(item.url));
+    setExports([]);
+    setExportError(null);
+
+    const framed = withBrandCards(scenes, brandStyle);
+    const total = totalDuration(framed);
+    const visuals = await loadSceneVisuals(framed);
+    try {
+      for (const platform of platforms) {
+        const spec = platformSpecs[platform];
+        setExporting({ platform, progress: 0 });
+        const clipped = clipToDuration(framed, spec.maxDurationSeconds);
+        const rendered = await renderVideo({
+          scenes: clipped,
+          audio: soundtrack ? await mixSoundtrack(clipped, soundtrack) : null,
+          captions: { preset: captionPreset, cues: captionsFor(clipped, soundtrack) },
+          style: brandStyle,
+          visuals,
+          direction,
+          canvas: canvasRef.current,
+          width: spec.format.width,
+          height: spec.format.height,
+          signal: controller.signal,
+          onProgress: (value) => setExporting({ platform, progress: value }),
+        });
+        const item: PlatformExport = {
+          platform,
+          url: URL.createObjectURL(rendered.blob),
+          fileName: exportFileName(platform, locale),
+          clipped: total > spec.maxDurationSeconds,
+        };
+        setExports((prev) => [...prev, item]);
+        onExportReady?.(item.url, item.fileName);
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        setExportError(err instanceof Error ? err.message : "Failed to export video");
+      }
+    } finally {
+      releaseSceneVisuals(visuals);
+      if (exportAbortRef.current === controller) {
+        setExporting(null);
+      }
+    }
+  };
+
+  const saveCaptions = (format: "srt" | "vtt") => {
+    const framed = renderedScenesRef.current
+      ? withBrandCards(renderedScenesRef.current, renderedStyleRef.current)
+      : withBrandCards(scenes, brandStyle);
+    const cues = captionsFor(framed, renderedSoundtrackRef.current);
+    const baseName = renderFileName(locale).replace(/\.webm$/, "");
+    if (format === "srt") {
+      saveText(toSrt(cues), `${baseName}.srt`, "application/x-subrip");
+    } else {
+      saveText(toVtt(cues), `${baseName}.vtt`, "text/vtt");
+    }
+  };
+
+  const generateRef = useRef(generateVideo);
+  generateRef.current = generateVideo;
+  const trigger = renderKey ?? scenes;
+  const hasScenes = scenes.length > 0;
 
   useEffect(() => {
-    if (autoGenerate && scenes.length > 0) {
-      generateVideo();
+    if (autoGenerate && hasScenes) {
+      generateRef.current();
     }
-  }, [scenes, autoGenerate, generateVideo]);
+  }, [trigger, autoGenerate, hasScenes]);
+
+  const stale =
+    status === "ready" &&
+    renderedScenesRef.current !== null &&
+    (renderedScenesRef.current !== scenes ||
+      renderedSoundtrackRef.current !== soundtrack ||
+      renderedStyleRef.current !== brandStyle ||
+      renderedPresetRef.current !== captionPreset);
 
   return (
     <div className="video-composer">
@@ -188,22 +260,96 @@ export const VideoComposer = ({ scenes, autoGenerate = true, onVideoReady }: Vid
           />
         ) : (
           <div className="video-placeholder">
-            {status === "rendering" && <span>Rendering video scenes…</span>}
+            {status === "rendering" && (
+              <div className="progress">
+                <span>Rendering video scenes… {Math.round(progress * 100)}%</span>
+                <div className="bar">
+                  <div style={{ width: `${Math.round(progress * 100)}%` }} />
+                </div>
+              </div>
+            )}
             {status === "idle" && <span>Generate to preview the auto-edited video.</span>}
             {status === "error" && <span>{error}</span>}
           </div>
         )}
       </div>
       <div className="video-actions">
-        <button type="button" onClick={generateVideo} disabled={scenes.length === 0 || status === "rendering"}>
+        <button
+          type="button"
+          onClick={generateVideo}
+          disabled={scenes.length === 0 || status === "rendering" || exporting !== null}
+        >
           {status === "rendering" ? "Rendering…" : videoUrl ? "Regenerate" : "Render Video"}
         </button>
         {videoUrl && (
-          <a href={videoUrl} download="agentic-video.webm" className="download">
+          <a href={videoUrl} download={renderFileName(locale)} className="download">
             Download WebM
           </a>
         )}
+        {videoUrl && (
+          <button
+            type="button"
+            className="link"
+            onClick={() => saveCaptions("srt")}
+          >
+            .srt
+          </button>
+        )}
+        {videoUrl && (
+          <button
+            type="button"
+            className="link"
+            onClick={() => saveCaptions("vtt")}
+          >
+            .vtt
+          </button>
+        )}
+        <label className="captions">
+          Captions
+          <select
+            value={captionPreset}
+            onChange={(event) => setCaptionPreset(event.target.value as CaptionPreset)}
+          >
+            {captionPresets.map((preset) => (
+              <option key={preset} value={preset}>
+                {captionPresetLabels[preset]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {platforms.length > 0 && (
+          <button
+            type="button"
+            className="secondary"
+            onClick={exportPlatforms}
+            disabled={scenes.length === 0 || status === "rendering" || exporting !== null}
+          >
+            {exporting
+              ? `Exporting ${platformSpecs[exporting.platform].label}… ${Math.round(exporting.progress * 100)}%`
+              : "Export per platform"}
+          </button>
+        )}
+        {stale && <span className="stale">Edited since this render.</span>}
+        {status === "ready" && mode === "realtime" && (
+          <span className="mode">Rendered in real time (WebCodecs unavailable).</span>
+        )}
       </div>
+      {exportError && <p className="export-error">{exportError}</p>}
+      {exports.length > 0 && (
+        <ul className="exports">
+          {exports.map((item) => {
+            const spec = platformSpecs[item.platform];
+            return (
+              <li key={item.platform}>
+                <a href={item.url} download={item.fileName}>
+                  {spec.label} · {spec.format.aspectRatio} · {spec.format.width}×{spec.format.height}
+                </a>
+                {item.clipped && <span className="clipped">Cut to {spec.maxDurationSeconds}s</span>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
       <style jsx>{`
         .video-shell {
           border-radius: 24px;
@@ -229,6 +375,7 @@ export const VideoComposer = ({ scenes, autoGenerate = true, onVideoReady }: Vid
         }
         .video-actions {
           display: flex;
+          flex-wrap: wrap;
           align-items: center;
           gap: 12px;
           margin-top: 16px;
@@ -253,10 +400,89 @@ export const VideoComposer = ({ scenes, autoGenerate = true, onVideoReady }: Vid
           transform: translateY(-2px);
           box-shadow: 0 12px 40px rgba(56, 189, 248, 0.35);
         }
+        button.link {
+          background: none;
+          border: none;
+          padding: 0;
+          color: rgba(226, 232, 240, 0.9);
+          font-weight: 500;
+          text-decoration: underline;
+        }
+        button.link:hover {
+          transform: none;
+          box-shadow: none;
+        }
+        .captions {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          font-size: 0.8rem;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        .captions select {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+          border-radius: 10px;
+          padding: 6px 10px;
+          color: #f8fafc;
+          font: inherit;
+        }
+        button.secondary {
+          background: rgba(56, 189, 248, 0.12);
+          border: 1px solid rgba(56, 189, 248, 0.4);
+          color: #f8fafc;
+        }
+        .exports {
+          list-style: none;
+          margin: 14px 0 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          font-size: 0.88rem;
+        }
+        .exports a {
+          color: rgba(226, 232, 240, 0.9);
+        }
+        .clipped {
+          margin-left: 8px;
+          color: #fcd34d;
+          font-size: 0.8rem;
+        }
+        .export-error {
+          margin: 10px 0 0;
+          color: #fca5a5;
+          font-size: 0.85rem;
+        }
         .download {
           color: rgba(226, 232, 240, 0.9);
           font-weight: 500;
         }
+        .stale {
+          color: #fcd34d;
+          font-size: 0.85rem;
+        }
+        .mode {
+          color: rgba(226, 232, 240, 0.55);
+          font-size: 0.8rem;
+        }
+        .progress {
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+          width: 240px;
+        }
+        .bar {
+          height: 6px;
+          border-radius: 999px;
+          background: rgba(148, 163, 184, 0.25);
+          overflow: hidden;
+        }
+        .bar div {
+          height: 100%;
+          background: linear-gradient(120deg, #38bdf8, #22d3ee);
+          transition: width 0.2s ease;
+        }
       `}</style>
     </div>
   );
@@ -0,0 +1,295 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  mediaUploadTypes,
+  type MediaAsset,
+  type MediaCandidate,
+  type MediaKind,
+  type MediaMatch,
+  type MediaProviders,
+  type SceneVisual,
+} from "@/types/media";
+import {
+  fetchMediaProviders,
+  generateImage,
+  importStock,
+  mediaFileUrl,
+  searchLibrary,
+  searchStock,
+  uploadMedia,
+} from "@/lib/media/client";
+
+interface VisualPickerProps {
+  label: string;
+  direction: string;
+  visual?: SceneVisual;
+  onChange: (visual: SceneVisual | undefined) => void;
+}
+
+const toVisual = (asset: MediaAsset): SceneVisual => ({ assetId: asset.id, kind: asset.kind });
+
+const Thumbnail = ({ id, kind }: { id: string; kind: MediaKind }) =>
+  kind === "video" ? (
+    <video src={mediaFileUrl(id)} muted playsInline preload="metadata" />
+  ) : (
+    <img src={mediaFileUrl(id)} alt="" />
+  );
+
+export const VisualPicker = ({ label, direction, visual, onChange }: VisualPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState(direction);
+  const [kind, setKind] = useState<MediaKind>("image");
+  const [providers, setProviders] = useState<MediaProviders | null>(null);
+  const [library, setLibrary] = useState<MediaMatch[]>([]);
+  const [stock, setStock] = useState<MediaCandidate[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open && !providers) {
+      fetchMediaProviders()
+        .then(setProviders)
+        .catch((err) => console.warn("Failed to load media providers", err));
+    }
+  }, [open, providers]);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Media request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpen = () => {
+    setQuery(direction);
+    setStock([]);
+    setOpen(true);
+    run(async () => setLibrary(await searchLibrary(direction, kind)));
+  };
+
+  const handleSearch = () =>
+    run(async () => {
+      const trimmed = query.trim();
+      if (!trimmed) {
+        return;
+      }
+      const [matches, candidates] = await Promise.all([
+        searchLibrary(trimmed, kind),
+        providers?.stock ? searchStock(trimmed, kind) : Promise.resolve([]),
+      ]);
+      setLibrary(matches);
+      setStock(candidates);
+    });
+
+  const choose = (asset: MediaAsset) => {
+    onChange(toVisual(asset));
+    setOpen(false);
+  };
+
+  const handleImport = (candidate: MediaCandidate) =>
+    run(async () => choose(await importStock(candidate)));
+
+  const handleGenerate = () =>
+    run(async () =>
+      choose(await generateImage({ prompt: query.trim() || direction, orientation: "portrait" }))
+    );
+
+  const handleUpload = (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    run(async () => choose(await uploadMedia(file, { description: direction, tags: [] })));
+  };
+
+  return (
+    <div className="picker">
+      <div className="current">
+        {visual ? (
+          <Thumbnail id={visual.assetId} kind={visual.kind} />
+        ) : (
+          <span className="empty">No visual yet</span>
+        )}
+        <div className="buttons">
+          <button type="button" onClick={open ? () => setOpen(false) : handleOpen}>
+            {open ? "Close" : visual ? "Change visual" : "Choose visual"}
+          </button>
+          {visual && (
+            <button type="button" onClick={() => onChange(undefined)}>
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+
+      {open && (
+        <div className="browser">
+          <div className="row">
+            <input
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  event.preventDefault();
+                  handleSearch();
+                }
+              }}
+              aria-label={`${label} visual search`}
+            />
+            <select value={kind} onChange={(event) => setKind(event.target.value as MediaKind)}>
+              <option value="image">Images</option>
+              <option value="video">Clips</option>
+            </select>
+            <button type="button" onClick={handleSearch} disabled={busy}>
+              Search
+            </button>
+          </div>
+
+          {library.length > 0 && (
+            <>
+              <span className="label">Library</span>
+              <div className="results">
+                {library.map(({ asset }) => (
+                  <button
+                    type="button"
+                    key={asset.id}
+                    className="tile"
+                    title={asset.description || asset.fileName}
+                    onClick={() => choose(asset)}
+                  >
+                    <Thumbnail id={asset.id} kind={asset.kind} />
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          {stock.length > 0 && (
+            <>
+              <span className="label">{providers?.stock}</span>
+              <div className="results">
+                {stock.map((candidate) => (
+                  <button
+                    type="button"
+                    key={candidate.externalId}
+                    className="tile"
+                    title={candidate.credit ?? candidate.description}
+                    onClick={() => handleImport(candidate)}
+                    disabled={busy}
+                  >
+                    <img src={candidate.previewUrl} alt="" />
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          {!busy && library.length === 0 && stock.length === 0 && (
+            <p className="hint">Nothing in the library matches yet.</p>
+          )}
+
+          <div className="row">
+            <label className="upload">
+              Upload
+              <input
+                type="file"
+                accept={[...mediaUploadTypes.image, ...mediaUploadTypes.video].join(",")}
+                onChange={(event) => {
+                  handleUpload(event.target.files?.[0]);
+                  event.target.value = "";
+                }}
+                disabled={busy}
+              />
+            </label>
+            {providers?.generate && kind === "image" && (
+              <button type="button" onClick={handleGenerate} disabled={busy}>
+                {busy ? "Working…" : `Generate with ${providers.generate}`}
+              </button>
+            )}
+          </div>
+          {error && <p className="error">{error}</p>}
+        </div>
+      )}
+      <style jsx>{`
+        .picker,
+        .browser {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+        .current {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+        }
+        .current :global(img),
+        .current :global(video) {
+          width: 54px;
+          height: 96px;
+          object-fit: cover;
+          border-radius: 8px;
+        }
+        .empty,
+        .hint,
+        .label {
+          margin: 0;
+          font-size: 0.75rem;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        .buttons,
+        .row {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+        }
+        .row input:not([type]) {
+          flex: 1;
+          min-width: 0;
+        }
+        .results {
+          display: grid;
+          grid-template-columns: repeat(4, minmax(0, 1fr));
+          gap: 6px;
+        }
+        .tile {
+          padding: 0;
+          border-radius: 8px;
+          overflow: hidden;
+          aspect-ratio: 9 / 16;
+        }
+        .tile :global(img),
+        .tile :global(video) {
+          width: 100%;
+          height: 100%;
+          object-fit: cover;
+          display: block;
+        }
+        .upload {
+          position: relative;
+          background: rgba(56, 189, 248, 0.12);
+          border: 1px solid rgba(56, 189, 248, 0.4);
+          border-radius: 10px;
+          padding: 6px 12px;
+          font-size: 0.85rem;
+          cursor: pointer;
+        }
+        .upload input {
+          position: absolute;
+          inset: 0;
+          opacity: 0;
+          cursor: pointer;
+        }
+        .error {
+          margin: 0;
+          color: #fca5a5;
+          font-size: 0.8rem;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,417 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { tonePresets } from "@/types/agent";
+import {
+  emojiPolicies,
+  paceBounds,
+  type EmojiPolicy,
+  type VoiceProfile,
+  type VoiceProfileSettings,
+  type VoiceProfileSummary,
+} from "@/types/voiceProfile";
+import { defaultVoiceProfileSettings } from "@/lib/voiceProfiles/defaults";
+import {
+  createVoiceProfile,
+  fetchVoiceProfile,
+  fetchVoiceProfiles,
+  patchVoiceProfile,
+  removeVoiceProfile,
+} from "@/lib/voiceProfiles/client";
+
+export interface VoiceSelection {
+  tone: string;
+  voiceProfileId?: string;
+}
+
+interface VoiceProfilePanelProps extends VoiceSelection {
+  invalid?: boolean;
+  // Picking a profile also sets the request's tone to the profile's base tone.
+  onSelect: (selection: VoiceSelection) => void;
+  onSaved: (profile: VoiceProfile) => void;
+}
+
+const MAX_EXAMPLES = 5;
+
+const emojiLabels: Record<EmojiPolicy, string> = {
+  none: "No emoji",
+  sparing: "One per caption at most",
+  expressive: "Use freely",
+};
+
+const toSettings = (profile: VoiceProfile): VoiceProfileSettings => ({
+  name: profile.name,
+  tone: profile.tone,
+  description: profile.description,
+  exampleScripts: profile.exampleScripts,
+  preferredWords: profile.preferredWords,
+  avoidedWords: profile.avoidedWords,
+  wordsPerMinute: profile.wordsPerMinute,
+  emoji: profile.emoji,
+});
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+export const VoiceProfilePanel = ({
+  tone,
+  voiceProfileId,
+  invalid,
+  onSelect,
+  onSaved,
+}: VoiceProfilePanelProps) => {
+  const [profiles, setProfiles] = useState<VoiceProfileSummary[]>([]);
+  // null = closed, "" = a new profile, otherwise the id being edited.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<VoiceProfileSettings>(defaultVoiceProfileSettings);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProfiles(await fetchVoiceProfiles());
+    } catch (err) {
+      console.warn("Failed to load voice profiles", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Voice profile request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openEditor = (id: string | undefined) =>
+    run(async () => {
+      if (!id) {
+        setDraft({ ...defaultVoiceProfileSettings, tone });
+        setEditingId("");
+        return;
+      }
+      setDraft(toSettings(await fetchVoiceProfile(id)));
+      setEditingId(id);
+    });
+
+  const handleSave = () =>
+    run(async () => {
+      const settings = {
+        ...draft,
+        exampleScripts: draft.exampleScripts.filter((script) => script.trim().length > 0),
+      };
+      const saved = editingId
+        ? await patchVoiceProfile(editingId, settings)
+        : await createVoiceProfile(settings);
+      setEditingId(saved.id);
+      setDraft(toSettings(saved));
+      onSaved(saved);
+      onSelect({ tone: saved.tone, voiceProfileId: saved.id });
+      await refresh();
+    });
+
+  const handleDelete = () =>
+    run(async () => {
+      if (!editingId) {
+        return;
+      }
+      await removeVoiceProfile(editingId);
+      if (voiceProfileId === editingId) {
+        onSelect({ tone });
+      }
+      setEditingId(null);
+      await refresh();
+    });
+
+  const handleChange = (value: string) => {
+    if (value.startsWith("profile:")) {
+      const id = value.slice("profile:".length);
+      const profile = profiles.find((item) => item.id === id);
+      onSelect({ tone: profile?.tone ?? tone, voiceProfileId: id });
+    } else {
+      onSelect({ tone: value.slice("tone:".length) });
+    }
+  };
+
+  const setExample = (index: number, script: string) =>
+    setDraft((prev) => ({
+      ...prev,
+      exampleScripts: prev.exampleScripts.map((item, itemIndex) =>
+        itemIndex === index ? script : item
+      ),
+    }));
+
+  // A campaign opened from history may carry a tone that isn't one of the presets.
+  const tones: string[] = tonePresets.includes(tone as (typeof tonePresets)[number])
+    ? [...tonePresets]
+    : [...tonePresets, tone];
+
+  return (
+    <div className="voice">
+      <div className="row">
+        <label className="grow">
+          Voice profile
+          <select
+            id="tone"
+            className={invalid ? "invalid" : undefined}
+            value={voiceProfileId ? `profile:${voiceProfileId}` : `tone:${tone}`}
+            onChange={(event) => handleChange(event.target.value)}
+          >
+            <optgroup label="Tones">
+              {tones.map((item) => (
+                <option key={item} value={`tone:${item}`}>
+                  {item}
+                </option>
+              ))}
+            </optgroup>
+            {profiles.length > 0 && (
+              <optgroup label="Your voices">
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={`profile:${profile.id}`}>
+                    {profile.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => openEditor(voiceProfileId)}
+          disabled={busy || !voiceProfileId}
+        >
+          Edit
+        </button>
+        <button type="button" onClick={() => openEditor(undefined)} disabled={busy}>
+          New voice
+        </button>
+      </div>
+
+      {editingId !== null && (
+        <div className="editor">
+          <div className="row">
+            <label className="grow">
+              Name
+              <input
+                value={draft.name}
+                onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+              />
+            </label>
+            <label>
+              Base tone
+              <select
+                value={draft.tone}
+                onChange={(event) => setDraft((prev) => ({ ...prev, tone: event.target.value }))}
+              >
+                {tonePresets.map((item) => (
+                  <option key={item}>{item}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Pace (wpm)
+              <input
+                type="number"
+                min={paceBounds.min}
+                max={paceBounds.max}
+                value={draft.wordsPerMinute}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, wordsPerMinute: Number(event.target.value) }))
+                }
+              />
+            </label>
+            <label>
+              Emoji
+              <select
+                value={draft.emoji}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, emoji: event.target.value as EmojiPolicy }))
+                }
+              >
+                {emojiPolicies.map((policy) => (
+                  <option key={policy} value={policy}>
+                    {emojiLabels[policy]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="row">
+            <label className="grow">
+              Description
+              <textarea
+                rows={2}
+                value={draft.description}
+                placeholder="Warm, direct, a little dry. Talks to one person, never to 'you guys'."
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, description: event.target.value }))
+                }
+              />
+            </label>
+          </div>
+
+          <div className="row">
+            <label className="grow">
+              Words to use
+              <input
+                value={draft.preferredWords.join(", ")}
+                placeholder="straightforward, ship, honestly"
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, preferredWords: splitList(event.target.value) }))
+                }
+              />
+            </label>
+            <label className="grow">
+              Words to avoid
+              <input
+                value={draft.avoidedWords.join(", ")}
+                placeholder="synergy, game-changer"
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, avoidedWords: splitList(event.target.value) }))
+                }
+              />
+            </label>
+          </div>
+
+          {draft.exampleScripts.map((script, index) => (
+            <div className="row" key={index}>
+              <label className="grow">
+                Example script {index + 1}
+                <textarea
+                  rows={3}
+                  value={script}
+                  onChange={(event) => setExample(index, event.target.value)}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    exampleScripts: prev.exampleScripts.filter(
+                      (_, itemIndex) => itemIndex !== index
+                    ),
+                  }))
+                }
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+
+          <div className="row">
+            <button
+              type="button"
+              onClick={() =>
+                setDraft((prev) => ({ ...prev, exampleScripts: [...prev.exampleScripts, ""] }))
+              }
+              disabled={draft.exampleScripts.length >= MAX_EXAMPLES}
+            >
+              Add example script
+            </button>
+          </div>
+
+          <div className="row">
+            <button type="button" onClick={handleSave} disabled={busy}>
+              {busy ? "Saving…" : "Save voice"}
+            </button>
+            {editingId && (
+              <button type="button" className="danger" onClick={handleDelete} disabled={busy}>
+                Delete
+              </button>
+            )}
+            <button type="button" onClick={() => setEditingId(null)} disabled={busy}>
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+      {error && <p className="error">{error}</p>}
+      <style jsx>{`
+        .voice,
+        .editor {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+        .editor {
+          padding: 14px;
+          border-radius: 16px;
+          background: rgba(30, 41, 59, 0.7);
+          border: 1px solid rgba(148, 163, 184, 0.18);
+        }
+        .row {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: flex-end;
+          gap: 12px;
+        }
+        label {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 0.75rem;
+          color: rgba(226, 232, 240, 0.6);
+        }
+        label.grow {
+          flex: 1;
+          min-width: 200px;
+        }
+        select,
+        textarea,
+        input:not([type]),
+        input[type="number"] {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+          border-radius: 10px;
+          padding: 6px 10px;
+          color: #f8fafc;
+          font: inherit;
+        }
+        select.invalid {
+          border-color: rgba(248, 113, 113, 0.7);
+        }
+        textarea {
+          resize: vertical;
+        }
+        input[type="number"] {
+          width: 72px;
+        }
+        button {
+          background: rgba(56, 189, 248, 0.12);
+          border: 1px solid rgba(56, 189, 248, 0.4);
+          color: #f8fafc;
+          border-radius: 10px;
+          padding: 6px 12px;
+          font-size: 0.85rem;
+          cursor: pointer;
+        }
+        button.danger {
+          background: rgba(248, 113, 113, 0.12);
+          border-color: rgba(248, 113, 113, 0.4);
+        }
+        button[disabled] {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+        .error {
+          margin: 0;
+          color: #fca5a5;
+          font-size: 0.85rem;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import {
+  roleLabels,
+  roles,
+  type Role,
+  type SessionInfo,
+  type WorkspaceMember,
+} from "@/types/workspace";
+import { fetchSession, signOut, switchWorkspace } from "@/lib/auth/client";
+import { can } from "@/lib/auth/roles";
+import { ApiAccessPanel } from "./ApiAccessPanel";
+import {
+  addMember,
+  createWorkspace,
+  fetchMembers,
+  removeMember,
+  setMemberRole,
+} from "@/lib/workspaces/client";
+
+interface WorkspaceBarProps {
+  // Pass a stable callback, e.g. a state setter: the session is read again when it changes.
+  onSession?: (session: SessionInfo) => void;
+}
+
+const emptyMember = { username: "", role: "creator" as Role, password: "" };
+
+export const WorkspaceBar = ({ onSession }: WorkspaceBarProps) => {
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[] | null>(null);
+  const [member, setMember] = useState(emptyMember);
+  const [newWorkspace, setNewWorkspace] = useState<string | null>(null);
+  const [apiOpen, setApiOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSession()
+      .then((info) => {
+        setSession(info);
+        onSession?.(info);
+      })
+      .catch(() => window.location.assign("/login"));
+  }, [onSession]);
+
+  if (!session) {
+    return null;
+  }
+  const manages = can(session.role, "manage");
+
+  // Everything on the page belongs to the old workspace, so it is loaded afresh.
+  const enter = (info: Promise<SessionInfo>) =>
+    info.then(() => window.location.reload()).catch((err) => setError(err.message));
+
+  const toggleMembers = async () => {
+    if (members) {
+      setMembers(null);
+      return;
+    }
+    try {
+      setMembers(await fetchMembers());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load members");
+    }
+  };
+
+  const changeMembers = async (change: Promise<WorkspaceMember[] | void>) => {
+    setError(null);
+    try {
+      const next = await change;
+      setMembers(next ?? (await fetchMembers()));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update members");
+      return false;
+    }
+  };
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault();
+    const added = await changeMembers(
+      addMember({
+        username: member.username,
+        role: member.role,
+        ...(member.password ? { password: member.password } : {}),
+      })
+    );
+    if (added) {
+      setMember(emptyMember);
+    }
+  };
+
+  const handleCreate = (event: FormEvent) => {
+    event.preventDefault();
+    if (newWorkspace?.trim()) {
+      enter(createWorkspace(newWorkspace.trim()));
+    }
+  };
+
+  return (
+    <div className="workspace">
+      <div className="row">
+        <span className="who">
+          {session.user.displayName} · <span>{roleLabels[session.role]}</span>
+        </span>
+        <select
+          value={session.workspace.id}
+          onChange={(event) => enter(switchWorkspace(event.target.value))}
+          aria-label="Workspace"
+        >
+          {session.workspaces.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+        {newWorkspace === null ? (
+          <button type="button" onClick={() => setNewWorkspace("")}>
+            New workspace
+          </button>
+        ) : (
+          <form onSubmit={handleCreate}>
+            <input
+              value={newWorkspace}
+              onChange={(event) => setNewWorkspace(event.target.value)}
+              placeholder="Workspace name"
+              autoFocus
+            />
+            <button type="submit">Create</button>
+            <button type="button" onClick={() => setNewWorkspace(null)}>
+              Cancel
+            </button>
+          </form>
+        )}
+        {manages && (
+          <button type="button" onClick={toggleMembers}>
+            {members ? "Hide members" : "Members"}
+          </button>
+        )}
+        {manages && (
+          <button type="button" onClick={() => setApiOpen(!apiOpen)}>
+            {apiOpen ? "Hide API access" : "API access"}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => signOut().finally(() => window.location.assign("/login"))}
+        >
+          Sign out
+        </button>
+      </div>
+      {error && <p className="error">{error}</p>}
+      {manages && members && (
+        <div className="members">
+          <ul>
+            {members.map((item) => (
+              <li key={item.id}>
+                <span>
+                  {item.displayName} <em>@{item.username}</em>
+                </span>
+                <select
+                  value={item.role}
+                  onChange={(event) =>
+                    changeMembers(setMemberRole(item.id, event.target.value as Role))
+                  }
+                  aria-label={`Role for ${item.displayName}`}
+                >
+                  {roles.map((role) => (
+                    <option key={role} value={role}>
+                      {roleLabels[role]}
+                    </option>
+                  ))}
+                </select>
+                {item.id !== session.user.id && (
+                  <button type="button" onClick={() => changeMembers(removeMember(item.id))}>
+                    Remove
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleAdd}>
+            <input
+              value={member.username}
+              onChange={(event) => setMember({ ...member, username: event.target.value })}
+              placeholder="Username"
+              required
+            />
+            <select
+              value={member.role}
+              onChange={(event) => setMember({ ...member, role: event.target.value as Role })}
+              aria-label="Role"
+            >
+              {roles.map((role) => (
+                <option key={role} value={role}>
+                  {roleLabels[role]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="password"
+              value={member.password}
+              onChange={(event) => setMember({ ...member, password: event.target.value })}
+              placeholder="Initial password (new accounts)"
+              autoComplete="new-password"
+            />
+            <button type="submit">Add member</button>
+          </form>
+        </div>
+      )}
+      {manages && apiOpen && <ApiAccessPanel />}
+      <style jsx>{`
+        .workspace {
+          max-width: 1400px;
+          margin: 0 auto;
+          padding: 16px 20px 0;
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+          font-size: 0.9rem;
+        }
+        .row,
+        form,
+        li {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+        }
+        .row {
+          justify-content: flex-end;
+        }
+        .who span,
+        em {
+          color: rgba(226, 232, 240, 0.6);
+          font-style: normal;
+        }
+        input,
+        select,
+        button {
+          background: rgba(15, 23, 42, 0.6);
+          border: 1px solid rgba(148, 163, 184, 0.35);
+          color: #f8fafc;
+          border-radius: 999px;
+          padding: 6px 14px;
+        }
+        button {
+          cursor: pointer;
+        }
+        .members {
+          align-self: flex-end;
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+          padding: 16px;
+          border-radius: 18px;
+          background: rgba(15, 23, 42, 0.78);
+          border: 1px solid rgba(148, 163, 184, 0.25);
+        }
+        ul {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+        li span {
+          flex: 1;
+        }
+        .error {
+          margin: 0;
+          align-self: flex-end;
+          color: #fca5a5;
+        }
+      `}</style>
+    </div>
+  );
+};
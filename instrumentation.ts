@@ -0,0 +1,12 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startScheduler } = await import("@/lib/schedule/worker");
+    const { startAnalyticsPoller } = await import("@/lib/analytics/worker");
+    const { startWebhookDispatcher } = await import("@/lib/webhooks/worker");
+    const { startRenderWorker } = await import("@/lib/render/worker");
+    startScheduler();
+    startAnalyticsPoller();
+    startWebhookDispatcher();
+    startRenderWorker();
+  }
+}
@@ -0,0 +1,97 @@
+import type {
+  AgentRequest,
+  AgentStreamEvent,
+  Localization,
+  RegenerateRequest,
+  RegenerateResult,
+  TranslateRequest,
+} from "@/types/agent";
+import type { Issue } from "@/lib/validation/schema";
+
+export class AgentRequestError extends Error {
+  issues: Issue[];
+
+  constructor(message: string, issues: Issue[] = []) {
+    super(message);
+    this.name = "AgentRequestError";
+    this.issues = issues;
+  }
+}
+
+interface StreamOptions {
+  signal?: AbortSignal;
+  onEvent: (event: AgentStreamEvent) => void;
+}
+
+const parseBlock = (block: string): AgentStreamEvent | null => {
+  const data = block
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trimStart())
+    .join("\n");
+  if (!data) {
+    return null;
+  }
+  return JSON.parse(data) as AgentStreamEvent;
+};
+
+export const streamAgentRun = async (request: AgentRequest, options: StreamOptions) => {
+  const response = await fetch("/api/agent/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(request),
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => ({}));
+    throw new AgentRequestError(payload.error ?? "Failed to generate", payload.issues);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const event = parseBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (event) {
+        options.onEvent(event);
+      }
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+};
+
+export const requestRegenerate = async (payload: RegenerateRequest) => {
+  const response = await fetch("/api/agent/regenerate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new AgentRequestError(body.error ?? "Failed to regenerate", body.issues);
+  }
+  return body as RegenerateResult;
+};
+
+export const requestTranslation = async (payload: TranslateRequest) => {
+  const response = await fetch("/api/agent/translate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new AgentRequestError(body.error ?? "Failed to translate", body.issues);
+  }
+  return body as Localization;
+};
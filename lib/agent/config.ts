@@ -0,0 +1,46 @@
+import type { AgentProvider, ProviderId } from "./types";
+import { createOfflineProvider } from "./providers/offline";
+import { createOpenAIProvider } from "./providers/openai";
+
+export interface AgentConfig {
+  provider: ProviderId;
+  offline: {
+    seed?: string;
+    anchor?: string;
+  };
+  openai: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    temperature?: number;
+  };
+}
+
+const parseProvider = (value: string | undefined): ProviderId =>
+  value === "openai" ? "openai" : "offline";
+
+export const readConfig = (env: NodeJS.ProcessEnv = process.env): AgentConfig => ({
+  provider: parseProvider(env.AGENT_PROVIDER),
+  offline: {
+    seed: env.AGENT_OFFLINE_SEED,
+    anchor: env.AGENT_OFFLINE_ANCHOR,
+  },
+  openai: {
+    baseUrl: env.AGENT_OPENAI_BASE_URL ?? "https://api.openai.com/v1",
+    apiKey: env.AGENT_OPENAI_API_KEY,
+    model: env.AGENT_OPENAI_MODEL ?? "gpt-4o-mini",
+    temperature: env.AGENT_OPENAI_TEMPERATURE
+      ? Number(env.AGENT_OPENAI_TEMPERATURE)
+      : undefined,
+  },
+});
+
+export const createProvider = (config: AgentConfig): AgentProvider => {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIProvider(config.openai);
+    case "offline":
+    default:
+      return createOfflineProvider(config.offline);
+  }
+};
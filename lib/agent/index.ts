@@ -0,0 +1,112 @@
+import type {
+  AgentRequest,
+  AgentResponse,
+  AgentStreamEvent,
+  Localization,
+  RegenerateRequest,
+  RegenerateResult,
+  TranslateRequest,
+} from "@/types/agent";
+import {
+  repairAgentResponse,
+  repairLocalization,
+  repairRegenerateResult,
+} from "@/lib/validation/agent";
+import { applyBrandRules, applyBrandRulesToPost } from "@/lib/brands/rules";
+import { explainHook } from "@/lib/insights/explain";
+import {
+  applyEmojiPolicy,
+  applyEmojiPolicyToLocalization,
+  applyEmojiPolicyToPost,
+  applyEmojiPolicyToScene,
+} from "@/lib/voiceProfiles/rules";
+import { translationLocales } from "@/lib/localization";
+import type { AgentProvider, GenerationContext } from "./types";
+import { createProvider, readConfig } from "./config";
+import { streamWithProvider } from "./stream";
+
+export type { AgentProvider, GenerationContext, ProviderId } from "./types";
+export { createProvider, readConfig } from "./config";
+export { encodeEvent } from "./stream";
+
+export interface RunAgentOptions extends GenerationContext {
+  provider?: AgentProvider;
+}
+
+/** Translates the campaign's copy into one locale, under the same brand and voice rules. */
+export const translateCampaign = async (
+  request: TranslateRequest,
+  options: RunAgentOptions = {}
+): Promise<Localization> => {
+  const provider = options.provider ?? createProvider(readConfig());
+  const { signal, brand, voice } = options;
+  const localization = repairLocalization(
+    await provider.translate(request, { signal, brand, voice }),
+    request
+  );
+  const posts = brand
+    ? localization.socialPosts.map((post) => applyBrandRulesToPost(post, brand))
+    : localization.socialPosts;
+  const branded = { ...localization, socialPosts: posts };
+  return voice ? applyEmojiPolicyToLocalization(branded, voice.emoji) : branded;
+};
+
+/** Adds a localization for every locale the request asks for beyond the one it is written in. */
+export const localizeCampaign = async (
+  request: AgentRequest,
+  response: AgentResponse,
+  options: RunAgentOptions = {}
+): Promise<AgentResponse> => {
+  const targets = translationLocales(request);
+  if (targets.length === 0) {
+    return response;
+  }
+  const localizations: Localization[] = [];
+  for (const locale of targets) {
+    localizations.push(await translateCampaign({ request, response, locale }, options));
+  }
+  return { ...response, localizations };
+};
+
+export const runAgent = async (
+  request: AgentRequest,
+  options: RunAgentOptions = {}
+): Promise<AgentResponse> => {
+  const provider = options.provider ?? createProvider(readConfig());
+  const { signal, brand, voice, insights, usedHooks } = options;
+  const response = await provider.generate(request, { signal, brand, voice, insights, usedHooks });
+  const repaired = repairAgentResponse(response, request);
+  const branded = brand ? applyBrandRules(repaired, brand) : repaired;
+  const voiced = voice ? applyEmojiPolicy(branded, voice.emoji) : branded;
+  const explained = insights ? explainHook(voiced, request, insights) : voiced;
+  return localizeCampaign(request, explained, { provider, signal, brand, voice });
+};
+
+export const runAgentStream = (
+  request: AgentRequest,
+  options: RunAgentOptions = {}
+): AsyncIterable<AgentStreamEvent> => {
+  const provider = options.provider ?? createProvider(readConfig());
+  const { signal, brand, voice, insights, usedHooks } = options;
+  const context = { signal, brand, voice, insights, usedHooks };
+  return streamWithProvider(provider, request, context, (response) =>
+    localizeCampaign(request, response, { provider, signal, brand, voice })
+  );
+};
+
+export const regeneratePart = async (
+  request: RegenerateRequest,
+  options: RunAgentOptions = {}
+): Promise<RegenerateResult> => {
+  const provider = options.provider ?? createProvider(readConfig());
+  const { signal, brand, voice } = options;
+  const result = await provider.regenerate(request, { signal, brand, voice });
+  const repaired = repairRegenerateResult(result, request);
+  if (repaired.kind === "scene") {
+    return voice
+      ? { ...repaired, scene: applyEmojiPolicyToScene(repaired.scene, voice.emoji) }
+      : repaired;
+  }
+  const branded = brand ? applyBrandRulesToPost(repaired.post, brand) : repaired.post;
+  return { ...repaired, post: voice ? applyEmojiPolicyToPost(branded, voice.emoji) : branded };
+};
@@ -0,0 +1,505 @@
+import type {
+  AgentRequest,
+  AgentResponse,
+  AgentStreamEvent,
+  CopyVariant,
+  Platform,
+  RegenerateRequest,
+  RegenerateResult,
+  ScenePlan,
+  SocialPostPlan,
+} from "@/types/agent";
+import type { BrandRules } from "@/types/brand";
+import type { PerformanceInsights } from "@/types/insights";
+import { bestHourFor, hookSimilarity } from "@/lib/insights/explain";
+import { copyAsLocalization } from "@/lib/localization";
+import type { AgentProvider, GenerationContext } from "../types";
+import { createRandom, pick, shuffle, type Random } from "../random";
+import { resolveAnchor, slotFor } from "../schedule";
+import { variantId } from "../variants";
+
+export interface OfflineProviderOptions {
+  seed?: string;
+  anchor?: string;
+}
+
+const hookTemplates: Record<string, string[]> = {
+  energetic: [
+    "Stop scrolling — {idea} is about to change your week.",
+    "You're 60 seconds away from mastering {idea}.",
+    "Nobody is talking about {idea}, and that's your advantage.",
+  ],
+  educational: [
+    "Here's what most {audience} get wrong about {idea}.",
+    "{idea}, explained in under a minute.",
+    "Three things to know before you try {idea}.",
+  ],
+  inspirational: [
+    "What if {idea} was the thing that finally set you free?",
+    "Every breakthrough starts small. Here's yours: {idea}.",
+    "The future belongs to {audience} who embrace {idea}.",
+  ],
+  persuasive: [
+    "If you're still ignoring {idea}, you're leaving results on the table.",
+    "Give me one minute to convince you {idea} is worth it.",
+    "The smartest {audience} already rely on {idea}. Here's why.",
+  ],
+  playful: [
+    "Plot twist: {idea} is way more fun than it sounds.",
+    "POV: you just discovered {idea} and your to-do list is shaking.",
+    "Warning: {idea} may cause excessive free time.",
+  ],
+  analytical: [
+    "Let's break down the numbers behind {idea}.",
+    "{idea}: what the data actually says.",
+    "A 3-step framework for evaluating {idea}.",
+  ],
+};
+
+const defaultHooks = [
+  "Here's the fastest way to understand {idea}.",
+  "{idea} — the short version for busy {audience}.",
+];
+
+const sceneBeats = [
+  {
+    title: "The Hook",
+    narration: "{hook}",
+    visual: "Bold kinetic typography over a fast zoom on the core subject",
+  },
+  {
+    title: "The Problem",
+    narration:
+      "Most {audience} spend hours on work that {idea} can handle for them. The result is burnout and inconsistent output.",
+    visual: "Split screen of a cluttered desk versus a clean automated dashboard",
+  },
+  {
+    title: "The Shift",
+    narration:
+      "Here's the shift: treat {idea} as a system, not a one-off trick. Set it up once and let it compound.",
+    visual: "Animated flowchart building itself step by step",
+  },
+  {
+    title: "How It Works",
+    narration:
+      "Start with one repeatable task, automate it end to end, then layer the next one on top. Small wins stack fast.",
+    visual: "Checklist items ticking off with satisfying motion",
+  },
+  {
+    title: "Proof",
+    narration:
+      "Teams that adopt {idea} report more output with less effort, and their audience notices the consistency.",
+    visual: "Rising chart with highlighted milestones",
+  },
+  {
+    title: "Your Move",
+    narration: "{cta} — and tell me which part you'll try first.",
+    visual: "Presenter close-up with call-to-action banner",
+  },
+];
+
+const sceneVariants = [
+  {
+    narration:
+      "Picture this: {audience} using {idea} to clear a full week of busywork before lunch.",
+    visual: "Time-lapse of a calendar emptying while a coffee cup refills",
+  },
+  {
+    narration:
+      "The trick with {idea} isn't more effort. It's removing the steps that never needed you.",
+    visual: "Hand swiping away floating task cards one by one",
+  },
+  {
+    narration:
+      "Start small: pick the one task you dread every week and let {idea} take it off your plate.",
+    visual: "Close-up of a single sticky note being peeled off a monitor",
+  },
+  {
+    narration:
+      "Here's the part nobody mentions — {idea} gets better the longer you run it.",
+    visual: "Line chart curving upward with glowing data points",
+  },
+  {
+    narration:
+      "If you're one of the {audience} juggling too much, this is the lever worth pulling.",
+    visual: "Juggling balls freezing mid-air as the frame snaps into focus",
+  },
+];
+
+const closingVariants = [
+  "{cta}. Your future self will thank you.",
+  "That's the playbook. {cta}.",
+  "Try it this week, then come back and tell me how it went. {cta}.",
+];
+
+const sceneTransitionChoices = ["crossfade", "slide", "wipe"] as const;
+
+const talkingPointTemplates = [
+  "Why {idea} matters to {audience} right now",
+  "The single biggest mistake people make with {idea}",
+  "A five-minute setup anyone can copy today",
+  "How to measure whether {idea} is actually working",
+  "What to automate first and what to keep human",
+  "The compounding effect of showing up consistently",
+];
+
+const callsToAction = [
+  "Follow for the full playbook",
+  "Save this for your next planning session",
+  "Share this with a teammate who needs it",
+  "Comment 'PLAN' and I'll send the template",
+];
+
+const platformTags: Record<Platform, string[]> = {
+  tiktok: ["fyp", "learnontiktok", "creatortips"],
+  instagram: ["reels", "contentcreator", "growthtips"],
+  youtube: ["shorts", "howto", "productivity"],
+  linkedin: ["leadership", "futureofwork", "innovation"],
+};
+
+const captionTemplates: Record<Platform, string> = {
+  tiktok: "{hook} 👀 {cta}.",
+  instagram: "{hook}\n\n{point}. {cta} ✨",
+  youtube: "{hook} In this short: {point}. {cta}.",
+  linkedin:
+    "{hook}\n\nFor {audience}, the opportunity is clear: {point}. Curious how others are approaching this — {cta}.",
+};
+
+const fill = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+
+const toTag = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .split(/\s+/)
+    .filter((word) => word.length > 3)
+    .slice(0, 2)
+    .join("");
+
+const distributeDurations = (total: number, count: number, random: Random) => {
+  const weights = Array.from({ length: count }, (_, index) =>
+    index === 0 || index === count - 1 ? 0.7 + random() * 0.2 : 1 + random() * 0.4
+  );
+  const weightSum = weights.reduce((acc, weight) => acc + weight, 0);
+  const durations = weights.map((weight) => Math.max(1, Math.floor((weight / weightSum) * total)));
+  let remainder = total - durations.reduce((acc, value) => acc + value, 0);
+  for (let index = 1; remainder > 0; index = (index % (count - 1)) + 1) {
+    durations[index] += 1;
+    remainder -= 1;
+  }
+  return durations;
+};
+
+const sceneCountFor = (lengthSeconds: number) =>
+  Math.max(3, Math.min(sceneBeats.length, Math.round(lengthSeconds / 12)));
+
+const selectBeats = (count: number) => {
+  if (count >= sceneBeats.length) {
+    return sceneBeats;
+  }
+  const middle = sceneBeats.slice(1, -1).slice(0, count - 2);
+  return [sceneBeats[0], ...middle, sceneBeats[sceneBeats.length - 1]];
+};
+
+const captionFor = (platform: Platform, values: Record<string, string>, point: string) =>
+  fill(captionTemplates[platform], { ...values, point });
+
+const tagsFor = (platform: Platform, idea: string) => {
+  const ideaTag = toTag(idea);
+  return [...(ideaTag ? [ideaTag] : []), ...platformTags[platform]];
+};
+
+/**
+ * Picks the hook template closest to the team's best past hooks and furthest from the worst,
+ * keeping the seeded pick when nothing in the past resembles any of them.
+ */
+const steerHook = (
+  templates: string[],
+  drawn: string,
+  values: Record<string, string>,
+  insights: PerformanceInsights
+) => {
+  const ignore = [values.idea, values.audience];
+  const scored = templates.map((template) => {
+    const hook = fill(template, values);
+    const similarity = (past: PerformanceInsights["topHooks"]) =>
+      past.reduce((total, item) => total + hookSimilarity(hook, item, ignore), 0);
+    return { template, score: similarity(insights.topHooks) - similarity(insights.bottomHooks) };
+  });
+  const best = scored.reduce((top, item) => (item.score > top.score ? item : top));
+  return best.score > 0 ? best.template : drawn;
+};
+
+const escapePattern = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Matches a hook written from the template, whatever idea and audience were filled in.
+const writtenFrom = (template: string, hook: string) =>
+  new RegExp(`^${template.split(/\{\w+\}/).map(escapePattern).join(".+")}$`, "is").test(
+    hook.trim()
+  );
+
+const pickDifferent = (random: Random, items: string[], current: string) => {
+  const candidates = items.filter((item) => item !== current);
+  return pick(random, candidates.length > 0 ? candidates : items);
+};
+
+/**
+ * Alternative takes for A/B tests: other hooks for the tone with fresh talking points and calls to
+ * action. They draw from their own seed so asking for variants leaves the main take unchanged.
+ */
+const writeVariants = (
+  request: AgentRequest,
+  primary: { hook: string; cta: string; socialPosts: SocialPostPlan[] },
+  options: OfflineProviderOptions,
+  brand: BrandRules | null
+): CopyVariant[] => {
+  const values = { idea: request.idea, audience: request.targetAudience };
+  const random = createRandom(
+    JSON.stringify([
+      options.seed ?? "",
+      "variants",
+      request.idea,
+      request.tone,
+      request.targetAudience,
+    ])
+  );
+  const templates = hookTemplates[request.tone.trim().toLowerCase()] ?? [];
+  const hooks = Array.from(
+    new Set([...templates, ...defaultHooks].map((template) => fill(template, values)))
+  ).filter((hook) => hook !== primary.hook);
+  return shuffle(random, hooks)
+    .slice(0, Math.max(0, (request.variants ?? 1) - 1))
+    .map((hook, index) => {
+      const pickedCta = pickDifferent(random, callsToAction, primary.cta);
+      const cta = brand?.defaultCallToAction || pickedCta;
+      const points = shuffle(random, talkingPointTemplates).map((template) =>
+        fill(template, values)
+      );
+      return {
+        id: variantId(index + 1),
+        hook,
+        socialPosts: primary.socialPosts.map((post, postIndex) => ({
+          ...post,
+          caption: captionFor(post.platform, { ...values, hook, cta }, points[postIndex]),
+          callToAction: cta,
+        })),
+      };
+    });
+};
+
+/**
+ * Writes the campaign part by part, yielding each one as soon as it is built and the whole
+ * campaign last. The seeded draws happen in the same order however far the caller reads.
+ */
+function* writeOffline(
+  request: AgentRequest,
+  options: OfflineProviderOptions,
+  brand: BrandRules | null,
+  insights: PerformanceInsights | null,
+  usedHooks: string[]
+): Generator<AgentStreamEvent, AgentResponse> {
+  const random = createRandom(
+    JSON.stringify([
+      options.seed ?? "",
+      request.idea,
+      request.tone,
+      request.lengthSeconds,
+      request.platforms,
+      request.targetAudience,
+    ])
+  );
+  const anchor = resolveAnchor(options.anchor);
+  const toneKey = request.tone.trim().toLowerCase();
+  const values = {
+    idea: request.idea,
+    audience: request.targetAudience,
+  };
+
+  const toneTemplates = hookTemplates[toneKey] ?? defaultHooks;
+  // Always draw, so steering by past results doesn't shift the rest of the seeded choices.
+  const drawnHook = pick(random, toneTemplates);
+  // Later episodes of a series move on to openings the earlier ones haven't used: the tone's own
+  // first, then the neutral ones, then other tones'.
+  const fresh = (template: string) => !usedHooks.some((used) => writtenFrom(template, used));
+  const unused = [toneTemplates, defaultHooks, Object.values(hookTemplates).flat()]
+    .map((tier) => tier.filter(fresh))
+    .find((tier) => tier.length > 0);
+  const templates = usedHooks.length > 0 && unused ? unused : toneTemplates;
+  const drawn = templates.includes(drawnHook) ? drawnHook : templates[0];
+  const hook = fill(insights ? steerHook(templates, drawn, values, insights) : drawn, values);
+  yield { type: "hook", hook };
+  // Always draw, so a brand CTA doesn't shift the rest of the seeded choices.
+  const pickedCta = pick(random, callsToAction);
+  const cta = brand?.defaultCallToAction || pickedCta;
+  const talkingPoints = shuffle(random, talkingPointTemplates)
+    .slice(0, 4)
+    .map((template) => fill(template, values));
+  yield { type: "talkingPoints", talkingPoints };
+
+  const beats = selectBeats(sceneCountFor(request.lengthSeconds));
+  const durations = distributeDurations(request.lengthSeconds, beats.length, random);
+  const scenes: ScenePlan[] = [];
+  for (const [index, beat] of beats.entries()) {
+    const scene: ScenePlan = {
+      id: `scene-${index + 1}`,
+      title: beat.title,
+      narration: fill(beat.narration, { ...values, hook, cta }),
+      visualDirection: beat.visual,
+      durationSeconds: durations[index],
+      transition: index === 0 ? "cut" : pick(random, sceneTransitionChoices),
+      animation: {
+        background: index % 2 === 0 ? "gradient" : "parallax",
+        captions: "kinetic",
+        progressBar: true,
+      },
+    };
+    scenes.push(scene);
+    yield { type: "scene", index, scene };
+  }
+
+  const script = scenes.map((scene) => scene.narration).join("\n\n");
+  yield { type: "script", script };
+
+  const socialPosts: SocialPostPlan[] = [];
+  for (const [index, platform] of request.platforms.entries()) {
+    const post: SocialPostPlan = {
+      platform,
+      caption: captionFor(
+        platform,
+        { ...values, hook, cta },
+        talkingPoints[index % talkingPoints.length]
+      ),
+      tags: tagsFor(platform, request.idea),
+      callToAction: cta,
+      scheduledTime: slotFor(anchor, platform, 1 + index, bestHourFor(insights, platform)?.hour),
+    };
+    socialPosts.push(post);
+    yield { type: "socialPost", index, post };
+  }
+
+  const variants = writeVariants(request, { hook, cta, socialPosts }, options, brand);
+  return {
+    script,
+    scenes,
+    socialPosts,
+    talkingPoints,
+    hook,
+    ...(variants.length > 0
+      ? { variants: [{ id: variantId(0), hook, socialPosts }, ...variants] }
+      : {}),
+  };
+}
+
+export const generateOffline = (
+  request: AgentRequest,
+  options: OfflineProviderOptions = {},
+  brand: BrandRules | null = null,
+  insights: PerformanceInsights | null = null,
+  usedHooks: string[] = []
+): AgentResponse => {
+  const parts = writeOffline(request, options, brand, insights, usedHooks);
+  let step = parts.next();
+  while (!step.done) {
+    step = parts.next();
+  }
+  return step.value;
+};
+
+async function* streamOffline(
+  request: AgentRequest,
+  options: OfflineProviderOptions,
+  { signal, brand, insights, usedHooks }: GenerationContext
+): AsyncGenerator<AgentStreamEvent> {
+  const parts = writeOffline(request, options, brand ?? null, insights ?? null, usedHooks ?? []);
+  let step = parts.next();
+  while (!step.done) {
+    if (signal?.aborted) {
+      throw new DOMException("Agent run aborted", "AbortError");
+    }
+    yield step.value;
+    step = parts.next();
+  }
+  yield { type: "done", response: step.value };
+}
+
+/**
+ * Rewrites one scene or post. The current copy is part of the seed, so pressing
+ * "regenerate" again on the result walks to the next variant instead of repeating itself.
+ */
+export const regenerateOffline = (
+  { request, response, target }: RegenerateRequest,
+  options: OfflineProviderOptions = {}
+): RegenerateResult => {
+  const values = { idea: request.idea, audience: request.targetAudience };
+  const cta = response.socialPosts[0]?.callToAction ?? callsToAction[0];
+
+  if (target.kind === "scene") {
+    const scene = response.scenes[target.index];
+    if (!scene) {
+      throw new Error(`Scene ${target.index + 1} does not exist`);
+    }
+    const random = createRandom(JSON.stringify([options.seed ?? "", "scene", scene]));
+    const isFirst = target.index === 0;
+    const isLast = target.index === response.scenes.length - 1;
+    const toneKey = request.tone.trim().toLowerCase();
+
+    let narration: string;
+    let visualDirection = scene.visualDirection;
+    if (isFirst) {
+      const hooks = (hookTemplates[toneKey] ?? defaultHooks).map((template) =>
+        fill(template, values)
+      );
+      narration = pickDifferent(random, hooks, scene.narration);
+    } else if (isLast) {
+      const closings = closingVariants.map((template) => fill(template, { ...values, cta }));
+      narration = pickDifferent(random, closings, scene.narration);
+    } else {
+      const variants = sceneVariants.map((variant) => ({
+        narration: fill(variant.narration, values),
+        visual: variant.visual,
+      }));
+      const candidates = variants.filter((variant) => variant.narration !== scene.narration);
+      const variant = pick(random, candidates);
+      narration = variant.narration;
+      visualDirection = variant.visual;
+    }
+
+    return {
+      kind: "scene",
+      index: target.index,
+      scene: { ...scene, narration, visualDirection },
+    };
+  }
+
+  const post = response.socialPosts.find((item) => item.platform === target.platform);
+  if (!post) {
+    throw new Error(`No post planned for ${target.platform}`);
+  }
+  const random = createRandom(JSON.stringify([options.seed ?? "", "post", post]));
+  const points = [
+    ...response.talkingPoints,
+    ...talkingPointTemplates.map((template) => fill(template, values)),
+  ];
+  const captionValues = { ...values, hook: response.hook, cta: post.callToAction };
+  const captions = points.map((point) => captionFor(target.platform, captionValues, point));
+
+  return {
+    kind: "socialPost",
+    post: {
+      ...post,
+      caption: pickDifferent(random, captions, post.caption),
+      tags: shuffle(random, tagsFor(target.platform, request.idea)),
+    },
+  };
+};
+
+export const createOfflineProvider = (options: OfflineProviderOptions = {}): AgentProvider => ({
+  id: "offline",
+  generate: async (request, context) =>
+    generateOffline(request, options, context.brand, context.insights, context.usedHooks),
+  stream: (request, context) => streamOffline(request, options, context),
+  regenerate: async (request) => regenerateOffline(request, options),
+  // The template engine only writes English; other locales start as a copy to translate by hand.
+  translate: async ({ response, locale }) => copyAsLocalization(response, locale),
+});
@@ -0,0 +1,479 @@
+import {
+  sceneTransitions,
+  type AgentRequest,
+  type AgentResponse,
+  type AgentStreamEvent,
+  type Localization,
+  type Platform,
+  type RegenerateRequest,
+  type RegenerateResult,
+  type ScenePlan,
+  type SceneTransition,
+  type SocialPostPlan,
+  type TranslateRequest,
+} from "@/types/agent";
+import type { PerformanceInsights } from "@/types/insights";
+import { localeNames } from "@/types/locale";
+import { sourceLocale } from "@/lib/localization";
+import type { AgentProvider, GenerationContext } from "../types";
+import { variantId } from "../variants";
+
+export interface OpenAIProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  temperature?: number;
+}
+
+const systemPrompt = `You are a creative director for short-form social video.
+Reply with a single JSON object with exactly these keys:
+- "hook": string
+- "script": string, paragraphs separated by blank lines
+- "scenes": array of { "title", "narration", "visualDirection", "durationSeconds", "transition" }
+  where transition is one of "cut", "crossfade", "slide", "wipe"
+- "talkingPoints": array of strings
+- "socialPosts": array of { "platform", "caption", "tags", "callToAction", "scheduledTime" }
+Scene durations must add up to the requested length. scheduledTime is an ISO 8601 timestamp.
+When the brief includes a brand, never use its bannedWords, put its requiredHashtags in every
+post's tags and use its defaultCallToAction unless it is empty.
+When the brief includes a voice, write in it: match its description and the style of its
+exampleScripts, favor its preferredWords and never use its avoidedWords. Its emoji policy is
+"none" (no emoji anywhere), "sparing" (at most one per caption, none in narration) or "expressive".
+Keep each scene's narration short enough to read at the voice's wordsPerMinute within the scene's
+durationSeconds.
+When the brief includes pastPerformance, write a hook closer to its topHooks than its bottomHooks,
+prefer the tones and lengths that did well, schedule posts at its bestHoursUtc and add
+"hookRationale": one or two sentences on why this hook should work, citing those past results.
+When the brief asks for more than one variant, add "variants": an array of variants - 1
+alternative takes, each { "hook", "socialPosts" } with a caption, tags and callToAction for every
+platform. Each take should try a genuinely different angle, not a rewording.
+When the brief includes usedHooks from earlier episodes of the same series, open with a hook that
+neither repeats nor closely echoes any of them.
+When the brief includes a language, write all copy in it.`;
+
+const regeneratePrompt = `You are revising one part of an existing short-form video campaign.
+You receive the brief, the full campaign for context and the part to rewrite.
+Reply with a single JSON object for the rewritten part only, using the same keys as the original.
+Keep durationSeconds, platform and scheduledTime unchanged. Avoid repeating the original wording.
+Follow the brand and voice rules in the brief when present.`;
+
+const translatePrompt = `You are localizing a short-form video campaign for another market.
+You receive the brief, the campaign and the targetLanguage to write in.
+Reply with a single JSON object with exactly these keys:
+- "hook": string
+- "script": string, paragraphs separated by blank lines
+- "scenes": array of { "id", "title", "narration" }, one per scene, keeping every id
+- "socialPosts": array of { "platform", "caption", "tags", "callToAction" }, one per post
+Write as a native speaker would for that platform, not word for word: adapt idioms, hashtags and
+calls to action to the market. Keep each narration about as long to read aloud as the original,
+since scene durations do not change. Follow the brand and voice rules in the brief when present.`;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Scores read as "views vs a typical post", which is easier for the model to reason about.
+const summarizeInsights = (insights: PerformanceInsights) => {
+  const hooks = (items: PerformanceInsights["topHooks"]) =>
+    items.map((item) => ({
+      hook: item.hook,
+      tone: item.tone,
+      lengthSeconds: item.lengthSeconds,
+      viewsVsTypical: round(item.score),
+    }));
+  return {
+    topHooks: hooks(insights.topHooks),
+    bottomHooks: hooks(insights.bottomHooks),
+    tones: insights.tones.map((item) => ({
+      tone: item.label,
+      viewsVsTypical: round(item.averageScore),
+    })),
+    lengths: insights.lengths.map((item) => ({
+      length: item.label,
+      viewsVsTypical: round(item.averageScore),
+    })),
+    bestHoursUtc: insights.bestHours.map(({ platform, hour }) => ({ platform, hour })),
+  };
+};
+
+const buildBrief = (
+  request: AgentRequest,
+  { brand, voice, insights, usedHooks = [] }: GenerationContext
+) => ({
+  idea: request.idea,
+  ...(sourceLocale(request) !== "en" ? { language: localeNames[sourceLocale(request)] } : {}),
+  tone: request.tone,
+  lengthSeconds: request.lengthSeconds,
+  targetAudience: request.targetAudience,
+  platforms: request.platforms,
+  ...(brand ? { brand } : {}),
+  ...(voice
+    ? {
+        voice: {
+          name: voice.name,
+          description: voice.description,
+          exampleScripts: voice.exampleScripts,
+          preferredWords: voice.preferredWords,
+          avoidedWords: voice.avoidedWords,
+          wordsPerMinute: voice.wordsPerMinute,
+          emoji: voice.emoji,
+        },
+      }
+    : {}),
+  ...(insights ? { pastPerformance: summarizeInsights(insights) } : {}),
+  ...((request.variants ?? 1) > 1 ? { variants: request.variants } : {}),
+  ...(usedHooks.length > 0 ? { usedHooks } : {}),
+});
+
+const asString = (value: unknown, fallback = "") =>
+  typeof value === "string" ? value : fallback;
+
+const asStringArray = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+const normalizePosts = (raw: unknown, request: AgentRequest) =>
+  (Array.isArray(raw) ? raw : [])
+    .map((post: Record<string, unknown>) => ({
+      platform: asString(post.platform) as Platform,
+      caption: asString(post.caption),
+      tags: asStringArray(post.tags).map((tag) => tag.replace(/^#/, "")),
+      callToAction: asString(post.callToAction),
+      scheduledTime: asString(post.scheduledTime),
+    }))
+    .filter((post) => request.platforms.includes(post.platform));
+
+const normalizeScene = (scene: Record<string, unknown>, index: number): ScenePlan => ({
+  id: `scene-${index + 1}`,
+  title: asString(scene.title, `Scene ${index + 1}`),
+  narration: asString(scene.narration),
+  visualDirection: asString(scene.visualDirection),
+  durationSeconds: Number(scene.durationSeconds) || 0,
+  transition: sceneTransitions.includes(scene.transition as SceneTransition)
+    ? (scene.transition as SceneTransition)
+    : undefined,
+});
+
+const normalize = (raw: Record<string, unknown>, request: AgentRequest): AgentResponse => {
+  const scenes = (Array.isArray(raw.scenes) ? raw.scenes : []).map(normalizeScene);
+
+  const socialPosts = normalizePosts(raw.socialPosts, request);
+  // Variants share the main take's slots, so their own scheduledTime is never trusted.
+  const slotFor = (platform: Platform) =>
+    socialPosts.find((post) => post.platform === platform)?.scheduledTime;
+  const variants = (Array.isArray(raw.variants) ? raw.variants : [])
+    .map((variant: Record<string, unknown>, index: number) => ({
+      id: variantId(index + 1),
+      hook: asString(variant.hook).trim(),
+      socialPosts: normalizePosts(variant.socialPosts, request)
+        .filter((post) => post.caption.trim() && slotFor(post.platform))
+        .map((post) => ({ ...post, scheduledTime: slotFor(post.platform)! })),
+    }))
+    .filter((variant) => variant.hook);
+
+  const hookRationale = asString(raw.hookRationale).trim();
+  return {
+    hook: asString(raw.hook),
+    script: asString(raw.script),
+    scenes,
+    talkingPoints: asStringArray(raw.talkingPoints),
+    socialPosts,
+    ...(hookRationale ? { rationale: { summary: hookRationale, notes: [], references: [] } } : {}),
+    ...(variants.length > 0
+      ? { variants: [{ id: variantId(0), hook: asString(raw.hook), socialPosts }, ...variants] }
+      : {}),
+  };
+};
+
+const requestCompletion = async (
+  options: OpenAIProviderOptions,
+  system: string,
+  user: string,
+  context: GenerationContext,
+  stream = false
+) => {
+  const response = await fetch(`${options.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: options.model,
+      temperature: options.temperature ?? 0.7,
+      response_format: { type: "json_object" },
+      ...(stream ? { stream: true } : {}),
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user },
+      ],
+    }),
+    signal: context.signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Completion endpoint responded with ${response.status}`);
+  }
+  return response;
+};
+
+const complete = async (
+  options: OpenAIProviderOptions,
+  system: string,
+  user: string,
+  context: GenerationContext
+): Promise<Record<string, unknown>> => {
+  const response = await requestCompletion(options, system, user, context);
+  const payload = await response.json();
+  const content = payload?.choices?.[0]?.message?.content;
+  if (typeof content !== "string") {
+    throw new Error("Completion endpoint returned no message content");
+  }
+
+  return JSON.parse(content);
+};
+
+// Yields the message content of a streamed completion as its server-sent deltas arrive.
+async function* readDeltas(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error("Completion endpoint returned no stream");
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+      if (data === "[DONE]") {
+        return;
+      }
+      if (data) {
+        const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (typeof delta === "string" && delta) {
+          yield delta;
+        }
+      }
+    }
+  }
+}
+
+interface CompletedPart {
+  key: string;
+  // Set for an object inside a top-level array, e.g. one scene.
+  index?: number;
+  value: unknown;
+}
+
+/**
+ * Follows the reply's JSON object as it streams in and returns the parts completed by each new
+ * chunk: every top-level string or array once it closes, and every object inside a top-level
+ * array as soon as its closing brace arrives.
+ */
+const createPartScanner = () => {
+  let text = "";
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let awaitingKey = false;
+  let key = "";
+  let start = -1;
+  let elementStart = -1;
+  let elementIndex = 0;
+
+  return (chunk: string) => {
+    text += chunk;
+    const parts: CompletedPart[] = [];
+    for (; position < text.length; position += 1) {
+      const char = text[position];
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (depth === 1 && awaitingKey) {
+            key = JSON.parse(text.slice(start, position + 1));
+            awaitingKey = false;
+          } else if (depth === 1) {
+            parts.push({ key, value: JSON.parse(text.slice(start, position + 1)) });
+          }
+        }
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+        if (depth === 1) {
+          start = position;
+        }
+      } else if (char === "{" || char === "[") {
+        depth += 1;
+        if (depth === 1) {
+          awaitingKey = true;
+        } else if (depth === 2) {
+          start = position;
+          elementIndex = 0;
+        } else if (depth === 3 && char === "{" && text[start] === "[") {
+          elementStart = position;
+        }
+      } else if (char === "}" || char === "]") {
+        depth -= 1;
+        if (depth === 2 && elementStart !== -1) {
+          const value = JSON.parse(text.slice(elementStart, position + 1));
+          parts.push({ key, index: elementIndex, value });
+          elementIndex += 1;
+          elementStart = -1;
+        } else if (depth === 1) {
+          parts.push({ key, value: JSON.parse(text.slice(start, position + 1)) });
+        }
+      } else if (char === "," && depth === 1) {
+        awaitingKey = true;
+      }
+    }
+    return { parts, text };
+  };
+};
+
+/**
+ * Generates with a streamed completion, handing on the hook, script, each scene and each post
+ * as soon as its JSON is complete. The full reply is normalized again for the "done" event.
+ */
+async function* streamGenerate(
+  options: OpenAIProviderOptions,
+  request: AgentRequest,
+  context: GenerationContext
+): AsyncGenerator<AgentStreamEvent> {
+  const brief = JSON.stringify(buildBrief(request, context));
+  const response = await requestCompletion(options, systemPrompt, brief, context, true);
+  const scan = createPartScanner();
+  let content = "";
+  let postIndex = 0;
+  for await (const delta of readDeltas(response)) {
+    const { parts, text } = scan(delta);
+    content = text;
+    for (const { key, index, value } of parts) {
+      if (key === "hook" && typeof value === "string") {
+        yield { type: "hook", hook: value };
+      } else if (key === "script" && typeof value === "string") {
+        yield { type: "script", script: value };
+      } else if (key === "scenes" && index !== undefined) {
+        const scene = normalizeScene(value as Record<string, unknown>, index);
+        yield { type: "scene", index, scene };
+      } else if (key === "socialPosts" && index !== undefined) {
+        const [post]: SocialPostPlan[] = normalizePosts([value], request);
+        if (post) {
+          yield { type: "socialPost", index: postIndex, post };
+          postIndex += 1;
+        }
+      } else if (key === "talkingPoints" && index === undefined) {
+        yield { type: "talkingPoints", talkingPoints: asStringArray(value) };
+      }
+    }
+  }
+  yield { type: "done", response: normalize(JSON.parse(content), request) };
+}
+
+const regenerate = async (
+  options: OpenAIProviderOptions,
+  { request, response, target }: RegenerateRequest,
+  context: GenerationContext
+): Promise<RegenerateResult> => {
+  const original =
+    target.kind === "scene"
+      ? response.scenes[target.index]
+      : response.socialPosts.find((post) => post.platform === target.platform);
+  if (!original) {
+    throw new Error("Nothing to regenerate for that target");
+  }
+
+  const raw = await complete(
+    options,
+    regeneratePrompt,
+    JSON.stringify({
+      brief: buildBrief(request, { brand: context.brand, voice: context.voice }),
+      campaign: response,
+      rewrite: original,
+    }),
+    context
+  );
+
+  if (target.kind === "scene") {
+    const scene = original as ScenePlan;
+    return {
+      kind: "scene",
+      index: target.index,
+      scene: {
+        ...scene,
+        title: asString(raw.title, scene.title),
+        narration: asString(raw.narration, scene.narration),
+        visualDirection: asString(raw.visualDirection, scene.visualDirection),
+      },
+    };
+  }
+
+  const post = response.socialPosts.find((item) => item.platform === target.platform)!;
+  const tags = asStringArray(raw.tags).map((tag) => tag.replace(/^#/, ""));
+  return {
+    kind: "socialPost",
+    post: {
+      ...post,
+      caption: asString(raw.caption, post.caption),
+      tags: tags.length > 0 ? tags : post.tags,
+      callToAction: asString(raw.callToAction, post.callToAction),
+    },
+  };
+};
+
+const translate = async (
+  options: OpenAIProviderOptions,
+  { request, response, locale }: TranslateRequest,
+  context: GenerationContext
+): Promise<Localization> => {
+  const raw = await complete(
+    options,
+    translatePrompt,
+    JSON.stringify({
+      brief: buildBrief(request, { brand: context.brand, voice: context.voice }),
+      campaign: {
+        hook: response.hook,
+        script: response.script,
+        scenes: response.scenes.map(({ id, title, narration }) => ({ id, title, narration })),
+        socialPosts: response.socialPosts,
+      },
+      targetLanguage: localeNames[locale],
+    }),
+    context
+  );
+  const scenes = (Array.isArray(raw.scenes) ? raw.scenes : []).map(
+    (scene: Record<string, unknown>) => ({
+      id: asString(scene.id),
+      title: asString(scene.title),
+      narration: asString(scene.narration),
+    })
+  );
+  return {
+    locale,
+    hook: asString(raw.hook),
+    script: asString(raw.script),
+    scenes,
+    socialPosts: normalizePosts(raw.socialPosts, request),
+    translated: true,
+  };
+};
+
+export const createOpenAIProvider = (options: OpenAIProviderOptions): AgentProvider => ({
+  id: "openai",
+  generate: async (request: AgentRequest, context: GenerationContext) => {
+    const brief = JSON.stringify(buildBrief(request, context));
+    const raw = await complete(options, systemPrompt, brief, context);
+    return normalize(raw, request);
+  },
+  stream: (request, context) => streamGenerate(options, request, context),
+  regenerate: (request, context) => regenerate(options, request, context),
+  translate: (request, context) => translate(options, request, context),
+});
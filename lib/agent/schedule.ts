@@ -0,0 +1,27 @@
+import type { Platform } from "@/types/agent";
+
+// Hour of day (UTC) each platform is typically slotted at.
+export const platformSlotHours: Record<Platform, number> = {
+  tiktok: 17,
+  instagram: 15,
+  youtube: 19,
+  linkedin: 13,
+};
+
+export const resolveAnchor = (anchor?: string) => {
+  const parsed = anchor ? new Date(anchor) : new Date();
+  const base = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+  return new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate()));
+};
+
+export const slotFor = (
+  anchor: Date,
+  platform: Platform,
+  dayOffset: number,
+  hour = platformSlotHours[platform]
+) => {
+  const slot = new Date(anchor.getTime());
+  slot.setUTCDate(slot.getUTCDate() + dayOffset);
+  slot.setUTCHours(hour, 0, 0, 0);
+  return slot.toISOString();
+};
@@ -0,0 +1,101 @@
+import type {
+  AgentRequest,
+  AgentResponse,
+  AgentStreamEvent,
+  SocialPostPlan,
+} from "@/types/agent";
+import { repairAgentResponse } from "@/lib/validation/agent";
+import { applyBrandRules, applyBrandRulesToPost } from "@/lib/brands/rules";
+import { explainHook } from "@/lib/insights/explain";
+import {
+  applyEmojiPolicy,
+  applyEmojiPolicyToPost,
+  applyEmojiPolicyToScene,
+  applyEmojiPolicyToText,
+} from "@/lib/voiceProfiles/rules";
+import type { AgentProvider, GenerationContext } from "./types";
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException("Agent run aborted", "AbortError");
+  }
+};
+
+export async function* splitResponse(
+  response: AgentResponse,
+  context: GenerationContext = {}
+): AsyncGenerator<AgentStreamEvent> {
+  throwIfAborted(context.signal);
+  yield { type: "hook", hook: response.hook };
+  throwIfAborted(context.signal);
+  yield { type: "script", script: response.script };
+  for (let index = 0; index < response.scenes.length; index += 1) {
+    throwIfAborted(context.signal);
+    yield { type: "scene", index, scene: response.scenes[index] };
+  }
+  for (let index = 0; index < response.socialPosts.length; index += 1) {
+    throwIfAborted(context.signal);
+    yield { type: "socialPost", index, post: response.socialPosts[index] };
+  }
+  throwIfAborted(context.signal);
+  yield { type: "talkingPoints", talkingPoints: response.talkingPoints };
+  yield { type: "done", response };
+}
+
+/**
+ * Streams the provider's campaign with brand and voice rules applied. `localize` runs on the
+ * finished campaign, so translations arrive with the "done" event rather than piecemeal.
+ */
+export async function* streamWithProvider(
+  provider: AgentProvider,
+  request: AgentRequest,
+  context: GenerationContext,
+  localize: (response: AgentResponse) => Promise<AgentResponse> = async (response) => response
+): AsyncGenerator<AgentStreamEvent> {
+  const { brand, voice, insights } = context;
+  const finish = (response: AgentResponse) => {
+    const branded = brand ? applyBrandRules(response, brand) : response;
+    const voiced = voice ? applyEmojiPolicy(branded, voice.emoji) : branded;
+    return insights ? explainHook(voiced, request, insights) : voiced;
+  };
+  const finishPost = (post: SocialPostPlan) => {
+    const branded = brand ? applyBrandRulesToPost(post, brand) : post;
+    return voice ? applyEmojiPolicyToPost(branded, voice.emoji) : branded;
+  };
+  // Parts streamed by the provider get the same rules as the finished campaign, so the panels
+  // filling in match what "done" delivers.
+  const finishEvent = (event: AgentStreamEvent): AgentStreamEvent => {
+    const emoji = voice?.emoji ?? "expressive";
+    switch (event.type) {
+      case "hook":
+        return { ...event, hook: applyEmojiPolicyToText(event.hook, emoji) };
+      case "script":
+        return { ...event, script: applyEmojiPolicyToText(event.script, emoji) };
+      case "scene":
+        return { ...event, scene: applyEmojiPolicyToScene(event.scene, emoji) };
+      case "socialPost":
+        return { ...event, post: finishPost(event.post) };
+      default:
+        return event;
+    }
+  };
+  if (provider.stream) {
+    for await (const event of provider.stream(request, context)) {
+      throwIfAborted(context.signal);
+      if (event.type === "done") {
+        const response = repairAgentResponse(event.response, request);
+        yield { ...event, response: await localize(finish(response)) };
+      } else {
+        yield finishEvent(event);
+      }
+    }
+    return;
+  }
+  const response = repairAgentResponse(await provider.generate(request, context), request);
+  for await (const event of splitResponse(finish(response), context)) {
+    yield event.type === "done" ? { ...event, response: await localize(event.response) } : event;
+  }
+}
+
+export const encodeEvent = (event: AgentStreamEvent) =>
+  `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
@@ -0,0 +1,31 @@
+import type {
+  AgentRequest,
+  AgentResponse,
+  AgentStreamEvent,
+  Localization,
+  RegenerateRequest,
+  RegenerateResult,
+  TranslateRequest,
+} from "@/types/agent";
+import type { BrandRules } from "@/types/brand";
+import type { PerformanceInsights } from "@/types/insights";
+import type { VoiceRules } from "@/types/voiceProfile";
+
+export type ProviderId = "offline" | "openai";
+
+export interface GenerationContext {
+  signal?: AbortSignal;
+  brand?: BrandRules | null;
+  voice?: VoiceRules | null;
+  insights?: PerformanceInsights | null;
+  // Hooks earlier episodes of a series opened with; the new one should not echo them.
+  usedHooks?: string[];
+}
+
+export interface AgentProvider {
+  id: ProviderId;
+  generate: (request: AgentRequest, context: GenerationContext) => Promise<AgentResponse>;
+  regenerate: (request: RegenerateRequest, context: GenerationContext) => Promise<RegenerateResult>;
+  translate: (request: TranslateRequest, context: GenerationContext) => Promise<Localization>;
+  stream?: (request: AgentRequest, context: GenerationContext) => AsyncIterable<AgentStreamEvent>;
+}
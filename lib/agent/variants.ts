@@ -0,0 +1,44 @@
+import type { AgentResponse, CopyVariant } from "@/types/agent";
+
+export const variantId = (index: number) => String.fromCharCode(97 + index);
+
+export const variantLabel = (id: string) => `Variant ${id.toUpperCase()}`;
+
+// The variant in use may have been edited since generation; its live copy is the current take.
+export const variantTake = (response: AgentResponse, id: string): CopyVariant | undefined =>
+  id === response.activeVariantId
+    ? { id, hook: response.hook, socialPosts: response.socialPosts }
+    : response.variants?.find((variant) => variant.id === id);
+
+/**
+ * Swaps another take's hook and captions into the campaign. Edits made to the current take are
+ * written back to its variant first, and the opening scene follows the hook when it spoke it.
+ */
+export const selectVariant = (response: AgentResponse, id: string): AgentResponse => {
+  const target = response.variants?.find((variant) => variant.id === id);
+  if (!target || !response.variants || response.activeVariantId === id) {
+    return response;
+  }
+  const variants = response.variants.map(
+    (variant): CopyVariant =>
+      variant.id === response.activeVariantId
+        ? { ...variant, hook: response.hook, socialPosts: response.socialPosts }
+        : variant
+  );
+  const [opening, ...rest] = response.scenes;
+  const scenes =
+    opening && opening.narration === response.hook
+      ? [{ ...opening, narration: target.hook }, ...rest]
+      : response.scenes;
+  return {
+    ...response,
+    hook: target.hook,
+    socialPosts: target.socialPosts,
+    script: response.script.startsWith(response.hook)
+      ? target.hook + response.script.slice(response.hook.length)
+      : response.script,
+    scenes,
+    variants,
+    activeVariantId: id,
+  };
+};
@@ -0,0 +1,33 @@
+import type { MetricsImportResult, PostMetrics } from "@/types/analytics";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error ?? `Request failed with ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+const query = (campaignId?: string) =>
+  campaignId ? `?campaignId=${encodeURIComponent(campaignId)}` : "";
+
+export const fetchMetrics = async (campaignId?: string) =>
+  (await request<{ metrics: PostMetrics[] }>(`/api/analytics${query(campaignId)}`)).metrics;
+
+export const metricsCsvUrl = (campaignId?: string) =>
+  `/api/analytics${query(campaignId)}${campaignId ? "&" : "?"}format=csv`;
+
+export const refreshMetrics = (campaignId?: string) =>
+  request<{ sampled: number; failed: number; metrics: PostMetrics[] }>("/api/analytics/refresh", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ campaignId }),
+  });
+
+export const importMetrics = (campaignId: string, csv: string) =>
+  request<MetricsImportResult>("/api/analytics/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ campaignId, csv }),
+  });
@@ -0,0 +1,92 @@
+import type { PostMetrics } from "@/types/analytics";
+import { engagementRate } from "./summary";
+
+/** RFC 4180 parsing: quoted fields may hold commas, doubled quotes and line breaks. */
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, "");
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const escapeCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvColumns = [
+  "campaign_id",
+  "platform",
+  "variant",
+  "locale",
+  "external_id",
+  "published_at",
+  "captured_at",
+  "views",
+  "likes",
+  "comments",
+  "shares",
+  "engagement_rate",
+  "source",
+] as const;
+
+/** One row per sample; the same layout is accepted back by the import. */
+export const toCsv = (metrics: PostMetrics[]) =>
+  [
+    csvColumns.join(","),
+    ...metrics.flatMap((post) =>
+      post.samples.map((sample) =>
+        [
+          post.campaignId,
+          post.platform,
+          post.variantId ?? "",
+          post.locale ?? "",
+          post.externalId ?? "",
+          post.publishedAt,
+          sample.capturedAt,
+          sample.views,
+          sample.likes,
+          sample.comments,
+          sample.shares,
+          engagementRate(sample).toFixed(4),
+          sample.source,
+        ]
+          .map(escapeCell)
+          .join(",")
+      )
+    ),
+  ].join("\r\n");
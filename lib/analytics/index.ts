@@ -0,0 +1,253 @@
+import { platforms, type Platform } from "@/types/agent";
+import type { Campaign, PublishedPost } from "@/types/campaign";
+import type { MetricSample, MetricsImportResult, PostMetrics } from "@/types/analytics";
+import { getCampaign, listCampaigns, updatePublishedAnalytics } from "@/lib/campaigns";
+import { sourceLocale } from "@/lib/localization";
+import { fetchPostMetrics } from "@/lib/publishers";
+import { createJsonStore } from "@/lib/store/fileStore";
+import { parseCsv } from "./csv";
+import { latestSample } from "./summary";
+
+const store = createJsonStore<PostMetrics>("metrics");
+
+const HOUR_MS = 60 * 60 * 1000;
+// Fresh posts move fast; after the first week one sample a day is plenty.
+const FRESH_POST_MS = 7 * 24 * HOUR_MS;
+const SETTLED_INTERVAL_MS = 24 * HOUR_MS;
+
+export const pollIntervalMs = (env: NodeJS.ProcessEnv = process.env) =>
+  Number(env.ANALYTICS_POLL_MINUTES ?? 60) * 60 * 1000;
+
+// Variants of an A/B test and translations are separate posts on the same platform, each with
+// its own series.
+const metricsId = (
+  campaignId: string,
+  post: Pick<PublishedPost, "platform" | "variantId" | "locale">
+) =>
+  [campaignId, post.platform, post.variantId, post.locale]
+    .filter((part): part is string => Boolean(part))
+    .join(":");
+
+export const listMetrics = async (filter: { campaignId?: string; campaignIds?: string[] } = {}) =>
+  (await store.list())
+    .filter((metrics) => !filter.campaignId || metrics.campaignId === filter.campaignId)
+    .filter((metrics) => !filter.campaignIds || filter.campaignIds.includes(metrics.campaignId))
+    .sort((a, b) => a.publishedAt.localeCompare(b.publishedAt));
+
+// Samples stay sorted and unique per capture time, so re-importing a file is harmless.
+const withSamples = (metrics: PostMetrics, samples: MetricSample[]): PostMetrics => {
+  const byTime = new Map(metrics.samples.map((sample) => [sample.capturedAt, sample]));
+  samples.forEach((sample) => byTime.set(sample.capturedAt, sample));
+  return {
+    ...metrics,
+    samples: Array.from(byTime.values()).sort((a, b) => a.capturedAt.localeCompare(b.capturedAt)),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+const seriesFor = (campaignId: string, post: PublishedPost): PostMetrics => ({
+  id: metricsId(campaignId, post),
+  campaignId,
+  platform: post.platform,
+  variantId: post.variantId,
+  locale: post.locale,
+  externalId: post.externalId,
+  publishedAt: post.publishedAt,
+  samples: [],
+  updatedAt: new Date().toISOString(),
+});
+
+const saveSamples = async (
+  campaignId: string,
+  post: PublishedPost,
+  samples: MetricSample[],
+  lastError?: string
+) => {
+  const id = metricsId(campaignId, post);
+  const existing = await store.get(id);
+  // A post that was taken down and published again starts a new series.
+  const base =
+    existing && existing.publishedAt === post.publishedAt ? existing : seriesFor(campaignId, post);
+  const saved = await store.put({ ...withSamples(base, samples), lastError });
+  const latest = latestSample(saved);
+  if (latest && samples.length > 0) {
+    await updatePublishedAnalytics(campaignId, post, {
+      views: latest.views,
+      likes: latest.likes,
+      comments: latest.comments,
+    });
+  }
+  return saved;
+};
+
+const dueForSample = (metrics: PostMetrics | undefined, post: PublishedPost, now: Date) => {
+  const last = metrics?.samples.filter((sample) => sample.source === "platform").pop();
+  if (!last) {
+    return true;
+  }
+  const fresh = now.getTime() - new Date(post.publishedAt).getTime() < FRESH_POST_MS;
+  const interval = fresh ? pollIntervalMs() : Math.max(pollIntervalMs(), SETTLED_INTERVAL_MS);
+  return now.getTime() - new Date(last.capturedAt).getTime() >= interval;
+};
+
+const liveCampaigns = async (campaignId?: string) => {
+  const ids = campaignId ? [campaignId] : (await listCampaigns()).map((summary) => summary.id);
+  const campaigns = await Promise.all(ids.map((id) => getCampaign(id)));
+  return campaigns.filter(
+    (campaign): campaign is Campaign => campaign !== null && campaign.published.length > 0
+  );
+};
+
+/**
+ * Pulls current counts for every live post the publishers know about. Posts are skipped until
+ * their sampling interval has passed unless `force` is set, e.g. for a manual refresh.
+ */
+export const collectMetrics = async (
+  options: { campaignId?: string; force?: boolean; now?: Date } = {}
+) => {
+  const now = options.now ?? new Date();
+  const existing = new Map((await listMetrics()).map((metrics) => [metrics.id, metrics]));
+  let sampled = 0;
+  let failed = 0;
+  for (const campaign of await liveCampaigns(options.campaignId)) {
+    for (const post of campaign.published) {
+      const metrics = existing.get(metricsId(campaign.id, post));
+      if (!post.externalId || (!options.force && !dueForSample(metrics, post, now))) {
+        continue;
+      }
+      try {
+        const counts = await fetchPostMetrics(post.platform, post.externalId);
+        await saveSamples(campaign.id, post, [
+          { ...counts, capturedAt: now.toISOString(), source: "platform" },
+        ]);
+        sampled += 1;
+      } catch (error) {
+        console.warn(`Failed to fetch ${post.platform} metrics for ${campaign.id}`, error);
+        await saveSamples(
+          campaign.id,
+          post,
+          [],
+          error instanceof Error ? error.message : "Failed to fetch metrics"
+        );
+        failed += 1;
+      }
+    }
+  }
+  return { sampled, failed };
+};
+
+const columnAliases: Record<string, string[]> = {
+  platform: ["platform", "network"],
+  capturedAt: ["captured_at", "date", "timestamp", "time"],
+  views: ["views", "plays", "video_views"],
+  likes: ["likes", "reactions"],
+  comments: ["comments"],
+  shares: ["shares", "reposts"],
+  variant: ["variant", "variant_id"],
+  locale: ["locale", "language", "lang"],
+};
+
+const count = (value: string | undefined) => {
+  if (value === undefined || value.trim() === "") {
+    return 0;
+  }
+  // Platform exports often group thousands: "1,204".
+  const parsed = Number(value.replace(/[\s,_]/g, ""));
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+};
+
+/**
+ * Reads samples exported from a platform's own analytics. Columns are matched by header name
+ * (see `columnAliases`); platform, date and views are required, other counts default to 0.
+ * Rows are attached to the campaign's live post on that platform; while an A/B test runs there,
+ * a variant column says which variant's post a row belongs to, and a locale column picks between
+ * a campaign's translated posts.
+ */
+export const importMetrics = async (
+  campaignId: string,
+  csv: string
+): Promise<MetricsImportResult | null> => {
+  const campaign = await getCampaign(campaignId);
+  if (!campaign) {
+    return null;
+  }
+  const [header = [], ...rows] = parseCsv(csv);
+  const names = header.map((name) => name.trim().toLowerCase().replace(/\s+/g, "_"));
+  const column = (key: string) => names.findIndex((name) => columnAliases[key].includes(name));
+  const columns = Object.fromEntries(
+    Object.keys(columnAliases).map((key) => [key, column(key)])
+  ) as Record<keyof typeof columnAliases, number>;
+  const missing = ["platform", "capturedAt", "views"].filter((key) => columns[key] === -1);
+  if (missing.length > 0) {
+    return {
+      imported: 0,
+      skipped: [{ line: 1, reason: `Missing column: ${missing.join(", ")}` }],
+    };
+  }
+
+  const generation = campaign.generations.find((item) => item.id === campaign.activeGenerationId);
+  const source = generation ? sourceLocale(generation.request) : "en";
+  const result: MetricsImportResult = { imported: 0, skipped: [] };
+  const samples = new Map<string, MetricSample[]>();
+  rows.forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (key: string) => (columns[key] === -1 ? undefined : cells[columns[key]]?.trim());
+    const platform = cell("platform")?.toLowerCase() as Platform;
+    if (!platforms.includes(platform)) {
+      result.skipped.push({ line, reason: `Unknown platform "${cell("platform") ?? ""}"` });
+      return;
+    }
+    const variant = cell("variant")?.toLowerCase() || undefined;
+    const locale = cell("locale")?.toLowerCase() || undefined;
+    const live = campaign.published.filter(
+      (item) => item.platform === platform && (!locale || (item.locale ?? source) === locale)
+    );
+    const post = live.find((item) => !variant || item.variantId === variant);
+    if (!post) {
+      const scope = [variant && `variant ${variant.toUpperCase()}`, locale].filter(Boolean);
+      result.skipped.push({
+        line,
+        reason: scope.length
+          ? `No live ${platform} post for ${scope.join(", ")}`
+          : `No live ${platform} post in this campaign`,
+      });
+      return;
+    }
+    if (!variant && live.length > 1) {
+      result.skipped.push({
+        line,
+        reason: `Several live ${platform} posts; add a variant or locale column`,
+      });
+      return;
+    }
+    const capturedAt = new Date(cell("capturedAt") ?? "");
+    if (Number.isNaN(capturedAt.getTime())) {
+      result.skipped.push({ line, reason: "Invalid date" });
+      return;
+    }
+    if (capturedAt.toISOString() < post.publishedAt) {
+      result.skipped.push({ line, reason: "Date is before the post went live" });
+      return;
+    }
+    const counts = ["views", "likes", "comments", "shares"].map((key) => count(cell(key)));
+    if (counts.some((value) => value === null)) {
+      result.skipped.push({ line, reason: "Counts must be whole, non-negative numbers" });
+      return;
+    }
+    const [views, likes, comments, shares] = counts as number[];
+    const key = metricsId(campaignId, post);
+    samples.set(key, [
+      ...(samples.get(key) ?? []),
+      { views, likes, comments, shares, capturedAt: capturedAt.toISOString(), source: "import" },
+    ]);
+    result.imported += 1;
+  });
+
+  for (const post of campaign.published) {
+    const imported = samples.get(metricsId(campaignId, post));
+    if (imported) {
+      await saveSamples(campaignId, post, imported);
+    }
+  }
+  return result;
+};
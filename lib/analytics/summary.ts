@@ -0,0 +1,88 @@
+import type { Platform } from "@/types/agent";
+import type { MetricCounts, MetricSample, PostMetrics } from "@/types/analytics";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const engagementRate = (counts: MetricCounts) =>
+  counts.views > 0 ? (counts.likes + counts.comments + counts.shares) / counts.views : 0;
+
+export const latestSample = (metrics: PostMetrics): MetricSample | null =>
+  metrics.samples[metrics.samples.length - 1] ?? null;
+
+export const hoursSincePublish = (metrics: PostMetrics, capturedAt: string) =>
+  (new Date(capturedAt).getTime() - new Date(metrics.publishedAt).getTime()) / HOUR_MS;
+
+/** Growth curve for one post: cumulative counts against hours since it went live. */
+export const growthSeries = (metrics: PostMetrics) =>
+  metrics.samples.map((sample) => ({
+    hours: Math.max(0, hoursSincePublish(metrics, sample.capturedAt)),
+    views: sample.views,
+    engagement: engagementRate(sample),
+  }));
+
+/**
+ * Counts at a fixed age so posts of different ages compare fairly: the last sample taken within
+ * `hours` of publishing, or the latest one for posts that haven't reached that age.
+ */
+export const countsAtAge = (metrics: PostMetrics, hours: number): MetricSample | null => {
+  const within = metrics.samples.filter(
+    (sample) => hoursSincePublish(metrics, sample.capturedAt) <= hours
+  );
+  return within[within.length - 1] ?? latestSample(metrics);
+};
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+
+export interface PlatformSummary {
+  platform: Platform;
+  posts: number;
+  averageViews: number;
+  averageEngagement: number;
+}
+
+export const comparePlatforms = (metrics: PostMetrics[], ageHours = 24 * 7) => {
+  const byPlatform = new Map<Platform, MetricSample[]>();
+  metrics.forEach((post) => {
+    const sample = countsAtAge(post, ageHours);
+    if (sample) {
+      byPlatform.set(post.platform, [...(byPlatform.get(post.platform) ?? []), sample]);
+    }
+  });
+  return Array.from(byPlatform, ([platform, samples]): PlatformSummary => ({
+    platform,
+    posts: samples.length,
+    averageViews: average(samples.map((sample) => sample.views)),
+    averageEngagement: average(samples.map(engagementRate)),
+  })).sort((a, b) => b.averageViews - a.averageViews);
+};
+
+export interface HourSummary {
+  hour: number;
+  posts: number;
+  averageViews: number;
+}
+
+/** First-day views grouped by the local hour each post went live. */
+export const viewsByPublishHour = (metrics: PostMetrics[], timeZone?: string): HourSummary[] => {
+  const format = new Intl.DateTimeFormat("en-US", { hour: "numeric", hourCycle: "h23", timeZone });
+  const buckets = Array.from({ length: 24 }, () => [] as number[]);
+  metrics.forEach((post) => {
+    const sample = countsAtAge(post, 24);
+    if (sample) {
+      buckets[Number(format.format(new Date(post.publishedAt))) % 24].push(sample.views);
+    }
+  });
+  return buckets.map((views, hour) => ({
+    hour,
+    posts: views.length,
+    averageViews: average(views),
+  }));
+};
+
+export const bestHour = (hours: HourSummary[]) =>
+  hours.reduce<HourSummary | null>(
+    (best, current) =>
+      current.posts > 0 && (!best || current.averageViews > best.averageViews) ? current : best,
+    null
+  );
@@ -0,0 +1,33 @@
+import { evaluateExperiments } from "@/lib/experiments";
+import { collectMetrics } from "./index";
+
+// Posts carry their own sampling interval; the ticker only decides how often to look.
+const TICK_MS = 5 * 60_000;
+
+const globalPoller = globalThis as typeof globalThis & {
+  __agenticAnalytics?: ReturnType<typeof setInterval>;
+};
+
+/** Starts the metrics poller once per server, alongside the publish scheduler. */
+export const startAnalyticsPoller = () => {
+  if (globalPoller.__agenticAnalytics || process.env.ANALYTICS_DISABLED === "true") {
+    return;
+  }
+  let running = false;
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await collectMetrics();
+      await evaluateExperiments();
+    } catch (error) {
+      console.error("Analytics tick failed", error);
+    } finally {
+      running = false;
+    }
+  };
+  globalPoller.__agenticAnalytics = setInterval(tick, TICK_MS);
+  void tick();
+};
@@ -0,0 +1,23 @@
+import type { ApiKey, ApiKeyRequest, CreatedApiKey } from "@/types/apiKey";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error ?? `Request failed with ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+export const fetchApiKeys = async () =>
+  (await request<{ apiKeys: ApiKey[] }>("/api/api-keys")).apiKeys;
+
+export const createApiKey = (key: ApiKeyRequest) =>
+  request<CreatedApiKey>("/api/api-keys", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(key),
+  });
+
+export const revokeApiKey = (id: string) =>
+  request<ApiKey>(`/api/api-keys/${id}`, { method: "DELETE" });
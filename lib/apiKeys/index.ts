@@ -0,0 +1,127 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import {
+  apiScopes,
+  rateLimitBounds,
+  type ApiKey,
+  type ApiKeyRequest,
+  type ApiScope,
+  type CreatedApiKey,
+} from "@/types/apiKey";
+import type { Workspace } from "@/types/workspace";
+import { createJsonStore } from "@/lib/store/fileStore";
+import { getWorkspace } from "@/lib/workspaces";
+import { takeRequest } from "./rateLimit";
+
+interface StoredApiKey extends ApiKey {
+  // SHA-256 of the full key; keys are random enough that a slow hash adds nothing.
+  hash: string;
+}
+
+const store = createJsonStore<StoredApiKey>("apiKeys");
+
+// lastUsedAt is a hint for admins, so it is written at most once a minute per key.
+const LAST_USED_GRANULARITY_MS = 60_000;
+
+const hashKey = (secret: string) => createHash("sha256").update(secret).digest("hex");
+
+const toApiKey = (key: StoredApiKey): ApiKey => {
+  const { hash, ...apiKey } = key;
+  return apiKey;
+};
+
+export const listApiKeys = async (workspaceId: string) =>
+  (await store.list())
+    .filter((key) => key.workspaceId === workspaceId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toApiKey);
+
+/** Issues a key for the workspace. The returned secret is the only copy; just its hash is kept. */
+export const createApiKey = async (
+  workspaceId: string,
+  request: ApiKeyRequest,
+  createdBy: string
+): Promise<CreatedApiKey> => {
+  const prefix = `ak_${randomBytes(4).toString("hex")}`;
+  const secret = `${prefix}_${randomBytes(24).toString("base64url")}`;
+  const stored = await store.put({
+    id: randomUUID(),
+    workspaceId,
+    name: request.name,
+    prefix,
+    scopes: apiScopes.filter((scope) => request.scopes.includes(scope)),
+    rateLimit: request.rateLimit ?? rateLimitBounds.default,
+    createdBy,
+    createdAt: new Date().toISOString(),
+    hash: hashKey(secret),
+  });
+  return { apiKey: toApiKey(stored), secret };
+};
+
+/** Revokes a key of the workspace; null when it has no such key. Revoked keys stay listed. */
+export const revokeApiKey = async (workspaceId: string, id: string) => {
+  const key = await store.get(id);
+  if (!key || key.workspaceId !== workspaceId) {
+    return null;
+  }
+  const revoked = await store.update(id, (current) => ({
+    ...current,
+    revokedAt: current.revokedAt ?? new Date().toISOString(),
+  }));
+  return revoked ? toApiKey(revoked) : null;
+};
+
+const findKey = async (secret: string) => {
+  const hash = Buffer.from(hashKey(secret), "hex");
+  return (
+    (await store.list()).find(
+      (key) => !key.revokedAt && timingSafeEqual(Buffer.from(key.hash, "hex"), hash)
+    ) ?? null
+  );
+};
+
+export type KeyAuthorization =
+  | { ok: true; apiKey: ApiKey; workspace: Workspace }
+  | {
+      ok: false;
+      status: 401 | 403 | 429;
+      error: string;
+      // Set on 429 so clients know when to retry.
+      headers?: Record<string, string>;
+    };
+
+/**
+ * The API key in the request's `Authorization: Bearer` header and its workspace. Each call
+ * counts against the key's per-minute limit; keys without `scope` are refused with a 403.
+ */
+export const authorizeApiKey = async (
+  request: Request,
+  scope: ApiScope
+): Promise<KeyAuthorization> => {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get("authorization") ?? "");
+  const key = match ? await findKey(match[1]) : null;
+  const workspace = key ? await getWorkspace(key.workspaceId) : null;
+  if (!key || !workspace) {
+    return { ok: false, status: 401, error: "Missing or invalid API key" };
+  }
+  const decision = takeRequest(key.id, key.rateLimit);
+  if (!decision.allowed) {
+    return {
+      ok: false,
+      status: 429,
+      error: `Rate limit of ${key.rateLimit} requests a minute reached`,
+      headers: {
+        "Retry-After": String(decision.resetSeconds),
+        "X-RateLimit-Limit": String(key.rateLimit),
+        "X-RateLimit-Remaining": "0",
+      },
+    };
+  }
+  if (!key.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: `This key lacks the ${scope} scope` };
+  }
+  const now = new Date();
+  if (!key.lastUsedAt || now.getTime() - Date.parse(key.lastUsedAt) > LAST_USED_GRANULARITY_MS) {
+    await store.update(key.id, (current) => ({ ...current, lastUsedAt: now.toISOString() }));
+  }
+  return { ok: true, apiKey: toApiKey(key), workspace };
+};
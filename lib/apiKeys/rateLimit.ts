@@ -0,0 +1,29 @@
+const WINDOW_MS = 60_000;
+
+interface Window {
+  start: number;
+  count: number;
+}
+
+// Counts live in this process, so each server instance enforces the limit on its own.
+const windows = new Map<string, Window>();
+
+export interface RateDecision {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the current window resets.
+  resetSeconds: number;
+}
+
+/** Counts a request against the key's per-minute limit, in fixed one-minute windows. */
+export const takeRequest = (keyId: string, limit: number, now = Date.now()): RateDecision => {
+  const current = windows.get(keyId);
+  const window = current && now - current.start < WINDOW_MS ? current : { start: now, count: 0 };
+  windows.set(keyId, window);
+  const resetSeconds = Math.ceil((window.start + WINDOW_MS - now) / 1000);
+  if (window.count >= limit) {
+    return { allowed: false, remaining: 0, resetSeconds };
+  }
+  window.count += 1;
+  return { allowed: true, remaining: limit - window.count, resetSeconds };
+};
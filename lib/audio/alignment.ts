@@ -0,0 +1,39 @@
+const WINDOW_SECONDS = 0.02;
+const MIN_SILENCE_SECONDS = 0.15;
+const MIN_SPAN_SECONDS = 0.05;
+const THRESHOLD_RATIO = 0.1;
+
+/**
+ * Finds the stretches of a voice clip that contain speech by thresholding short-window RMS
+ * energy, merging gaps shorter than a breath. Used to line captions up with spoken phrases.
+ * Takes plain samples, so the server render worker can align clips without Web Audio.
+ */
+export const speechSpans = (samples: Float32Array, sampleRate: number) => {
+  const windowSize = Math.max(1, Math.round(sampleRate * WINDOW_SECONDS));
+  const energies: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += windowSize) {
+    let sum = 0;
+    const end = Math.min(samples.length, offset + windowSize);
+    for (let index = offset; index < end; index += 1) {
+      sum += samples[index] * samples[index];
+    }
+    energies.push(Math.sqrt(sum / (end - offset)));
+  }
+
+  const threshold = Math.max(...energies, 0) * THRESHOLD_RATIO;
+  const spans: { start: number; end: number }[] = [];
+  energies.forEach((energy, index) => {
+    if (energy <= threshold) {
+      return;
+    }
+    const start = index * WINDOW_SECONDS;
+    const end = start + WINDOW_SECONDS;
+    const previous = spans[spans.length - 1];
+    if (previous && start - previous.end < MIN_SILENCE_SECONDS) {
+      previous.end = end;
+    } else {
+      spans.push({ start, end });
+    }
+  });
+  return spans.filter((span) => span.end - span.start >= MIN_SPAN_SECONDS);
+};
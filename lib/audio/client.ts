@@ -0,0 +1,15 @@
+import type { SpeechRequest } from "@/types/voice";
+
+export const requestSpeech = async (payload: SpeechRequest, signal?: AbortSignal) => {
+  const response = await fetch("/api/voiceover", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    signal,
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error ?? "Failed to synthesize voiceover");
+  }
+  return response.arrayBuffer();
+};
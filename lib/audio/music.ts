@@ -0,0 +1,216 @@
+export const musicBeds = ["none", "calm", "pulse", "uplift"] as const;
+
+export type MusicBed = (typeof musicBeds)[number];
+
+export const musicBedLabels: Record<MusicBed, string> = {
+  none: "No music",
+  calm: "Calm pads",
+  pulse: "Steady pulse",
+  uplift: "Uplifting arpeggio",
+};
+
+interface BedDefinition {
+  bpm: number;
+  // Chord roots in semitones from A3 (220 Hz), one per bar.
+  progression: number[];
+  pad: boolean;
+  // Note pattern per beat as semitone offsets from the bar root, or null for a rest.
+  pattern: (number | null)[];
+  kick: boolean;
+}
+
+const beds: Record<Exclude<MusicBed, "none">, BedDefinition> = {
+  calm: { bpm: 70, progression: [3, 0, -4, -2], pad: true, pattern: [], kick: false },
+  pulse: {
+    bpm: 104,
+    progression: [0, -4, 3, -2],
+    pad: true,
+    pattern: [0, null, 7, null, 12, null, 7, null],
+    kick: true,
+  },
+  uplift: {
+    bpm: 118,
+    progression: [3, -2, 0, -4],
+    pad: false,
+    pattern: [0, 4, 7, 12, 7, 4, 0, 7],
+    kick: true,
+  },
+};
+
+const frequencyOf = (semitones: number) => 220 * 2 ** (semitones / 12);
+
+const LOWPASS_HZ = 2400;
+const KICK_LEVEL = 0.5;
+const KICK_FROM_HZ = 120;
+const KICK_TO_HZ = 45;
+const KICK_SWEEP_SECONDS = 0.15;
+const KICK_DECAY_SECONDS = 0.25;
+
+interface MusicNote {
+  type: "sine" | "triangle";
+  frequency: number;
+  start: number;
+  length: number;
+  level: number;
+}
+
+const attackOf = (note: MusicNote) => Math.min(0.4, note.length / 4);
+
+/** The notes and kick times of a bed over `durationSeconds`, shared by both renderers below. */
+const scoreMusicBed = (definition: BedDefinition, durationSeconds: number) => {
+  const notes: MusicNote[] = [];
+  const kicks: number[] = [];
+  const beat = 60 / definition.bpm;
+  const bar = beat * 4;
+  const step = definition.pattern.length > 0 ? bar / definition.pattern.length : bar;
+
+  for (let barIndex = 0; barIndex * bar < durationSeconds; barIndex += 1) {
+    const start = barIndex * bar;
+    const root = definition.progression[barIndex % definition.progression.length];
+    if (definition.pad) {
+      [0, 4, 7].forEach((interval) =>
+        notes.push({
+          type: "sine",
+          frequency: frequencyOf(root + interval - 12),
+          start,
+          length: bar,
+          level: 0.12,
+        })
+      );
+    }
+    definition.pattern.forEach((offset, index) => {
+      if (offset !== null) {
+        notes.push({
+          type: "triangle",
+          frequency: frequencyOf(root + offset),
+          start: start + index * step,
+          length: step * 0.9,
+          level: 0.08,
+        });
+      }
+    });
+    if (definition.kick) {
+      for (let beatIndex = 0; beatIndex < 4; beatIndex += 1) {
+        kicks.push(start + beatIndex * beat);
+      }
+    }
+  }
+  return { notes, kicks };
+};
+
+const playNote = (context: OfflineAudioContext, destination: AudioNode, note: MusicNote) => {
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.type = note.type;
+  oscillator.frequency.value = note.frequency;
+  gain.gain.setValueAtTime(0, note.start);
+  gain.gain.linearRampToValueAtTime(note.level, note.start + attackOf(note));
+  gain.gain.linearRampToValueAtTime(0, note.start + note.length);
+  oscillator.connect(gain).connect(destination);
+  oscillator.start(note.start);
+  oscillator.stop(note.start + note.length + 0.05);
+};
+
+const playKick = (context: OfflineAudioContext, destination: AudioNode, start: number) => {
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.frequency.setValueAtTime(KICK_FROM_HZ, start);
+  oscillator.frequency.exponentialRampToValueAtTime(KICK_TO_HZ, start + KICK_SWEEP_SECONDS);
+  gain.gain.setValueAtTime(KICK_LEVEL, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + KICK_DECAY_SECONDS);
+  oscillator.connect(gain).connect(destination);
+  oscillator.start(start);
+  oscillator.stop(start + 0.3);
+};
+
+/**
+ * Synthesizes a royalty-free music bed from the built-in library, so the soundtrack works
+ * without bundled audio files or network access.
+ */
+export const renderMusicBed = async (bed: MusicBed, durationSeconds: number, sampleRate: number) => {
+  if (bed === "none") {
+    return null;
+  }
+  const context = new OfflineAudioContext(2, Math.ceil(durationSeconds * sampleRate), sampleRate);
+  const filter = context.createBiquadFilter();
+  filter.type = "lowpass";
+  filter.frequency.value = LOWPASS_HZ;
+  filter.connect(context.destination);
+
+  const { notes, kicks } = scoreMusicBed(beds[bed], durationSeconds);
+  notes.forEach((note) => playNote(context, filter, note));
+  kicks.forEach((start) => playKick(context, filter, start));
+
+  return context.startRendering();
+};
+
+// One cycle per unit of phase, both starting at zero and rising like Web Audio's oscillators.
+const waveform = (type: MusicNote["type"], phase: number) =>
+  type === "sine"
+    ? Math.sin(2 * Math.PI * phase)
+    : 1 - 4 * Math.abs(((phase + 0.25) % 1) - 0.5);
+
+/**
+ * The same bed as mono samples, computed directly instead of through Web Audio, for the server
+ * render worker. Follows the oscillators, envelopes and lowpass of `renderMusicBed`.
+ */
+export const renderMusicSamples = (bed: MusicBed, durationSeconds: number, sampleRate: number) => {
+  if (bed === "none") {
+    return null;
+  }
+  const samples = new Float32Array(Math.ceil(durationSeconds * sampleRate));
+  const { notes, kicks } = scoreMusicBed(beds[bed], durationSeconds);
+
+  notes.forEach((note) => {
+    const attack = attackOf(note);
+    const first = Math.round(note.start * sampleRate);
+    const last = Math.min(samples.length, Math.ceil((note.start + note.length) * sampleRate));
+    for (let index = first; index < last; index += 1) {
+      const time = index / sampleRate - note.start;
+      const envelope =
+        time < attack
+          ? (note.level * time) / attack
+          : (note.level * (note.length - time)) / (note.length - attack);
+      samples[index] += envelope * waveform(note.type, note.frequency * time);
+    }
+  });
+
+  kicks.forEach((start) => {
+    const first = Math.round(start * sampleRate);
+    const last = Math.min(samples.length, Math.ceil((start + 0.3) * sampleRate));
+    const sweep = Math.log(KICK_TO_HZ / KICK_FROM_HZ) / KICK_SWEEP_SECONDS;
+    const decay = Math.log(0.001 / KICK_LEVEL) / KICK_DECAY_SECONDS;
+    for (let index = first; index < last; index += 1) {
+      const time = index / sampleRate - start;
+      // Phase of the exponential sweep, which holds at its low end once the sweep is over.
+      const swept = Math.min(time, KICK_SWEEP_SECONDS);
+      const phase =
+        (KICK_FROM_HZ * (Math.exp(sweep * swept) - 1)) / sweep + KICK_TO_HZ * (time - swept);
+      const level = time < KICK_DECAY_SECONDS ? KICK_LEVEL * Math.exp(decay * time) : 0.001;
+      samples[index] += level * Math.sin(2 * Math.PI * phase);
+    }
+  });
+
+  // Biquad lowpass with Web Audio's coefficients; its default Q is 1 dB.
+  const omega = (2 * Math.PI * LOWPASS_HZ) / sampleRate;
+  const alpha = Math.sin(omega) / (2 * 10 ** (1 / 20));
+  const a0 = 1 + alpha;
+  const b0 = (1 - Math.cos(omega)) / 2 / a0;
+  const b1 = (1 - Math.cos(omega)) / a0;
+  const a1 = (-2 * Math.cos(omega)) / a0;
+  const a2 = (1 - alpha) / a0;
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let index = 0; index < samples.length; index += 1) {
+    const x = samples[index];
+    const y = b0 * x + b1 * x1 + b0 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    samples[index] = y;
+  }
+  return samples;
+};
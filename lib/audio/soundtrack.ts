@@ -0,0 +1,218 @@
+import type { ScenePlan } from "@/types/agent";
+import type { Voice } from "@/types/voice";
+import { MIN_SCENE_SECONDS, totalDuration } from "@/lib/timeline";
+import type { VoiceTiming } from "@/lib/video/captions";
+import { speechSpans } from "./alignment";
+import { requestSpeech } from "./client";
+import { renderMusicBed, type MusicBed } from "./music";
+
+export const SOUNDTRACK_SAMPLE_RATE = 48000;
+export const VOICE_LEAD_SECONDS = 0.3;
+const VOICE_TAIL_SECONDS = 0.4;
+const DUCK_LEVEL = 0.25;
+const DUCK_ATTACK_SECONDS = 0.15;
+const DUCK_RELEASE_SECONDS = 0.35;
+const MUSIC_FADE_SECONDS = 1.5;
+
+export interface VoiceClip {
+  sceneId: string;
+  // Narration the clip was synthesized from; an edited scene no longer matches its clip.
+  narration: string;
+  buffer: AudioBuffer;
+  spans: { start: number; end: number }[];
+}
+
+export interface SoundtrackSettings {
+  voice: Voice;
+  clips: VoiceClip[];
+  music: MusicBed;
+  musicVolume: number;
+  ducking: boolean;
+}
+
+export const defaultSoundtrack: SoundtrackSettings = {
+  voice: "narrator",
+  clips: [],
+  music: "none",
+  musicVolume: 0.35,
+  ducking: true,
+};
+
+export const hasSoundtrack = (settings: SoundtrackSettings) =>
+  settings.clips.length > 0 || settings.music !== "none";
+
+const clipFor = (settings: SoundtrackSettings, scene: ScenePlan) =>
+  settings.clips.find((clip) => clip.sceneId === scene.id && clip.narration === scene.narration);
+
+export const missingVoiceClips = (scenes: ScenePlan[], settings: SoundtrackSettings) =>
+  scenes.filter((scene) => !clipFor(settings, scene));
+
+export const synthesizeVoiceClips = async (
+  scenes: ScenePlan[],
+  voice: Voice,
+  options: { signal?: AbortSignal; onProgress?: (ratio: number) => void } = {}
+): Promise<VoiceClip[]> => {
+  const decoder = new OfflineAudioContext(1, 1, SOUNDTRACK_SAMPLE_RATE);
+  const clips: VoiceClip[] = [];
+  for (const [index, scene] of scenes.entries()) {
+    options.onProgress?.(index / scenes.length);
+    const audio = await requestSpeech({ text: scene.narration, voice }, options.signal);
+    const buffer = await decoder.decodeAudioData(audio);
+    clips.push({
+      sceneId: scene.id,
+      narration: scene.narration,
+      buffer,
+      spans: speechSpans(buffer.getChannelData(0), buffer.sampleRate),
+    });
+  }
+  options.onProgress?.(1);
+  return clips;
+};
+
+export const voiceTimings = (scenes: ScenePlan[], settings: SoundtrackSettings) => {
+  const timings: Record<string, VoiceTiming> = {};
+  scenes.forEach((scene) => {
+    const clip = clipFor(settings, scene);
+    if (clip) {
+      timings[scene.id] = {
+        offset: VOICE_LEAD_SECONDS,
+        duration: clip.buffer.duration,
+        spans: clip.spans,
+      };
+    }
+  });
+  return timings;
+};
+
+/** Stretches or shrinks each voiced scene so it holds its narration plus a short breath. */
+export const fitScenesToVoiceover = (scenes: ScenePlan[], settings: SoundtrackSettings) =>
+  scenes.map((scene) => {
+    const clip = clipFor(settings, scene);
+    if (!clip) {
+      return scene;
+    }
+    const needed = clip.buffer.duration + VOICE_LEAD_SECONDS + VOICE_TAIL_SECONDS;
+    return { ...scene, durationSeconds: Math.max(MIN_SCENE_SECONDS, Math.ceil(needed * 2) / 2) };
+  });
+
+export interface VoicePlacement {
+  sceneId: string;
+  start: number;
+  // Where the clip ends, or is cut off by the end of its scene.
+  end: number;
+}
+
+/**
+ * Where each voiced scene's clip plays: just after the scene starts, until the clip or the scene
+ * ends. `clipDuration` is undefined for scenes without a clip. Shared with the server mix.
+ */
+export const placeVoiceClips = (
+  scenes: ScenePlan[],
+  clipDuration: (scene: ScenePlan) => number | undefined
+) => {
+  const placements: VoicePlacement[] = [];
+  let sceneStart = 0;
+  scenes.forEach((scene) => {
+    const duration = clipDuration(scene);
+    if (duration !== undefined) {
+      const start = sceneStart + VOICE_LEAD_SECONDS;
+      const sceneEnd = sceneStart + scene.durationSeconds;
+      placements.push({ sceneId: scene.id, start, end: Math.min(start + duration, sceneEnd) });
+    }
+    sceneStart += scene.durationSeconds;
+  });
+  return placements;
+};
+
+// Keeps the bed down between lines that follow each other closely.
+const speechStretches = (placements: VoicePlacement[]) => {
+  const speech: { start: number; end: number }[] = [];
+  placements.forEach(({ start, end }) => {
+    const previous = speech[speech.length - 1];
+    if (previous && start - previous.end < DUCK_ATTACK_SECONDS + DUCK_RELEASE_SECONDS) {
+      previous.end = end;
+    } else {
+      speech.push({ start, end });
+    }
+  });
+  return speech;
+};
+
+/**
+ * The music bed's gain over time: `level`, ducked under speech when `ducking` is on, and faded
+ * out at the end. The sample-by-sample form of the automation `mixSoundtrack` schedules.
+ */
+export const musicGain = (
+  placements: VoicePlacement[],
+  options: { level: number; ducking: boolean; duration: number }
+) => {
+  const speech = options.ducking ? speechStretches(placements) : [];
+  const ducked = options.level * DUCK_LEVEL;
+  return (time: number) => {
+    let gain = options.level;
+    for (const { start, end } of speech) {
+      if (time >= start - DUCK_ATTACK_SECONDS && time < end + DUCK_RELEASE_SECONDS) {
+        const ramp =
+          time < start
+            ? (start - time) / DUCK_ATTACK_SECONDS
+            : time > end
+              ? (time - end) / DUCK_RELEASE_SECONDS
+              : 0;
+        gain = Math.min(gain, ducked + (options.level - ducked) * ramp);
+      }
+    }
+    const fadeStart = Math.max(0, options.duration - MUSIC_FADE_SECONDS);
+    return time <= fadeStart
+      ? gain
+      : gain * Math.max(0, (options.duration - time) / (options.duration - fadeStart));
+  };
+};
+
+/**
+ * Mixes voice clips at their scene start with the music bed, ducking the music under speech.
+ * Returns null when there is nothing to mix.
+ */
+export const mixSoundtrack = async (scenes: ScenePlan[], settings: SoundtrackSettings) => {
+  if (!hasSoundtrack(settings)) {
+    return null;
+  }
+  const duration = totalDuration(scenes);
+  const context = new OfflineAudioContext(
+    2,
+    Math.max(1, Math.ceil(duration * SOUNDTRACK_SAMPLE_RATE)),
+    SOUNDTRACK_SAMPLE_RATE
+  );
+
+  const placements = placeVoiceClips(scenes, (scene) => clipFor(settings, scene)?.buffer.duration);
+  placements.forEach(({ sceneId, start, end }) => {
+    const scene = scenes.find((item) => item.id === sceneId)!;
+    const source = context.createBufferSource();
+    source.buffer = clipFor(settings, scene)!.buffer;
+    source.connect(context.destination);
+    source.start(start, 0, Math.max(0, end - start));
+  });
+
+  const bed = await renderMusicBed(settings.music, duration, SOUNDTRACK_SAMPLE_RATE);
+  if (bed) {
+    const source = context.createBufferSource();
+    const gain = context.createGain();
+    const fade = context.createGain();
+    const level = settings.musicVolume;
+    source.buffer = bed;
+    gain.gain.setValueAtTime(level, 0);
+    if (settings.ducking) {
+      speechStretches(placements).forEach(({ start, end }) => {
+        gain.gain.setValueAtTime(level, Math.max(0, start - DUCK_ATTACK_SECONDS));
+        gain.gain.linearRampToValueAtTime(level * DUCK_LEVEL, start);
+        gain.gain.setValueAtTime(level * DUCK_LEVEL, end);
+        gain.gain.linearRampToValueAtTime(level, end + DUCK_RELEASE_SECONDS);
+      });
+    }
+    fade.gain.setValueAtTime(1, Math.max(0, duration - MUSIC_FADE_SECONDS));
+    fade.gain.linearRampToValueAtTime(0, duration);
+    source.connect(gain).connect(fade).connect(context.destination);
+    source.start(0);
+  }
+
+  return context.startRendering();
+};
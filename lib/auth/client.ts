@@ -0,0 +1,29 @@
+import type { SessionInfo, SignInRequest, SignUpRequest } from "@/types/workspace";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error ?? `Request failed with ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+};
+
+const post = <T>(input: string, body?: unknown) =>
+  request<T>(input, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+export const fetchSession = () => request<SessionInfo>("/api/auth/session");
+
+export const signIn = (credentials: SignInRequest) =>
+  post<SessionInfo>("/api/auth/login", credentials);
+
+export const signUp = (account: SignUpRequest) => post<SessionInfo>("/api/auth/signup", account);
+
+export const signOut = () => post<void>("/api/auth/logout");
+
+export const switchWorkspace = (workspaceId: string) =>
+  post<SessionInfo>("/api/auth/workspace", { workspaceId });
@@ -0,0 +1,130 @@
+import type {
+  Permission,
+  Role,
+  SessionInfo,
+  SignUpRequest,
+  User,
+  Workspace,
+} from "@/types/workspace";
+import { createWorkspace, getWorkspace, roleIn, workspacesFor } from "@/lib/workspaces";
+import { can } from "./roles";
+import {
+  readCookie,
+  SESSION_COOKIE,
+  SESSION_SECONDS,
+  signSessionToken,
+  verifySessionToken,
+} from "./token";
+import { checkCredentials, createUser, findUserByIdentity, getUser } from "./users";
+
+export { AccountError, SignUpClosedError } from "./users";
+export { can } from "./roles";
+export { SESSION_COOKIE } from "./token";
+
+export type Authorization =
+  | { ok: true; user: User; workspace: Workspace; role: Role }
+  | { ok: false; status: 401 | 403; error: string };
+
+const refusals: Record<Permission, string> = {
+  create: "Only creators and admins can do that",
+  review: "Only reviewers and admins can review campaigns",
+  manage: "Only admins can manage the workspace",
+};
+
+/**
+ * Who is calling and in which workspace, from the session cookie. With a permission, roles
+ * without it are refused with a 403.
+ */
+export const authorize = async (
+  request: Request,
+  permission?: Permission
+): Promise<Authorization> => {
+  const token = readCookie(request.headers.get("cookie"), SESSION_COOKIE);
+  const claims = await verifySessionToken(token);
+  if (!claims) {
+    return { ok: false, status: 401, error: "Sign in to continue" };
+  }
+  const [user, workspace] = await Promise.all([getUser(claims.sub), getWorkspace(claims.ws)]);
+  const role = user && workspace ? roleIn(workspace, user.id) : null;
+  if (!user || !workspace || !role) {
+    return { ok: false, status: 401, error: "Your session has ended; sign in again" };
+  }
+  if (permission && !can(role, permission)) {
+    return { ok: false, status: 403, error: refusals[permission] };
+  }
+  return { ok: true, user, workspace, role };
+};
+
+/** What the client shows for a member of `workspace`. */
+export const sessionInfo = async (user: User, workspace: Workspace): Promise<SessionInfo> => ({
+  user,
+  workspace: { id: workspace.id, name: workspace.name },
+  role: roleIn(workspace, user.id)!,
+  workspaces: (await workspacesFor(user.id)).map((item) => ({
+    id: item.id,
+    name: item.name,
+    role: roleIn(item, user.id)!,
+  })),
+});
+
+/**
+ * Signs the user into a workspace they belong to: the one asked for, else the first. Null when
+ * they aren't a member of any.
+ */
+export const openSession = async (user: User, workspaceId?: string) => {
+  const workspaces = await workspacesFor(user.id);
+  const workspace = workspaces.find((item) => item.id === workspaceId) ?? workspaces[0];
+  if (!workspace) {
+    return null;
+  }
+  const token = await signSessionToken({ sub: user.id, ws: workspace.id });
+  return { token, session: await sessionInfo(user, workspace) };
+};
+
+export const sessionCookieOptions = (env: NodeJS.ProcessEnv = process.env) => ({
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: env.NODE_ENV === "production",
+  path: "/",
+  maxAge: SESSION_SECONDS,
+});
+
+/**
+ * Creates the account and a workspace it administers. Anyone may sign up on a fresh instance;
+ * after that only with AUTH_OPEN_SIGNUP=true, otherwise this throws SignUpClosedError.
+ */
+export const signUp = async (request: SignUpRequest, env: NodeJS.ProcessEnv = process.env) => {
+  const user = await createUser(request, { firstOnly: env.AUTH_OPEN_SIGNUP !== "true" });
+  await createWorkspace(request.workspaceName ?? `${user.displayName}'s workspace`, user.id);
+  return user;
+};
+
+export const signIn = (username: string, password: string) =>
+  checkCredentials(username, password);
+
+export interface ExternalIdentity {
+  // The identity provider's issuer URL, e.g. from an OIDC ID token's `iss`.
+  issuer: string;
+  // The provider's stable id for the person (`sub`).
+  subject: string;
+  // Used for a first sign-in, when the account is created.
+  username: string;
+  displayName?: string;
+}
+
+/**
+ * Hook for single sign-on: an OIDC callback verifies the provider's ID token, then calls this
+ * and hands the user to `openSession`. The first sign-in creates an account linked to the
+ * provider's subject; an admin then adds it to a workspace like any other member.
+ */
+export const signInWithIdentity = async (identity: ExternalIdentity) => {
+  const key = `${identity.issuer}|${identity.subject}`;
+  return (
+    (await findUserByIdentity(key)) ??
+    createUser({
+      username: identity.username,
+      displayName: identity.displayName,
+      identity: key,
+    })
+  );
+};
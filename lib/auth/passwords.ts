@@ -0,0 +1,27 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+
+const derive = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, (error, key) =>
+      error ? reject(error) : resolve(key)
+    )
+  );
+
+/** `scrypt:<salt>:<key>`, both hex; the prefix leaves room to move to another scheme. */
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt);
+  return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, salt, key] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, "hex");
+  const actual = await derive(password, Buffer.from(salt, "hex"));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
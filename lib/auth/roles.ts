@@ -0,0 +1,4 @@
+import { permissions, type Permission, type Role } from "@/types/workspace";
+
+export const can = (role: Role, permission: Permission) =>
+  (permissions[permission] as readonly Role[]).includes(role);
@@ -0,0 +1,99 @@
+// Web Crypto only: the middleware runs on the edge runtime, where Node's crypto isn't available.
+
+export const SESSION_COOKIE = "agentic_session";
+
+export const SESSION_SECONDS = 7 * 24 * 60 * 60;
+
+export interface SessionClaims {
+  // User id.
+  sub: string;
+  // Workspace the session acts in.
+  ws: string;
+  // Expiry, in seconds since the epoch.
+  exp: number;
+}
+
+// Only for local development; a deployment without AUTH_SECRET refuses to issue sessions.
+const DEV_SECRET = "agentic-creator-studio-development-secret";
+
+export const authSecret = (env: NodeJS.ProcessEnv = process.env) => {
+  if (env.AUTH_SECRET) {
+    return env.AUTH_SECRET;
+  }
+  if (env.NODE_ENV === "production") {
+    throw new Error("AUTH_SECRET must be set to sign sessions");
+  }
+  return DEV_SECRET;
+};
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+
+const signingKey = (secret: string) =>
+  crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+
+export const signSessionToken = async (
+  claims: Omit<SessionClaims, "exp">,
+  secret = authSecret()
+) => {
+  const payload: SessionClaims = {
+    ...claims,
+    exp: Math.floor(Date.now() / 1000) + SESSION_SECONDS,
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const key = await signingKey(secret);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/** The token's claims when its signature holds and it hasn't expired, otherwise null. */
+export const verifySessionToken = async (
+  token: string | undefined,
+  secret = authSecret()
+): Promise<SessionClaims | null> => {
+  const [body, signature] = token?.split(".") ?? [];
+  if (!body || !signature) {
+    return null;
+  }
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await signingKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) {
+      return null;
+    }
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as SessionClaims;
+    return typeof claims.sub === "string" &&
+      typeof claims.ws === "string" &&
+      claims.exp > Date.now() / 1000
+      ? claims
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Reads one cookie out of a raw Cookie header. */
+export const readCookie = (header: string | null, name: string) =>
+  header
+    ?.split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${name}=`))
+    ?.slice(name.length + 1);
@@ -0,0 +1,101 @@
+import { randomUUID } from "crypto";
+import type { User } from "@/types/workspace";
+import { createJsonStore } from "@/lib/store/fileStore";
+import { hashPassword, verifyPassword } from "./passwords";
+
+interface StoredUser extends User {
+  // Missing for accounts that only sign in through an identity provider.
+  passwordHash?: string;
+  // `issuer|subject` pairs from identity providers linked to this account.
+  identities?: string[];
+}
+
+const store = createJsonStore<StoredUser>("users");
+
+/** Raised for an account that can't be created, e.g. a username someone already has. */
+export class AccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccountError";
+  }
+}
+
+/** Raised for a sign-up once the instance has accounts and AUTH_OPEN_SIGNUP isn't set. */
+export class SignUpClosedError extends Error {
+  constructor() {
+    super("Sign-up is closed; ask a workspace admin to add you.");
+    this.name = "SignUpClosedError";
+  }
+}
+
+const toUser = ({ id, username, displayName, createdAt }: StoredUser): User => ({
+  id,
+  username,
+  displayName,
+  createdAt,
+});
+
+export const getUser = async (id: string) => {
+  const user = await store.get(id);
+  return user ? toUser(user) : null;
+};
+
+export const getUsers = async (ids: string[]) =>
+  (await store.list()).filter((user) => ids.includes(user.id)).map(toUser);
+
+export const findUserByUsername = async (username: string) => {
+  const key = username.trim().toLowerCase();
+  const user = (await store.list()).find((item) => item.username === key);
+  return user ? toUser(user) : null;
+};
+
+export const findUserByIdentity = async (identity: string) => {
+  const user = (await store.list()).find((item) => item.identities?.includes(identity));
+  return user ? toUser(user) : null;
+};
+
+/**
+ * Creates the account, checking the username is free in the same store step as the insert so two
+ * requests can't both claim it. With `firstOnly` it is refused once any account exists.
+ */
+export const createUser = async (
+  input: {
+    username: string;
+    displayName?: string;
+    password?: string;
+    identity?: string;
+  },
+  options: { firstOnly?: boolean } = {}
+) => {
+  const username = input.username.trim().toLowerCase();
+  const passwordHash = input.password ? await hashPassword(input.password) : undefined;
+  const user = await store.insert(
+    {
+      id: randomUUID(),
+      username,
+      displayName: input.displayName ?? username,
+      createdAt: new Date().toISOString(),
+      ...(passwordHash ? { passwordHash } : {}),
+      ...(input.identity ? { identities: [input.identity] } : {}),
+    },
+    (users) => {
+      if (options.firstOnly && users.length > 0) {
+        throw new SignUpClosedError();
+      }
+      if (users.some((item) => item.username === username)) {
+        throw new AccountError(`The username ${username} is taken`);
+      }
+    }
+  );
+  return toUser(user);
+};
+
+/** The account for these credentials, or null; an unknown user and a wrong password look alike. */
+export const checkCredentials = async (username: string, password: string) => {
+  const key = username.trim().toLowerCase();
+  const user = (await store.list()).find((item) => item.username === key);
+  if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+    return null;
+  }
+  return toUser(user);
+};
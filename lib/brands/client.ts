@@ -0,0 +1,81 @@
+import type { BrandAsset, BrandAssetKind, BrandKit, BrandSettings, BrandSummary } from "@/types/brand";
+import type { SceneStyle } from "@/lib/video/scene";
+import type { BrandPatch } from "./index";
+import { brandFontFamily, brandSceneStyle } from "./style";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error ?? `Request failed with ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+};
+
+export const fetchBrands = async () =>
+  (await request<{ brands: BrandSummary[] }>("/api/brands")).brands;
+
+export const fetchBrand = (id: string) => request<BrandKit>(`/api/brands/${id}`);
+
+export const createBrand = (settings: BrandSettings) =>
+  request<BrandKit>("/api/brands", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  });
+
+export const patchBrand = (id: string, patch: BrandPatch) =>
+  request<BrandKit>(`/api/brands/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+
+export const removeBrand = (id: string) => request<void>(`/api/brands/${id}`, { method: "DELETE" });
+
+export const uploadBrandAsset = (brandId: string, kind: BrandAssetKind, file: File) =>
+  request<BrandAsset>(
+    `/api/brands/${brandId}/assets?kind=${kind}&fileName=${encodeURIComponent(file.name)}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": file.type || "application/octet-stream" },
+      body: file,
+    }
+  );
+
+export const brandAssetUrl = (brandId: string, assetId: string) =>
+  `/api/brands/${brandId}/assets/${assetId}`;
+
+const loadFont = async (brand: BrandKit, font: BrandKit["fonts"]["heading"]) => {
+  const family = brandFontFamily(brand, font);
+  if (font.assetId) {
+    const face = new FontFace(family, `url(${brandAssetUrl(brand.id, font.assetId)})`);
+    document.fonts.add(await face.load());
+  }
+  return family;
+};
+
+const loadLogo = async (brand: BrandKit) => {
+  if (!brand.logo.assetId) {
+    return null;
+  }
+  const response = await fetch(brandAssetUrl(brand.id, brand.logo.assetId));
+  if (!response.ok) {
+    throw new Error("Failed to load brand logo");
+  }
+  return createImageBitmap(await response.blob());
+};
+
+/** Resolves a brand kit into everything the canvas renderer needs, loading fonts and logo. */
+export const loadBrandStyle = async (brand: BrandKit): Promise<SceneStyle> => {
+  const [headingFont, bodyFont, logo] = await Promise.all([
+    loadFont(brand, brand.fonts.heading),
+    loadFont(brand, brand.fonts.body),
+    loadLogo(brand),
+  ]);
+  return brandSceneStyle(brand, {
+    headingFont,
+    bodyFont,
+    logo: logo ? { image: logo, width: logo.width, height: logo.height } : null,
+  });
+};
@@ -0,0 +1,18 @@
+import type { BrandSettings } from "@/types/brand";
+
+export const defaultBrandSettings: BrandSettings = {
+  name: "New brand",
+  palette: ["#0ea5e9", "#1e3a8a", "#a855f7", "#312e81"],
+  textColor: "#f8fafc",
+  accentColor: "#fde047",
+  fonts: {
+    heading: { family: "Inter" },
+    body: { family: "Inter" },
+  },
+  logo: { position: "top-right", opacity: 0.85, scale: 0.16 },
+  intro: { enabled: false, text: "", durationSeconds: 2 },
+  outro: { enabled: false, text: "", durationSeconds: 3 },
+  bannedWords: [],
+  requiredHashtags: [],
+  defaultCallToAction: "",
+};
@@ -0,0 +1,105 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  BrandAsset,
+  BrandAssetKind,
+  BrandKit,
+  BrandSettings,
+  BrandSummary,
+} from "@/types/brand";
+import { createJsonStore, dataDir } from "@/lib/store/fileStore";
+
+const store = createJsonStore<BrandKit>("brands");
+
+const assetDir = (brandId: string) => path.join(dataDir(), "brand-assets", brandId);
+
+export const toBrandSummary = (brand: BrandKit): BrandSummary => ({
+  id: brand.id,
+  name: brand.name,
+  updatedAt: brand.updatedAt,
+});
+
+export const listBrands = async (filter: { workspaceId?: string } = {}) =>
+  (await store.list())
+    .filter((brand) => !filter.workspaceId || brand.workspaceId === filter.workspaceId)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(toBrandSummary);
+
+/** The kit, or null when it doesn't exist or is in another workspace than the one given. */
+export const getBrand = async (id: string, workspaceId?: string) => {
+  const brand = await store.get(id);
+  return brand && (!workspaceId || brand.workspaceId === workspaceId) ? brand : null;
+};
+
+export const createBrand = (settings: BrandSettings, workspaceId: string) => {
+  const now = new Date().toISOString();
+  return store.put({
+    ...settings,
+    id: randomUUID(),
+    assets: [],
+    workspaceId,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export type BrandPatch = Partial<BrandSettings>;
+
+export const updateBrand = (id: string, patch: BrandPatch) =>
+  store.update(id, (brand) => ({ ...brand, ...patch, updatedAt: new Date().toISOString() }));
+
+export const deleteBrand = async (id: string) => {
+  const removed = await store.remove(id);
+  if (removed) {
+    await fs.rm(assetDir(id), { recursive: true, force: true });
+  }
+  return removed;
+};
+
+/** Hands brand kits made before workspaces existed to the first workspace. */
+export const adoptBrands = async (workspaceId: string) => {
+  for (const brand of await store.list()) {
+    if (!brand.workspaceId) {
+      await store.update(brand.id, (current) => ({ ...current, workspaceId }));
+    }
+  }
+};
+
+const safeFileName = (fileName: string) => fileName.replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 120);
+
+export const addBrandAsset = async (
+  brandId: string,
+  file: { kind: BrandAssetKind; fileName: string; mimeType: string; data: Uint8Array }
+) => {
+  const brand = await store.get(brandId);
+  if (!brand) {
+    return null;
+  }
+  const asset: BrandAsset = {
+    id: randomUUID(),
+    kind: file.kind,
+    fileName: safeFileName(file.fileName),
+    mimeType: file.mimeType,
+    size: file.data.byteLength,
+    createdAt: new Date().toISOString(),
+  };
+  await fs.mkdir(assetDir(brandId), { recursive: true });
+  await fs.writeFile(path.join(assetDir(brandId), asset.id), file.data);
+  await store.update(brandId, (current) => ({
+    ...current,
+    assets: [...current.assets, asset],
+    updatedAt: asset.createdAt,
+  }));
+  return asset;
+};
+
+export const readBrandAsset = async (brandId: string, assetId: string) => {
+  const brand = await store.get(brandId);
+  const asset = brand?.assets.find((item) => item.id === assetId);
+  if (!asset) {
+    return null;
+  }
+  const data = await fs.readFile(path.join(assetDir(brandId), asset.id));
+  return { asset, data };
+};
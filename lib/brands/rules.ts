@@ -0,0 +1,54 @@
+import type { AgentResponse, SocialPostPlan } from "@/types/agent";
+import type { BrandRules } from "@/types/brand";
+
+const escapePattern = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole-word, case-insensitive match that also works for accented and non-Latin words.
+const wordPattern = (word: string) =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])${escapePattern(word)}(?=$|[^\\p{L}\\p{N}])`, "giu");
+
+const normalizeTag = (tag: string) => tag.replace(/^#/, "").trim();
+
+export const findBannedWords = (text: string, rules: Pick<BrandRules, "bannedWords">) =>
+  rules.bannedWords.filter((word) => word.trim() && wordPattern(word.trim()).test(text));
+
+const scrub = (text: string, bannedWords: string[]) =>
+  bannedWords
+    .reduce((current, word) => current.replace(wordPattern(word.trim()), "$1"), text)
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/\s+([,.!?;:])/g, "$1")
+    .trim();
+
+/**
+ * Brings a post in line with the brand: banned words are removed from copy and tags, required
+ * hashtags are always present and a call to action that is empty or off-brand falls back to
+ * the brand default.
+ */
+export const applyBrandRulesToPost = (post: SocialPostPlan, rules: BrandRules): SocialPostPlan => {
+  const banned = rules.bannedWords.filter((word) => word.trim());
+  const tags = post.tags
+    .map(normalizeTag)
+    .filter((tag) => tag && findBannedWords(tag, { bannedWords: banned }).length === 0);
+  rules.requiredHashtags.map(normalizeTag).forEach((required) => {
+    if (required && !tags.some((tag) => tag.toLowerCase() === required.toLowerCase())) {
+      tags.push(required);
+    }
+  });
+
+  const callToAction =
+    rules.defaultCallToAction &&
+    (!post.callToAction.trim() || findBannedWords(post.callToAction, rules).length > 0)
+      ? rules.defaultCallToAction
+      : scrub(post.callToAction, banned);
+
+  return { ...post, caption: scrub(post.caption, banned), tags, callToAction };
+};
+
+export const applyBrandRules = (response: AgentResponse, rules: BrandRules): AgentResponse => ({
+  ...response,
+  socialPosts: response.socialPosts.map((post) => applyBrandRulesToPost(post, rules)),
+  variants: response.variants?.map((variant) => ({
+    ...variant,
+    socialPosts: variant.socialPosts.map((post) => applyBrandRulesToPost(post, rules)),
+  })),
+});
@@ -0,0 +1,40 @@
+import type { BrandKit } from "@/types/brand";
+import type { SceneStyle } from "@/lib/video/scene";
+
+export interface LoadedBrandAssets {
+  headingFont: string;
+  bodyFont: string;
+  logo: { image: CanvasImageSource; width: number; height: number } | null;
+}
+
+/** Uploaded faces get a brand-scoped family name so two brands can't collide. */
+export const brandFontFamily = (brand: BrandKit, font: BrandKit["fonts"]["heading"]) =>
+  font.assetId ? `${font.family} ${brand.id.slice(0, 8)}` : font.family;
+
+const pairs = (palette: string[]) =>
+  palette.length < 2
+    ? [[palette[0] ?? "#0f172a", palette[0] ?? "#0f172a"]]
+    : palette.map((color, index) => [color, palette[(index + 1) % palette.length]]).slice(0, -1);
+
+/**
+ * Builds the canvas style from a brand kit once its fonts and logo are loaded; the browser and
+ * the render worker load those their own way but must end up with the same style.
+ */
+export const brandSceneStyle = (brand: BrandKit, assets: LoadedBrandAssets): SceneStyle => ({
+  palettes: pairs(brand.palette),
+  textColor: brand.textColor,
+  accentColor: brand.accentColor,
+  headingFont: assets.headingFont,
+  bodyFont: assets.bodyFont,
+  logo: assets.logo
+    ? {
+        image: assets.logo.image,
+        aspect: assets.logo.height / assets.logo.width,
+        position: brand.logo.position,
+        opacity: brand.logo.opacity,
+        scale: brand.logo.scale,
+      }
+    : null,
+  intro: brand.intro.enabled ? brand.intro : null,
+  outro: brand.outro.enabled ? brand.outro : null,
+});
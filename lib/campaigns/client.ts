@@ -0,0 +1,47 @@
+import type { AgentRequest, AgentResponse } from "@/types/agent";
+import type { Campaign, CampaignAsset, CampaignSummary } from "@/types/campaign";
+import type { CampaignPatch } from "./index";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error ?? `Request failed with ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+};
+
+export const fetchCampaigns = async () =>
+  (await request<{ campaigns: CampaignSummary[] }>("/api/campaigns")).campaigns;
+
+export const fetchCampaign = (id: string) => request<Campaign>(`/api/campaigns/${id}`);
+
+export const createCampaign = (agentRequest: AgentRequest, response: AgentResponse) =>
+  request<Campaign>("/api/campaigns", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ request: agentRequest, response }),
+  });
+
+export const patchCampaign = (id: string, patch: CampaignPatch) =>
+  request<Campaign>(`/api/campaigns/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+
+export const removeCampaign = (id: string) =>
+  request<void>(`/api/campaigns/${id}`, { method: "DELETE" });
+
+export const uploadAsset = (campaignId: string, generationId: string, blob: Blob, fileName: string) =>
+  request<CampaignAsset>(
+    `/api/campaigns/${campaignId}/assets?generationId=${encodeURIComponent(generationId)}&fileName=${encodeURIComponent(fileName)}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": blob.type || "application/octet-stream" },
+      body: blob,
+    }
+  );
+
+export const assetUrl = (campaignId: string, assetId: string) =>
+  `/api/campaigns/${campaignId}/assets/${assetId}`;
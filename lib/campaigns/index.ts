@@ -0,0 +1,270 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { AgentRequest, AgentResponse } from "@/types/agent";
+import type {
+  Campaign,
+  CampaignAsset,
+  CampaignSummary,
+  PublishState,
+  PublishedPost,
+} from "@/types/campaign";
+import type { CampaignReview } from "@/types/review";
+import type { SeriesLink } from "@/types/series";
+import { liveKey } from "@/lib/localization";
+import { createJsonStore, dataDir } from "@/lib/store/fileStore";
+import { emitEvent } from "@/lib/webhooks";
+
+const store = createJsonStore<Campaign>("campaigns");
+
+const normalizeIdea = (idea: string) => idea.trim().toLowerCase().replace(/\s+/g, " ");
+
+const assetDir = (campaignId: string) => path.join(dataDir(), "assets", campaignId);
+
+const publishStateFor = (campaign: Campaign): PublishState => {
+  const active = campaign.generations.find(
+    (generation) => generation.id === campaign.activeGenerationId
+  );
+  const languages = 1 + (active?.response.localizations?.length ?? 0);
+  const planned = (active?.response.socialPosts.length ?? 0) * languages;
+  const live = new Set(campaign.published.map(liveKey)).size;
+  if (live === 0) {
+    return "draft";
+  }
+  return live >= planned ? "published" : "partially-published";
+};
+
+export const toSummary = (campaign: Campaign): CampaignSummary => {
+  const active =
+    campaign.generations.find((generation) => generation.id === campaign.activeGenerationId) ??
+    campaign.generations[campaign.generations.length - 1];
+  return {
+    id: campaign.id,
+    title: campaign.title,
+    updatedAt: campaign.updatedAt,
+    generationCount: campaign.generations.length,
+    publishState: campaign.publishState,
+    platforms: active?.request.platforms ?? [],
+    reviewState: campaign.review?.state ?? "draft",
+    ...(campaign.series ? { series: campaign.series } : {}),
+  };
+};
+
+export const listCampaigns = async (filter: { workspaceId?: string } = {}) =>
+  (await store.list())
+    .filter((campaign) => !filter.workspaceId || campaign.workspaceId === filter.workspaceId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(toSummary);
+
+export const campaignIdsIn = async (workspaceId: string) =>
+  (await store.list())
+    .filter((campaign) => campaign.workspaceId === workspaceId)
+    .map((campaign) => campaign.id);
+
+/** The campaign, or null when it doesn't exist or is in another workspace than the one given. */
+export const getCampaign = async (id: string, workspaceId?: string) => {
+  const campaign = await store.get(id);
+  return campaign && (!workspaceId || campaign.workspaceId === workspaceId) ? campaign : null;
+};
+
+const draft = (now: string, updatedBy?: string): CampaignReview => ({
+  state: "draft",
+  updatedAt: now,
+  ...(updatedBy ? { updatedBy } : {}),
+});
+
+export interface SaveGenerationOptions {
+  workspaceId?: string;
+  series?: SeriesLink;
+}
+
+/**
+ * Records a generation. Runs for an idea that already has a campaign in the workspace are
+ * appended to it so the history can compare them; anything else starts a new campaign. Series
+ * episodes only join campaigns of the same series, so planning a theme twice gives two separate
+ * runs of episodes. New copy needs a fresh review, so the campaign goes back to draft. Raises
+ * campaign.generated for the workspace's webhooks.
+ */
+export const saveGeneration = async (
+  request: AgentRequest,
+  response: AgentResponse,
+  options: SaveGenerationOptions = {}
+) => {
+  const { workspaceId, series } = options;
+  const now = new Date().toISOString();
+  const generation = { id: randomUUID(), createdAt: now, request, response };
+  const existing = (await store.list()).find(
+    (campaign) =>
+      normalizeIdea(campaign.title) === normalizeIdea(request.idea) &&
+      campaign.workspaceId === workspaceId &&
+      campaign.series?.seriesId === series?.seriesId
+  );
+
+  const campaign = existing
+    ? ((await store.update(existing.id, (current) => {
+        const next: Campaign = {
+          ...current,
+          updatedAt: now,
+          activeGenerationId: generation.id,
+          generations: [...current.generations, generation],
+          review: draft(now),
+        };
+        return { ...next, publishState: publishStateFor(next) };
+      })) as Campaign)
+    : await store.put({
+        id: randomUUID(),
+        title: request.idea,
+        createdAt: now,
+        updatedAt: now,
+        activeGenerationId: generation.id,
+        generations: [generation],
+        assets: [],
+        published: [],
+        publishState: "draft",
+        ...(workspaceId ? { workspaceId } : {}),
+        review: draft(now),
+        ...(series ? { series } : {}),
+      });
+  await emitEvent(workspaceId, "campaign.generated", {
+    campaign: toSummary(campaign),
+    generationId: generation.id,
+  });
+  return campaign;
+};
+
+export interface CampaignPatch {
+  title?: string;
+  activeGenerationId?: string;
+  response?: AgentResponse;
+}
+
+export interface UpdateCampaignOptions {
+  // Set for changes that don't touch the copy a reviewer signed off on, e.g. moving a post.
+  keepReview?: boolean;
+  // Shown as who sent the campaign back to draft.
+  updatedBy?: string;
+}
+
+/** Applies an edit. Changing the copy of a reviewed campaign sends it back to draft. */
+export const updateCampaign = (
+  id: string,
+  patch: CampaignPatch,
+  options: UpdateCampaignOptions = {}
+) =>
+  store.update(id, (campaign) => {
+    const activeGenerationId =
+      patch.activeGenerationId &&
+      campaign.generations.some((generation) => generation.id === patch.activeGenerationId)
+        ? patch.activeGenerationId
+        : campaign.activeGenerationId;
+    // Edits always land on the active generation; earlier runs stay untouched for comparison.
+    const generations = patch.response
+      ? campaign.generations.map((generation) =>
+          generation.id === activeGenerationId
+            ? { ...generation, response: patch.response! }
+            : generation
+        )
+      : campaign.generations;
+    const next: Campaign = {
+      ...campaign,
+      title: patch.title ?? campaign.title,
+      activeGenerationId,
+      generations,
+      updatedAt: new Date().toISOString(),
+    };
+    const changed =
+      !options.keepReview &&
+      (patch.response !== undefined || activeGenerationId !== campaign.activeGenerationId);
+    if (changed && (campaign.review?.state ?? "draft") !== "draft") {
+      next.review = draft(next.updatedAt, options.updatedBy);
+    }
+    return { ...next, publishState: publishStateFor(next) };
+  });
+
+/** Applies a change to the stored campaign atomically; used for review state and comments. */
+export const mutateCampaign = (id: string, apply: (campaign: Campaign) => Campaign) =>
+  store.update(id, apply);
+
+/** Hands campaigns saved before workspaces existed to the first workspace. */
+export const adoptCampaigns = async (workspaceId: string) => {
+  for (const campaign of await store.list()) {
+    if (!campaign.workspaceId) {
+      await store.update(campaign.id, (current) => ({ ...current, workspaceId }));
+    }
+  }
+};
+
+/** Appends a live post; used by the scheduler, which may race with edits from the dashboard. */
+export const addPublishedPost = (id: string, post: PublishedPost) =>
+  store.update(id, (campaign) => {
+    const next: Campaign = {
+      ...campaign,
+      published: [...campaign.published, post],
+      updatedAt: new Date().toISOString(),
+    };
+    return { ...next, publishState: publishStateFor(next) };
+  });
+
+/** Mirrors the latest analytics sample onto the live post so summaries show current numbers. */
+export const updatePublishedAnalytics = (
+  id: string,
+  live: Pick<PublishedPost, "platform" | "variantId" | "locale">,
+  analytics: PublishedPost["analytics"]
+) =>
+  store.update(id, (campaign) => ({
+    ...campaign,
+    published: campaign.published.map((post) =>
+      liveKey(post) === liveKey(live) && post.variantId === live.variantId
+        ? { ...post, analytics }
+        : post
+    ),
+  }));
+
+export const deleteCampaign = async (id: string) => {
+  const removed = await store.remove(id);
+  if (removed) {
+    await fs.rm(assetDir(id), { recursive: true, force: true });
+  }
+  return removed;
+};
+
+const safeFileName = (fileName: string) => fileName.replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 120);
+
+export const addAsset = async (
+  campaignId: string,
+  generationId: string,
+  file: { fileName: string; mimeType: string; data: Uint8Array }
+) => {
+  const campaign = await store.get(campaignId);
+  if (!campaign) {
+    return null;
+  }
+  const asset: CampaignAsset = {
+    id: randomUUID(),
+    generationId,
+    kind: "video",
+    fileName: safeFileName(file.fileName),
+    mimeType: file.mimeType,
+    size: file.data.byteLength,
+    createdAt: new Date().toISOString(),
+  };
+  await fs.mkdir(assetDir(campaignId), { recursive: true });
+  await fs.writeFile(path.join(assetDir(campaignId), asset.id), file.data);
+  await store.update(campaignId, (current) => ({
+    ...current,
+    assets: [...current.assets, asset],
+    updatedAt: asset.createdAt,
+  }));
+  await emitEvent(campaign.workspaceId, "video.rendered", { campaignId, asset });
+  return asset;
+};
+
+export const readAsset = async (campaignId: string, assetId: string) => {
+  const campaign = await store.get(campaignId);
+  const asset = campaign?.assets.find((item) => item.id === assetId);
+  if (!asset) {
+    return null;
+  }
+  const data = await fs.readFile(path.join(assetDir(campaignId), asset.id));
+  return { asset, data };
+};
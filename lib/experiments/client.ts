@@ -0,0 +1,28 @@
+import type { Experiment, ExperimentRequest } from "@/types/experiment";
+import type { PublishJob } from "@/types/schedule";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    // Setup problems (a platform already live, too few variants) come back as a single issue.
+    throw new Error(
+      payload.issues?.[0]?.message ?? payload.error ?? `Request failed with ${response.status}`
+    );
+  }
+  return (await response.json()) as T;
+};
+
+export const fetchExperiments = async (campaignId: string) =>
+  (await request<{ experiments: Experiment[] }>(`/api/campaigns/${campaignId}/experiments`))
+    .experiments;
+
+export const startExperiment = (campaignId: string, experiment: ExperimentRequest) =>
+  request<{ experiment: Experiment; jobs: PublishJob[] }>(
+    `/api/campaigns/${campaignId}/experiments`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(experiment),
+    }
+  );
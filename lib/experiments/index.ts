@@ -0,0 +1,187 @@
+import { randomUUID } from "crypto";
+import type { Experiment, ExperimentRequest, VariantResult } from "@/types/experiment";
+import { getCampaign } from "@/lib/campaigns";
+import { liveKey } from "@/lib/localization";
+import { listMetrics } from "@/lib/analytics";
+import {
+  countsAtAge,
+  engagementRate,
+  hoursSincePublish,
+  latestSample,
+} from "@/lib/analytics/summary";
+import { canPublish, reviewStateOf } from "@/lib/review/state";
+import { ApprovalRequiredError, enqueuePosts, listJobs } from "@/lib/schedule";
+import { resolveRunAt } from "@/lib/schedule/time";
+import { createJsonStore } from "@/lib/store/fileStore";
+import { variantLabel, variantTake } from "@/lib/agent/variants";
+import { confidenceThatBeats, metricValue } from "./stats";
+
+const store = createJsonStore<Experiment>("experiments");
+
+const HOUR_MS = 60 * 60 * 1000;
+// Counts are compared a week in at the latest; a test still undecided then is inconclusive.
+const FINAL_AGE_HOURS = 24 * 7;
+
+/** Raised for a test the campaign can't run, e.g. an unknown variant or a platform already live. */
+export class ExperimentSetupError extends Error {
+  path: string;
+
+  constructor(message: string, path: string) {
+    super(message);
+    this.name = "ExperimentSetupError";
+    this.path = path;
+  }
+}
+
+export const listExperiments = async (filter: { campaignId?: string } = {}) =>
+  (await store.list())
+    .filter((experiment) => !filter.campaignId || experiment.campaignId === filter.campaignId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * Queues one post per variant on the platform, each `spacingHours` after the previous one,
+ * starting at the post's planned slot (or now, if that has passed).
+ */
+export const startExperiment = async (campaignId: string, request: ExperimentRequest) => {
+  const campaign = await getCampaign(campaignId);
+  if (!campaign) {
+    return null;
+  }
+  const generation = campaign.generations.find((item) => item.id === campaign.activeGenerationId);
+  const variantIds = Array.from(new Set(request.variantIds));
+  if (variantIds.length < 2) {
+    throw new ExperimentSetupError("Pick at least two variants to test", "variantIds");
+  }
+  const posts = variantIds.map((id) => {
+    const take = generation && variantTake(generation.response, id);
+    if (!take) {
+      throw new ExperimentSetupError(
+        `${variantLabel(id)} is not part of this campaign`,
+        "variantIds"
+      );
+    }
+    const post = take.socialPosts.find((item) => item.platform === request.platform);
+    if (!post) {
+      throw new ExperimentSetupError(`No ${request.platform} post to test`, "platform");
+    }
+    return { id, post };
+  });
+  if (campaign.published.some((post) => liveKey(post) === request.platform)) {
+    throw new ExperimentSetupError(`Already live on ${request.platform}`, "platform");
+  }
+  const state = reviewStateOf(campaign);
+  if (!canPublish(state)) {
+    throw new ApprovalRequiredError(state);
+  }
+
+  const now = new Date().toISOString();
+  const experiment = await store.put({
+    id: randomUUID(),
+    campaignId,
+    generationId: campaign.activeGenerationId,
+    platform: request.platform,
+    variantIds,
+    metric: request.metric,
+    confidence: request.confidence,
+    spacingHours: request.spacingHours,
+    status: "running",
+    results: [],
+    createdAt: now,
+    updatedAt: now,
+  });
+  const start = Math.max(
+    new Date(resolveRunAt(posts[0].post.scheduledTime, request.timeZone)).getTime(),
+    Date.now()
+  );
+  const requested = posts.map(({ id, post }, index) => {
+    const runAt = new Date(start + index * request.spacingHours * HOUR_MS).toISOString();
+    return {
+      post: { ...post, scheduledTime: runAt },
+      runAt,
+      experimentId: experiment.id,
+      variantId: id,
+    };
+  });
+  // A test with nothing queued would sit "running" forever.
+  const jobs = await enqueuePosts(campaign, request.timeZone, requested).catch(async (error) => {
+    await store.remove(experiment.id);
+    throw error;
+  });
+  return { experiment, jobs };
+};
+
+const evaluate = async (experiment: Experiment, now: Date): Promise<Experiment> => {
+  const updatedAt = now.toISOString();
+  const jobs = (await listJobs({ campaignId: experiment.campaignId })).filter(
+    (job) => job.experimentId === experiment.id
+  );
+  const campaign = await getCampaign(experiment.campaignId);
+  if (!campaign || jobs.some((job) => job.status === "cancelled")) {
+    return { ...experiment, status: "cancelled", updatedAt };
+  }
+
+  const metrics = await listMetrics({ campaignId: experiment.campaignId });
+  const series = experiment.variantIds.map((variantId) => {
+    const post = campaign.published.find(
+      (item) => liveKey(item) === experiment.platform && item.variantId === variantId
+    );
+    return metrics.find(
+      (item) =>
+        post &&
+        item.platform === post.platform &&
+        item.variantId === variantId &&
+        item.publishedAt === post.publishedAt &&
+        item.samples.length > 0
+    );
+  });
+  if (series.some((item) => !item)) {
+    return { ...experiment, updatedAt };
+  }
+
+  // Every variant is compared at the youngest one's age, so earlier slots get no head start.
+  const ages = series.map((item) => hoursSincePublish(item!, latestSample(item!)!.capturedAt));
+  const age = Math.min(FINAL_AGE_HOURS, ...ages);
+  const results = series.map((item, index): VariantResult => {
+    const sample = countsAtAge(item!, age)!;
+    return {
+      variantId: experiment.variantIds[index],
+      views: sample.views,
+      engagements: sample.likes + sample.comments + sample.shares,
+      engagementRate: engagementRate(sample),
+    };
+  });
+  const [leader, ...others] = [...results].sort(
+    (a, b) => metricValue(experiment.metric, b) - metricValue(experiment.metric, a)
+  );
+  const achievedConfidence = Math.min(
+    ...others.map((other) => confidenceThatBeats(experiment.metric, leader, other))
+  );
+  const evaluated: Experiment = {
+    ...experiment,
+    results,
+    comparedAtHours: age,
+    leaderVariantId: leader.variantId,
+    achievedConfidence,
+    updatedAt,
+  };
+  if (achievedConfidence >= experiment.confidence) {
+    return {
+      ...evaluated,
+      status: "decided",
+      winnerVariantId: leader.variantId,
+      decidedAt: updatedAt,
+    };
+  }
+  return age >= FINAL_AGE_HOURS ? { ...evaluated, status: "inconclusive" } : evaluated;
+};
+
+/** Re-scores running tests against the latest samples and declares winners where it can. */
+export const evaluateExperiments = async (now = new Date()) => {
+  const running = (await listExperiments()).filter((experiment) => experiment.status === "running");
+  let decided = 0;
+  for (const experiment of running) {
+    const next = await store.put(await evaluate(experiment, now));
+    decided += next.status === "decided" ? 1 : 0;
+  }
+  return { evaluated: running.length, decided };
+};
@@ -0,0 +1,39 @@
+import type { ExperimentMetric, VariantResult } from "@/types/experiment";
+
+// Abramowitz & Stegun 7.1.26, accurate to about 1e-7: plenty for a go/no-go threshold.
+const erf = (x: number) => {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const coefficients = [1.061405429, -1.453152027, 1.421413741, -0.284496736, 0.254829592];
+  const poly = t * coefficients.reduce((total, coefficient) => total * t + coefficient, 0);
+  return sign * (1 - poly * Math.exp(-x * x));
+};
+
+export const normalCdf = (z: number) => 0.5 * (1 + erf(z / Math.SQRT2));
+
+export const metricValue = (metric: ExperimentMetric, result: VariantResult) =>
+  metric === "views" ? result.views : result.engagementRate;
+
+/**
+ * One-sided confidence that `leader` really beats `other`. Views at the same age are compared as
+ * Poisson counts; engagement uses a two-proportion z-test on engagements per view.
+ */
+export const confidenceThatBeats = (
+  metric: ExperimentMetric,
+  leader: VariantResult,
+  other: VariantResult
+) => {
+  if (metric === "views") {
+    const total = leader.views + other.views;
+    return total > 0 ? normalCdf((leader.views - other.views) / Math.sqrt(total)) : 0.5;
+  }
+  if (leader.views === 0 || other.views === 0) {
+    return 0.5;
+  }
+  const pooled = Math.min(
+    1,
+    (leader.engagements + other.engagements) / (leader.views + other.views)
+  );
+  const error = Math.sqrt(pooled * (1 - pooled) * (1 / leader.views + 1 / other.views));
+  return error > 0 ? normalCdf((leader.engagementRate - other.engagementRate) / error) : 0.5;
+};
@@ -0,0 +1,125 @@
+import type { AgentRequest, AgentResponse, Platform } from "@/types/agent";
+import type { HookResult, InsightBucket, PerformanceInsights } from "@/types/insights";
+import { platformSpecs } from "@/lib/platforms";
+
+const stopWords = new Set(["the", "and", "for", "with", "you", "your", "are", "that", "this"]);
+
+const words = (text: string) =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 2 && !stopWords.has(word))
+  );
+
+const overlap = (left: Set<string>, right: Set<string>) => {
+  const shared = Array.from(left).filter((word) => right.has(word)).length;
+  const total = left.size + right.size - shared;
+  return total > 0 ? shared / total : 0;
+};
+
+export const audienceMatches = (audience: string, other: string) =>
+  audience.trim().toLowerCase() === other.trim().toLowerCase() ||
+  overlap(words(audience), words(other)) >= 0.5;
+
+/**
+ * Word overlap between a hook and a past one, leaving out each campaign's own topic so two hooks
+ * match on how they open rather than on what they were about.
+ */
+export const hookSimilarity = (hook: string, past: HookResult, ignore: string[] = []) => {
+  const skip = words([past.title, ...ignore].join(" "));
+  const strip = (text: string) =>
+    new Set(Array.from(words(text)).filter((word) => !skip.has(word)));
+  return overlap(strip(hook), strip(past.hook));
+};
+
+export const lengthLabel = (seconds: number) =>
+  seconds < 45 ? "under 45s" : seconds <= 75 ? "45–75s" : "over 75s";
+
+/** The hour a platform's posts did best at, when that beat a typical post. */
+export const bestHourFor = (insights: PerformanceInsights | null | undefined, platform: Platform) =>
+  insights?.bestHours.find((slot) => slot.platform === platform && slot.averageScore > 1);
+
+const times = (score: number) => `${score.toFixed(1)}×`;
+
+const platformList = (items: Platform[]) =>
+  items.map((platform) => platformSpecs[platform].label).join(", ");
+
+const bucketNote = (
+  buckets: InsightBucket[],
+  label: string,
+  describe: (label: string) => string
+) => {
+  const [best] = buckets;
+  const current = buckets.find((item) => item.label === label);
+  // A lone bucket has nothing to be compared against.
+  if (!best || best.posts < 2 || buckets.length < 2) {
+    return null;
+  }
+  if (best.label === label) {
+    return (
+      `${describe(label)} has been your strongest so far ` +
+      `(${times(best.averageScore)} typical views over ${best.posts} campaigns).`
+    );
+  }
+  return current
+    ? `${describe(best.label)} has beaten ${describe(label).toLowerCase()} so far ` +
+        `(${times(best.averageScore)} vs ${times(current.averageScore)} typical views).`
+    : `${describe(best.label)} has been your strongest so far ` +
+        `(${times(best.averageScore)} typical views).`;
+};
+
+/**
+ * Attaches a "why this hook" rationale that points at the past hooks it resembles. A summary the
+ * provider wrote is kept; the references and notes always come from the insights themselves.
+ */
+export const explainHook = (
+  response: AgentResponse,
+  request: AgentRequest,
+  insights: PerformanceInsights
+): AgentResponse => {
+  const ignore = [request.idea, request.targetAudience];
+  const ranked = insights.topHooks
+    .map((past) => ({ past, similarity: hookSimilarity(response.hook, past, ignore) }))
+    .sort((a, b) => b.similarity - a.similarity || b.past.score - a.past.score);
+  const closest = ranked[0];
+  const [worst] = insights.bottomHooks;
+  const avoided = worst && hookSimilarity(response.hook, worst, ignore) < 0.2 ? worst : null;
+
+  const summary =
+    closest && closest.similarity > 0
+      ? `Modeled on "${closest.past.hook}", which reached ${times(closest.past.score)} your ` +
+        `typical views on ${platformList(closest.past.platforms)}.`
+      : closest
+        ? `No past hook is a close match; your strongest so far, "${closest.past.hook}", ` +
+          `reached ${times(closest.past.score)} your typical views.`
+        : "None of your past hooks beat a typical post yet, so this one avoids their patterns.";
+
+  const notes = [
+    insights.scope === "all"
+      ? `Too few posts for ${request.targetAudience} yet, so results from every audience were used.`
+      : null,
+    avoided
+      ? `Steers away from "${avoided.hook}", which reached only ` +
+        `${times(avoided.score)} typical views.`
+      : null,
+    bucketNote(insights.tones, request.tone.trim().toLowerCase(), (label) => `A ${label} tone`),
+    bucketNote(insights.lengths, lengthLabel(request.lengthSeconds), (label) => `Running ${label}`),
+    ...response.socialPosts.map((post) => {
+      const slot = bestHourFor(insights, post.platform);
+      return slot && new Date(post.scheduledTime).getUTCHours() === slot.hour
+        ? `${platformSpecs[post.platform].label} is slotted at ${slot.hour}:00 UTC, where your ` +
+            `posts averaged ${times(slot.averageScore)} typical views.`
+        : null;
+    }),
+  ].filter((note): note is string => Boolean(note));
+
+  return {
+    ...response,
+    rationale: {
+      summary: response.rationale?.summary || summary,
+      notes,
+      references: ranked.slice(0, 2).map((item) => item.past),
+    },
+  };
+};
@@ -0,0 +1,211 @@
+import type { AgentRequest, Platform } from "@/types/agent";
+import type { Campaign, CampaignGeneration, PublishedPost } from "@/types/campaign";
+import type {
+  HookResult,
+  InsightBucket,
+  PerformanceInsights,
+  PostingHour,
+} from "@/types/insights";
+import { getCampaign, listCampaigns } from "@/lib/campaigns";
+import { listMetrics } from "@/lib/analytics";
+import { countsAtAge, engagementRate } from "@/lib/analytics/summary";
+import { audienceMatches, lengthLabel } from "./explain";
+
+export { explainHook } from "./explain";
+
+// Below this there is more noise than signal, so generation runs without insights.
+const MIN_POSTS = 3;
+const HOOKS_PER_SIDE = 3;
+const WEEK_HOURS = 24 * 7;
+
+interface ScoredPost {
+  campaign: Campaign;
+  generation: CampaignGeneration;
+  post: PublishedPost;
+  hook: string;
+  views: number;
+  engagementRate: number;
+  score: number;
+}
+
+const variantOf = (generation: CampaignGeneration, post: PublishedPost) =>
+  generation.response.variants?.find((variant) => variant.id === post.variantId);
+
+// Posts keep the copy they went out with, so the caption finds the generation behind them.
+const generationFor = (campaign: Campaign, post: PublishedPost) =>
+  campaign.generations.find((generation) =>
+    [generation.response, ...(generation.response.variants ?? [])].some((take) =>
+      take.socialPosts.some(
+        (item) => item.platform === post.platform && item.caption === post.caption
+      )
+    )
+  ) ??
+  [...campaign.generations]
+    .reverse()
+    .find((generation) => generation.createdAt <= post.publishedAt) ??
+  campaign.generations.find((generation) => generation.id === campaign.activeGenerationId);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const average = (values: number[]) =>
+  values.reduce((total, value) => total + value, 0) / Math.max(1, values.length);
+
+const scorePosts = async (platforms: Platform[], workspaceId?: string) => {
+  const metrics = await listMetrics();
+  const campaigns = await Promise.all(
+    (await listCampaigns({ workspaceId })).map((summary) => getCampaign(summary.id))
+  );
+  const posts: Omit<ScoredPost, "score">[] = [];
+  for (const campaign of campaigns) {
+    for (const post of campaign?.published ?? []) {
+      const generation = campaign && generationFor(campaign, post);
+      if (!campaign || !generation || !platforms.includes(post.platform)) {
+        continue;
+      }
+      const series = metrics.find(
+        (item) =>
+          item.campaignId === campaign.id &&
+          item.platform === post.platform &&
+          item.variantId === post.variantId &&
+          item.publishedAt === post.publishedAt
+      );
+      // A week in is where most short-form posts settle; younger posts use their latest sample.
+      const counts = (series && countsAtAge(series, WEEK_HOURS)) ?? {
+        ...post.analytics,
+        shares: 0,
+      };
+      if (counts.views > 0) {
+        posts.push({
+          campaign,
+          generation,
+          post,
+          // An A/B test post went out with its variant's hook.
+          hook: (post.variantId && variantOf(generation, post)?.hook) || generation.response.hook,
+          views: counts.views,
+          engagementRate: engagementRate(counts),
+        });
+      }
+    }
+  }
+  // Views are compared within a platform: 2,000 views is a lot on LinkedIn and little on TikTok.
+  const medians = new Map(
+    platforms.map((platform) => [
+      platform,
+      median(posts.filter((item) => item.post.platform === platform).map((item) => item.views)),
+    ])
+  );
+  return posts.map(
+    (item): ScoredPost => ({ ...item, score: item.views / (medians.get(item.post.platform) || 1) })
+  );
+};
+
+const toHookResults = (posts: ScoredPost[]) => {
+  const byGeneration = new Map<string, ScoredPost[]>();
+  posts.forEach((item) => {
+    const key = `${item.campaign.id}:${item.generation.id}:${item.post.variantId ?? ""}`;
+    byGeneration.set(key, [...(byGeneration.get(key) ?? []), item]);
+  });
+  return Array.from(byGeneration.values(), (group): HookResult => {
+    const { campaign, generation, hook } = group[0];
+    return {
+      campaignId: campaign.id,
+      title: campaign.title,
+      hook,
+      tone: generation.request.tone,
+      lengthSeconds: generation.request.lengthSeconds,
+      platforms: group.map((item) => item.post.platform),
+      views: group.reduce((total, item) => total + item.views, 0),
+      engagementRate: average(group.map((item) => item.engagementRate)),
+      score: average(group.map((item) => item.score)),
+    };
+  }).sort((a, b) => b.score - a.score);
+};
+
+const bucket = (hooks: HookResult[], labelFor: (hook: HookResult) => string) => {
+  const groups = new Map<string, HookResult[]>();
+  hooks.forEach((hook) => {
+    const label = labelFor(hook);
+    groups.set(label, [...(groups.get(label) ?? []), hook]);
+  });
+  return Array.from(groups, ([label, group]): InsightBucket => ({
+    label,
+    posts: group.length,
+    averageScore: average(group.map((hook) => hook.score)),
+  })).sort((a, b) => b.averageScore - a.averageScore);
+};
+
+const bestHours = (posts: ScoredPost[], platforms: Platform[]) =>
+  platforms.flatMap((platform) => {
+    const hours = new Map<number, number[]>();
+    posts
+      .filter((item) => item.post.platform === platform)
+      .forEach((item) => {
+        const hour = new Date(item.post.publishedAt).getUTCHours();
+        hours.set(hour, [...(hours.get(hour) ?? []), item.score]);
+      });
+    const ranked = Array.from(hours, ([hour, scores]): PostingHour => ({
+      platform,
+      hour,
+      posts: scores.length,
+      averageScore: average(scores),
+    })).sort((a, b) => b.averageScore - a.averageScore);
+    return ranked.slice(0, 1);
+  });
+
+/**
+ * Summarizes how the team's published posts did for this audience and these platforms: which
+ * hooks, tones, lengths and posting hours beat a typical post and which fell short. Returns null
+ * while there are too few measured posts to say anything.
+ */
+export const buildInsights = async (
+  request: Pick<AgentRequest, "targetAudience" | "platforms">,
+  workspaceId?: string
+): Promise<PerformanceInsights | null> => {
+  const scored = await scorePosts(request.platforms, workspaceId);
+  const matching = scored.filter((item) =>
+    audienceMatches(item.generation.request.targetAudience, request.targetAudience)
+  );
+  const scope = matching.length >= MIN_POSTS ? "audience" : "all";
+  const posts = scope === "audience" ? matching : scored;
+  if (posts.length < MIN_POSTS) {
+    return null;
+  }
+
+  const hooks = toHookResults(posts);
+  const top = hooks.filter((hook) => hook.score >= 1).slice(0, HOOKS_PER_SIDE);
+  const bottom = hooks
+    .filter((hook) => hook.score < 1)
+    .reverse()
+    .slice(0, HOOKS_PER_SIDE);
+  return {
+    scope,
+    targetAudience: request.targetAudience,
+    platforms: request.platforms,
+    posts: posts.length,
+    topHooks: top,
+    bottomHooks: bottom,
+    tones: bucket(hooks, (hook) => hook.tone.trim().toLowerCase()),
+    lengths: bucket(hooks, (hook) => lengthLabel(hook.lengthSeconds)),
+    bestHours: bestHours(posts, request.platforms),
+  };
+};
+
+/**
+ * Insights for a generation run, drawn from the workspace's own posts; failing to read them
+ * costs the steering, not the run.
+ */
+export const insightsFor = async (request: AgentRequest, workspaceId?: string) => {
+  if (request.learnFromResults === false) {
+    return null;
+  }
+  try {
+    return await buildInsights(request, workspaceId);
+  } catch (error) {
+    console.warn("Failed to load past performance", error);
+    return null;
+  }
+};
@@ -0,0 +1,91 @@
+import type { AgentRequest, AgentResponse, Localization } from "@/types/agent";
+import type { PublishedPost } from "@/types/campaign";
+import { rtlLocales, type Locale } from "@/types/locale";
+
+export type TextDirection = "ltr" | "rtl";
+
+export const sourceLocale = (request: Pick<AgentRequest, "locales">): Locale =>
+  request.locales?.[0] ?? "en";
+
+export const translationLocales = (request: Pick<AgentRequest, "locales">) =>
+  Array.from(new Set(request.locales ?? [])).filter((locale) => locale !== sourceLocale(request));
+
+export const textDirection = (locale: Locale): TextDirection =>
+  rtlLocales.includes(locale) ? "rtl" : "ltr";
+
+/** Identifies a live slot: one post per platform and language, whatever its variant. */
+export const liveKey = (post: Pick<PublishedPost, "platform" | "locale">) =>
+  post.locale ? `${post.platform}:${post.locale}` : post.platform;
+
+export const localizationFor = (response: AgentResponse, locale: Locale) =>
+  response.localizations?.find((item) => item.locale === locale) ?? null;
+
+/**
+ * The campaign as it reads in one locale: translated copy over the source's timing, animation
+ * and visuals. Variants are source-language takes, so a localized campaign has none.
+ */
+export const localizeResponse = (
+  response: AgentResponse,
+  localization: Localization | null
+): AgentResponse => {
+  if (!localization) {
+    return response;
+  }
+  const { variants, activeVariantId, ...rest } = response;
+  return {
+    ...rest,
+    hook: localization.hook,
+    script: localization.script,
+    scenes: response.scenes.map((scene) => {
+      const localized = localization.scenes.find((item) => item.id === scene.id);
+      return localized
+        ? { ...scene, title: localized.title, narration: localized.narration }
+        : scene;
+    }),
+    socialPosts: response.socialPosts.map(
+      (post) => localization.socialPosts.find((item) => item.platform === post.platform) ?? post
+    ),
+  };
+};
+
+/** The source copy, unchanged, as the starting point for a hand translation. */
+export const copyAsLocalization = (response: AgentResponse, locale: Locale): Localization => ({
+  locale,
+  hook: response.hook,
+  script: response.script,
+  scenes: response.scenes.map(({ id, title, narration }) => ({ id, title, narration })),
+  socialPosts: response.socialPosts,
+  translated: false,
+});
+
+/**
+ * Folds an edit made while viewing one locale back into the campaign: the copy goes to that
+ * locale's localization, while timing, animation and visuals stay shared with the source.
+ */
+export const mergeLocalizedEdit = (
+  response: AgentResponse,
+  edited: AgentResponse,
+  locale: Locale
+): AgentResponse => {
+  const current = localizationFor(response, locale);
+  if (!current) {
+    return edited;
+  }
+  const localization: Localization = {
+    ...current,
+    hook: edited.hook,
+    script: edited.script,
+    scenes: edited.scenes.map(({ id, title, narration }) => ({ id, title, narration })),
+    socialPosts: edited.socialPosts,
+  };
+  return {
+    ...response,
+    scenes: edited.scenes.map((scene) => {
+      const source = response.scenes.find((item) => item.id === scene.id);
+      return source ? { ...scene, title: source.title, narration: source.narration } : scene;
+    }),
+    localizations: response.localizations?.map((item) =>
+      item.locale === locale ? localization : item
+    ),
+  };
+};
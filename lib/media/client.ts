@@ -0,0 +1,159 @@
+import type { ScenePlan } from "@/types/agent";
+import type {
+  GenerateImageRequest,
+  MediaAsset,
+  MediaCandidate,
+  MediaKind,
+  MediaMatch,
+  MediaProviders,
+} from "@/types/media";
+import type { SceneVisualSource, SceneVisuals } from "@/lib/video/visuals";
+import type { MediaPatch } from "./index";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(
+      payload.issues?.[0]?.message ?? payload.error ?? `Request failed with ${response.status}`
+    );
+  }
+  return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+};
+
+const postJson = <T>(input: string, body: unknown) =>
+  request<T>(input, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+export const mediaFileUrl = (id: string) => `/api/media/${id}`;
+
+export const fetchMediaProviders = () => request<MediaProviders>("/api/media/providers");
+
+export const searchLibrary = async (query: string, kind?: MediaKind) => {
+  const params = new URLSearchParams({ q: query });
+  if (kind) {
+    params.set("kind", kind);
+  }
+  return (await request<{ matches: MediaMatch[] }>(`/api/media/search?${params}`)).matches;
+};
+
+export const matchVisuals = async (directions: string[]) =>
+  (await postJson<{ matches: (MediaMatch | null)[] }>("/api/media/match", { directions }))
+    .matches;
+
+export const searchStock = async (query: string, kind: MediaKind) => {
+  const params = new URLSearchParams({ q: query, kind });
+  return (await request<{ candidates: MediaCandidate[] }>(`/api/media/stock?${params}`))
+    .candidates;
+};
+
+export const importStock = (candidate: MediaCandidate) =>
+  postJson<MediaAsset>("/api/media/stock", {
+    provider: candidate.provider,
+    externalId: candidate.externalId,
+    kind: candidate.kind,
+  });
+
+export const generateImage = (payload: GenerateImageRequest) =>
+  postJson<MediaAsset>("/api/media/generate", payload);
+
+export const uploadMedia = (file: File, details: { description: string; tags: string[] }) => {
+  const params = new URLSearchParams({
+    kind: file.type.startsWith("video/") ? "video" : "image",
+    fileName: file.name,
+    description: details.description,
+    tags: details.tags.join(","),
+  });
+  return request<MediaAsset>(`/api/media?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+  });
+};
+
+export const patchMedia = (id: string, patch: MediaPatch) =>
+  request<MediaAsset>(mediaFileUrl(id), {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+
+export const removeMedia = (id: string) => request<void>(mediaFileUrl(id), { method: "DELETE" });
+
+const loadVideo = (blob: Blob) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Could not decode a scene clip"));
+    video.src = URL.createObjectURL(blob);
+  });
+
+const seekVideo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve) => {
+    // Within half a frame is close enough; seeking is the slow part of a clip render.
+    if (Math.abs(video.currentTime - time) <= 1 / 60) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      video.removeEventListener("seeked", done);
+      resolve();
+    };
+    video.addEventListener("seeked", done);
+    video.currentTime = time;
+  });
+
+const loadVisual = async (id: string, kind: MediaKind): Promise<SceneVisualSource> => {
+  const response = await fetch(mediaFileUrl(id));
+  if (!response.ok) {
+    throw new Error(`Scene visual ${id} could not be loaded`);
+  }
+  const blob = await response.blob();
+  if (kind === "image") {
+    const image = await createImageBitmap(blob);
+    return { image, width: image.width, height: image.height, clip: null };
+  }
+  const video = await loadVideo(blob);
+  return {
+    image: video,
+    width: video.videoWidth,
+    height: video.videoHeight,
+    clip: { duration: video.duration, seek: (time) => seekVideo(video, time) },
+  };
+};
+
+/**
+ * Decodes every asset the scenes point at, once each. A missing or broken asset is skipped so the
+ * scene falls back to its gradient rather than failing the render.
+ */
+export const loadSceneVisuals = async (scenes: ScenePlan[]): Promise<SceneVisuals> => {
+  const visuals: SceneVisuals = new Map();
+  for (const scene of scenes) {
+    if (!scene.visual || visuals.has(scene.visual.assetId)) {
+      continue;
+    }
+    try {
+      visuals.set(scene.visual.assetId, await loadVisual(scene.visual.assetId, scene.visual.kind));
+    } catch (err) {
+      console.warn("Skipping scene visual", err);
+    }
+  }
+  return visuals;
+};
+
+export const releaseSceneVisuals = (visuals: SceneVisuals) => {
+  visuals.forEach((source) => {
+    if (source.image instanceof HTMLVideoElement) {
+      URL.revokeObjectURL(source.image.src);
+    } else if (source.image instanceof ImageBitmap) {
+      source.image.close();
+    }
+  });
+  visuals.clear();
+};
@@ -0,0 +1,39 @@
+import type { ImageGenerator, ImageProviderId, StockProvider, StockProviderId } from "./types";
+import { createOpenAIImageGenerator } from "./providers/openai";
+import { createPexelsProvider } from "./providers/pexels";
+
+export interface MediaConfig {
+  stock: StockProviderId;
+  image: ImageProviderId;
+  pexels: {
+    baseUrl: string;
+    apiKey?: string;
+  };
+  openai: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+  };
+}
+
+export const readMediaConfig = (env: NodeJS.ProcessEnv = process.env): MediaConfig => ({
+  stock: env.MEDIA_STOCK_PROVIDER === "pexels" ? "pexels" : "none",
+  image: env.MEDIA_IMAGE_PROVIDER === "openai" ? "openai" : "none",
+  pexels: {
+    baseUrl: env.PEXELS_BASE_URL ?? "https://api.pexels.com",
+    apiKey: env.PEXELS_API_KEY,
+  },
+  openai: {
+    baseUrl: env.MEDIA_OPENAI_BASE_URL ?? env.AGENT_OPENAI_BASE_URL ?? "https://api.openai.com/v1",
+    apiKey: env.MEDIA_OPENAI_API_KEY ?? env.AGENT_OPENAI_API_KEY,
+    model: env.MEDIA_OPENAI_MODEL ?? "gpt-image-1",
+  },
+});
+
+export const createStockProvider = (config: MediaConfig): StockProvider | null =>
+  config.stock === "pexels" && config.pexels.apiKey
+    ? createPexelsProvider({ baseUrl: config.pexels.baseUrl, apiKey: config.pexels.apiKey })
+    : null;
+
+export const createImageGenerator = (config: MediaConfig): ImageGenerator | null =>
+  config.image === "openai" ? createOpenAIImageGenerator(config.openai) : null;
@@ -0,0 +1,62 @@
+// Common words that say nothing about what a picture shows.
+const stopWords = new Set(
+  (
+    "a an and are as at be by for from in into is it its of on or over the their then this " +
+    "to under up with show shows showing shot shots scene close wide view"
+  ).split(" ")
+);
+
+const DIMENSIONS = 256;
+
+// Folds plurals and verb endings together so "charts" finds "chart" and "typing" finds "type".
+const stem = (word: string) => {
+  if (word.length > 5 && word.endsWith("ing")) {
+    return word.slice(0, -3);
+  }
+  if (word.length > 4 && word.endsWith("ies")) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 4 && word.endsWith("ed")) {
+    return word.slice(0, -2);
+  }
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) {
+    return word.slice(0, -1);
+  }
+  return word;
+};
+
+export const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !stopWords.has(word))
+    .map(stem);
+
+// FNV-1a; stable across runs, so stored vectors stay comparable.
+const hash = (token: string) => {
+  let value = 0x811c9dc5;
+  for (let index = 0; index < token.length; index += 1) {
+    value ^= token.charCodeAt(index);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+/**
+ * A hashed bag-of-words vector, unit length. Cheap and dependency-free, and close enough for
+ * matching a scene's visual direction against short descriptions and tags.
+ */
+export const embed = (weighted: { text: string; weight: number }[]) => {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  weighted.forEach(({ text, weight }) =>
+    tokenize(text).forEach((token) => {
+      const bucket = hash(token);
+      vector[bucket % DIMENSIONS] += bucket & 0x80000000 ? -weight : weight;
+    })
+  );
+  const norm = Math.hypot(...vector);
+  return norm === 0 ? vector : vector.map((value) => Math.round((value / norm) * 1e4) / 1e4);
+};
+
+export const cosine = (a: number[], b: number[]) =>
+  a.reduce((sum, value, index) => sum + value * (b[index] ?? 0), 0);
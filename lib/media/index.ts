@@ -0,0 +1,212 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { GenerateImageRequest, MediaAsset, MediaKind, MediaMatch } from "@/types/media";
+import { createJsonStore, dataDir } from "@/lib/store/fileStore";
+import { cosine, embed } from "./embedding";
+import type { ImageGenerator, MediaContext, StockProvider } from "./types";
+
+export { createImageGenerator, createStockProvider, readMediaConfig } from "./config";
+
+interface IndexedMedia extends MediaAsset {
+  vector: number[];
+}
+
+const store = createJsonStore<IndexedMedia>("media");
+
+const mediaDir = () => path.join(dataDir(), "media");
+
+const safeFileName = (fileName: string) => fileName.replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 120);
+
+// Tags are chosen on purpose, so they count for more than words in a long description.
+const vectorFor = (asset: Pick<MediaAsset, "description" | "tags" | "fileName">) =>
+  embed([
+    { text: asset.description, weight: 1 },
+    { text: asset.tags.join(" "), weight: 2 },
+    { text: asset.fileName.replace(/\.[^.]+$/, ""), weight: 0.5 },
+  ]);
+
+const toAsset = (item: IndexedMedia): MediaAsset => {
+  const { vector, ...asset } = item;
+  return asset;
+};
+
+const inWorkspace = (item: IndexedMedia, workspaceId?: string) =>
+  !workspaceId || item.workspaceId === workspaceId;
+
+/** The asset, or null when it doesn't exist or is in another workspace than the one given. */
+export const getMedia = async (id: string, workspaceId?: string) => {
+  const found = await store.get(id);
+  return found && inWorkspace(found, workspaceId) ? toAsset(found) : null;
+};
+
+export const listMedia = async (filter: { workspaceId?: string; kind?: MediaKind } = {}) =>
+  (await store.list())
+    .filter((item) => inWorkspace(item, filter.workspaceId))
+    .filter((item) => !filter.kind || item.kind === filter.kind)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toAsset);
+
+export type NewMedia = Omit<MediaAsset, "id" | "size" | "workspaceId" | "createdAt"> & {
+  workspaceId: string;
+  data: Uint8Array;
+};
+
+export const addMedia = async ({ data, ...file }: NewMedia) => {
+  const asset: MediaAsset = {
+    ...file,
+    id: randomUUID(),
+    fileName: safeFileName(file.fileName),
+    tags: file.tags.map((tag) => tag.trim()).filter((tag) => tag.length > 0),
+    size: data.byteLength,
+    createdAt: new Date().toISOString(),
+  };
+  await fs.mkdir(mediaDir(), { recursive: true });
+  await fs.writeFile(path.join(mediaDir(), asset.id), data);
+  await store.put({ ...asset, vector: vectorFor(asset) });
+  return asset;
+};
+
+export type MediaPatch = Partial<Pick<MediaAsset, "description" | "tags">>;
+
+export const updateMedia = async (id: string, patch: MediaPatch) => {
+  const updated = await store.update(id, (current) => {
+    const next = { ...current, ...patch };
+    return { ...next, vector: vectorFor(next) };
+  });
+  return updated ? toAsset(updated) : null;
+};
+
+export const deleteMedia = async (id: string) => {
+  const removed = await store.remove(id);
+  if (removed) {
+    await fs.rm(path.join(mediaDir(), id), { force: true });
+  }
+  return removed;
+};
+
+/** Hands media added before workspaces existed to the first workspace. */
+export const adoptMedia = async (workspaceId: string) => {
+  for (const item of await store.list()) {
+    if (!item.workspaceId) {
+      await store.update(item.id, (current) => ({ ...current, workspaceId }));
+    }
+  }
+};
+
+export const readMediaFile = async (id: string, workspaceId?: string) => {
+  const asset = await getMedia(id, workspaceId);
+  if (!asset) {
+    return null;
+  }
+  const data = await fs.readFile(path.join(mediaDir(), asset.id));
+  return { asset, data };
+};
+
+/** Ranks a workspace's library against free text, typically a scene's visual direction. */
+export const searchMedia = async (
+  query: string,
+  options: { workspaceId?: string; kind?: MediaKind; limit?: number; minScore?: number } = {}
+): Promise<MediaMatch[]> => {
+  const { workspaceId, kind, limit = 12, minScore = 0.05 } = options;
+  const vector = embed([{ text: query, weight: 1 }]);
+  return (await store.list())
+    .filter((item) => inWorkspace(item, workspaceId) && (!kind || item.kind === kind))
+    .map((item) => ({ asset: toAsset(item), score: Math.max(0, cosine(vector, item.vector)) }))
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+// Below this a match is more likely noise than the picture the scene asked for.
+const AUTO_MATCH_SCORE = 0.25;
+
+/**
+ * Best library asset per visual direction, or null where nothing is close enough. An asset
+ * already used for an earlier scene only wins again when there is no other close match.
+ */
+export const matchVisuals = async (directions: string[], workspaceId?: string) => {
+  const used = new Set<string>();
+  const matches: (MediaMatch | null)[] = [];
+  for (const direction of directions) {
+    const found = await searchMedia(direction, {
+      workspaceId,
+      limit: 5,
+      minScore: AUTO_MATCH_SCORE,
+    });
+    const best = found.find((match) => !used.has(match.asset.id)) ?? found[0] ?? null;
+    if (best) {
+      used.add(best.asset.id);
+    }
+    matches.push(best);
+  }
+  return matches;
+};
+
+// Stock clips are picked at about 1080p, well under this; anything bigger is a mistake upstream.
+const MAX_DOWNLOAD_BYTES = 200 * 1024 * 1024;
+
+const extensionFor = (mimeType: string) =>
+  ({ "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp", "video/mp4": "mp4" })[
+    mimeType
+  ] ?? "bin";
+
+/** Downloads a stock result into the library; null when the provider no longer has it. */
+export const importStockMedia = async (
+  provider: StockProvider,
+  externalId: string,
+  kind: MediaKind,
+  workspaceId: string,
+  context: MediaContext = {}
+) => {
+  const candidate = await provider.find(externalId, kind, context);
+  if (!candidate) {
+    return null;
+  }
+  const response = await fetch(candidate.downloadUrl, { signal: context.signal });
+  if (!response.ok) {
+    throw new Error(`${provider.label} download responded with ${response.status}`);
+  }
+  if (Number(response.headers.get("content-length")) > MAX_DOWNLOAD_BYTES) {
+    throw new Error(`${provider.label} file is larger than the library accepts`);
+  }
+  const mimeType =
+    response.headers.get("content-type")?.split(";")[0] ??
+    (kind === "image" ? "image/jpeg" : "video/mp4");
+  return addMedia({
+    kind,
+    fileName: `${provider.id}-${candidate.externalId}.${extensionFor(mimeType)}`,
+    mimeType,
+    data: new Uint8Array(await response.arrayBuffer()),
+    description: candidate.description,
+    tags: [],
+    source: "stock",
+    provider: provider.id,
+    credit: candidate.credit,
+    width: candidate.width,
+    height: candidate.height,
+    workspaceId,
+  });
+};
+
+export const generateMedia = async (
+  generator: ImageGenerator,
+  request: GenerateImageRequest,
+  workspaceId: string,
+  context: MediaContext = {}
+) => {
+  const image = await generator.generate(request, context);
+  return addMedia({
+    kind: "image",
+    fileName: `generated.${extensionFor(image.mimeType)}`,
+    mimeType: image.mimeType,
+    data: image.data,
+    description: request.prompt,
+    tags: [],
+    source: "generated",
+    provider: generator.id,
+    width: image.width,
+    height: image.height,
+    workspaceId,
+  });
+};
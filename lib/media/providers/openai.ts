@@ -0,0 +1,48 @@
+import type { GenerateImageRequest } from "@/types/media";
+import type { ImageGenerator } from "../types";
+
+export interface OpenAIImageOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+const sizes: Record<GenerateImageRequest["orientation"], { width: number; height: number }> = {
+  portrait: { width: 1024, height: 1536 },
+  landscape: { width: 1536, height: 1024 },
+  square: { width: 1024, height: 1024 },
+};
+
+/** Works with OpenAI and with local servers that mirror its `/images/generations` endpoint. */
+export const createOpenAIImageGenerator = (options: OpenAIImageOptions): ImageGenerator => ({
+  id: "openai",
+  label: "OpenAI images",
+  generate: async (request, context) => {
+    const size = sizes[request.orientation];
+    const response = await fetch(`${options.baseUrl.replace(/\/$/, "")}/images/generations`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: options.model,
+        prompt: request.prompt,
+        size: `${size.width}x${size.height}`,
+        n: 1,
+      }),
+      signal: context.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Image endpoint responded with ${response.status}`);
+    }
+
+    const payload = (await response.json()) as { data?: { b64_json?: string }[] };
+    const encoded = payload.data?.[0]?.b64_json;
+    if (!encoded) {
+      throw new Error("Image endpoint returned no image data");
+    }
+    return { data: new Uint8Array(Buffer.from(encoded, "base64")), mimeType: "image/png", ...size };
+  },
+});
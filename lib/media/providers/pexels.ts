@@ -0,0 +1,120 @@
+import type { MediaCandidate } from "@/types/media";
+import type { StockProvider } from "../types";
+
+export interface PexelsOptions {
+  apiKey: string;
+  baseUrl: string;
+}
+
+interface PexelsPhoto {
+  id: number;
+  width: number;
+  height: number;
+  alt?: string;
+  photographer?: string;
+  src: { large2x: string; medium: string };
+}
+
+interface PexelsVideo {
+  id: number;
+  width: number;
+  height: number;
+  image: string;
+  url?: string;
+  user?: { name?: string };
+  video_files: { link: string; width: number | null; height: number | null; file_type: string }[];
+}
+
+// Pexels page URLs end in a slug of the title, the closest thing videos have to a description.
+const describe = (url = "") =>
+  url
+    .replace(/\/$/, "")
+    .split("/")
+    .pop()
+    ?.replace(/-\d+$/, "")
+    .replace(/-/g, " ") ?? "";
+
+// The smallest MP4 that still covers a 1080px frame keeps downloads and decoding light.
+const pickFile = (video: PexelsVideo) => {
+  const files = video.video_files
+    .filter((file) => file.file_type === "video/mp4" && file.width && file.height)
+    .sort((a, b) => Math.min(a.width!, a.height!) - Math.min(b.width!, b.height!));
+  return files.find((file) => Math.min(file.width!, file.height!) >= 1080) ?? files.pop();
+};
+
+const fromPhoto = (photo: PexelsPhoto, query = ""): MediaCandidate => ({
+  provider: "pexels",
+  externalId: String(photo.id),
+  kind: "image",
+  description: photo.alt || query,
+  previewUrl: photo.src.medium,
+  downloadUrl: photo.src.large2x,
+  width: photo.width,
+  height: photo.height,
+  credit: photo.photographer ? `Photo by ${photo.photographer} on Pexels` : "Pexels",
+});
+
+const fromVideo = (video: PexelsVideo, query = ""): MediaCandidate | null => {
+  const file = pickFile(video);
+  return file
+    ? {
+        provider: "pexels",
+        externalId: String(video.id),
+        kind: "video",
+        description: describe(video.url) || query,
+        previewUrl: video.image,
+        downloadUrl: file.link,
+        width: file.width ?? video.width,
+        height: file.height ?? video.height,
+        credit: video.user?.name ? `Video by ${video.user.name} on Pexels` : "Pexels",
+      }
+    : null;
+};
+
+export const createPexelsProvider = (options: PexelsOptions): StockProvider => {
+  const get = async <T>(path: string, signal?: AbortSignal, params?: URLSearchParams) => {
+    const query = params ? `?${params}` : "";
+    const response = await fetch(`${options.baseUrl.replace(/\/$/, "")}${path}${query}`, {
+      headers: { Authorization: options.apiKey },
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Pexels responded with ${response.status}`);
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+    id: "pexels",
+    label: "Pexels",
+    search: async ({ query, kind, limit }, context) => {
+      const params = new URLSearchParams({
+        query,
+        orientation: "portrait",
+        per_page: String(limit),
+      });
+      if (kind === "image") {
+        const { photos } = await get<{ photos: PexelsPhoto[] }>(
+          "/v1/search",
+          context.signal,
+          params
+        );
+        return photos.map((photo) => fromPhoto(photo, query));
+      }
+      const { videos } = await get<{ videos: PexelsVideo[] }>(
+        "/videos/search",
+        context.signal,
+        params
+      );
+      return videos
+        .map((video) => fromVideo(video, query))
+        .filter((candidate): candidate is MediaCandidate => candidate !== null);
+    },
+    find: async (externalId, kind, context) => {
+      const id = encodeURIComponent(externalId);
+      return kind === "image"
+        ? fromPhoto(await get<PexelsPhoto>(`/v1/photos/${id}`, context.signal))
+        : fromVideo(await get<PexelsVideo>(`/videos/videos/${id}`, context.signal));
+    },
+  };
+};
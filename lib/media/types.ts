@@ -0,0 +1,40 @@
+import type { GenerateImageRequest, MediaCandidate, MediaKind } from "@/types/media";
+
+export type StockProviderId = "none" | "pexels";
+
+export type ImageProviderId = "none" | "openai";
+
+export interface MediaContext {
+  signal?: AbortSignal;
+}
+
+export interface StockQuery {
+  query: string;
+  kind: MediaKind;
+  limit: number;
+}
+
+export interface StockProvider {
+  id: Exclude<StockProviderId, "none">;
+  label: string;
+  search: (query: StockQuery, context: MediaContext) => Promise<MediaCandidate[]>;
+  // Looks a result up again by id, so imports never download from a client-supplied URL.
+  find: (
+    externalId: string,
+    kind: MediaKind,
+    context: MediaContext
+  ) => Promise<MediaCandidate | null>;
+}
+
+export interface GeneratedImage {
+  data: Uint8Array;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export interface ImageGenerator {
+  id: Exclude<ImageProviderId, "none">;
+  label: string;
+  generate: (request: GenerateImageRequest, context: MediaContext) => Promise<GeneratedImage>;
+}
@@ -0,0 +1,62 @@
+import { platforms, type Platform } from "@/types/agent";
+import type { CampaignAsset } from "@/types/campaign";
+import { locales, type Locale } from "@/types/locale";
+
+export type AspectRatio = "9:16" | "4:5" | "1:1" | "16:9";
+
+export interface VideoFormat {
+  aspectRatio: AspectRatio;
+  width: number;
+  height: number;
+}
+
+export interface PlatformSpec {
+  label: string;
+  maxDurationSeconds: number;
+  format: VideoFormat;
+}
+
+export const verticalFormat: VideoFormat = { aspectRatio: "9:16", width: 720, height: 1280 };
+
+export const platformSpecs: Record<Platform, PlatformSpec> = {
+  tiktok: { label: "TikTok", maxDurationSeconds: 180, format: verticalFormat },
+  instagram: {
+    label: "Instagram Reels",
+    maxDurationSeconds: 90,
+    format: { aspectRatio: "4:5", width: 864, height: 1080 },
+  },
+  // Posts go out as Shorts, which are vertical and capped at a minute.
+  youtube: { label: "YouTube Shorts", maxDurationSeconds: 60, format: verticalFormat },
+  linkedin: {
+    label: "LinkedIn",
+    maxDurationSeconds: 600,
+    format: { aspectRatio: "1:1", width: 1080, height: 1080 },
+  },
+};
+
+// Translated cuts carry their locale before the extension; the source language has none.
+const localeSuffix = (locale?: Locale) => (locale ? `.${locale}` : "");
+
+export const renderFileName = (locale?: Locale) => `agentic-video${localeSuffix(locale)}.webm`;
+
+export const exportFileName = (platform: Platform, locale?: Locale) => {
+  const ratio = platformSpecs[platform].format.aspectRatio.replace(":", "x");
+  return `agentic-video-${platform}-${ratio}${localeSuffix(locale)}.webm`;
+};
+
+const fileLocale = (fileName: string) =>
+  locales.find((locale) => fileName.endsWith(`${localeSuffix(locale)}.webm`));
+
+/**
+ * The platform's own export when one was saved, otherwise the latest full render. Only renders in
+ * the requested language count; a post never goes out with another language's video.
+ */
+export const pickVideoAsset = (platform: Platform, renders: CampaignAsset[], locale?: Locale) => {
+  const exports = new Set(platforms.map((item) => exportFileName(item, locale)));
+  const own = renders.filter((asset) => fileLocale(asset.fileName) === locale);
+  return (
+    own.filter((asset) => asset.fileName === exportFileName(platform, locale)).pop() ??
+    own.filter((asset) => !exports.has(asset.fileName)).pop() ??
+    null
+  );
+};
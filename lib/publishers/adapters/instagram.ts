@@ -0,0 +1,115 @@
+import { composeCaption } from "../caption";
+import { trackCheckpoint } from "../checkpoint";
+import { poll, send, sendJson } from "../http";
+import { withToken, type TokenSource } from "../tokens";
+import { PublishError, type Publisher } from "../types";
+
+export interface InstagramOptions {
+  // Graph API root including the version, e.g. https://graph.facebook.com/v19.0
+  baseUrl: string;
+  userId?: string;
+  tokens: TokenSource;
+  poll: { intervalMs: number; timeoutMs: number };
+}
+
+/**
+ * Graph API Reels flow: create a resumable REELS container, upload the bytes to the returned
+ * rupload URI, wait for the container to finish processing, then publish it. A retry resumes
+ * from the uploaded container, or once it is published only looks up the permalink.
+ */
+export const createInstagramPublisher = (options: InstagramOptions): Publisher => ({
+  platform: "instagram",
+  publish: ({ post, video }, context) => {
+    const checkpoint = trackCheckpoint(context);
+    return withToken(options.tokens, async (token) => {
+      if (!options.userId) {
+        throw new PublishError("Instagram is not connected: no business account id configured", {
+          retryable: false,
+        });
+      }
+      const authorization = { Authorization: `Bearer ${token}` };
+      const form = (fields: Record<string, string>) => ({
+        method: "POST",
+        headers: { ...authorization, "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams(fields),
+        signal: context.signal,
+      });
+
+      const upload = async () => {
+        const container = await sendJson<{ id: string; uri: string }>(
+          "Instagram container",
+          `${options.baseUrl}/${options.userId}/media`,
+          form({ media_type: "REELS", upload_type: "resumable", caption: composeCaption(post) })
+        );
+        await send("Instagram upload", container.uri, {
+          method: "POST",
+          headers: {
+            Authorization: `OAuth ${token}`,
+            offset: "0",
+            file_size: String(video.data.byteLength),
+          },
+          body: Buffer.from(video.data),
+          signal: context.signal,
+        });
+        await checkpoint.save({ id: container.id, stage: "upload" });
+        return container.id;
+      };
+
+      const publish = async () => {
+        const containerId = checkpoint.at("upload") ?? (await upload());
+        await poll(
+          "Instagram processing",
+          async () => {
+            const { status_code: statusCode, status } = await sendJson<{
+              status_code: string;
+              status?: string;
+            }>("Instagram status", `${options.baseUrl}/${containerId}?fields=status_code,status`, {
+              headers: authorization,
+              signal: context.signal,
+            });
+            if (statusCode === "ERROR" || statusCode === "EXPIRED") {
+              const reason = status ?? statusCode;
+              await checkpoint.save();
+              throw new PublishError(`Instagram could not process the video: ${reason}`, {
+                retryable: statusCode === "EXPIRED",
+              });
+            }
+            return statusCode === "FINISHED" ? statusCode : null;
+          },
+          { ...options.poll, signal: context.signal }
+        );
+        const media = await sendJson<{ id: string }>(
+          "Instagram publish",
+          `${options.baseUrl}/${options.userId}/media_publish`,
+          form({ creation_id: containerId })
+        );
+        await checkpoint.save({ id: media.id, stage: "post" });
+        return media.id;
+      };
+
+      const mediaId = checkpoint.at("post") ?? (await publish());
+      const { permalink } = await sendJson<{ permalink?: string }>(
+        "Instagram permalink",
+        `${options.baseUrl}/${mediaId}?fields=permalink`,
+        { headers: authorization, signal: context.signal }
+      );
+      return { externalId: mediaId, url: permalink };
+    });
+  },
+  fetchMetrics: (externalId, context) =>
+    withToken(options.tokens, async (token) => {
+      const { data } = await sendJson<{ data: { name: string; values: { value: number }[] }[] }>(
+        "Instagram insights",
+        `${options.baseUrl}/${externalId}/insights?metric=views,likes,comments,shares`,
+        { headers: { Authorization: `Bearer ${token}` }, signal: context.signal }
+      );
+      const metric = (name: string) =>
+        data.find((item) => item.name === name)?.values[0]?.value ?? 0;
+      return {
+        views: metric("views"),
+        likes: metric("likes"),
+        comments: metric("comments"),
+        shares: metric("shares"),
+      };
+    }),
+});
@@ -0,0 +1,153 @@
+import { composeCaption } from "../caption";
+import { poll, send, sendJson } from "../http";
+import { withToken, type TokenSource } from "../tokens";
+import { PublishError, type Publisher } from "../types";
+
+export interface LinkedInOptions {
+  baseUrl: string;
+  // Posting member or organization, e.g. urn:li:organization:123
+  author?: string;
+  version: string;
+  tokens: TokenSource;
+  poll: { intervalMs: number; timeoutMs: number };
+}
+
+interface UploadInstruction {
+  uploadUrl: string;
+  firstByte: number;
+  lastByte: number;
+}
+
+/**
+ * Videos API multipart flow: initialize, PUT each part collecting ETags, finalize, wait for the
+ * video to become AVAILABLE, then create the post that references it.
+ */
+export const createLinkedInPublisher = (options: LinkedInOptions): Publisher => ({
+  platform: "linkedin",
+  publish: ({ post, video }, context) =>
+    withToken(options.tokens, async (token) => {
+      if (!options.author) {
+        throw new PublishError("LinkedIn is not connected: no author URN configured", {
+          retryable: false,
+        });
+      }
+      const headers = {
+        Authorization: `Bearer ${token}`,
+        "LinkedIn-Version": options.version,
+        "X-Restli-Protocol-Version": "2.0.0",
+      };
+      const postJson = (body: unknown) => ({
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: context.signal,
+      });
+
+      const { value } = await sendJson<{
+        value: { video: string; uploadInstructions: UploadInstruction[]; uploadToken: string };
+      }>(
+        "LinkedIn initialize",
+        `${options.baseUrl}/rest/videos?action=initializeUpload`,
+        postJson({
+          initializeUploadRequest: {
+            owner: options.author,
+            fileSizeBytes: video.data.byteLength,
+            uploadCaptions: false,
+            uploadThumbnail: false,
+          },
+        })
+      );
+
+      const partIds: string[] = [];
+      for (const instruction of value.uploadInstructions) {
+        const response = await send("LinkedIn upload", instruction.uploadUrl, {
+          method: "PUT",
+          headers: {
+            Authorization: headers.Authorization,
+            "Content-Type": "application/octet-stream",
+          },
+          body: video.data.slice(instruction.firstByte, instruction.lastByte + 1),
+          signal: context.signal,
+        });
+        partIds.push(response.headers.get("etag") ?? "");
+      }
+
+      await send(
+        "LinkedIn finalize",
+        `${options.baseUrl}/rest/videos?action=finalizeUpload`,
+        postJson({
+          finalizeUploadRequest: {
+            video: value.video,
+            uploadToken: value.uploadToken,
+            uploadedPartIds: partIds,
+          },
+        })
+      );
+
+      await poll(
+        "LinkedIn processing",
+        async () => {
+          const { status } = await sendJson<{ status: string }>(
+            "LinkedIn status",
+            `${options.baseUrl}/rest/videos/${encodeURIComponent(value.video)}`,
+            { headers, signal: context.signal }
+          );
+          if (status === "PROCESSING_FAILED") {
+            throw new PublishError("LinkedIn could not process the video", { retryable: false });
+          }
+          return status === "AVAILABLE" ? status : null;
+        },
+        { ...options.poll, signal: context.signal }
+      );
+
+      const created = await send(
+        "LinkedIn post",
+        `${options.baseUrl}/rest/posts`,
+        postJson({
+          author: options.author,
+          commentary: composeCaption(post),
+          visibility: "PUBLIC",
+          distribution: {
+            feedDistribution: "MAIN_FEED",
+            targetEntities: [],
+            thirdPartyDistributionChannels: [],
+          },
+          content: { media: { id: value.video } },
+          lifecycleState: "PUBLISHED",
+          isReshareDisabledByAuthor: false,
+        })
+      );
+      const urn = created.headers.get("x-restli-id") ?? value.video;
+      return { externalId: urn, url: `https://www.linkedin.com/feed/update/${urn}` };
+    }),
+  fetchMetrics: (externalId, context) =>
+    withToken(options.tokens, async (token) => {
+      const headers = {
+        Authorization: `Bearer ${token}`,
+        "LinkedIn-Version": options.version,
+        "X-Restli-Protocol-Version": "2.0.0",
+      };
+      const urn = encodeURIComponent(externalId);
+      const [actions, views] = await Promise.all([
+        sendJson<{
+          likesSummary?: { totalLikes?: number };
+          commentsSummary?: { aggregatedTotalComments?: number };
+        }>("LinkedIn social actions", `${options.baseUrl}/rest/socialActions/${urn}`, {
+          headers,
+          signal: context.signal,
+        }),
+        sendJson<{ elements: { value: number }[] }>(
+          "LinkedIn video analytics",
+          `${options.baseUrl}/rest/videoAnalytics?q=entity&entity=${urn}&type=VIDEO_VIEW`,
+          { headers, signal: context.signal }
+        ),
+      ]);
+      // Reshares aren't reported for posts the app doesn't own as an organization admin.
+      return {
+        views: views.elements.reduce((total, element) => total + element.value, 0),
+        likes: actions.likesSummary?.totalLikes ?? 0,
+        comments: actions.commentsSummary?.aggregatedTotalComments ?? 0,
+        shares: 0,
+      };
+    }),
+});
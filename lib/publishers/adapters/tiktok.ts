@@ -0,0 +1,157 @@
+import { composeCaption } from "../caption";
+import { trackCheckpoint } from "../checkpoint";
+import { poll, send, sendJson } from "../http";
+import { withToken, type TokenSource } from "../tokens";
+import { PublishError, type Publisher } from "../types";
+
+export interface TikTokOptions {
+  baseUrl: string;
+  tokens: TokenSource;
+  privacyLevel: string;
+  chunkSize: number;
+  poll: { intervalMs: number; timeoutMs: number };
+}
+
+interface TikTokEnvelope<T> {
+  data: T;
+  error: { code: string; message: string };
+}
+
+const VIDEO_STAT_FIELDS = "id,view_count,like_count,comment_count,share_count";
+
+interface TikTokVideoStats {
+  id: string;
+  view_count?: number;
+  like_count?: number;
+  comment_count?: number;
+  share_count?: number;
+}
+
+interface TikTokStatus {
+  status: string;
+  fail_reason?: string;
+  publicaly_available_post_id?: (string | number)[];
+}
+
+// TikTok wants whole chunks; the last one absorbs the remainder (so it can exceed chunkSize).
+const tikTokChunks = (size: number, chunkSize: number) => {
+  if (size <= chunkSize) {
+    return { chunkSize: size, count: 1 };
+  }
+  return { chunkSize, count: Math.floor(size / chunkSize) };
+};
+
+/**
+ * Content Posting API: init a direct post, PUT the file in chunks, poll the publish status. A
+ * fully uploaded video posts on its own, so once its publish_id is saved a retry only polls.
+ */
+export const createTikTokPublisher = (options: TikTokOptions): Publisher => ({
+  platform: "tiktok",
+  publish: ({ post, video }, context) => {
+    const checkpoint = trackCheckpoint(context);
+    return withToken(options.tokens, async (token) => {
+      const authorization = { Authorization: `Bearer ${token}` };
+
+      const upload = async () => {
+        const size = video.data.byteLength;
+        const { chunkSize, count } = tikTokChunks(size, options.chunkSize);
+        const init = await sendJson<TikTokEnvelope<{ publish_id: string; upload_url: string }>>(
+          "TikTok init",
+          `${options.baseUrl}/v2/post/publish/video/init/`,
+          {
+            method: "POST",
+            headers: { ...authorization, "Content-Type": "application/json; charset=UTF-8" },
+            body: JSON.stringify({
+              post_info: {
+                title: composeCaption(post).slice(0, 2200),
+                privacy_level: options.privacyLevel,
+                disable_comment: false,
+              },
+              source_info: {
+                source: "FILE_UPLOAD",
+                video_size: size,
+                chunk_size: chunkSize,
+                total_chunk_count: count,
+              },
+            }),
+            signal: context.signal,
+          }
+        );
+        const { publish_id: publishId, upload_url: uploadUrl } = init.data;
+
+        for (let index = 0; index < count; index += 1) {
+          const start = index * chunkSize;
+          const end = index === count - 1 ? size : start + chunkSize;
+          await send("TikTok upload", uploadUrl, {
+            method: "PUT",
+            headers: {
+              "Content-Type": video.mimeType,
+              "Content-Range": `bytes ${start}-${end - 1}/${size}`,
+            },
+            body: video.data.slice(start, end),
+            signal: context.signal,
+          });
+        }
+        await checkpoint.save({ id: publishId, stage: "post" });
+        return publishId;
+      };
+
+      const publishId = checkpoint.at("post") ?? (await upload());
+      const status = await poll(
+        "TikTok publish",
+        async () => {
+          const { data } = await sendJson<TikTokEnvelope<TikTokStatus>>(
+            "TikTok status",
+            `${options.baseUrl}/v2/post/publish/status/fetch/`,
+            {
+              method: "POST",
+              headers: { ...authorization, "Content-Type": "application/json; charset=UTF-8" },
+              body: JSON.stringify({ publish_id: publishId }),
+              signal: context.signal,
+            }
+          );
+          if (data.status === "FAILED") {
+            await checkpoint.save();
+            throw new PublishError(`TikTok rejected the post: ${data.fail_reason ?? "unknown"}`, {
+              retryable: false,
+            });
+          }
+          return data.status === "PUBLISH_COMPLETE" ? data : null;
+        },
+        { ...options.poll, signal: context.signal }
+      );
+
+      const postId = status.publicaly_available_post_id?.[0];
+      return {
+        externalId: postId ? String(postId) : publishId,
+        url: postId ? `https://www.tiktok.com/video/${postId}` : undefined,
+      };
+    });
+  },
+  fetchMetrics: (externalId, context) =>
+    withToken(options.tokens, async (token) => {
+      const { data } = await sendJson<TikTokEnvelope<{ videos: TikTokVideoStats[] }>>(
+        "TikTok video query",
+        `${options.baseUrl}/v2/video/query/?fields=${VIDEO_STAT_FIELDS}`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json; charset=UTF-8",
+          },
+          body: JSON.stringify({ filters: { video_ids: [externalId] } }),
+          signal: context.signal,
+        }
+      );
+      const stats = data.videos.find((item) => item.id === externalId);
+      if (!stats) {
+        throw new PublishError(`TikTok has no video ${externalId}`, { retryable: false });
+      }
+      return {
+        views: stats.view_count ?? 0,
+        likes: stats.like_count ?? 0,
+        comments: stats.comment_count ?? 0,
+        shares: stats.share_count ?? 0,
+      };
+    }),
+});
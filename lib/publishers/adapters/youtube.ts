@@ -0,0 +1,145 @@
+import { composeCaption, firstLine } from "../caption";
+import { trackCheckpoint } from "../checkpoint";
+import { chunkRanges, poll, send, sendJson } from "../http";
+import { withToken, type TokenSource } from "../tokens";
+import { PublishError, type Publisher } from "../types";
+
+export interface YouTubeOptions {
+  baseUrl: string;
+  tokens: TokenSource;
+  privacyStatus: string;
+  categoryId: string;
+  chunkSize: number;
+  poll: { intervalMs: number; timeoutMs: number };
+}
+
+// Resumable upload chunks must be multiples of 256 KiB, except the last one.
+const CHUNK_GRANULARITY = 256 * 1024;
+
+interface YouTubeVideo {
+  id: string;
+  // Counts arrive as strings; likeCount is missing when the owner hides it.
+  statistics?: { viewCount?: string; likeCount?: string; commentCount?: string };
+  status?: { uploadStatus?: string; failureReason?: string; rejectionReason?: string };
+  processingDetails?: { processingStatus?: string };
+}
+
+/**
+ * Data API resumable upload: open a session, PUT ranges until 200/201, poll processing. Once the
+ * upload has a videoId the video exists, so a retry only polls its processing.
+ */
+export const createYouTubePublisher = (options: YouTubeOptions): Publisher => ({
+  platform: "youtube",
+  publish: ({ post, video }, context) => {
+    const checkpoint = trackCheckpoint(context);
+    return withToken(options.tokens, async (token) => {
+      const authorization = { Authorization: `Bearer ${token}` };
+
+      const upload = async () => {
+        const size = video.data.byteLength;
+        const caption = composeCaption(post);
+        const session = await send(
+          "YouTube upload session",
+          `${options.baseUrl}/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status`,
+          {
+            method: "POST",
+            headers: {
+              ...authorization,
+              "Content-Type": "application/json; charset=UTF-8",
+              "X-Upload-Content-Length": String(size),
+              "X-Upload-Content-Type": video.mimeType,
+            },
+            body: JSON.stringify({
+              snippet: {
+                title: `${firstLine(post.caption, 90)} #Shorts`,
+                description: caption,
+                tags: post.tags,
+                categoryId: options.categoryId,
+              },
+              status: { privacyStatus: options.privacyStatus, selfDeclaredMadeForKids: false },
+            }),
+            signal: context.signal,
+          }
+        );
+        const location = session.headers.get("location");
+        if (!location) {
+          throw new PublishError("YouTube did not return an upload session", { retryable: true });
+        }
+
+        const chunkSize = Math.max(
+          CHUNK_GRANULARITY,
+          Math.floor(options.chunkSize / CHUNK_GRANULARITY) * CHUNK_GRANULARITY
+        );
+        let uploaded: YouTubeVideo | null = null;
+        for (const { start, end } of chunkRanges(size, chunkSize)) {
+          const response = await send("YouTube upload", location, {
+            method: "PUT",
+            headers: {
+              ...authorization,
+              "Content-Type": video.mimeType,
+              "Content-Range": `bytes ${start}-${end - 1}/${size}`,
+            },
+            body: video.data.slice(start, end),
+            signal: context.signal,
+          });
+          // 308 Resume Incomplete until the final range lands.
+          if (response.status !== 308) {
+            uploaded = (await response.json()) as YouTubeVideo;
+          }
+        }
+        if (!uploaded) {
+          throw new PublishError("YouTube upload ended without a video resource", {
+            retryable: true,
+          });
+        }
+        await checkpoint.save({ id: uploaded.id, stage: "post" });
+        return uploaded.id;
+      };
+
+      const videoId = checkpoint.at("post") ?? (await upload());
+      await poll(
+        "YouTube processing",
+        async () => {
+          const { items } = await sendJson<{ items: YouTubeVideo[] }>(
+            "YouTube status",
+            `${options.baseUrl}/youtube/v3/videos?part=status,processingDetails&id=${videoId}`,
+            { headers: authorization, signal: context.signal }
+          );
+          const current = items[0];
+          const uploadStatus = current?.status?.uploadStatus;
+          if (uploadStatus === "failed" || uploadStatus === "rejected") {
+            const reason = current.status?.failureReason ?? current.status?.rejectionReason;
+            await checkpoint.save();
+            throw new PublishError(`YouTube ${uploadStatus} the upload: ${reason ?? "unknown"}`, {
+              retryable: false,
+            });
+          }
+          const processing = current?.processingDetails?.processingStatus;
+          return uploadStatus === "processed" || processing === "succeeded" ? current : null;
+        },
+        { ...options.poll, signal: context.signal }
+      );
+
+      return { externalId: videoId, url: `https://www.youtube.com/shorts/${videoId}` };
+    });
+  },
+  fetchMetrics: (externalId, context) =>
+    withToken(options.tokens, async (token) => {
+      const { items } = await sendJson<{ items: YouTubeVideo[] }>(
+        "YouTube statistics",
+        `${options.baseUrl}/youtube/v3/videos?part=statistics&id=${externalId}`,
+        { headers: { Authorization: `Bearer ${token}` }, signal: context.signal }
+      );
+      const stats = items[0]?.statistics;
+      if (!stats) {
+        throw new PublishError(`YouTube has no video ${externalId}`, { retryable: false });
+      }
+      // The Data API doesn't expose shares.
+      return {
+        views: Number(stats.viewCount ?? 0),
+        likes: Number(stats.likeCount ?? 0),
+        comments: Number(stats.commentCount ?? 0),
+        shares: 0,
+      };
+    }),
+});
@@ -0,0 +1,14 @@
+import type { SocialPostPlan } from "@/types/agent";
+
+/** Caption text as posted: the copy followed by any hashtags it doesn't already contain. */
+export const composeCaption = (post: SocialPostPlan) => {
+  const missing = post.tags
+    .map((tag) => `#${tag.replace(/^#/, "")}`)
+    .filter((tag) => !post.caption.toLowerCase().includes(tag.toLowerCase()));
+  return missing.length > 0 ? `${post.caption}\n\n${missing.join(" ")}` : post.caption;
+};
+
+export const firstLine = (text: string, max: number) => {
+  const line = text.split("\n")[0].trim();
+  return line.length > max ? `${line.slice(0, max - 1).trimEnd()}…` : line;
+};
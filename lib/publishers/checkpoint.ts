@@ -0,0 +1,18 @@
+import type { PublishCheckpoint } from "@/types/schedule";
+import type { PublishContext } from "./types";
+
+/**
+ * Tracks what this publish has created on the platform, starting from the job's checkpoint.
+ * Adapters read it inside withToken's task, so the re-run after a 401 resumes too instead of
+ * uploading the video a second time.
+ */
+export const trackCheckpoint = (context: PublishContext) => {
+  let current = context.checkpoint;
+  return {
+    at: (stage: PublishCheckpoint["stage"]) => (current?.stage === stage ? current.id : null),
+    save: async (next?: PublishCheckpoint) => {
+      current = next;
+      await context.onCheckpoint?.(next);
+    },
+  };
+};
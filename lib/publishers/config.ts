@@ -0,0 +1,124 @@
+import type { Platform } from "@/types/agent";
+import { createInstagramPublisher } from "./adapters/instagram";
+import { createLinkedInPublisher } from "./adapters/linkedin";
+import { createTikTokPublisher } from "./adapters/tiktok";
+import { createYouTubePublisher } from "./adapters/youtube";
+import { createTokenSource, type OAuthCredentials } from "./tokens";
+import type { Publisher } from "./types";
+
+export interface PublisherConfig {
+  // Points every adapter at the bundled mock server instead of the real APIs.
+  mockUrl?: string;
+  chunkSize: number;
+  poll: { intervalMs: number; timeoutMs: number };
+  tiktok: { baseUrl: string; credentials: OAuthCredentials; privacyLevel: string };
+  instagram: { baseUrl: string; userId?: string; credentials: OAuthCredentials };
+  youtube: {
+    baseUrl: string;
+    credentials: OAuthCredentials;
+    privacyStatus: string;
+    categoryId: string;
+  };
+  linkedin: { baseUrl: string; author?: string; version: string; credentials: OAuthCredentials };
+}
+
+const MOCK_TOKEN = "mock-access-token";
+
+const credentials = (env: NodeJS.ProcessEnv, prefix: string): OAuthCredentials => ({
+  accessToken: env[`${prefix}_ACCESS_TOKEN`],
+  refreshToken: env[`${prefix}_REFRESH_TOKEN`],
+  clientId: env[`${prefix}_CLIENT_ID`],
+  clientSecret: env[`${prefix}_CLIENT_SECRET`],
+});
+
+export const readPublisherConfig = (env: NodeJS.ProcessEnv = process.env): PublisherConfig => {
+  const mockUrl = env.PUBLISHER_MOCK_URL?.replace(/\/$/, "");
+  const base = (real: string, mockPath: string) => (mockUrl ? `${mockUrl}${mockPath}` : real);
+  return {
+    mockUrl,
+    chunkSize: Number(env.PUBLISHER_CHUNK_BYTES ?? 8 * 1024 * 1024),
+    poll: {
+      intervalMs: mockUrl ? 500 : 5000,
+      timeoutMs: Number(env.PUBLISHER_POLL_TIMEOUT_SECONDS ?? 300) * 1000,
+    },
+    tiktok: {
+      baseUrl: base("https://open.tiktokapis.com", "/tiktok"),
+      credentials: credentials(env, "TIKTOK"),
+      privacyLevel: env.TIKTOK_PRIVACY_LEVEL ?? "SELF_ONLY",
+    },
+    instagram: {
+      baseUrl: base("https://graph.facebook.com/v19.0", "/instagram/v19.0"),
+      userId: env.INSTAGRAM_USER_ID ?? (mockUrl ? "17841400000000000" : undefined),
+      credentials: credentials(env, "INSTAGRAM"),
+    },
+    youtube: {
+      baseUrl: base("https://www.googleapis.com", "/youtube"),
+      credentials: credentials(env, "YOUTUBE"),
+      privacyStatus: env.YOUTUBE_PRIVACY_STATUS ?? "private",
+      categoryId: env.YOUTUBE_CATEGORY_ID ?? "22",
+    },
+    linkedin: {
+      baseUrl: base("https://api.linkedin.com", "/linkedin"),
+      author: env.LINKEDIN_AUTHOR_URN ?? (mockUrl ? "urn:li:organization:1" : undefined),
+      version: env.LINKEDIN_VERSION ?? "202405",
+      credentials: credentials(env, "LINKEDIN"),
+    },
+  };
+};
+
+/** Real credentials, or a fixed token the mock server accepts when it is configured. */
+const tokensFor = (
+  config: PublisherConfig,
+  label: string,
+  creds: OAuthCredentials,
+  refresh?: { tokenUrl: string; clientIdParam?: string }
+) =>
+  config.mockUrl
+    ? createTokenSource(label, { accessToken: MOCK_TOKEN })
+    : createTokenSource(label, creds, refresh);
+
+export const createPublisher = (platform: Platform, config: PublisherConfig): Publisher => {
+  switch (platform) {
+    case "tiktok":
+      return createTikTokPublisher({
+        baseUrl: config.tiktok.baseUrl,
+        tokens: tokensFor(config, "TikTok", config.tiktok.credentials, {
+          tokenUrl: "https://open.tiktokapis.com/v2/oauth/token/",
+          clientIdParam: "client_key",
+        }),
+        privacyLevel: config.tiktok.privacyLevel,
+        chunkSize: Math.max(config.chunkSize, 5 * 1024 * 1024),
+        poll: config.poll,
+      });
+    case "instagram":
+      // Long-lived Instagram tokens are renewed out of band; there is no refresh grant.
+      return createInstagramPublisher({
+        baseUrl: config.instagram.baseUrl,
+        userId: config.instagram.userId,
+        tokens: tokensFor(config, "Instagram", config.instagram.credentials),
+        poll: config.poll,
+      });
+    case "youtube":
+      return createYouTubePublisher({
+        baseUrl: config.youtube.baseUrl,
+        tokens: tokensFor(config, "YouTube", config.youtube.credentials, {
+          tokenUrl: "https://oauth2.googleapis.com/token",
+        }),
+        privacyStatus: config.youtube.privacyStatus,
+        categoryId: config.youtube.categoryId,
+        chunkSize: config.chunkSize,
+        poll: config.poll,
+      });
+    case "linkedin":
+    default:
+      return createLinkedInPublisher({
+        baseUrl: config.linkedin.baseUrl,
+        author: config.linkedin.author,
+        version: config.linkedin.version,
+        tokens: tokensFor(config, "LinkedIn", config.linkedin.credentials, {
+          tokenUrl: "https://www.linkedin.com/oauth/v2/accessToken",
+        }),
+        poll: config.poll,
+      });
+  }
+};
@@ -0,0 +1,74 @@
+import { PublishError } from "./types";
+
+const retryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+/** fetch() that turns HTTP and network failures into PublishErrors labelled with the platform. */
+export const send = async (label: string, url: string, init: RequestInit = {}) => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) {
+      throw error;
+    }
+    throw new PublishError(`${label}: network error`, { retryable: true });
+  }
+  if (!response.ok && response.status !== 308) {
+    const detail = (await response.text().catch(() => "")).slice(0, 200);
+    const message = `${label} responded with ${response.status}${detail ? `: ${detail}` : ""}`;
+    throw new PublishError(message, {
+      retryable: retryableStatus(response.status),
+      status: response.status,
+    });
+  }
+  return response;
+};
+
+export const sendJson = async <T>(label: string, url: string, init: RequestInit = {}) =>
+  (await (await send(label, url, init)).json()) as T;
+
+export const jsonBody = (body: unknown): Pick<RequestInit, "body" | "headers"> => ({
+  body: JSON.stringify(body),
+  headers: { "Content-Type": "application/json; charset=UTF-8" },
+});
+
+export const chunkRanges = (size: number, chunkSize: number) => {
+  const ranges: { start: number; end: number }[] = [];
+  for (let start = 0; start < size; start += chunkSize) {
+    ranges.push({ start, end: Math.min(size, start + chunkSize) });
+  }
+  return ranges;
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+/**
+ * Polls `check` until it returns a value. Platforms keep processing uploads for a while, so
+ * running out of time is retryable: the queue picks the job up again later.
+ */
+export const poll = async <T>(
+  label: string,
+  check: () => Promise<T | null>,
+  options: { intervalMs: number; timeoutMs: number; signal?: AbortSignal }
+) => {
+  const deadline = Date.now() + options.timeoutMs;
+  for (;;) {
+    const result = await check();
+    if (result !== null) {
+      return result;
+    }
+    if (Date.now() + options.intervalMs > deadline) {
+      throw new PublishError(`${label}: still processing after ${options.timeoutMs / 1000}s`, {
+        retryable: true,
+      });
+    }
+    await wait(options.intervalMs, options.signal);
+  }
+};
@@ -0,0 +1,160 @@
+import type { AgentResponse, Platform, SocialPostPlan } from "@/types/agent";
+import type { CampaignAsset, PublishedPost } from "@/types/campaign";
+import type { PublishJob } from "@/types/schedule";
+import { variantTake } from "@/lib/agent/variants";
+import { getCampaign, readAsset } from "@/lib/campaigns";
+import { localizationFor } from "@/lib/localization";
+import { pickVideoAsset } from "@/lib/platforms";
+import { canPublish, reviewStateOf } from "@/lib/review/state";
+import { lintContextFor, lintPost } from "@/lib/rules";
+import { totalDuration } from "@/lib/timeline";
+import { createPublisher, readPublisherConfig } from "./config";
+import {
+  PublishError,
+  UnconfirmedPublishError,
+  type Publisher,
+  type PublishContext,
+  type PublishReceipt,
+  type PublishVideo,
+} from "./types";
+
+export type {
+  Publisher,
+  PublishContext,
+  PublishInput,
+  PublishReceipt,
+  PublishVideo,
+} from "./types";
+export { PublishError, UnconfirmedPublishError } from "./types";
+export { createPublisher, readPublisherConfig } from "./config";
+
+// Adapters hold refreshed OAuth tokens, so they live as long as the server process.
+const publishers = new Map<Platform, Publisher>();
+
+const publisherFor = (platform: Platform) => {
+  let publisher = publishers.get(platform);
+  if (!publisher) {
+    publisher = createPublisher(platform, readPublisherConfig());
+    publishers.set(platform, publisher);
+  }
+  return publisher;
+};
+
+const loadVideo = async (
+  campaignId: string,
+  asset: CampaignAsset | null
+): Promise<PublishVideo> => {
+  const stored = asset ? await readAsset(campaignId, asset.id) : null;
+  if (!stored) {
+    throw new PublishError("No rendered video saved for this generation yet", { retryable: true });
+  }
+  return {
+    data: new Uint8Array(stored.data),
+    mimeType: stored.asset.mimeType,
+    fileName: stored.asset.fileName,
+  };
+};
+
+/**
+ * Publishes a job's post with its platform's adapter. Once an earlier attempt got the post onto
+ * the platform, this only confirms it: the checks below no longer apply, and a failure is an
+ * UnconfirmedPublishError instead of grounds for another upload.
+ */
+// The copy the job's slot has in the campaign now: its variant's take, or its language's posts.
+const approvedPostFor = (job: PublishJob, response: AgentResponse) => {
+  const posts = job.variantId
+    ? variantTake(response, job.variantId)?.socialPosts
+    : job.locale
+      ? localizationFor(response, job.locale)?.socialPosts
+      : response.socialPosts;
+  return posts?.find((post) => post.platform === job.post.platform);
+};
+
+// Moving a post keeps its approval, so only the copy counts.
+const sameCopy = (a: SocialPostPlan, b: SocialPostPlan) =>
+  a.caption === b.caption &&
+  a.callToAction === b.callToAction &&
+  a.tags.length === b.tags.length &&
+  a.tags.every((tag, index) => tag === b.tags[index]);
+
+export const publishJob = async (
+  job: PublishJob,
+  context: PublishContext & { publisher?: Publisher } = {}
+): Promise<PublishedPost> => {
+  const publisher = context.publisher ?? publisherFor(job.post.platform);
+  const posted = job.checkpoint?.stage === "post";
+  const campaign = await getCampaign(job.campaignId);
+  // Edits after queueing send the campaign back to review; nothing goes out until it's re-approved.
+  if (!posted && campaign && !canPublish(reviewStateOf(campaign))) {
+    throw new PublishError("The campaign is not approved for publishing", { retryable: false });
+  }
+  const generation = campaign?.generations.find((item) => item.id === job.generationId);
+  // A job queued before the campaign was regenerated or edited carries copy nobody approved.
+  if (!posted && campaign) {
+    const approved =
+      generation && job.generationId === campaign.activeGenerationId
+        ? approvedPostFor(job, generation.response)
+        : undefined;
+    if (!approved || !sameCopy(approved, job.post)) {
+      throw new PublishError("The post changed since it was queued; schedule it again", {
+        retryable: false,
+      });
+    }
+  }
+  const renders = (campaign?.assets ?? []).filter(
+    (asset) => asset.generationId === job.generationId && asset.kind === "video"
+  );
+  // Same rules the planner shows; a post that would be rejected isn't worth an upload attempt.
+  const errors = lintPost(
+    job.post,
+    lintContextFor(
+      job.post.platform,
+      renders,
+      totalDuration(generation?.response.scenes ?? []),
+      job.locale
+    )
+  ).filter((issue) => issue.severity === "error");
+  if (!posted && errors.length > 0) {
+    throw new PublishError(errors.map((issue) => issue.message).join(" "), { retryable: false });
+  }
+  const asset = pickVideoAsset(job.post.platform, renders, job.locale);
+  const video = await loadVideo(job.campaignId, asset);
+  let checkpoint = job.checkpoint;
+  let receipt: PublishReceipt;
+  try {
+    receipt = await publisher.publish(
+      { post: job.post, video },
+      {
+        signal: context.signal,
+        checkpoint,
+        onCheckpoint: async (next) => {
+          checkpoint = next;
+          await context.onCheckpoint?.(next);
+        },
+      }
+    );
+  } catch (error) {
+    if (checkpoint?.stage !== "post" || context.signal?.aborted) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : "unknown error";
+    throw new UnconfirmedPublishError(
+      `Posted as ${checkpoint.id}, but confirming it failed: ${message}`
+    );
+  }
+  return {
+    ...job.post,
+    publishedAt: new Date().toISOString(),
+    externalId: receipt.externalId,
+    url: receipt.url,
+    ...(job.variantId ? { variantId: job.variantId } : {}),
+    ...(job.locale ? { locale: job.locale } : {}),
+    analytics: { views: 0, likes: 0, comments: 0 },
+  };
+};
+
+export const fetchPostMetrics = (
+  platform: Platform,
+  externalId: string,
+  context: PublishContext = {}
+) => publisherFor(platform).fetchMetrics(externalId, context);
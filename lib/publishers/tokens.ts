@@ -0,0 +1,99 @@
+import { PublishError } from "./types";
+
+export interface OAuthCredentials {
+  accessToken?: string;
+  refreshToken?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export interface TokenSource {
+  get: () => Promise<string>;
+  // Drops the cached token after a 401 so the next get() refreshes.
+  invalidate: () => void;
+}
+
+interface RefreshOptions {
+  tokenUrl: string;
+  // TikTok calls the client id "client_key".
+  clientIdParam?: string;
+}
+
+/**
+ * Serves the configured access token and, when a refresh token is configured, renews it with
+ * the standard OAuth 2.0 refresh_token grant shortly before it expires.
+ */
+export const createTokenSource = (
+  label: string,
+  credentials: OAuthCredentials,
+  refresh?: RefreshOptions
+): TokenSource => {
+  let token = credentials.accessToken;
+  let expiresAt = Number.POSITIVE_INFINITY;
+  let refreshToken = credentials.refreshToken;
+
+  const canRefresh = () =>
+    Boolean(refresh && refreshToken && credentials.clientId && credentials.clientSecret);
+
+  const renew = async () => {
+    const body = new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken!,
+      [refresh!.clientIdParam ?? "client_id"]: credentials.clientId!,
+      client_secret: credentials.clientSecret!,
+    });
+    const response = await fetch(refresh!.tokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body,
+    });
+    const payload = (await response.json().catch(() => ({}))) as {
+      access_token?: string;
+      refresh_token?: string;
+      expires_in?: number;
+    };
+    if (!response.ok || !payload.access_token) {
+      throw new PublishError(`${label} token refresh failed with ${response.status}`, {
+        retryable: response.status >= 500,
+        status: response.status,
+      });
+    }
+    token = payload.access_token;
+    refreshToken = payload.refresh_token ?? refreshToken;
+    // Renew a minute early so a long upload doesn't outlive its token.
+    expiresAt = Date.now() + ((payload.expires_in ?? 3600) - 60) * 1000;
+    return token;
+  };
+
+  return {
+    get: async () => {
+      if (token && Date.now() < expiresAt) {
+        return token;
+      }
+      if (canRefresh()) {
+        return renew();
+      }
+      throw new PublishError(`${label} is not connected: no access token configured`, {
+        retryable: false,
+      });
+    },
+    invalidate: () => {
+      if (canRefresh()) {
+        expiresAt = 0;
+      }
+    },
+  };
+};
+
+/** Runs `task` with a bearer token, refreshing and retrying once if the platform answers 401. */
+export const withToken = async <T>(tokens: TokenSource, task: (token: string) => Promise<T>) => {
+  try {
+    return await task(await tokens.get());
+  } catch (error) {
+    if (error instanceof PublishError && error.status === 401) {
+      tokens.invalidate();
+      return task(await tokens.get());
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,60 @@
+import type { Platform, SocialPostPlan } from "@/types/agent";
+import type { MetricCounts } from "@/types/analytics";
+import type { PublishCheckpoint } from "@/types/schedule";
+
+export interface PublishVideo {
+  data: Uint8Array;
+  mimeType: string;
+  fileName: string;
+}
+
+export interface PublishInput {
+  post: SocialPostPlan;
+  video: PublishVideo;
+}
+
+export interface PublishContext {
+  signal?: AbortSignal;
+  // Where an earlier attempt got to; adapters resume from it instead of uploading again.
+  checkpoint?: PublishCheckpoint;
+  // Called as soon as something exists on the platform, and with nothing once the platform has
+  // dropped it, so the next attempt starts over.
+  onCheckpoint?: (checkpoint?: PublishCheckpoint) => Promise<void>;
+}
+
+export interface PublishReceipt {
+  // The platform's own id for the post or video.
+  externalId: string;
+  url?: string;
+}
+
+export interface Publisher {
+  platform: Platform;
+  publish: (input: PublishInput, context: PublishContext) => Promise<PublishReceipt>;
+  // Current lifetime counts for a post this adapter published; unsupported counts are 0.
+  fetchMetrics: (externalId: string, context: PublishContext) => Promise<MetricCounts>;
+}
+
+/** A failed publish. Retryable errors (rate limits, 5xx, slow processing) go back on the queue. */
+export class PublishError extends Error {
+  retryable: boolean;
+  status?: number;
+
+  constructor(message: string, options: { retryable: boolean; status?: number }) {
+    super(message);
+    this.name = "PublishError";
+    this.retryable = options.retryable;
+    this.status = options.status;
+  }
+}
+
+/**
+ * The post is on the platform, but confirming it failed, e.g. processing outlasted the poll. The
+ * job waits and checks on it again rather than counting as a failed upload.
+ */
+export class UnconfirmedPublishError extends PublishError {
+  constructor(message: string) {
+    super(message, { retryable: true });
+    this.name = "UnconfirmedPublishError";
+  }
+}
@@ -0,0 +1,138 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { GlobalFonts, loadImage, type Image } from "@napi-rs/canvas";
+import type { ScenePlan } from "@/types/agent";
+import type { BrandKit } from "@/types/brand";
+import { readBrandAsset } from "@/lib/brands";
+import { brandFontFamily, brandSceneStyle } from "@/lib/brands/style";
+import { readMediaFile } from "@/lib/media";
+import { totalDuration } from "@/lib/timeline";
+import type { SceneStyle } from "@/lib/video/scene";
+import type { SceneVisualSource, SceneVisuals } from "@/lib/video/visuals";
+import type { RenderConfig } from "./config";
+import { extractFrames } from "./ffmpeg";
+
+// Skia images draw onto @napi-rs/canvas contexts just like DOM images do onto browser ones.
+const asSource = (image: Image) => image as unknown as CanvasImageSource;
+
+// Font files already registered in this process, by brand asset id or directory.
+const registered = new Set<string>();
+
+/** Registers the configured font directory once, so fonts like "Inter" resolve as in a browser. */
+export const loadDefaultFonts = (config: RenderConfig) => {
+  if (config.fontsDir && !registered.has(config.fontsDir)) {
+    GlobalFonts.loadFontsFromDir(config.fontsDir);
+    registered.add(config.fontsDir);
+  }
+};
+
+const loadFont = async (brand: BrandKit, font: BrandKit["fonts"]["heading"]) => {
+  const family = brandFontFamily(brand, font);
+  if (font.assetId && !registered.has(font.assetId)) {
+    const file = await readBrandAsset(brand.id, font.assetId);
+    if (file) {
+      GlobalFonts.register(file.data, family);
+      registered.add(font.assetId);
+    }
+  }
+  return family;
+};
+
+const loadLogo = async (brand: BrandKit) => {
+  const file = brand.logo.assetId ? await readBrandAsset(brand.id, brand.logo.assetId) : null;
+  return file ? loadImage(file.data) : null;
+};
+
+/** The server's counterpart to loadBrandStyle, reading fonts and logo from the brand's files. */
+export const loadServerBrandStyle = async (brand: BrandKit): Promise<SceneStyle> => {
+  const [headingFont, bodyFont, logo] = await Promise.all([
+    loadFont(brand, brand.fonts.heading),
+    loadFont(brand, brand.fonts.body),
+    loadLogo(brand),
+  ]);
+  return brandSceneStyle(brand, {
+    headingFont,
+    bodyFont,
+    logo: logo ? { image: asSource(logo), width: logo.width, height: logo.height } : null,
+  });
+};
+
+const loadClip = async (
+  id: string,
+  data: Buffer,
+  options: { config: RenderConfig; workDir: string; fps: number; maxSeconds: number }
+): Promise<SceneVisualSource | null> => {
+  const input = path.join(options.workDir, id);
+  await fs.writeFile(input, data);
+  const frames = await extractFrames({
+    ffmpegPath: options.config.ffmpegPath,
+    input,
+    dir: path.join(options.workDir, `${id}-frames`),
+    fps: options.fps,
+    maxSeconds: options.maxSeconds,
+  });
+  if (frames.length === 0) {
+    return null;
+  }
+  const first = await loadImage(frames[0]);
+  let shown = 0;
+  const source: SceneVisualSource = {
+    image: asSource(first),
+    width: first.width,
+    height: first.height,
+    clip: {
+      duration: frames.length / options.fps,
+      // Only the frame on screen is decoded, so long clips don't sit in memory whole.
+      seek: async (time) => {
+        const index = Math.min(frames.length - 1, Math.floor(time * options.fps + 1e-6));
+        if (index !== shown) {
+          source.image = asSource(await loadImage(frames[index]));
+          shown = index;
+        }
+      },
+    },
+  };
+  return source;
+};
+
+/**
+ * The server's counterpart to loadSceneVisuals: stills are decoded directly, clips are split
+ * into frames in `workDir` first. A missing or broken asset is skipped, as in the browser, and
+ * so is one from another workspace than the campaign's.
+ */
+export const loadServerVisuals = async (
+  scenes: ScenePlan[],
+  options: { config: RenderConfig; workDir: string; fps: number; workspaceId?: string }
+): Promise<SceneVisuals> => {
+  const visuals: SceneVisuals = new Map();
+  const maxSeconds = totalDuration(scenes);
+  for (const scene of scenes) {
+    if (!scene.visual || visuals.has(scene.visual.assetId)) {
+      continue;
+    }
+    const { assetId, kind } = scene.visual;
+    try {
+      const file = await readMediaFile(assetId, options.workspaceId);
+      if (!file) {
+        throw new Error(`Scene visual ${assetId} no longer exists`);
+      }
+      if (kind === "image") {
+        const image = await loadImage(file.data);
+        visuals.set(assetId, {
+          image: asSource(image),
+          width: image.width,
+          height: image.height,
+          clip: null,
+        });
+        continue;
+      }
+      const clip = await loadClip(assetId, file.data, { ...options, maxSeconds });
+      if (clip) {
+        visuals.set(assetId, clip);
+      }
+    } catch (err) {
+      console.warn("Skipping scene visual", err);
+    }
+  }
+  return visuals;
+};
@@ -0,0 +1,25 @@
+import type { RenderJob, RenderRequest } from "@/types/render";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error ?? `Request failed with ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+export const fetchRenders = async (campaignId: string) =>
+  (await request<{ renders: RenderJob[] }>(`/api/campaigns/${campaignId}/renders`)).renders;
+
+export const queueRenders = async (campaignId: string, render: RenderRequest) =>
+  (
+    await request<{ renders: RenderJob[] }>(`/api/campaigns/${campaignId}/renders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(render),
+    })
+  ).renders;
+
+export const cancelRender = (id: string) =>
+  request<RenderJob>(`/api/renders/${id}`, { method: "DELETE" });
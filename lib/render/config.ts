@@ -0,0 +1,13 @@
+export interface RenderConfig {
+  ffmpegPath: string;
+  // Renders that run at once in this process; each holds a canvas and an ffmpeg encoder.
+  concurrency: number;
+  // Fonts the default style and un-uploaded brand fonts name, e.g. Inter; loaded once.
+  fontsDir?: string;
+}
+
+export const readRenderConfig = (env: NodeJS.ProcessEnv = process.env): RenderConfig => ({
+  ffmpegPath: env.RENDER_FFMPEG_PATH ?? "ffmpeg",
+  concurrency: Math.max(1, Math.floor(Number(env.RENDER_CONCURRENCY)) || 1),
+  fontsDir: env.RENDER_FONTS_DIR,
+});
@@ -0,0 +1,144 @@
+import { spawn } from "child_process";
+import { once } from "events";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Same stream settings as the browser's WebCodecs encoder.
+const BITRATE = "4M";
+const AUDIO_BITRATE = "128k";
+const KEYFRAME_INTERVAL_SECONDS = 2;
+
+export interface FrameEncoder {
+  // Raw RGBA pixels of one frame, exactly width * height * 4 bytes.
+  write: (pixels: Uint8Array | Uint8ClampedArray) => Promise<void>;
+  finish: () => Promise<void>;
+  abort: () => void;
+}
+
+const run = (ffmpegPath: string, args: string[], input: boolean) => {
+  const child = spawn(ffmpegPath, ["-hide_banner", "-loglevel", "error", "-y", ...args], {
+    stdio: [input ? "pipe" : "ignore", "ignore", "pipe"],
+  });
+  let stderr = "";
+  child.stderr?.on("data", (chunk: Buffer) => {
+    stderr = (stderr + chunk.toString()).slice(-2000);
+  });
+  const exited = new Promise<void>((resolve, reject) => {
+    child.on("error", (error: NodeJS.ErrnoException) =>
+      reject(
+        error.code === "ENOENT"
+          ? new Error(`ffmpeg not found at "${ffmpegPath}"; set RENDER_FFMPEG_PATH`)
+          : error
+      )
+    );
+    child.on("close", (code) =>
+      code === 0
+        ? resolve()
+        : reject(new Error(`ffmpeg exited with ${code}: ${stderr.trim() || "no output"}`))
+    );
+  });
+  // Callers await `exited` when they need the outcome; this only keeps an early exit from
+  // surfacing as an unhandled rejection in between.
+  exited.catch(() => undefined);
+  return { child, exited };
+};
+
+/**
+ * Pipes raw frames into ffmpeg, which writes a VP9 WebM to `output`. With `audio`, that file is
+ * muxed in as a stereo Opus track; without it the video is silent.
+ */
+export const openEncoder = (options: {
+  ffmpegPath: string;
+  width: number;
+  height: number;
+  fps: number;
+  output: string;
+  audio?: string;
+}): FrameEncoder => {
+  const { child, exited } = run(
+    options.ffmpegPath,
+    [
+      ...["-f", "rawvideo", "-pix_fmt", "rgba", "-s", `${options.width}x${options.height}`],
+      ...["-r", String(options.fps), "-i", "pipe:0"],
+      ...(options.audio ? ["-i", options.audio] : []),
+      ...["-c:v", "libvpx-vp9", "-b:v", BITRATE, "-pix_fmt", "yuv420p"],
+      ...["-g", String(options.fps * KEYFRAME_INTERVAL_SECONDS), "-row-mt", "1"],
+      ...(options.audio ? ["-c:a", "libopus", "-b:a", AUDIO_BITRATE, "-ac", "2"] : ["-an"]),
+      options.output,
+    ],
+    true
+  );
+  const stdin = child.stdin!;
+  // A dead encoder shows up through `exited`; writes after that just fail quietly.
+  stdin.on("error", () => undefined);
+  const stopped = exited.then(() => {
+    throw new Error("ffmpeg stopped reading frames");
+  });
+  stopped.catch(() => undefined);
+
+  return {
+    write: async (pixels) => {
+      if (!stdin.write(Buffer.from(pixels.buffer, pixels.byteOffset, pixels.byteLength))) {
+        await Promise.race([once(stdin, "drain"), stopped]);
+      }
+    },
+    finish: async () => {
+      stdin.end();
+      await exited;
+    },
+    abort: () => {
+      child.kill("SIGKILL");
+    },
+  };
+};
+
+/**
+ * Decodes an audio file, whatever its format, into mono samples at `sampleRate`. `scratch` is
+ * where the raw samples are written on the way.
+ */
+export const decodeAudio = async (options: {
+  ffmpegPath: string;
+  input: string;
+  scratch: string;
+  sampleRate: number;
+}) => {
+  const { exited } = run(
+    options.ffmpegPath,
+    [
+      ...["-i", options.input, "-ac", "1", "-ar", String(options.sampleRate)],
+      ...["-f", "f32le", options.scratch],
+    ],
+    false
+  );
+  await exited;
+  // Copied, since a Float32Array view needs the buffer aligned to 4 bytes.
+  const raw = new Uint8Array(await fs.readFile(options.scratch));
+  return new Float32Array(raw.buffer, 0, raw.byteLength / 4);
+};
+
+/**
+ * Decodes a clip into one PNG per frame at `fps`, up to `maxSeconds` in, and returns their paths
+ * in order. Frame n shows the clip at n / fps seconds, which is what the renderer seeks to.
+ */
+export const extractFrames = async (options: {
+  ffmpegPath: string;
+  input: string;
+  dir: string;
+  fps: number;
+  maxSeconds: number;
+}) => {
+  await fs.mkdir(options.dir, { recursive: true });
+  const { exited } = run(
+    options.ffmpegPath,
+    [
+      ...["-i", options.input, "-t", String(options.maxSeconds)],
+      ...["-vf", `fps=${options.fps}`, "-f", "image2", path.join(options.dir, "%06d.png")],
+    ],
+    false
+  );
+  await exited;
+  return (await fs.readdir(options.dir))
+    .filter((name) => name.endsWith(".png"))
+    .sort()
+    .map((name) => path.join(options.dir, name));
+};
@@ -0,0 +1,218 @@
+import { randomUUID } from "crypto";
+import type { Platform } from "@/types/agent";
+import type { Campaign } from "@/types/campaign";
+import type { Locale } from "@/types/locale";
+import type { RenderJob, RenderRequest, RenderSoundtrack, RenderStatus } from "@/types/render";
+import { localizationFor } from "@/lib/localization";
+import { exportFileName } from "@/lib/platforms";
+import { createJsonStore } from "@/lib/store/fileStore";
+import type { CaptionPreset } from "@/lib/video/captions";
+
+const store = createJsonStore<RenderJob>("renderJobs");
+
+// Matches the composer's default, for renders nobody picked a caption style for.
+const DEFAULT_CAPTIONS: CaptionPreset = "classic";
+
+// The composer's default soundtrack: narrated, without music. Renders queued for scheduled posts
+// use it, so nothing is published silent.
+export const DEFAULT_SOUNDTRACK: RenderSoundtrack = {
+  voice: "narrator",
+  music: "none",
+  musicVolume: 0.35,
+  ducking: true,
+};
+
+/** Raised for a change the render's current status doesn't allow, e.g. cancelling a done one. */
+export class RenderStateError extends Error {
+  status: RenderStatus;
+
+  constructor(message: string, status: RenderStatus) {
+    super(message);
+    this.name = "RenderStateError";
+    this.status = status;
+  }
+}
+
+// Renders still to come; asking for the same video again joins them instead of queueing twice.
+export const activeRenders: RenderStatus[] = ["queued", "rendering"];
+
+export const listRenderJobs = async (filter: { campaignId?: string } = {}) =>
+  (await store.list())
+    .filter((job) => !filter.campaignId || job.campaignId === filter.campaignId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const getRenderJob = (id: string) => store.get(id);
+
+interface RenderTarget {
+  platform?: Platform;
+  locale?: Locale;
+}
+
+const sameTarget = (a: RenderTarget, b: RenderTarget) =>
+  a.platform === b.platform && a.locale === b.locale;
+
+const queueTargets = async (
+  campaign: Campaign,
+  targets: RenderTarget[],
+  captions: CaptionPreset,
+  soundtrack: RenderSoundtrack
+) => {
+  const waiting = (await listRenderJobs({ campaignId: campaign.id })).filter(
+    (job) => job.generationId === campaign.activeGenerationId && activeRenders.includes(job.status)
+  );
+  const now = new Date().toISOString();
+  const jobs: RenderJob[] = [];
+  for (const target of targets) {
+    const existing = waiting.find((job) => sameTarget(job, target));
+    jobs.push(
+      existing ??
+        (await store.put({
+          id: randomUUID(),
+          campaignId: campaign.id,
+          generationId: campaign.activeGenerationId,
+          ...(target.platform ? { platform: target.platform } : {}),
+          ...(target.locale ? { locale: target.locale } : {}),
+          captions,
+          soundtrack,
+          status: "queued",
+          progress: 0,
+          createdAt: now,
+          updatedAt: now,
+        }))
+    );
+  }
+  return jobs;
+};
+
+/**
+ * Queues server renders of the active generation: one cut per requested platform, or the
+ * full-length vertical video. With a locale the translation is rendered; a campaign without
+ * that translation gets nothing queued.
+ */
+export const queueRenders = async (campaign: Campaign, request: RenderRequest) => {
+  const { locale } = request;
+  const generation = campaign.generations.find((item) => item.id === campaign.activeGenerationId);
+  if (!generation || (locale && !localizationFor(generation.response, locale))) {
+    return [];
+  }
+  const targets = request.platforms?.map((platform) => ({ platform, locale })) ?? [{ locale }];
+  return queueTargets(
+    campaign,
+    targets,
+    request.captions ?? DEFAULT_CAPTIONS,
+    request.soundtrack ?? DEFAULT_SOUNDTRACK
+  );
+};
+
+/**
+ * Queues a platform cut for each scheduled post whose platform has no export of its own yet, so
+ * publishing doesn't depend on someone rendering in the browser first. The full-length render
+ * doesn't count: it may be too long or the wrong shape for the platform.
+ */
+export const queueMissingRenders = async (
+  campaign: Campaign,
+  targets: { platform: Platform; locale?: Locale }[]
+) => {
+  const renders = campaign.assets.filter(
+    (asset) => asset.generationId === campaign.activeGenerationId && asset.kind === "video"
+  );
+  const missing = targets.filter(
+    (target, index) =>
+      !renders.some((asset) => asset.fileName === exportFileName(target.platform, target.locale)) &&
+      targets.findIndex((item) => sameTarget(item, target)) === index
+  );
+  return missing.length > 0
+    ? queueTargets(campaign, missing, DEFAULT_CAPTIONS, DEFAULT_SOUNDTRACK)
+    : [];
+};
+
+/** Cancels a queued render, or stops one in progress at its next progress report. */
+export const cancelRenderJob = (id: string) =>
+  store.update(id, (job) => {
+    if (!activeRenders.includes(job.status)) {
+      throw new RenderStateError(`Cannot cancel a ${job.status} render`, job.status);
+    }
+    const now = new Date().toISOString();
+    return { ...job, status: "cancelled", lockedAt: undefined, finishedAt: now, updatedAt: now };
+  });
+
+/** Marks a queued render as started. Returns null when another worker got there first. */
+export const claimRenderJob = async (id: string, now: Date) => {
+  let claimed = false;
+  const job = await store.update(id, (current) => {
+    if (current.status !== "queued") {
+      return current;
+    }
+    claimed = true;
+    const at = now.toISOString();
+    return { ...current, status: "rendering", progress: 0, lockedAt: at, startedAt: at };
+  });
+  return claimed ? job : null;
+};
+
+/**
+ * Records progress, which also renews the worker's lock. Returns the job as stored, so the worker
+ * notices when it was cancelled meanwhile.
+ */
+export const reportRenderProgress = (id: string, progress: number) =>
+  store.update(id, (job) => {
+    if (job.status !== "rendering") {
+      return job;
+    }
+    const now = new Date().toISOString();
+    return { ...job, progress: Math.min(1, Math.max(0, progress)), lockedAt: now, updatedAt: now };
+  });
+
+export const completeRenderJob = (id: string, assetId: string) =>
+  store.update(id, (job) => {
+    const now = new Date().toISOString();
+    return {
+      ...job,
+      status: "done",
+      progress: 1,
+      assetId,
+      error: undefined,
+      lockedAt: undefined,
+      finishedAt: now,
+      updatedAt: now,
+    };
+  });
+
+/** Records why a render failed. Failed renders aren't retried; queueing the video again is. */
+export const failRenderJob = (id: string, error: string) =>
+  store.update(id, (job) => {
+    if (job.status === "cancelled") {
+      return job;
+    }
+    const now = new Date().toISOString();
+    return {
+      ...job,
+      status: "failed",
+      error,
+      lockedAt: undefined,
+      finishedAt: now,
+      updatedAt: now,
+    };
+  });
+
+/** Requeues renders left "rendering" by a process that died mid-render. */
+export const releaseStaleRenders = async (olderThan: Date) => {
+  const stale = (await store.list()).filter(
+    (job) =>
+      job.status === "rendering" && (!job.lockedAt || job.lockedAt < olderThan.toISOString())
+  );
+  for (const job of stale) {
+    await store.update(job.id, (current) =>
+      current.status === "rendering"
+        ? {
+            ...current,
+            status: "queued",
+            progress: 0,
+            lockedAt: undefined,
+            updatedAt: new Date().toISOString(),
+          }
+        : current
+    );
+  }
+  return stale.length;
+};
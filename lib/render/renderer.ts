@@ -0,0 +1,113 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { createCanvas } from "@napi-rs/canvas";
+import type { RenderJob } from "@/types/render";
+import { getBrand } from "@/lib/brands";
+import { getCampaign } from "@/lib/campaigns";
+import { localizationFor, localizeResponse, sourceLocale, textDirection } from "@/lib/localization";
+import { exportFileName, platformSpecs, renderFileName, verticalFormat } from "@/lib/platforms";
+import { clipToDuration } from "@/lib/timeline";
+import { buildCaptionCues } from "@/lib/video/captions";
+import { DEFAULT_FPS, drawFrames } from "@/lib/video/frames";
+import { defaultStyle, withBrandCards, type DrawingContext } from "@/lib/video/scene";
+import { loadDefaultFonts, loadServerBrandStyle, loadServerVisuals } from "./assets";
+import { readRenderConfig, type RenderConfig } from "./config";
+import { openEncoder } from "./ffmpeg";
+import { DEFAULT_SOUNDTRACK } from "./index";
+import { mixServerSoundtrack } from "./soundtrack";
+
+export interface RenderedVideo {
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface RenderContext {
+  signal?: AbortSignal;
+  onProgress?: (ratio: number) => void;
+  config?: RenderConfig;
+}
+
+/**
+ * Renders a job's video without a browser: the composer's scenes, brand cards, captions and
+ * visuals drawn by the same frame loop onto a Skia canvas, then encoded by ffmpeg together with
+ * the job's narration and music, mixed on the server. Captions follow the narration.
+ */
+export const renderCampaignVideo = async (
+  job: RenderJob,
+  { signal, onProgress, config = readRenderConfig() }: RenderContext = {}
+): Promise<RenderedVideo> => {
+  const campaign = await getCampaign(job.campaignId);
+  const generation = campaign?.generations.find((item) => item.id === job.generationId);
+  if (!generation) {
+    throw new Error("The campaign or its generation no longer exists");
+  }
+  const localization = job.locale ? localizationFor(generation.response, job.locale) : null;
+  if (job.locale && !localization) {
+    throw new Error(`The campaign has no ${job.locale} translation to render`);
+  }
+  const { scenes } = localizeResponse(generation.response, localization);
+
+  loadDefaultFonts(config);
+  const { brandId } = generation.request;
+  const { workspaceId } = campaign!;
+  const brand = brandId ? await getBrand(brandId, workspaceId) : null;
+  const style = brand ? await loadServerBrandStyle(brand) : defaultStyle;
+  const spec = job.platform ? platformSpecs[job.platform] : null;
+  const framed = withBrandCards(scenes, style);
+  const timeline = spec ? clipToDuration(framed, spec.maxDurationSeconds) : framed;
+  const { width, height } = spec?.format ?? verticalFormat;
+  const fps = DEFAULT_FPS;
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "agentic-render-"));
+  try {
+    const soundtrack = job.soundtrack ?? DEFAULT_SOUNDTRACK;
+    const { audio, voices } = await mixServerSoundtrack(timeline, soundtrack, {
+      config,
+      workDir,
+      signal,
+    });
+    const visuals = await loadServerVisuals(timeline, { config, workDir, fps, workspaceId });
+    const output = path.join(workDir, "video.webm");
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+    const encoder = openEncoder({
+      ffmpegPath: config.ffmpegPath,
+      width,
+      height,
+      fps,
+      output,
+      audio,
+    });
+    try {
+      const loop = {
+        scenes: timeline,
+        fps,
+        signal,
+        onProgress,
+        captions: { preset: job.captions, cues: buildCaptionCues(timeline, voices) },
+        style,
+        visuals,
+        direction: textDirection(job.locale ?? sourceLocale(generation.request)),
+      };
+      // Skia's context implements the same 2D API the scene code draws with.
+      await drawFrames(loop, ctx as unknown as DrawingContext, canvas, () =>
+        encoder.write(ctx.getImageData(0, 0, width, height).data)
+      );
+      await encoder.finish();
+    } catch (error) {
+      encoder.abort();
+      throw error;
+    }
+    onProgress?.(1);
+    const { platform, locale } = job;
+    return {
+      fileName: platform ? exportFileName(platform, locale) : renderFileName(locale),
+      mimeType: "video/webm",
+      data: await fs.readFile(output),
+    };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+};
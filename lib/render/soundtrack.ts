@@ -0,0 +1,113 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { ScenePlan } from "@/types/agent";
+import type { RenderSoundtrack } from "@/types/render";
+import type { Voice } from "@/types/voice";
+import { speechSpans } from "@/lib/audio/alignment";
+import { renderMusicSamples } from "@/lib/audio/music";
+import {
+  musicGain,
+  placeVoiceClips,
+  SOUNDTRACK_SAMPLE_RATE,
+  VOICE_LEAD_SECONDS,
+} from "@/lib/audio/soundtrack";
+import { totalDuration } from "@/lib/timeline";
+import type { VoiceTiming } from "@/lib/video/captions";
+import { throwIfAborted } from "@/lib/video/frames";
+import { synthesizeSpeech } from "@/lib/voice";
+import { encodeWav } from "@/lib/voice/wav";
+import type { RenderConfig } from "./config";
+import { decodeAudio } from "./ffmpeg";
+
+interface SoundtrackOptions {
+  config: RenderConfig;
+  workDir: string;
+  signal?: AbortSignal;
+}
+
+export interface ServerSoundtrack {
+  // The mix as a WAV file in the work directory; unset when there is nothing to hear.
+  audio?: string;
+  // Where each narrated scene's voice sits, for captions that follow it.
+  voices: Record<string, VoiceTiming>;
+}
+
+const synthesizeClips = async (scenes: ScenePlan[], voice: Voice, options: SoundtrackOptions) => {
+  const clips = new Map<string, Float32Array>();
+  for (const [index, scene] of scenes.entries()) {
+    // Brand cards have nothing to say.
+    if (!scene.narration.trim()) {
+      continue;
+    }
+    throwIfAborted(options.signal);
+    const speech = await synthesizeSpeech(
+      { text: scene.narration, voice },
+      { signal: options.signal }
+    );
+    const input = path.join(options.workDir, `voice-${index}`);
+    await fs.writeFile(input, speech.data);
+    const samples = await decodeAudio({
+      ffmpegPath: options.config.ffmpegPath,
+      input,
+      scratch: `${input}.pcm`,
+      sampleRate: SOUNDTRACK_SAMPLE_RATE,
+    });
+    clips.set(scene.id, samples);
+  }
+  return clips;
+};
+
+/**
+ * The server's counterpart to mixSoundtrack: each scene's narration is synthesized by the
+ * configured speech provider and laid over the music bed, which ducks under it, then written to
+ * `workDir` for the encoder to mux in.
+ */
+export const mixServerSoundtrack = async (
+  scenes: ScenePlan[],
+  soundtrack: RenderSoundtrack,
+  options: SoundtrackOptions
+): Promise<ServerSoundtrack> => {
+  const rate = SOUNDTRACK_SAMPLE_RATE;
+  const clips = soundtrack.voice
+    ? await synthesizeClips(scenes, soundtrack.voice, options)
+    : new Map<string, Float32Array>();
+  const duration = totalDuration(scenes);
+  const placements = placeVoiceClips(scenes, (scene) => {
+    const clip = clips.get(scene.id);
+    return clip ? clip.length / rate : undefined;
+  });
+  const music = renderMusicSamples(soundtrack.music, duration, rate);
+  if (placements.length === 0 && !music) {
+    return { voices: {} };
+  }
+
+  const mix = new Float32Array(Math.max(1, Math.ceil(duration * rate)));
+  if (music) {
+    const gain = musicGain(placements, {
+      level: soundtrack.musicVolume,
+      ducking: soundtrack.ducking,
+      duration,
+    });
+    for (let index = 0; index < mix.length && index < music.length; index += 1) {
+      mix[index] = music[index] * gain(index / rate);
+    }
+  }
+  const voices: Record<string, VoiceTiming> = {};
+  placements.forEach(({ sceneId, start, end }) => {
+    const clip = clips.get(sceneId)!;
+    const offset = Math.round(start * rate);
+    const length = Math.min(clip.length, Math.round((end - start) * rate), mix.length - offset);
+    for (let index = 0; index < length; index += 1) {
+      mix[offset + index] += clip[index];
+    }
+    voices[sceneId] = {
+      offset: VOICE_LEAD_SECONDS,
+      duration: clip.length / rate,
+      spans: speechSpans(clip, rate),
+    };
+  });
+
+  const audio = path.join(options.workDir, "soundtrack.wav");
+  await fs.writeFile(audio, encodeWav(mix, rate));
+  return { audio, voices };
+};
@@ -0,0 +1,134 @@
+import type { RenderJob } from "@/types/render";
+import { addAsset } from "@/lib/campaigns";
+import {
+  claimRenderJob,
+  completeRenderJob,
+  failRenderJob,
+  getRenderJob,
+  listRenderJobs,
+  releaseStaleRenders,
+  reportRenderProgress,
+} from "./index";
+import { readRenderConfig } from "./config";
+import type { RenderContext, RenderedVideo } from "./renderer";
+
+const TICK_MS = 5_000;
+// Progress reports renew the lock, so only a dead process leaves one this old.
+const STALE_LOCK_MS = 5 * 60_000;
+const PROGRESS_INTERVAL_MS = 2_000;
+const HEARTBEAT_MS = 60_000;
+
+export type VideoRenderer = (job: RenderJob, context: RenderContext) => Promise<RenderedVideo>;
+
+// Loaded on first use, so a server without the native canvas package still schedules and publishes.
+const renderWithCanvas: VideoRenderer = async (job, context) =>
+  (await import("./renderer")).renderCampaignVideo(job, context);
+
+// Renders running in this process; each one counts against the concurrency limit.
+const inFlight = new Set<string>();
+
+const run = async (job: RenderJob, render: VideoRenderer) => {
+  const controller = new AbortController();
+  let ratio = 0;
+  let reportedAt = 0;
+  const report = () => {
+    reportedAt = Date.now();
+    reportRenderProgress(job.id, ratio)
+      .then((current) => {
+        if (current?.status !== "rendering") {
+          controller.abort();
+        }
+      })
+      .catch((error) => console.warn(`Progress update for render ${job.id} failed`, error));
+  };
+  const onProgress = (next: number) => {
+    ratio = next;
+    if (next === 1 || Date.now() - reportedAt >= PROGRESS_INTERVAL_MS) {
+      report();
+    }
+  };
+  // Decoding clips can take a while before the first frame; this keeps the lock fresh meanwhile.
+  const heartbeat = setInterval(report, HEARTBEAT_MS);
+  try {
+    const video = await render(job, { signal: controller.signal, onProgress });
+    // Cancelled after the last frame: the video is thrown away rather than saved.
+    if ((await getRenderJob(job.id))?.status !== "rendering") {
+      return;
+    }
+    const asset = await addAsset(job.campaignId, job.generationId, video);
+    if (!asset) {
+      await failRenderJob(job.id, "Campaign no longer exists");
+      return;
+    }
+    await completeRenderJob(job.id, asset.id);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return;
+    }
+    console.warn(`Render ${job.id} failed`, error);
+    await failRenderJob(job.id, error instanceof Error ? error.message : "Render failed");
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+/**
+ * Starts queued renders, oldest first, while fewer than `concurrency` run in this process.
+ * Returns the started renders, each settling once its video is saved or the render has failed.
+ */
+export const startQueuedRenders = async (
+  render: VideoRenderer = renderWithCanvas,
+  concurrency = readRenderConfig().concurrency
+) => {
+  const queued = (await listRenderJobs())
+    .filter((job) => job.status === "queued")
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const started: Promise<void>[] = [];
+  for (const candidate of queued) {
+    if (inFlight.size >= concurrency) {
+      break;
+    }
+    const job = await claimRenderJob(candidate.id, new Date());
+    if (!job) {
+      continue;
+    }
+    inFlight.add(job.id);
+    started.push(
+      run(job, render)
+        .catch((error) => console.error(`Failed to record the outcome of render ${job.id}`, error))
+        .finally(() => inFlight.delete(job.id))
+    );
+  }
+  return started;
+};
+
+const globalWorker = globalThis as typeof globalThis & {
+  __agenticRenders?: ReturnType<typeof setInterval>;
+};
+
+/**
+ * Starts the render worker once per server, like the publish scheduler. Each tick only starts
+ * renders; they run on in the background, so a long render doesn't hold up the queue.
+ */
+export const startRenderWorker = () => {
+  if (globalWorker.__agenticRenders || process.env.RENDER_WORKER_DISABLED === "true") {
+    return;
+  }
+  let running = false;
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await releaseStaleRenders(new Date(Date.now() - STALE_LOCK_MS));
+      await startQueuedRenders();
+    } catch (error) {
+      console.error("Render worker tick failed", error);
+    } finally {
+      running = false;
+    }
+  };
+  globalWorker.__agenticRenders = setInterval(tick, TICK_MS);
+  void tick();
+};
@@ -0,0 +1,32 @@
+import type { Campaign } from "@/types/campaign";
+import type { CommentRequest, ReviewActionRequest } from "@/types/review";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error ?? `Request failed with ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+export const reviewCampaign = (campaignId: string, action: ReviewActionRequest) =>
+  request<Campaign>(`/api/campaigns/${campaignId}/review`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(action),
+  });
+
+export const addComment = (campaignId: string, comment: CommentRequest) =>
+  request<Campaign>(`/api/campaigns/${campaignId}/comments`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(comment),
+  });
+
+export const resolveComment = (campaignId: string, commentId: string, resolved: boolean) =>
+  request<Campaign>(`/api/campaigns/${campaignId}/comments/${commentId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ resolved }),
+  });
@@ -0,0 +1,135 @@
+import { randomUUID } from "crypto";
+import type { Campaign } from "@/types/campaign";
+import {
+  reviewStateLabels,
+  type CommentRequest,
+  type CommentTarget,
+  type ReviewActionRequest,
+  type ReviewComment,
+  type ReviewState,
+} from "@/types/review";
+import type { User } from "@/types/workspace";
+import { mutateCampaign } from "@/lib/campaigns";
+import { localizationFor } from "@/lib/localization";
+import { nextReviewState, reviewStateOf } from "./state";
+
+export { canPublish, nextReviewState, reviewStateOf } from "./state";
+
+/** Raised for a review action the campaign's state doesn't allow, e.g. approving a draft. */
+export class ReviewStateError extends Error {
+  state: ReviewState;
+
+  constructor(message: string, state: ReviewState) {
+    super(message);
+    this.name = "ReviewStateError";
+    this.state = state;
+  }
+}
+
+/** Raised for a comment on a scene or post the campaign doesn't have. */
+export class CommentTargetError extends Error {
+  path: string;
+
+  constructor(message: string, path: string) {
+    super(message);
+    this.name = "CommentTargetError";
+    this.path = path;
+  }
+}
+
+const verbs: Record<ReviewActionRequest["action"], string> = {
+  submit: "submit",
+  withdraw: "withdraw",
+  approve: "approve",
+  "request-changes": "request changes on",
+};
+
+const newComment = (target: CommentTarget, body: string, author: User): ReviewComment => ({
+  id: randomUUID(),
+  target,
+  body,
+  authorId: author.id,
+  authorName: author.displayName,
+  createdAt: new Date().toISOString(),
+});
+
+/** Moves the campaign through review. A note goes on the campaign as a comment. */
+export const applyReviewAction = (
+  campaignId: string,
+  request: ReviewActionRequest,
+  author: User
+) =>
+  mutateCampaign(campaignId, (campaign) => {
+    const state = reviewStateOf(campaign);
+    const next = nextReviewState(state, request.action);
+    if (!next) {
+      const current = reviewStateLabels[state].toLowerCase();
+      const message = `Cannot ${verbs[request.action]} a campaign that is ${current}`;
+      throw new ReviewStateError(message, state);
+    }
+    const now = new Date().toISOString();
+    const note = request.note ? [newComment({ kind: "campaign" }, request.note, author)] : [];
+    return {
+      ...campaign,
+      review: { state: next, updatedAt: now, updatedBy: author.displayName },
+      comments: [...(campaign.comments ?? []), ...note],
+      updatedAt: now,
+    };
+  });
+
+const checkTarget = (campaign: Campaign, target: CommentTarget) => {
+  const generation = campaign.generations.find((item) => item.id === campaign.activeGenerationId);
+  const response = generation?.response;
+  if (target.kind === "scene" && !response?.scenes.some((scene) => scene.id === target.sceneId)) {
+    throw new CommentTargetError("No such scene in this campaign", "target.sceneId");
+  }
+  if (target.kind === "socialPost") {
+    const copy =
+      response && target.locale ? localizationFor(response, target.locale) : response ?? null;
+    if (!copy) {
+      throw new CommentTargetError("No translation into that language", "target.locale");
+    }
+    if (!copy.socialPosts.some((post) => post.platform === target.platform)) {
+      throw new CommentTargetError(`No ${target.platform} post to comment on`, "target.platform");
+    }
+  }
+};
+
+export const addComment = (campaignId: string, request: CommentRequest, author: User) =>
+  mutateCampaign(campaignId, (campaign) => {
+    checkTarget(campaign, request.target);
+    const comment = newComment(request.target, request.body, author);
+    return { ...campaign, comments: [...(campaign.comments ?? []), comment] };
+  });
+
+/** Resolves or reopens a comment; null when the campaign or comment doesn't exist. */
+export const resolveComment = async (campaignId: string, commentId: string, resolved: boolean) => {
+  let found = false;
+  const campaign = await mutateCampaign(campaignId, (current) => ({
+    ...current,
+    comments: (current.comments ?? []).map((comment) => {
+      if (comment.id !== commentId) {
+        return comment;
+      }
+      found = true;
+      const { resolvedAt, ...open } = comment;
+      return resolved ? { ...open, resolvedAt: resolvedAt ?? new Date().toISOString() } : open;
+    }),
+  }));
+  return found ? campaign : null;
+};
+
+/** Marks an approved campaign as scheduled once its posts are queued. */
+export const markScheduled = (campaignId: string, updatedBy?: string) =>
+  mutateCampaign(campaignId, (campaign) =>
+    reviewStateOf(campaign) === "approved"
+      ? {
+          ...campaign,
+          review: {
+            state: "scheduled",
+            updatedAt: new Date().toISOString(),
+            ...(updatedBy ? { updatedBy } : {}),
+          },
+        }
+      : campaign
+  );
@@ -0,0 +1,19 @@
+import type { Campaign } from "@/types/campaign";
+import type { ReviewAction, ReviewState } from "@/types/review";
+
+export const reviewStateOf = (campaign: Pick<Campaign, "review">): ReviewState =>
+  campaign.review?.state ?? "draft";
+
+/** Only signed-off copy goes out; a scheduled campaign was approved before it was queued. */
+export const canPublish = (state: ReviewState) => state === "approved" || state === "scheduled";
+
+const transitions: Record<ReviewAction, { from: ReviewState[]; to: ReviewState }> = {
+  submit: { from: ["draft"], to: "in-review" },
+  withdraw: { from: ["in-review"], to: "draft" },
+  approve: { from: ["in-review"], to: "approved" },
+  "request-changes": { from: ["in-review", "approved", "scheduled"], to: "draft" },
+};
+
+/** Where the action takes a campaign in this state, or null when it doesn't apply. */
+export const nextReviewState = (state: ReviewState, action: ReviewAction) =>
+  transitions[action].from.includes(state) ? transitions[action].to : null;
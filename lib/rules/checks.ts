@@ -0,0 +1,213 @@
+import type { SocialPostPlan } from "@/types/agent";
+import type { LintContext, LintIssue, LintSeverity } from "@/types/lint";
+import { composeCaption } from "@/lib/publishers/caption";
+import { platformSpecs, type PlatformSpec } from "@/lib/platforms";
+import { characterCount, emojiPattern, linkPattern } from "./fixes";
+
+export type PostRule = (post: SocialPostPlan) => LintIssue | null;
+
+export interface VideoContext extends LintContext {
+  spec: PlatformSpec;
+}
+
+export type VideoRule = (context: VideoContext) => LintIssue | null;
+
+const labelOf = (post: SocialPostPlan) => platformSpecs[post.platform].label;
+
+/** Limit on the caption as posted, i.e. with the hashtags appended. */
+export const captionLength =
+  (max: number, severity: LintSeverity = "error"): PostRule =>
+  (post) => {
+    const length = characterCount(composeCaption(post));
+    if (length <= max) {
+      return null;
+    }
+    const budget = max - (length - characterCount(post.caption));
+    return {
+      rule: "caption-length",
+      severity,
+      field: "caption",
+      message: `${labelOf(post)} allows ${max} characters including hashtags; this has ${length}.`,
+      fix:
+        budget > 0
+          ? {
+              label: `Shorten to ${budget} characters`,
+              action: { kind: "truncateCaption", maxLength: budget },
+            }
+          : undefined,
+    };
+  };
+
+export const titleLength =
+  (max: number): PostRule =>
+  (post) => {
+    const line = post.caption.split("\n")[0].trim();
+    return characterCount(line) > max
+      ? {
+          rule: "title-length",
+          severity: "warning",
+          field: "caption",
+          message: `The first line is the ${labelOf(post)} title; it's cut after ${max} chars.`,
+        }
+      : null;
+  };
+
+export const hashtagCount =
+  (max: number, severity: LintSeverity, reason: string): PostRule =>
+  (post) =>
+    post.tags.length > max
+      ? {
+          rule: "hashtag-count",
+          severity,
+          field: "tags",
+          message: `${post.tags.length} hashtags; ${reason}`,
+          fix: { label: `Keep the first ${max}`, action: { kind: "trimTags", maxTags: max } },
+        }
+      : null;
+
+export const mentionCount =
+  (max: number): PostRule =>
+  (post) => {
+    const mentions = post.caption.match(/(^|\s)@\w+/g)?.length ?? 0;
+    return mentions > max
+      ? {
+          rule: "mention-count",
+          severity: "error",
+          field: "caption",
+          message: `${labelOf(post)} allows ${max} @mentions per caption; this has ${mentions}.`,
+        }
+      : null;
+  };
+
+export const noLinks =
+  (severity: LintSeverity): PostRule =>
+  (post) =>
+    post.caption.match(linkPattern)
+      ? {
+          rule: "links",
+          severity,
+          field: "caption",
+          message: `Links aren't clickable in ${labelOf(post)} captions; use the profile link.`,
+          fix: { label: "Remove links", action: { kind: "removeLinks" } },
+        }
+      : null;
+
+export const forbiddenCharacters =
+  (characters: string): PostRule =>
+  (post) =>
+    Array.from(characters).some(
+      (character) =>
+        post.caption.includes(character) || post.tags.some((tag) => tag.includes(character))
+    )
+      ? {
+          rule: "forbidden-characters",
+          severity: "error",
+          field: "caption",
+          message: `${labelOf(post)} rejects captions with ${Array.from(characters).join(" ")}.`,
+          fix: { label: "Remove them", action: { kind: "removeCharacters", characters } },
+        }
+      : null;
+
+/** Flags copy that reads as too casual for a professional feed. */
+export const professionalTone =
+  (maxEmoji: number, maxExclamations: number): PostRule =>
+  (post) => {
+    const emoji = post.caption.match(emojiPattern)?.length ?? 0;
+    if (emoji > maxEmoji) {
+      return {
+        rule: "tone",
+        severity: "warning",
+        field: "caption",
+        message: `${emoji} emoji read as casual on ${labelOf(post)}; keep it to ${maxEmoji}.`,
+        fix: { label: "Remove emoji", action: { kind: "removeEmoji" } },
+      };
+    }
+    const exclamations = post.caption.match(/!/g)?.length ?? 0;
+    const shouting = post.caption.match(/\b[A-Z]{5,}\b/g)?.length ?? 0;
+    return exclamations > maxExclamations || shouting > 1
+      ? {
+          rule: "tone",
+          severity: "warning",
+          field: "caption",
+          message: `Exclamation marks and all-caps words read as salesy on ${labelOf(post)}.`,
+        }
+      : null;
+  };
+
+export const notEmpty: PostRule = (post) =>
+  post.caption.trim()
+    ? null
+    : { rule: "caption-empty", severity: "warning", field: "caption", message: "Caption is empty" };
+
+const ratioLabel = (width: number, height: number) => {
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const divisor = gcd(width, height);
+  return `${width / divisor}:${height / divisor}`;
+};
+
+export const videoDuration: VideoRule = ({ spec, video, plannedSeconds }) => {
+  const max = spec.maxDurationSeconds;
+  if (video && video.durationSeconds > max + 0.5) {
+    return {
+      rule: "video-duration",
+      severity: "error",
+      field: "video",
+      message:
+        `The saved video runs ${Math.round(video.durationSeconds)}s; ${spec.label} takes ` +
+        `${max}s. Export the ${spec.label} cut, which is clipped to fit.`,
+    };
+  }
+  return plannedSeconds !== undefined && plannedSeconds > max + 0.5
+    ? {
+        rule: "video-duration",
+        severity: "warning",
+        field: "video",
+        message:
+          `The edit runs ${Math.round(plannedSeconds)}s but ${spec.label} caps videos at ` +
+          `${max}s; its export drops the last ${Math.round(plannedSeconds - max)}s.`,
+      }
+    : null;
+};
+
+export const videoAspect: VideoRule = ({ spec, video }) => {
+  if (!video) {
+    return null;
+  }
+  const expected = spec.format.width / spec.format.height;
+  return Math.abs(video.width / video.height - expected) / expected > 0.01
+    ? {
+        rule: "video-aspect",
+        severity: "warning",
+        field: "video",
+        message:
+          `The saved video is ${ratioLabel(video.width, video.height)}; ${spec.label} expects ` +
+          `${spec.format.aspectRatio} and will letterbox it. Export the platform cut.`,
+      }
+    : null;
+};
+
+const megabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(0);
+
+export const videoSize =
+  (maxBytes: number): VideoRule =>
+  ({ spec, video }) =>
+    video && video.size > maxBytes
+      ? {
+          rule: "video-size",
+          severity: "error",
+          field: "video",
+          message:
+            `The video is ${megabytes(video.size)} MB; ` +
+            `${spec.label} takes up to ${megabytes(maxBytes)} MB.`,
+        }
+      : null;
+
+export const videoSaved: VideoRule = ({ spec, video }) =>
+  video === null
+    ? {
+        rule: "video-missing",
+        severity: "warning",
+        field: "video",
+        message: `No video is saved for this generation yet; ${spec.label} needs one to publish.`,
+      }
+    : null;
@@ -0,0 +1,50 @@
+import type { SocialPostPlan } from "@/types/agent";
+import type { LintFix } from "@/types/lint";
+
+export const linkPattern = /\b(?:https?:\/\/|www\.)[^\s]+/gi;
+
+export const emojiPattern = /\p{Extended_Pictographic}\uFE0F?/gu;
+
+export const characterCount = (text: string) => Array.from(text).length;
+
+const tidy = (text: string) =>
+  text
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/ +\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+// Cuts at the last word boundary that fits, so the caption never ends mid-word.
+const truncate = (text: string, maxLength: number) => {
+  const chars = Array.from(text);
+  if (chars.length <= maxLength) {
+    return text;
+  }
+  const head = chars.slice(0, Math.max(0, maxLength - 1)).join("");
+  const boundary = head.search(/\s\S*$/);
+  return `${(boundary > maxLength / 2 ? head.slice(0, boundary) : head).trimEnd()}…`;
+};
+
+const escapeClass = (characters: string) => characters.replace(/[\\\]^-]/g, "\\$&");
+
+export const applyFix = (post: SocialPostPlan, fix: LintFix): SocialPostPlan => {
+  switch (fix.kind) {
+    case "truncateCaption":
+      return { ...post, caption: truncate(post.caption, fix.maxLength) };
+    case "trimTags":
+      return { ...post, tags: post.tags.slice(0, fix.maxTags) };
+    case "removeLinks":
+      return { ...post, caption: tidy(post.caption.replace(linkPattern, "")) };
+    case "removeCharacters": {
+      const pattern = new RegExp(`[${escapeClass(fix.characters)}]`, "g");
+      return {
+        ...post,
+        caption: tidy(post.caption.replace(pattern, "")),
+        tags: post.tags.map((tag) => tag.replace(pattern, "")).filter((tag) => tag.length > 0),
+      };
+    }
+    case "removeEmoji":
+    default:
+      return { ...post, caption: tidy(post.caption.replace(emojiPattern, "")) };
+  }
+};
@@ -0,0 +1,117 @@
+import type { Platform, SocialPostPlan } from "@/types/agent";
+import type { CampaignAsset } from "@/types/campaign";
+import type { LintContext, LintIssue } from "@/types/lint";
+import type { Locale } from "@/types/locale";
+import { exportFileName, pickVideoAsset, platformSpecs, verticalFormat } from "@/lib/platforms";
+import {
+  captionLength,
+  forbiddenCharacters,
+  hashtagCount,
+  mentionCount,
+  noLinks,
+  notEmpty,
+  professionalTone,
+  titleLength,
+  videoAspect,
+  videoDuration,
+  videoSaved,
+  videoSize,
+  type PostRule,
+  type VideoRule,
+} from "./checks";
+
+export { applyFix } from "./fixes";
+
+const MB = 1024 * 1024;
+
+interface PlatformRules {
+  post: PostRule[];
+  video: VideoRule[];
+}
+
+const videoRules = (maxBytes: number) => [
+  videoSaved,
+  videoDuration,
+  videoAspect,
+  videoSize(maxBytes),
+];
+
+export const platformRules: Record<Platform, PlatformRules> = {
+  tiktok: {
+    post: [notEmpty, captionLength(2200), noLinks("warning")],
+    video: videoRules(4096 * MB),
+  },
+  instagram: {
+    post: [
+      notEmpty,
+      captionLength(2200),
+      hashtagCount(30, "error", "Instagram rejects captions with more than 30."),
+      mentionCount(20),
+      noLinks("warning"),
+    ],
+    video: videoRules(300 * MB),
+  },
+  youtube: {
+    post: [
+      notEmpty,
+      captionLength(5000),
+      titleLength(90),
+      forbiddenCharacters("<>"),
+      hashtagCount(15, "warning", "YouTube ignores every hashtag on videos with more than 15."),
+    ],
+    video: videoRules(256 * 1024 * MB),
+  },
+  linkedin: {
+    post: [
+      notEmpty,
+      captionLength(3000),
+      hashtagCount(5, "warning", "more than 5 looks spammy on LinkedIn."),
+      professionalTone(3, 2),
+    ],
+    video: videoRules(5120 * MB),
+  },
+};
+
+/** Runs a platform's copy rules and, given what is known about the video, its video rules. */
+export const lintPost = (post: SocialPostPlan, context: LintContext = {}): LintIssue[] => {
+  const rules = platformRules[post.platform];
+  const videoContext = { ...context, spec: platformSpecs[post.platform] };
+  return [
+    ...rules.post.map((rule) => rule(post)),
+    ...rules.video.map((rule) => rule(videoContext)),
+  ].filter((issue): issue is LintIssue => issue !== null);
+};
+
+export const hasErrors = (issues: LintIssue[]) =>
+  issues.some((issue) => issue.severity === "error");
+
+/**
+ * Describes the video a post would be published with, from the generation's saved renders.
+ * Platform exports are clipped to the platform's cap; the full render is vertical and unclipped.
+ */
+export const lintContextFor = (
+  platform: Platform,
+  renders: CampaignAsset[],
+  plannedSeconds: number,
+  locale?: Locale
+): LintContext => {
+  const asset = pickVideoAsset(platform, renders, locale);
+  if (!asset) {
+    return { video: null, plannedSeconds };
+  }
+  const spec = platformSpecs[platform];
+  const exported = asset.fileName === exportFileName(platform, locale);
+  const format = exported ? spec.format : verticalFormat;
+  return {
+    plannedSeconds,
+    video: {
+      durationSeconds: exported
+        ? Math.min(plannedSeconds, spec.maxDurationSeconds)
+        : plannedSeconds,
+      width: format.width,
+      height: format.height,
+      size: asset.size,
+      source: exported ? "export" : "render",
+    },
+  };
+};
@@ -0,0 +1,32 @@
+import type { JobActionRequest, PublishJob, ScheduleRequest } from "@/types/schedule";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error ?? `Request failed with ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const fetchJobs = async (campaignId: string) =>
+  (await request<{ jobs: PublishJob[] }>(`/api/jobs?campaignId=${encodeURIComponent(campaignId)}`))
+    .jobs;
+
+export const schedulePosts = async (campaignId: string, schedule: ScheduleRequest) =>
+  (
+    await request<{ jobs: PublishJob[] }>(`/api/campaigns/${campaignId}/schedule`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(schedule),
+    })
+  ).jobs;
+
+export const updateJob = (id: string, action: JobActionRequest) =>
+  request<PublishJob>(`/api/jobs/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(action),
+  });
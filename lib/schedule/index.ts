@@ -0,0 +1,297 @@
+import { randomUUID } from "crypto";
+import type { SocialPostPlan } from "@/types/agent";
+import type { Campaign } from "@/types/campaign";
+import type { Locale } from "@/types/locale";
+import { reviewStateLabels, type ReviewState } from "@/types/review";
+import type {
+  JobActionRequest,
+  JobStatus,
+  PublishCheckpoint,
+  PublishJob,
+  ScheduleRequest,
+} from "@/types/schedule";
+import { getCampaign } from "@/lib/campaigns";
+import { liveKey, localizationFor } from "@/lib/localization";
+import { queueMissingRenders } from "@/lib/render";
+import { canPublish, markScheduled, reviewStateOf } from "@/lib/review";
+import { createJsonStore } from "@/lib/store/fileStore";
+import { resolveRunAt } from "./time";
+
+const store = createJsonStore<PublishJob>("jobs");
+
+export const MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 60 * 60;
+
+/** Raised for an action the job's current status doesn't allow, e.g. pausing a published post. */
+export class JobStateError extends Error {
+  status: JobStatus;
+
+  constructor(message: string, status: JobStatus) {
+    super(message);
+    this.name = "JobStateError";
+    this.status = status;
+  }
+}
+
+/** Raised when posts are queued for a campaign no reviewer has approved yet. */
+export class ApprovalRequiredError extends Error {
+  state: ReviewState;
+
+  constructor(state: ReviewState) {
+    const current = reviewStateLabels[state].toLowerCase();
+    super(`Only approved campaigns can be scheduled; this one is ${current}`);
+    this.name = "ApprovalRequiredError";
+    this.state = state;
+  }
+}
+
+// Jobs that have not gone out yet and can still be rescheduled or cancelled.
+export const pending: JobStatus[] = ["queued", "paused", "failed"];
+
+export const listJobs = async (filter: { campaignId?: string; campaignIds?: string[] } = {}) =>
+  (await store.list())
+    .filter((job) => !filter.campaignId || job.campaignId === filter.campaignId)
+    .filter((job) => !filter.campaignIds || filter.campaignIds.includes(job.campaignId))
+    .sort((a, b) => a.runAt.localeCompare(b.runAt));
+
+export const getJob = (id: string) => store.get(id);
+
+export interface QueuedPost {
+  post: SocialPostPlan;
+  runAt: string;
+  experimentId?: string;
+  variantId?: string;
+  locale?: Locale;
+}
+
+const slotOf = (item: { post: SocialPostPlan; locale?: Locale }) =>
+  liveKey({ platform: item.post.platform, locale: item.locale });
+
+/**
+ * Adds jobs for the campaign's active generation, which must be approved; queueing marks it
+ * scheduled and queues a server render for every post without a video yet. Whatever was still
+ * pending for the same platforms and language is cancelled first, including the other variants
+ * of an A/B test there. A slot whose post an earlier attempt already got onto the platform is
+ * left alone, since queueing it again would post it twice.
+ */
+export const enqueuePosts = async (
+  campaign: Campaign,
+  timeZone: string,
+  requested: QueuedPost[]
+) => {
+  const state = reviewStateOf(campaign);
+  if (!canPublish(state)) {
+    throw new ApprovalRequiredError(state);
+  }
+  const existing = (await listJobs({ campaignId: campaign.id })).filter((job) =>
+    pending.includes(job.status)
+  );
+  const posting = new Set(existing.filter((job) => job.checkpoint?.stage === "post").map(slotOf));
+  const queued = requested.filter((item) => !posting.has(slotOf(item)));
+  const slots = new Set(queued.map(slotOf));
+  const now = new Date().toISOString();
+  for (const job of existing) {
+    if (slots.has(slotOf(job))) {
+      await store.update(job.id, (item) => ({ ...item, status: "cancelled", updatedAt: now }));
+    }
+  }
+
+  const jobs: PublishJob[] = [];
+  for (const { post, runAt, experimentId, variantId, locale } of queued) {
+    jobs.push(
+      await store.put({
+        id: randomUUID(),
+        campaignId: campaign.id,
+        generationId: campaign.activeGenerationId,
+        post,
+        ...(experimentId ? { experimentId, variantId } : {}),
+        ...(locale ? { locale } : {}),
+        timeZone,
+        runAt,
+        dueAt: runAt,
+        status: "queued",
+        attempts: 0,
+        maxAttempts: MAX_ATTEMPTS,
+        history: [],
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+  }
+  if (jobs.length > 0) {
+    await markScheduled(campaign.id);
+    await queueMissingRenders(
+      campaign,
+      jobs.map((job) => ({ platform: job.post.platform, locale: job.locale }))
+    );
+  }
+  return jobs;
+};
+
+/**
+ * Queues the active generation's posts at their scheduledTime, or right away with `now`. Posts
+ * that are already live are skipped; a pending job for the same campaign and platform is replaced.
+ * With a locale, that translation's posts are queued instead and go out with its own video.
+ */
+export const scheduleCampaignPosts = async (campaignId: string, request: ScheduleRequest) => {
+  const campaign = await getCampaign(campaignId);
+  if (!campaign) {
+    return null;
+  }
+  const generation = campaign.generations.find((item) => item.id === campaign.activeGenerationId);
+  const { locale } = request;
+  const localization = generation && locale ? localizationFor(generation.response, locale) : null;
+  if (locale && !localization) {
+    return [];
+  }
+  const live = new Set(campaign.published.map(liveKey));
+  const posts = (localization?.socialPosts ?? generation?.response.socialPosts ?? []).filter(
+    (post) =>
+      !live.has(liveKey({ platform: post.platform, locale })) &&
+      (!request.platforms || request.platforms.includes(post.platform))
+  );
+  const now = new Date().toISOString();
+  return enqueuePosts(
+    campaign,
+    request.timeZone,
+    posts.map((post) => ({
+      post,
+      runAt: request.now ? now : resolveRunAt(post.scheduledTime, request.timeZone),
+      ...(locale ? { locale } : {}),
+    }))
+  );
+};
+
+const later = (a: string, b: string) => (a > b ? a : b);
+
+const transition = (job: PublishJob, request: JobActionRequest, now: string): PublishJob => {
+  const refuse = (verb: string) => {
+    throw new JobStateError(`Cannot ${verb} a ${job.status} job`, job.status);
+  };
+  switch (request.action) {
+    case "pause":
+      return job.status === "queued" ? { ...job, status: "paused" } : refuse("pause");
+    case "resume":
+      return job.status === "paused"
+        ? { ...job, status: "queued", dueAt: later(job.dueAt, now) }
+        : refuse("resume");
+    case "reschedule": {
+      if (!pending.includes(job.status) || !request.runAt) {
+        return refuse("reschedule");
+      }
+      const timeZone = request.timeZone ?? job.timeZone;
+      const runAt = resolveRunAt(request.runAt, timeZone);
+      // A paused job stays paused at its new time; a failed one gets a fresh set of attempts.
+      return {
+        ...job,
+        timeZone,
+        runAt,
+        dueAt: runAt,
+        post: { ...job.post, scheduledTime: runAt },
+        status: job.status === "paused" ? "paused" : "queued",
+        attempts: job.status === "failed" ? 0 : job.attempts,
+      };
+    }
+    case "retry":
+      return job.status === "failed"
+        ? { ...job, status: "queued", dueAt: now, attempts: 0, lastError: undefined }
+        : refuse("retry");
+    case "cancel":
+    default:
+      return pending.includes(job.status) ? { ...job, status: "cancelled" } : refuse("cancel");
+  }
+};
+
+export const applyJobAction = (id: string, request: JobActionRequest) =>
+  store.update(id, (job) => {
+    const now = new Date().toISOString();
+    return { ...transition(job, request, now), updatedAt: now };
+  });
+
+export const backoffSeconds = (attempt: number) =>
+  Math.min(BACKOFF_MAX_SECONDS, BACKOFF_BASE_SECONDS * 2 ** Math.max(0, attempt - 1));
+
+/** Marks a due job as running. Returns null when another tick got there first. */
+export const claimJob = async (id: string, now: Date) => {
+  let claimed = false;
+  const job = await store.update(id, (current) => {
+    if (current.status !== "queued" || current.dueAt > now.toISOString()) {
+      return current;
+    }
+    claimed = true;
+    return { ...current, status: "running", lockedAt: now.toISOString() };
+  });
+  return claimed ? job : null;
+};
+
+export const completeJob = (id: string, startedAt: string, publishedAt: string) =>
+  store.update(id, (job) => ({
+    ...job,
+    status: "published",
+    attempts: job.attempts + 1,
+    history: [...job.history, { startedAt, finishedAt: publishedAt, ok: true }],
+    publishedAt,
+    lockedAt: undefined,
+    lastError: undefined,
+    updatedAt: publishedAt,
+  }));
+
+/** Records what the running attempt created on the platform, as soon as it exists. */
+export const saveCheckpoint = (id: string, checkpoint?: PublishCheckpoint) =>
+  store.update(id, (job) => ({ ...job, checkpoint, updatedAt: new Date().toISOString() }));
+
+/**
+ * Requeues a job whose post is on the platform but not confirmed yet. It doesn't run out of
+ * attempts: the next one only checks on the post, so waiting longer can't publish it twice.
+ */
+export const deferJob = (id: string, startedAt: string, error: string) =>
+  store.update(id, (job) => {
+    const now = new Date();
+    const attempts = job.attempts + 1;
+    return {
+      ...job,
+      status: "queued",
+      attempts,
+      dueAt: new Date(now.getTime() + backoffSeconds(attempts) * 1000).toISOString(),
+      history: [...job.history, { startedAt, finishedAt: now.toISOString(), ok: false, error }],
+      lastError: error,
+      lockedAt: undefined,
+      updatedAt: now.toISOString(),
+    };
+  });
+
+/** Records a failed attempt and either backs off for another try or gives up. */
+export const failJob = (id: string, startedAt: string, error: string, retryable = true) =>
+  store.update(id, (job) => {
+    const now = new Date();
+    const attempts = job.attempts + 1;
+    const exhausted = !retryable || attempts >= job.maxAttempts;
+    return {
+      ...job,
+      status: exhausted ? "failed" : "queued",
+      attempts,
+      dueAt: exhausted
+        ? job.dueAt
+        : new Date(now.getTime() + backoffSeconds(attempts) * 1000).toISOString(),
+      history: [...job.history, { startedAt, finishedAt: now.toISOString(), ok: false, error }],
+      lastError: error,
+      lockedAt: undefined,
+      updatedAt: now.toISOString(),
+    };
+  });
+
+/** Requeues jobs left "running" by a process that died mid-publish. */
+export const releaseStaleJobs = async (olderThan: Date) => {
+  const stale = (await store.list()).filter(
+    (job) => job.status === "running" && (!job.lockedAt || job.lockedAt < olderThan.toISOString())
+  );
+  for (const job of stale) {
+    await store.update(job.id, (current) =>
+      current.status === "running"
+        ? { ...current, status: "queued", lockedAt: undefined, updatedAt: new Date().toISOString() }
+        : current
+    );
+  }
+  return stale.length;
+};
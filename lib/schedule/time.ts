@@ -0,0 +1,57 @@
+const EXPLICIT_OFFSET = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Minutes the zone is ahead of UTC at the given instant.
+const offsetMinutes = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second")
+  );
+  return Math.round((asUtc - instant.getTime()) / 60_000);
+};
+
+/**
+ * Resolves a schedule time to a UTC instant. Timestamps with an offset are absolute; bare
+ * wall-clock times ("2024-05-01T09:00") are read in `timeZone`, DST included.
+ */
+export const resolveRunAt = (value: string, timeZone: string) => {
+  if (EXPLICIT_OFFSET.test(value.trim())) {
+    return new Date(value).toISOString();
+  }
+  const wall = new Date(`${value}Z`);
+  // Two passes settle the offset when the wall time sits near a DST switch.
+  let guess = wall.getTime() - offsetMinutes(wall, timeZone) * 60_000;
+  guess = wall.getTime() - offsetMinutes(new Date(guess), timeZone) * 60_000;
+  return new Date(guess).toISOString();
+};
+
+/** The instant as a wall-clock "YYYY-MM-DDTHH:mm" string in `timeZone`, for datetime inputs. */
+export const toWallClock = (iso: string, timeZone: string) => {
+  const instant = new Date(iso);
+  const shifted = new Date(instant.getTime() + offsetMinutes(instant, timeZone) * 60_000);
+  return shifted.toISOString().slice(0, 16);
+};
@@ -0,0 +1,130 @@
+import type { PublishedPost } from "@/types/campaign";
+import type { PublishJob } from "@/types/schedule";
+import { addPublishedPost, getCampaign } from "@/lib/campaigns";
+import {
+  publishJob,
+  PublishError,
+  UnconfirmedPublishError,
+  type PublishContext,
+} from "@/lib/publishers";
+import { emitEvent } from "@/lib/webhooks";
+import {
+  claimJob,
+  completeJob,
+  deferJob,
+  failJob,
+  listJobs,
+  releaseStaleJobs,
+  saveCheckpoint,
+} from "./index";
+
+const TICK_MS = 15_000;
+const STALE_LOCK_MS = 10 * 60_000;
+
+export type JobPublisher = (job: PublishJob, context: PublishContext) => Promise<PublishedPost>;
+
+/** Publishes every queued job whose due time has passed. Returns how many were attempted. */
+export const runDueJobs = async (publish: JobPublisher = publishJob, now = new Date()) => {
+  const due = (await listJobs()).filter(
+    (job) => job.status === "queued" && job.dueAt <= now.toISOString()
+  );
+  let attempted = 0;
+  for (const candidate of due) {
+    const job = await claimJob(candidate.id, now);
+    if (!job) {
+      continue;
+    }
+    attempted += 1;
+    const startedAt = new Date().toISOString();
+    let post: PublishedPost;
+    try {
+      post = await publish(job, {
+        onCheckpoint: async (checkpoint) => {
+          await saveCheckpoint(job.id, checkpoint);
+        },
+      });
+    } catch (error) {
+      console.warn(`Publish attempt for job ${job.id} failed`, error);
+      if (error instanceof UnconfirmedPublishError) {
+        await deferJob(job.id, startedAt, error.message);
+        continue;
+      }
+      const retryable = !(error instanceof PublishError) || error.retryable;
+      const message = error instanceof Error ? error.message : "Publish failed";
+      const failed = await failJob(job.id, startedAt, message, retryable);
+      if (failed?.status === "failed") {
+        const campaign = await getCampaign(job.campaignId);
+        await emitEvent(campaign?.workspaceId, "post.failed", {
+          campaignId: job.campaignId,
+          jobId: job.id,
+          platform: job.post.platform,
+          ...(job.locale ? { locale: job.locale } : {}),
+          attempts: failed.attempts,
+          error: message,
+        });
+      }
+      continue;
+    }
+    // The post is live now: the job is closed before any other bookkeeping, and nothing after
+    // this point sends it back to the queue, or the next attempt would publish it a second time.
+    let recorded = false;
+    try {
+      await completeJob(job.id, startedAt, post.publishedAt);
+      recorded = true;
+      const campaign = await addPublishedPost(job.campaignId, post);
+      if (!campaign) {
+        console.warn(`Job ${job.id} published, but its campaign no longer exists`);
+        continue;
+      }
+      await emitEvent(campaign.workspaceId, "post.published", {
+        campaignId: job.campaignId,
+        jobId: job.id,
+        post,
+      });
+    } catch (error) {
+      console.error(`Job ${job.id} published, but recording it failed`, error);
+      if (!recorded) {
+        const message = error instanceof Error ? error.message : "unknown error";
+        const where = post.url ? ` at ${post.url}` : "";
+        await failJob(
+          job.id,
+          startedAt,
+          `Published${where}, but recording it failed: ${message}`,
+          false
+        ).catch((failure) => console.error(`Failed to close job ${job.id}`, failure));
+      }
+    }
+  }
+  return attempted;
+};
+
+const globalScheduler = globalThis as typeof globalThis & {
+  __agenticScheduler?: ReturnType<typeof setInterval>;
+};
+
+/**
+ * Starts the in-process ticker once per server. Dev reloads re-run module code, so the handle
+ * lives on globalThis rather than in a module variable.
+ */
+export const startScheduler = () => {
+  if (globalScheduler.__agenticScheduler || process.env.SCHEDULER_DISABLED === "true") {
+    return;
+  }
+  let running = false;
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await releaseStaleJobs(new Date(Date.now() - STALE_LOCK_MS));
+      await runDueJobs();
+    } catch (error) {
+      console.error("Scheduler tick failed", error);
+    } finally {
+      running = false;
+    }
+  };
+  globalScheduler.__agenticScheduler = setInterval(tick, TICK_MS);
+  void tick();
+};
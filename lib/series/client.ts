@@ -0,0 +1,45 @@
+import type {
+  CalendarEntry,
+  ContentSeries,
+  RescheduleRequest,
+  SeriesRequest,
+  SeriesSummary,
+} from "@/types/series";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    // Plan problems (too many episodes, a post already live) come back as a single issue.
+    throw new Error(
+      payload.issues?.[0]?.message ?? payload.error ?? `Request failed with ${response.status}`
+    );
+  }
+  return (await response.json()) as T;
+};
+
+export interface SeriesCalendar {
+  series: ContentSeries;
+  entries: CalendarEntry[];
+}
+
+export const fetchSeriesList = async () =>
+  (await request<{ series: SeriesSummary[] }>("/api/series")).series;
+
+export const fetchSeries = (id: string) => request<SeriesCalendar>(`/api/series/${id}`);
+
+export const createSeries = (series: SeriesRequest) =>
+  request<SeriesCalendar>("/api/series", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(series),
+  });
+
+export const reschedulePost = async (seriesId: string, move: RescheduleRequest) =>
+  (
+    await request<{ entries: CalendarEntry[] }>(`/api/series/${seriesId}/reschedule`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(move),
+    })
+  ).entries;
@@ -0,0 +1,268 @@
+import { randomUUID } from "crypto";
+import type { AgentRequest, AgentResponse, Platform, SocialPostPlan } from "@/types/agent";
+import {
+  seriesBounds,
+  type CalendarEntry,
+  type CalendarEntryStatus,
+  type ContentSeries,
+  type RescheduleRequest,
+  type SeriesRequest,
+  type SeriesSummary,
+} from "@/types/series";
+import { runAgent, type RunAgentOptions } from "@/lib/agent";
+import { getCampaign, saveGeneration, updateCampaign } from "@/lib/campaigns";
+import { liveKey } from "@/lib/localization";
+import { insightsFor } from "@/lib/insights";
+import { applyJobAction, listJobs, pending } from "@/lib/schedule";
+import { createJsonStore } from "@/lib/store/fileStore";
+import { planSeries } from "./plan";
+
+const store = createJsonStore<ContentSeries>("series");
+
+/** Raised for a plan that can't be laid out, or a calendar move the episode can't take. */
+export class SeriesPlanError extends Error {
+  path: string;
+
+  constructor(message: string, path: string) {
+    super(message);
+    this.name = "SeriesPlanError";
+    this.path = path;
+  }
+}
+
+export const toSeriesSummary = (series: ContentSeries): SeriesSummary => ({
+  id: series.id,
+  title: series.title,
+  startDate: series.request.startDate,
+  endDate: series.request.endDate,
+  episodeCount: series.episodes.length,
+  updatedAt: series.updatedAt,
+});
+
+export const listSeries = async (filter: { workspaceId?: string } = {}) =>
+  (await store.list())
+    .filter((series) => !filter.workspaceId || series.workspaceId === filter.workspaceId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(toSeriesSummary);
+
+export const getSeries = async (id: string, workspaceId?: string) => {
+  const series = await store.get(id);
+  return series && (!workspaceId || series.workspaceId === workspaceId) ? series : null;
+};
+
+/** Hands series planned before workspaces existed to the first workspace. */
+export const adoptSeries = async (workspaceId: string) => {
+  for (const series of await store.list()) {
+    if (!series.workspaceId) {
+      await store.update(series.id, (current) => ({ ...current, workspaceId }));
+    }
+  }
+};
+
+const checkedPlan = (request: SeriesRequest) => {
+  if (request.endDate < request.startDate) {
+    throw new SeriesPlanError("The end date must be on or after the start date", "endDate");
+  }
+  const plan = planSeries(request);
+  if (plan.days > seriesBounds.maxWeeks * 7) {
+    throw new SeriesPlanError(
+      `A series can span at most ${seriesBounds.maxWeeks} weeks`,
+      "endDate"
+    );
+  }
+  if (plan.episodes.length === 0) {
+    throw new SeriesPlanError("Set a posting cadence for at least one platform", "cadence");
+  }
+  if (plan.episodes.length > seriesBounds.maxEpisodes) {
+    throw new SeriesPlanError(
+      `That cadence needs ${plan.episodes.length} episodes; a series can have at most ` +
+        `${seriesBounds.maxEpisodes}. Shorten the range or post less often.`,
+      "cadence"
+    );
+  }
+  return plan;
+};
+
+// Variants and translations share the schedule, so their copy of the post moves along with it.
+const retime = (
+  response: AgentResponse,
+  platform: Platform,
+  scheduledTime: string
+): AgentResponse => {
+  const move = (posts: SocialPostPlan[]) =>
+    posts.map((post) => (post.platform === platform ? { ...post, scheduledTime } : post));
+  return {
+    ...response,
+    socialPosts: move(response.socialPosts),
+    ...(response.variants
+      ? {
+          variants: response.variants.map((variant) => ({
+            ...variant,
+            socialPosts: move(variant.socialPosts),
+          })),
+        }
+      : {}),
+    ...(response.localizations
+      ? {
+          localizations: response.localizations.map((localization) => ({
+            ...localization,
+            socialPosts: move(localization.socialPosts),
+          })),
+        }
+      : {}),
+  };
+};
+
+/**
+ * Generates every episode in order, one campaign each. Episodes are saved as they finish, so a
+ * run that fails part-way keeps the ones already written.
+ */
+export const createSeries = async (
+  request: SeriesRequest,
+  options: Omit<RunAgentOptions, "insights" | "usedHooks"> & { workspaceId?: string } = {}
+) => {
+  const { workspaceId, ...agentOptions } = options;
+  const plan = checkedPlan(request);
+  const now = new Date().toISOString();
+  let series = await store.put({
+    id: randomUUID(),
+    title: request.theme.trim(),
+    request,
+    episodes: [],
+    ...(workspaceId ? { workspaceId } : {}),
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const base = {
+    tone: request.tone,
+    lengthSeconds: request.lengthSeconds,
+    targetAudience: request.targetAudience,
+    ...(request.brandId ? { brandId: request.brandId } : {}),
+    ...(request.voiceProfileId ? { voiceProfileId: request.voiceProfileId } : {}),
+    ...(request.learnFromResults === false ? { learnFromResults: false } : {}),
+  };
+  const insights = await insightsFor(
+    {
+      ...base,
+      idea: request.theme,
+      platforms: Array.from(
+        new Set(plan.episodes.flatMap((item) => item.posts.map((post) => post.platform)))
+      ),
+    },
+    workspaceId
+  );
+  const usedHooks: string[] = [];
+  for (const planned of plan.episodes) {
+    const agentRequest: AgentRequest = {
+      ...base,
+      idea: planned.idea,
+      platforms: planned.posts.map((post) => post.platform),
+    };
+    const response = planned.posts.reduce(
+      (current, post) => retime(current, post.platform, post.scheduledTime),
+      await runAgent(agentRequest, { ...agentOptions, insights, usedHooks })
+    );
+    usedHooks.push(response.hook);
+    const campaign = await saveGeneration(agentRequest, response, {
+      workspaceId,
+      series: { seriesId: series.id, episode: planned.index },
+    });
+    const episode = { index: planned.index, angle: planned.angle, campaignId: campaign.id };
+    series = (await store.update(series.id, (current) => ({
+      ...current,
+      episodes: [...current.episodes, episode],
+      updatedAt: new Date().toISOString(),
+    })))!;
+  }
+  return series;
+};
+
+/** Every post of the series as it stands: planned, queued or already live. */
+export const seriesCalendar = async (series: ContentSeries) => {
+  const jobs = await listJobs();
+  const entries: CalendarEntry[] = [];
+  for (const episode of series.episodes) {
+    const campaign = await getCampaign(episode.campaignId);
+    const generation = campaign?.generations.find(
+      (item) => item.id === campaign.activeGenerationId
+    );
+    if (!campaign || !generation) {
+      continue;
+    }
+    for (const post of generation.response.socialPosts) {
+      const live = campaign.published.find((item) => liveKey(item) === post.platform);
+      const job = jobs
+        .filter(
+          (item) =>
+            item.campaignId === campaign.id &&
+            item.post.platform === post.platform &&
+            !item.locale &&
+            item.status !== "cancelled"
+        )
+        .pop();
+      entries.push({
+        campaignId: campaign.id,
+        episode: episode.index,
+        angle: episode.angle,
+        title: campaign.title,
+        hook: generation.response.hook,
+        platform: post.platform,
+        scheduledTime: live?.publishedAt ?? job?.runAt ?? post.scheduledTime,
+        status: live ? "published" : (job?.status as CalendarEntryStatus) ?? "planned",
+      });
+    }
+  }
+  return entries.sort((a, b) => a.scheduledTime.localeCompare(b.scheduledTime));
+};
+
+/**
+ * Moves one episode's post. The plan is updated, and so is the publish job when the post is
+ * already queued; A/B test slots keep their own spacing and are left alone.
+ */
+export const reschedulePost = async (
+  seriesId: string,
+  request: RescheduleRequest,
+  workspaceId?: string
+) => {
+  const series = await getSeries(seriesId, workspaceId);
+  if (!series) {
+    return null;
+  }
+  const inSeries = series.episodes.some((episode) => episode.campaignId === request.campaignId);
+  const campaign = inSeries ? await getCampaign(request.campaignId) : null;
+  const generation = campaign?.generations.find(
+    (item) => item.id === campaign.activeGenerationId
+  );
+  if (!campaign || !generation) {
+    throw new SeriesPlanError("That campaign is not part of this series", "campaignId");
+  }
+  if (!generation.response.socialPosts.some((post) => post.platform === request.platform)) {
+    throw new SeriesPlanError(`No ${request.platform} post in this episode`, "platform");
+  }
+  if (campaign.published.some((post) => liveKey(post) === request.platform)) {
+    throw new SeriesPlanError(`Already live on ${request.platform}`, "platform");
+  }
+  const jobs = (await listJobs({ campaignId: campaign.id })).filter(
+    (job) => job.post.platform === request.platform && !job.experimentId && !job.locale
+  );
+  if (jobs.some((job) => job.status === "running")) {
+    throw new SeriesPlanError(`The ${request.platform} post is publishing right now`, "platform");
+  }
+
+  const scheduledTime = new Date(request.scheduledTime).toISOString();
+  // Moving a post doesn't change the copy a reviewer approved.
+  await updateCampaign(
+    campaign.id,
+    { response: retime(generation.response, request.platform, scheduledTime) },
+    { keepReview: true }
+  );
+  for (const job of jobs.filter((item) => pending.includes(item.status))) {
+    await applyJobAction(job.id, { action: "reschedule", runAt: scheduledTime });
+  }
+  const updated = await store.update(series.id, (current) => ({
+    ...current,
+    updatedAt: new Date().toISOString(),
+  }));
+  return seriesCalendar(updated ?? series);
+};
@@ -0,0 +1,80 @@
+import { platforms, type Platform } from "@/types/agent";
+import type { SeriesRequest } from "@/types/series";
+import { platformSlotHours } from "@/lib/agent/schedule";
+import { resolveRunAt } from "@/lib/schedule/time";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One per episode, in order, so a series never covers the same ground twice.
+export const seriesAngles = [
+  "a beginner's guide",
+  "myths worth busting",
+  "the mistakes everyone makes",
+  "a step-by-step walkthrough",
+  "the tools that make it easier",
+  "a real-world case study",
+  "quick wins for this week",
+  "what the numbers say",
+  "behind the scenes",
+  "your questions answered",
+  "advanced tactics",
+  "where it's heading next",
+];
+
+export interface PlannedEpisode {
+  index: number;
+  angle: string;
+  idea: string;
+  day: string;
+  posts: { platform: Platform; scheduledTime: string }[];
+}
+
+export interface SeriesPlan {
+  days: number;
+  episodes: PlannedEpisode[];
+}
+
+const dayNumber = (date: string) => Math.floor(new Date(`${date}T00:00:00Z`).getTime() / DAY_MS);
+
+const addDays = (date: string, days: number) =>
+  new Date(dayNumber(date) * DAY_MS + days * DAY_MS).toISOString().slice(0, 10);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const episodeIdea = (theme: string, angle: string) => `${theme.trim()}: ${angle}`;
+
+/**
+ * Lays the series out over the date range. The busiest platform sets the number of episodes, which
+ * are spread evenly across the range; quieter platforms post on an even subset of them. Each post
+ * goes out at its platform's usual hour, read in the series' time zone.
+ */
+export const planSeries = (request: SeriesRequest): SeriesPlan => {
+  const days = Math.max(0, dayNumber(request.endDate) - dayNumber(request.startDate) + 1);
+  const counts = platforms
+    .map((platform) => ({ platform, perWeek: request.cadence[platform] ?? 0 }))
+    .filter((item) => item.perWeek > 0 && days > 0)
+    .map((item) => ({
+      platform: item.platform,
+      count: Math.max(1, Math.round((item.perWeek * days) / 7)),
+    }));
+  const total = Math.max(0, ...counts.map((item) => item.count));
+
+  const episodes = Array.from({ length: total }, (_, index): PlannedEpisode => {
+    const angle = seriesAngles[index % seriesAngles.length];
+    return {
+      index,
+      angle,
+      idea: episodeIdea(request.theme, angle),
+      day: addDays(request.startDate, Math.floor((index * days) / total)),
+      posts: [],
+    };
+  });
+  for (const { platform, count } of counts) {
+    for (let slot = 0; slot < count; slot += 1) {
+      const episode = episodes[Math.floor((slot * total) / count)];
+      const wallClock = `${episode.day}T${pad(platformSlotHours[platform])}:00`;
+      episode.posts.push({ platform, scheduledTime: resolveRunAt(wallClock, request.timeZone) });
+    }
+  }
+  return { days, episodes };
+};
@@ -0,0 +1,98 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export const dataDir = () => process.env.AGENTIC_DATA_DIR ?? path.join(process.cwd(), "data");
+
+export interface Identified {
+  id: string;
+}
+
+export interface JsonStore<T extends Identified> {
+  list: () => Promise<T[]>;
+  get: (id: string) => Promise<T | null>;
+  put: (record: T) => Promise<T>;
+  // Adds a new record in the same step as `check`, which sees every record and throws to refuse.
+  insert: (record: T, check: (records: T[]) => void) => Promise<T>;
+  update: (id: string, apply: (record: T) => T) => Promise<T | null>;
+  remove: (id: string) => Promise<boolean>;
+}
+
+const queues = new Map<string, Promise<unknown>>();
+
+// Serialises read-modify-write cycles per file so concurrent requests don't clobber each other.
+const enqueue = <R>(file: string, task: () => Promise<R>): Promise<R> => {
+  const previous = queues.get(file) ?? Promise.resolve();
+  const next = previous.then(task, task);
+  queues.set(file, next.catch(() => undefined));
+  return next;
+};
+
+const readFile = async <T>(file: string): Promise<T[]> => {
+  try {
+    const raw = await fs.readFile(file, "utf8");
+    return JSON.parse(raw) as T[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+};
+
+const writeFile = async <T>(file: string, records: T[]) => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(records, null, 2), "utf8");
+  await fs.rename(temp, file);
+};
+
+export const createJsonStore = <T extends Identified>(name: string): JsonStore<T> => {
+  const file = () => path.join(dataDir(), `${name}.json`);
+
+  return {
+    list: () => enqueue(file(), () => readFile<T>(file())),
+    get: (id) =>
+      enqueue(file(), async () => (await readFile<T>(file())).find((record) => record.id === id) ?? null),
+    put: (record) =>
+      enqueue(file(), async () => {
+        const records = await readFile<T>(file());
+        const index = records.findIndex((item) => item.id === record.id);
+        if (index === -1) {
+          records.push(record);
+        } else {
+          records[index] = record;
+        }
+        await writeFile(file(), records);
+        return record;
+      }),
+    insert: (record, check) =>
+      enqueue(file(), async () => {
+        const records = await readFile<T>(file());
+        check(records);
+        records.push(record);
+        await writeFile(file(), records);
+        return record;
+      }),
+    update: (id, apply) =>
+      enqueue(file(), async () => {
+        const records = await readFile<T>(file());
+        const index = records.findIndex((item) => item.id === id);
+        if (index === -1) {
+          return null;
+        }
+        records[index] = apply(records[index]);
+        await writeFile(file(), records);
+        return records[index];
+      }),
+    remove: (id) =>
+      enqueue(file(), async () => {
+        const records = await readFile<T>(file());
+        const remaining = records.filter((record) => record.id !== id);
+        if (remaining.length === records.length) {
+          return false;
+        }
+        await writeFile(file(), remaining);
+        return true;
+      }),
+  };
+};
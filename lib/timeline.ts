@@ -0,0 +1,121 @@
+import type { ScenePlan } from "@/types/agent";
+
+export const MIN_SCENE_SECONDS = 1;
+
+const roundHalf = (value: number) => Math.round(value * 2) / 2;
+
+export const totalDuration = (scenes: ScenePlan[]) =>
+  scenes.reduce((acc, scene) => acc + scene.durationSeconds, 0);
+
+const uniqueId = (scenes: ScenePlan[], base: string) => {
+  const taken = new Set(scenes.map((scene) => scene.id));
+  let counter = scenes.length + 1;
+  let candidate = `${base}-${counter}`;
+  while (taken.has(candidate)) {
+    counter += 1;
+    candidate = `${base}-${counter}`;
+  }
+  return candidate;
+};
+
+export const moveScene = (scenes: ScenePlan[], from: number, to: number) => {
+  if (from === to || from < 0 || from >= scenes.length) {
+    return scenes;
+  }
+  const next = [...scenes];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return next;
+};
+
+export const resizeScene = (scenes: ScenePlan[], index: number, durationSeconds: number) =>
+  scenes.map((scene, position) =>
+    position === index
+      ? { ...scene, durationSeconds: Math.max(MIN_SCENE_SECONDS, roundHalf(durationSeconds)) }
+      : scene
+  );
+
+export const narrationWords = (scene: ScenePlan) =>
+  scene.narration.split(/\s+/).filter((word) => word.length > 0);
+
+// Both halves of a split need at least the minimum length, or the total would grow.
+export const canSplitScene = (scene: ScenePlan) => scene.durationSeconds >= 2 * MIN_SCENE_SECONDS;
+
+/**
+ * Splits a scene before the word at `wordIndex`. Duration is shared in proportion to the
+ * number of words on each side, so narration pace stays roughly constant.
+ */
+export const splitScene = (scenes: ScenePlan[], index: number, wordIndex: number) => {
+  const scene = scenes[index];
+  const words = scene ? narrationWords(scene) : [];
+  if (!scene || !canSplitScene(scene) || wordIndex <= 0 || wordIndex >= words.length) {
+    return scenes;
+  }
+  const ratio = wordIndex / words.length;
+  const firstDuration = Math.max(
+    MIN_SCENE_SECONDS,
+    Math.min(scene.durationSeconds - MIN_SCENE_SECONDS, roundHalf(scene.durationSeconds * ratio))
+  );
+  const first: ScenePlan = {
+    ...scene,
+    narration: words.slice(0, wordIndex).join(" "),
+    durationSeconds: firstDuration,
+  };
+  const second: ScenePlan = {
+    ...scene,
+    id: uniqueId(scenes, "scene"),
+    title: `${scene.title} (cont.)`,
+    narration: words.slice(wordIndex).join(" "),
+    durationSeconds: Math.max(MIN_SCENE_SECONDS, scene.durationSeconds - firstDuration),
+  };
+  return [...scenes.slice(0, index), first, second, ...scenes.slice(index + 1)];
+};
+
+export const mergeWithNext = (scenes: ScenePlan[], index: number) => {
+  const scene = scenes[index];
+  const next = scenes[index + 1];
+  if (!scene || !next) {
+    return scenes;
+  }
+  const merged: ScenePlan = {
+    ...scene,
+    narration: `${scene.narration} ${next.narration}`.trim(),
+    visualDirection:
+      next.visualDirection && next.visualDirection !== scene.visualDirection
+        ? `${scene.visualDirection}; then ${next.visualDirection}`
+        : scene.visualDirection,
+    durationSeconds: scene.durationSeconds + next.durationSeconds,
+  };
+  return [...scenes.slice(0, index), merged, ...scenes.slice(index + 2)];
+};
+
+export const insertScene = (scenes: ScenePlan[], afterIndex: number) => {
+  const scene: ScenePlan = {
+    id: uniqueId(scenes, "scene"),
+    title: "New scene",
+    narration: "Add narration for this beat.",
+    visualDirection: "Describe the visual",
+    durationSeconds: 5,
+  };
+  const position = Math.max(0, Math.min(afterIndex + 1, scenes.length));
+  return [...scenes.slice(0, position), scene, ...scenes.slice(position)];
+};
+
+export const removeScene = (scenes: ScenePlan[], index: number) =>
+  scenes.length <= 1 ? scenes : scenes.filter((_, position) => position !== index);
+
+/** Cuts the plan at `maxSeconds`, shortening the scene that crosses the limit. */
+export const clipToDuration = (scenes: ScenePlan[], maxSeconds: number) => {
+  const clipped: ScenePlan[] = [];
+  let elapsed = 0;
+  for (const scene of scenes) {
+    const remaining = maxSeconds - elapsed;
+    if (remaining < MIN_SCENE_SECONDS) {
+      break;
+    }
+    const durationSeconds = Math.min(scene.durationSeconds, remaining);
+    clipped.push(durationSeconds === scene.durationSeconds ? scene : { ...scene, durationSeconds });
+    elapsed += durationSeconds;
+  }
+  return clipped;
+};
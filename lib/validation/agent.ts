@@ -0,0 +1,361 @@
+import {
+  backgroundMotions,
+  captionMotions,
+  lengthBounds,
+  platforms,
+  sceneTransitions,
+  variantBounds,
+  type AgentRequest,
+  type AgentResponse,
+  type CopyVariant,
+  type Localization,
+  type LocalizedScene,
+  type RegenerateRequest,
+  type RegenerateResult,
+  type RegenerateTarget,
+  type SceneAnimation,
+  type ScenePlan,
+  type SocialPostPlan,
+  type TranslateRequest,
+} from "@/types/agent";
+import { localeBounds, locales } from "@/types/locale";
+import type { HookRationale, HookResult } from "@/types/insights";
+import {
+  array,
+  boolean,
+  isoDate,
+  number,
+  object,
+  oneOf,
+  optional,
+  parse,
+  string,
+  type Issue,
+  type Schema,
+} from "./schema";
+import { variantId } from "@/lib/agent/variants";
+import { sceneVisualSchema } from "./media";
+
+export const agentRequestSchema = object<AgentRequest>({
+  idea: string({ min: 1, max: 2000, trim: true }),
+  tone: string({ min: 1, max: 80, trim: true }),
+  lengthSeconds: number({ min: lengthBounds.min, max: lengthBounds.max, integer: true }),
+  platforms: array(oneOf(platforms), { min: 1, max: platforms.length }),
+  targetAudience: string({ min: 1, max: 300, trim: true }),
+  brandId: optional(string({ min: 1, max: 64 })),
+  voiceProfileId: optional(string({ min: 1, max: 64 })),
+  learnFromResults: optional(boolean()),
+  variants: optional(number({ min: variantBounds.min, max: variantBounds.max, integer: true })),
+  locales: optional(array(oneOf(locales), { min: 1, max: localeBounds.max })),
+});
+
+export const sceneAnimationSchema = object<SceneAnimation>({
+  background: oneOf(backgroundMotions),
+  captions: oneOf(captionMotions),
+  progressBar: boolean(),
+});
+
+export const scenePlanSchema = object<ScenePlan>({
+  id: string({ min: 1 }),
+  title: string({ min: 1, trim: true }),
+  narration: string({ min: 1, trim: true }),
+  visualDirection: string({ trim: true }),
+  durationSeconds: number({ min: 1 }),
+  transition: optional(oneOf(sceneTransitions)),
+  animation: optional(sceneAnimationSchema),
+  visual: optional(sceneVisualSchema),
+});
+
+export const socialPostPlanSchema = object<SocialPostPlan>({
+  platform: oneOf(platforms),
+  caption: string({ min: 1, trim: true }),
+  tags: array(string({ min: 1, trim: true })),
+  callToAction: string({ trim: true }),
+  scheduledTime: isoDate(),
+});
+
+const copyVariantSchema = object<CopyVariant>({
+  id: string({ min: 1, max: 8 }),
+  hook: string({ min: 1, trim: true }),
+  socialPosts: array(socialPostPlanSchema),
+});
+
+const localizedSceneSchema = object<LocalizedScene>({
+  id: string({ min: 1 }),
+  title: string({ min: 1, trim: true }),
+  narration: string({ min: 1, trim: true }),
+});
+
+export const localizationSchema = object<Localization>({
+  locale: oneOf(locales),
+  hook: string({ min: 1, trim: true }),
+  script: string({ min: 1, trim: true }),
+  scenes: array(localizedSceneSchema),
+  socialPosts: array(socialPostPlanSchema),
+  translated: boolean(),
+});
+
+const hookResultSchema = object<HookResult>({
+  campaignId: string({ min: 1 }),
+  title: string(),
+  hook: string(),
+  tone: string(),
+  lengthSeconds: number({ min: 0 }),
+  platforms: array(oneOf(platforms)),
+  views: number({ min: 0 }),
+  engagementRate: number({ min: 0 }),
+  score: number({ min: 0 }),
+});
+
+const hookRationaleSchema = object<HookRationale>({
+  summary: string({ trim: true }),
+  notes: array(string()),
+  references: array(hookResultSchema),
+});
+
+export const agentResponseSchema = object<AgentResponse>({
+  script: string({ min: 1, trim: true }),
+  scenes: array(scenePlanSchema, { min: 1 }),
+  socialPosts: array(socialPostPlanSchema),
+  talkingPoints: array(string({ min: 1, trim: true })),
+  hook: string({ min: 1, trim: true }),
+  rationale: optional(hookRationaleSchema),
+  variants: optional(array(copyVariantSchema, { max: variantBounds.max })),
+  activeVariantId: optional(string({ min: 1, max: 8 })),
+  localizations: optional(array(localizationSchema, { max: localeBounds.max })),
+});
+
+const regenerateTargetSchema: Schema<RegenerateTarget> = {
+  check: (value, path, issues) => {
+    const kind = (value as { kind?: unknown } | null)?.kind;
+    if (kind === "scene") {
+      return object<{ kind: "scene"; index: number }>({
+        kind: oneOf(["scene"] as const),
+        index: number({ min: 0, integer: true }),
+      }).check(value, path, issues);
+    }
+    if (kind === "socialPost") {
+      return object<{ kind: "socialPost"; platform: (typeof platforms)[number] }>({
+        kind: oneOf(["socialPost"] as const),
+        platform: oneOf(platforms),
+      }).check(value, path, issues);
+    }
+    issues.push({
+      path: path ? `${path}.kind` : "kind",
+      code: "invalid_enum",
+      message: "target.kind must be scene or socialPost",
+    });
+    return undefined;
+  },
+};
+
+export const regenerateRequestSchema = object<RegenerateRequest>({
+  request: agentRequestSchema,
+  response: agentResponseSchema,
+  target: regenerateTargetSchema,
+});
+
+export const translateRequestSchema = object<TranslateRequest>({
+  request: agentRequestSchema,
+  response: agentResponseSchema,
+  locale: oneOf(locales),
+});
+
+export class AgentOutputError extends Error {
+  issues: Issue[];
+
+  constructor(issues: Issue[]) {
+    super("Agent returned an invalid campaign");
+    this.name = "AgentOutputError";
+    this.issues = issues;
+  }
+}
+
+export const parseAgentRequest = (payload: unknown) => {
+  const result = parse(agentRequestSchema, payload);
+  if (result.ok) {
+    const uniquePlatforms = Array.from(new Set(result.value.platforms));
+    const { locales: requested } = result.value;
+    const uniqueLocales = requested ? { locales: Array.from(new Set(requested)) } : {};
+    return { ...result, value: { ...result.value, platforms: uniquePlatforms, ...uniqueLocales } };
+  }
+  return result;
+};
+
+const fitDurations = (scenes: ScenePlan[], total: number) => {
+  const current = scenes.reduce((acc, scene) => acc + scene.durationSeconds, 0);
+  if (current === total) {
+    return scenes;
+  }
+  const scaled = scenes.map((scene) =>
+    Math.max(1, Math.floor((scene.durationSeconds / current) * total))
+  );
+  let remainder = total - scaled.reduce((acc, value) => acc + value, 0);
+  for (let index = 0; remainder !== 0; index = (index + 1) % scaled.length) {
+    const step = remainder > 0 ? 1 : -1;
+    if (step < 0 && scaled[index] <= 1) {
+      continue;
+    }
+    scaled[index] += step;
+    remainder -= step;
+  }
+  return scenes.map((scene, index) => ({ ...scene, durationSeconds: scaled[index] }));
+};
+
+/**
+ * The generated copy is always variant A. Takes that repeat its hook are dropped, missing
+ * captions borrow A's and every post keeps A's slot, so variants differ only in their copy.
+ */
+const repairVariants = (
+  response: AgentResponse,
+  socialPosts: SocialPostPlan[],
+  request: AgentRequest
+): Pick<AgentResponse, "variants" | "activeVariantId"> => {
+  const count = request.variants ?? 1;
+  if (count < 2) {
+    return { variants: undefined, activeVariantId: undefined };
+  }
+  const primary: CopyVariant = { id: variantId(0), hook: response.hook, socialPosts };
+  const alternatives = (response.variants ?? []).filter(
+    (variant, index, all) =>
+      variant.hook !== response.hook &&
+      all.findIndex((other) => other.hook === variant.hook) === index
+  );
+  const variants = [primary, ...alternatives].slice(0, count).map(
+    (variant, index): CopyVariant => ({
+      id: variantId(index),
+      hook: variant.hook,
+      socialPosts: socialPosts.map((post) => {
+        const take = variant.socialPosts.find((item) => item.platform === post.platform);
+        return take ? { ...take, scheduledTime: post.scheduledTime } : post;
+      }),
+    })
+  );
+  return variants.length > 1
+    ? { variants, activeVariantId: primary.id }
+    : { variants: undefined, activeVariantId: undefined };
+};
+
+/**
+ * Repairs what can be repaired safely (ids, duplicate or unrequested posts, durations that
+ * don't add up to the requested length) and rejects everything else.
+ */
+export const repairAgentResponse = (raw: unknown, request: AgentRequest): AgentResponse => {
+  const result = parse(agentResponseSchema, raw);
+  if (!result.ok) {
+    throw new AgentOutputError(result.issues);
+  }
+
+  const response = result.value;
+  if (response.scenes.length > request.lengthSeconds) {
+    throw new AgentOutputError([
+      {
+        path: "scenes",
+        code: "too_big",
+        message: `${response.scenes.length} scenes cannot fit in ${request.lengthSeconds} seconds`,
+      },
+    ]);
+  }
+
+  const seenIds = new Set<string>();
+  const scenes = response.scenes.map((scene, index) => {
+    const id = seenIds.has(scene.id) ? `scene-${index + 1}` : scene.id;
+    seenIds.add(id);
+    return { ...scene, id };
+  });
+
+  const socialPosts = request.platforms
+    .map((platform) => response.socialPosts.find((post) => post.platform === platform))
+    .filter((post): post is SocialPostPlan => Boolean(post));
+  const missing = request.platforms.filter(
+    (platform) => !socialPosts.some((post) => post.platform === platform)
+  );
+  if (missing.length > 0) {
+    throw new AgentOutputError(
+      missing.map((platform) => ({
+        path: "socialPosts",
+        code: "mismatch",
+        message: `No post was generated for ${platform}`,
+      }))
+    );
+  }
+
+  return {
+    ...response,
+    scenes: fitDurations(scenes, request.lengthSeconds),
+    socialPosts,
+    ...repairVariants(response, socialPosts, request),
+  };
+};
+
+export const repairRegenerateResult = (
+  raw: RegenerateResult,
+  { response, target }: RegenerateRequest
+): RegenerateResult => {
+  if (raw.kind === "scene" && target.kind === "scene") {
+    const result = parse(scenePlanSchema, raw.scene);
+    if (!result.ok) {
+      throw new AgentOutputError(result.issues);
+    }
+    const original = response.scenes[target.index];
+    return {
+      kind: "scene",
+      index: target.index,
+      scene: {
+        ...result.value,
+        id: original.id,
+        durationSeconds: original.durationSeconds,
+        transition: result.value.transition ?? original.transition,
+        animation: result.value.animation ?? original.animation,
+        visual: original.visual,
+      },
+    };
+  }
+  if (raw.kind === "socialPost" && target.kind === "socialPost") {
+    const result = parse(socialPostPlanSchema, raw.post);
+    if (!result.ok) {
+      throw new AgentOutputError(result.issues);
+    }
+    return { kind: "socialPost", post: { ...result.value, platform: target.platform } };
+  }
+  throw new AgentOutputError([
+    { path: "kind", code: "mismatch", message: "Regenerated part does not match the target" },
+  ]);
+};
+
+/**
+ * Holds a translation to the campaign's shape: every scene and post is present, in source order,
+ * and whatever the translation left out keeps the source copy. Posts keep their source slot, and
+ * posts for platforms the campaign doesn't plan are dropped.
+ */
+export const repairLocalization = (
+  raw: Localization,
+  { response, locale }: Pick<TranslateRequest, "response" | "locale">
+): Localization => {
+  const slotFor = (post: SocialPostPlan) =>
+    response.socialPosts.find((item) => item.platform === post.platform)?.scheduledTime;
+  const result = parse(localizationSchema, {
+    ...raw,
+    locale,
+    scenes: (Array.isArray(raw.scenes) ? raw.scenes : []).filter(
+      (scene) => scene.title?.trim() && scene.narration?.trim()
+    ),
+    socialPosts: (Array.isArray(raw.socialPosts) ? raw.socialPosts : [])
+      .filter((post) => slotFor(post))
+      .map((post) => ({ ...post, scheduledTime: slotFor(post) })),
+  });
+  if (!result.ok) {
+    throw new AgentOutputError(result.issues);
+  }
+  const localization = result.value;
+  return {
+    ...localization,
+    scenes: response.scenes.map((scene) => {
+      const translated = localization.scenes.find((item) => item.id === scene.id);
+      return translated ?? { id: scene.id, title: scene.title, narration: scene.narration };
+    }),
+    socialPosts: response.socialPosts.map(
+      (post) => localization.socialPosts.find((item) => item.platform === post.platform) ?? post
+    ),
+  };
+};
@@ -0,0 +1,11 @@
+import type { MetricsImportRequest, MetricsRefreshRequest } from "@/types/analytics";
+import { object, optional, string } from "./schema";
+
+export const metricsImportSchema = object<MetricsImportRequest>({
+  campaignId: string({ min: 1 }),
+  csv: string({ min: 1, max: 5_000_000 }),
+});
+
+export const metricsRefreshSchema = object<MetricsRefreshRequest>({
+  campaignId: optional(string({ min: 1 })),
+});
@@ -0,0 +1,10 @@
+import { apiScopes, rateLimitBounds, type ApiKeyRequest } from "@/types/apiKey";
+import { array, number, object, oneOf, optional, string } from "./schema";
+
+export const apiKeyRequestSchema = object<ApiKeyRequest>({
+  name: string({ min: 1, max: 80, trim: true }),
+  scopes: array(oneOf(apiScopes), { min: 1, max: apiScopes.length }),
+  rateLimit: optional(
+    number({ min: rateLimitBounds.min, max: rateLimitBounds.max, integer: true })
+  ),
+});
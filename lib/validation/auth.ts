@@ -0,0 +1,65 @@
+import {
+  credentialBounds,
+  roles,
+  type MemberPatch,
+  type MemberRequest,
+  type SignInRequest,
+  type SignUpRequest,
+  type WorkspaceCreateRequest,
+  type WorkspaceSwitchRequest,
+} from "@/types/workspace";
+import { object, oneOf, optional, string, type Schema } from "./schema";
+
+// Usernames are stored lowercased, so "Maya" and "maya" are the same account.
+const username = (): Schema<string> => ({
+  check: (value, path, issues) => {
+    if (typeof value !== "string" || !/^[a-z0-9._-]{3,40}$/i.test(value.trim())) {
+      issues.push({
+        path,
+        code: "invalid_format",
+        message: `${path} must be 3-40 letters, digits, dots, dashes or underscores`,
+      });
+      return undefined;
+    }
+    return value.trim().toLowerCase();
+  },
+});
+
+const password = () =>
+  string({ min: credentialBounds.minPassword, max: credentialBounds.maxPassword });
+
+const displayName = () => string({ min: 1, max: 80, trim: true });
+
+const workspaceName = () => string({ min: 1, max: 80, trim: true });
+
+export const signUpRequestSchema = object<SignUpRequest>({
+  username: username(),
+  password: password(),
+  displayName: optional(displayName()),
+  workspaceName: optional(workspaceName()),
+});
+
+// Sign-in only checks shape; a wrong password and an unknown user fail the same way.
+export const signInRequestSchema = object<SignInRequest>({
+  username: string({ min: 1, max: 40, trim: true }),
+  password: string({ min: 1, max: credentialBounds.maxPassword }),
+});
+
+export const workspaceSwitchRequestSchema = object<WorkspaceSwitchRequest>({
+  workspaceId: string({ min: 1, max: 64 }),
+});
+
+export const workspaceCreateRequestSchema = object<WorkspaceCreateRequest>({
+  name: workspaceName(),
+});
+
+export const memberRequestSchema = object<MemberRequest>({
+  username: username(),
+  role: oneOf(roles),
+  displayName: optional(displayName()),
+  password: optional(password()),
+});
+
+export const memberPatchSchema = object<MemberPatch>({
+  role: oneOf(roles),
+});
@@ -0,0 +1,83 @@
+import {
+  brandAssetKinds,
+  logoPositions,
+  type BrandAssetKind,
+  type BrandCard,
+  type BrandFont,
+  type BrandLogo,
+  type BrandSettings,
+} from "@/types/brand";
+import type { BrandPatch } from "@/lib/brands";
+import { array, boolean, hexColor, number, object, oneOf, optional, string } from "./schema";
+
+const brandFontSchema = object<BrandFont>({
+  family: string({ min: 1, max: 80, trim: true }),
+  assetId: optional(string({ min: 1 })),
+});
+
+const brandCardSchema = object<BrandCard>({
+  enabled: boolean(),
+  text: string({ max: 160, trim: true }),
+  durationSeconds: number({ min: 1, max: 10 }),
+});
+
+const brandLogoSchema = object<BrandLogo>({
+  assetId: optional(string({ min: 1 })),
+  position: oneOf(logoPositions),
+  opacity: number({ min: 0, max: 1 }),
+  scale: number({ min: 0.05, max: 0.5 }),
+});
+
+const brandShape = {
+  name: string({ min: 1, max: 80, trim: true }),
+  palette: array(hexColor(), { min: 2, max: 12 }),
+  textColor: hexColor(),
+  accentColor: hexColor(),
+  fonts: object<BrandSettings["fonts"]>({ heading: brandFontSchema, body: brandFontSchema }),
+  logo: brandLogoSchema,
+  intro: brandCardSchema,
+  outro: brandCardSchema,
+  bannedWords: array(string({ min: 1, max: 60, trim: true }), { max: 200 }),
+  requiredHashtags: array(string({ min: 1, max: 60, trim: true }), { max: 20 }),
+  defaultCallToAction: string({ max: 160, trim: true }),
+};
+
+export const brandSettingsSchema = object<BrandSettings>(brandShape);
+
+export const brandPatchSchema = object<BrandPatch>({
+  name: optional(brandShape.name),
+  palette: optional(brandShape.palette),
+  textColor: optional(brandShape.textColor),
+  accentColor: optional(brandShape.accentColor),
+  fonts: optional(brandShape.fonts),
+  logo: optional(brandShape.logo),
+  intro: optional(brandShape.intro),
+  outro: optional(brandShape.outro),
+  bannedWords: optional(brandShape.bannedWords),
+  requiredHashtags: optional(brandShape.requiredHashtags),
+  defaultCallToAction: optional(brandShape.defaultCallToAction),
+});
+
+export const brandAssetKindSchema = oneOf(brandAssetKinds);
+
+// Browsers rarely send a type for font files, so fonts are typed by their extension.
+const fontTypes: Record<string, string> = {
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+};
+
+const logoTypes = ["image/png", "image/jpeg", "image/webp", "image/svg+xml"];
+
+/**
+ * The type a brand upload is stored and served as, or null for anything but a font or logo
+ * image. Uploads are served from the app's own origin, so HTML and the like never get in.
+ */
+export const brandAssetType = (kind: BrandAssetKind, fileName: string, contentType: string) => {
+  if (kind === "font") {
+    return fontTypes[fileName.split(".").pop()?.toLowerCase() ?? ""] ?? null;
+  }
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  return logoTypes.includes(type) ? type : null;
+};
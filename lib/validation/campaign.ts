@@ -0,0 +1,15 @@
+import type { AgentRequest, AgentResponse } from "@/types/agent";
+import type { CampaignPatch } from "@/lib/campaigns";
+import { agentRequestSchema, agentResponseSchema } from "./agent";
+import { object, optional, string } from "./schema";
+
+export const campaignCreateSchema = object<{ request: AgentRequest; response: AgentResponse }>({
+  request: agentRequestSchema,
+  response: agentResponseSchema,
+});
+
+export const campaignPatchSchema = object<CampaignPatch>({
+  title: optional(string({ min: 1, max: 2000, trim: true })),
+  activeGenerationId: optional(string({ min: 1 })),
+  response: optional(agentResponseSchema),
+});
@@ -0,0 +1,15 @@
+import { platforms } from "@/types/agent";
+import { confidenceLevels, experimentMetrics, type ExperimentRequest } from "@/types/experiment";
+import { array, number, object, oneOf, string, timeZone } from "./schema";
+
+export const experimentRequestSchema = object<ExperimentRequest>({
+  platform: oneOf(platforms),
+  variantIds: array(string({ min: 1, max: 8 }), { min: 2 }),
+  metric: oneOf(experimentMetrics),
+  confidence: number({
+    min: Math.min(...confidenceLevels),
+    max: Math.max(...confidenceLevels),
+  }),
+  spacingHours: number({ min: 0, max: 24 * 7 }),
+  timeZone: timeZone(),
+});
@@ -0,0 +1,39 @@
+import {
+  mediaKinds,
+  type GenerateImageRequest,
+  type MediaKind,
+  type SceneVisual,
+} from "@/types/media";
+import type { MediaPatch } from "@/lib/media";
+import { array, object, oneOf, optional, string } from "./schema";
+
+export const mediaKindSchema = oneOf(mediaKinds);
+
+const tagsSchema = array(string({ min: 1, max: 60, trim: true }), { max: 40 });
+
+export const mediaPatchSchema = object<MediaPatch>({
+  description: optional(string({ max: 1000, trim: true })),
+  tags: optional(tagsSchema),
+});
+
+export const stockImportSchema = object<{ provider: string; externalId: string; kind: MediaKind }>(
+  {
+    provider: string({ min: 1, max: 40 }),
+    externalId: string({ min: 1, max: 120 }),
+    kind: mediaKindSchema,
+  }
+);
+
+export const generateImageSchema = object<GenerateImageRequest>({
+  prompt: string({ min: 1, max: 1000, trim: true }),
+  orientation: oneOf(["portrait", "landscape", "square"] as const),
+});
+
+export const visualMatchSchema = object<{ directions: string[] }>({
+  directions: array(string({ max: 1000 }), { min: 1, max: 50 }),
+});
+
+export const sceneVisualSchema = object<SceneVisual>({
+  assetId: string({ min: 1, max: 64 }),
+  kind: mediaKindSchema,
+});
@@ -0,0 +1,21 @@
+import { platforms } from "@/types/agent";
+import { locales } from "@/types/locale";
+import type { RenderRequest, RenderSoundtrack } from "@/types/render";
+import { voices } from "@/types/voice";
+import { musicBeds } from "@/lib/audio/music";
+import { captionPresets } from "@/lib/video/captions";
+import { array, boolean, number, object, oneOf, optional } from "./schema";
+
+export const renderRequestSchema = object<RenderRequest>({
+  platforms: optional(array(oneOf(platforms), { min: 1 })),
+  locale: optional(oneOf(locales)),
+  captions: optional(oneOf(captionPresets)),
+  soundtrack: optional(
+    object<RenderSoundtrack>({
+      voice: optional(oneOf(voices)),
+      music: oneOf(musicBeds),
+      musicVolume: number({ min: 0, max: 1 }),
+      ducking: boolean(),
+    })
+  ),
+});
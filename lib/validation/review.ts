@@ -0,0 +1,56 @@
+import { platforms } from "@/types/agent";
+import { locales } from "@/types/locale";
+import {
+  reviewActions,
+  type CommentPatch,
+  type CommentRequest,
+  type CommentTarget,
+  type ReviewActionRequest,
+} from "@/types/review";
+import { boolean, object, oneOf, optional, string, type Schema } from "./schema";
+
+const commentTargetSchema: Schema<CommentTarget> = {
+  check: (value, path, issues) => {
+    const kind = (value as { kind?: unknown } | null)?.kind;
+    if (kind === "campaign") {
+      return object<{ kind: "campaign" }>({
+        kind: oneOf(["campaign"] as const),
+      }).check(value, path, issues);
+    }
+    if (kind === "scene") {
+      return object<{ kind: "scene"; sceneId: string }>({
+        kind: oneOf(["scene"] as const),
+        sceneId: string({ min: 1, max: 64 }),
+      }).check(value, path, issues);
+    }
+    if (kind === "socialPost") {
+      return object<Extract<CommentTarget, { kind: "socialPost" }>>({
+        kind: oneOf(["socialPost"] as const),
+        platform: oneOf(platforms),
+        locale: optional(oneOf(locales)),
+      }).check(value, path, issues);
+    }
+    issues.push({
+      path: path ? `${path}.kind` : "kind",
+      code: "invalid_enum",
+      message: "target.kind must be campaign, scene or socialPost",
+    });
+    return undefined;
+  },
+};
+
+const commentBody = () => string({ min: 1, max: 2000, trim: true });
+
+export const reviewActionRequestSchema = object<ReviewActionRequest>({
+  action: oneOf(reviewActions),
+  note: optional(commentBody()),
+});
+
+export const commentRequestSchema = object<CommentRequest>({
+  target: commentTargetSchema,
+  body: commentBody(),
+});
+
+export const commentPatchSchema = object<CommentPatch>({
+  resolved: boolean(),
+});
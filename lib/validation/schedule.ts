@@ -0,0 +1,18 @@
+import { platforms } from "@/types/agent";
+import { locales } from "@/types/locale";
+import { jobActions, type JobActionRequest, type ScheduleRequest } from "@/types/schedule";
+import { array, boolean, isoDate, object, oneOf, optional, timeZone } from "./schema";
+
+export const scheduleRequestSchema = object<ScheduleRequest>({
+  timeZone: timeZone(),
+  platforms: optional(array(oneOf(platforms), { min: 1 })),
+  now: optional(boolean()),
+  locale: optional(oneOf(locales)),
+});
+
+export const jobActionSchema = object<JobActionRequest>({
+  action: oneOf(jobActions),
+  // Either an ISO timestamp or a bare wall-clock time, which is read in the job's zone.
+  runAt: optional(isoDate()),
+  timeZone: optional(timeZone()),
+});
@@ -0,0 +1,221 @@
+import { isValidTimeZone } from "@/lib/schedule/time";
+
+export type IssueCode =
+  | "required"
+  | "invalid_type"
+  | "too_small"
+  | "too_big"
+  | "invalid_enum"
+  | "invalid_date"
+  | "invalid_format"
+  | "mismatch";
+
+export interface Issue {
+  path: string;
+  code: IssueCode;
+  message: string;
+}
+
+export interface Schema<T> {
+  optional?: boolean;
+  check: (value: unknown, path: string, issues: Issue[]) => T | undefined;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: Issue[] };
+
+const joinPath = (base: string, key: string | number) =>
+  typeof key === "number" ? `${base}[${key}]` : base ? `${base}.${key}` : key;
+
+const describe = (path: string) => path || "value";
+
+export const parse = <T>(schema: Schema<T>, value: unknown): ParseResult<T> => {
+  const issues: Issue[] = [];
+  const result = schema.check(value, "", issues);
+  if (issues.length > 0 || result === undefined) {
+    return { ok: false, issues };
+  }
+  return { ok: true, value: result };
+};
+
+export const string = (options: { min?: number; max?: number; trim?: boolean } = {}): Schema<string> => ({
+  check: (value, path, issues) => {
+    if (typeof value !== "string") {
+      issues.push({ path, code: "invalid_type", message: `${describe(path)} must be text` });
+      return undefined;
+    }
+    const text = options.trim ? value.trim() : value;
+    if (options.min !== undefined && text.length < options.min) {
+      issues.push({
+        path,
+        code: text.length === 0 ? "required" : "too_small",
+        message:
+          text.length === 0
+            ? `${describe(path)} is required`
+            : `${describe(path)} must be at least ${options.min} characters`,
+      });
+      return undefined;
+    }
+    if (options.max !== undefined && text.length > options.max) {
+      issues.push({
+        path,
+        code: "too_big",
+        message: `${describe(path)} must be at most ${options.max} characters`,
+      });
+      return undefined;
+    }
+    return text;
+  },
+});
+
+export const number = (options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> => ({
+  check: (value, path, issues) => {
+    const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+      issues.push({ path, code: "invalid_type", message: `${describe(path)} must be a number` });
+      return undefined;
+    }
+    if (options.integer && !Number.isInteger(parsed)) {
+      issues.push({ path, code: "invalid_type", message: `${describe(path)} must be a whole number` });
+      return undefined;
+    }
+    if (options.min !== undefined && parsed < options.min) {
+      issues.push({ path, code: "too_small", message: `${describe(path)} must be at least ${options.min}` });
+      return undefined;
+    }
+    if (options.max !== undefined && parsed > options.max) {
+      issues.push({ path, code: "too_big", message: `${describe(path)} must be at most ${options.max}` });
+      return undefined;
+    }
+    return parsed;
+  },
+});
+
+export const boolean = (): Schema<boolean> => ({
+  check: (value, path, issues) => {
+    if (typeof value !== "boolean") {
+      issues.push({ path, code: "invalid_type", message: `${describe(path)} must be true or false` });
+      return undefined;
+    }
+    return value;
+  },
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  check: (value, path, issues) => {
+    if (typeof value !== "string" || !values.includes(value as T)) {
+      issues.push({
+        path,
+        code: "invalid_enum",
+        message: `${describe(path)} must be one of ${values.join(", ")}`,
+      });
+      return undefined;
+    }
+    return value as T;
+  },
+});
+
+export const isoDate = (): Schema<string> => ({
+  check: (value, path, issues) => {
+    if (typeof value !== "string" || Number.isNaN(new Date(value).getTime())) {
+      issues.push({ path, code: "invalid_date", message: `${describe(path)} must be an ISO date` });
+      return undefined;
+    }
+    return value;
+  },
+});
+
+// Rejects days that don't exist, like 2024-02-30, which Date would roll into March.
+const isCalendarDate = (value: string) => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return (
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(date.getTime()) &&
+    date.toISOString().slice(0, 10) === value
+  );
+};
+
+export const calendarDate = (): Schema<string> => ({
+  check: (value, path, issues) => {
+    if (typeof value !== "string" || !isCalendarDate(value)) {
+      issues.push({ path, code: "invalid_date", message: `${describe(path)} must be a YYYY-MM-DD date` });
+      return undefined;
+    }
+    return value;
+  },
+});
+
+export const hexColor = (): Schema<string> => ({
+  check: (value, path, issues) => {
+    if (typeof value !== "string" || !/^#[0-9a-f]{6}$/i.test(value)) {
+      issues.push({ path, code: "invalid_format", message: `${describe(path)} must be a #rrggbb color` });
+      return undefined;
+    }
+    return value.toLowerCase();
+  },
+});
+
+export const timeZone = (): Schema<string> => ({
+  check: (value, path, issues) => {
+    if (typeof value !== "string" || !isValidTimeZone(value)) {
+      issues.push({ path, code: "invalid_format", message: `${describe(path)} must be an IANA time zone` });
+      return undefined;
+    }
+    return value;
+  },
+});
+
+export const array = <T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> => ({
+  check: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, code: "invalid_type", message: `${describe(path)} must be a list` });
+      return undefined;
+    }
+    if (options.min !== undefined && value.length < options.min) {
+      issues.push({
+        path,
+        code: value.length === 0 ? "required" : "too_small",
+        message: `${describe(path)} needs at least ${options.min} item${options.min === 1 ? "" : "s"}`,
+      });
+      return undefined;
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      issues.push({ path, code: "too_big", message: `${describe(path)} allows at most ${options.max} items` });
+      return undefined;
+    }
+    const before = issues.length;
+    const items = value.map((entry, index) => item.check(entry, joinPath(path, index), issues));
+    return issues.length > before ? undefined : (items as T[]);
+  },
+});
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  optional: true,
+  check: (value, path, issues) => (value === undefined ? undefined : schema.check(value, path, issues)),
+});
+
+export const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => ({
+  check: (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({ path, code: "invalid_type", message: `${describe(path)} must be an object` });
+      return undefined;
+    }
+    const source = value as Record<string, unknown>;
+    const before = issues.length;
+    const output: Partial<T> = {};
+    (Object.keys(shape) as (keyof T & string)[]).forEach((key) => {
+      const field = shape[key];
+      const fieldPath = joinPath(path, key);
+      if (source[key] === undefined || source[key] === null) {
+        if (!field.optional) {
+          issues.push({ path: fieldPath, code: "required", message: `${fieldPath} is required` });
+        }
+        return;
+      }
+      const parsed = field.check(source[key], fieldPath, issues);
+      if (parsed !== undefined) {
+        output[key] = parsed;
+      }
+    });
+    return issues.length > before ? undefined : (output as T);
+  },
+});
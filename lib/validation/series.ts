@@ -0,0 +1,47 @@
+import { lengthBounds, platforms, type Platform } from "@/types/agent";
+import {
+  seriesBounds,
+  type PostingCadence,
+  type RescheduleRequest,
+  type SeriesRequest,
+} from "@/types/series";
+import {
+  boolean,
+  calendarDate,
+  isoDate,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  timeZone,
+} from "./schema";
+
+const perWeek = optional(number({ min: 0, max: seriesBounds.maxPerWeek, integer: true }));
+
+const cadenceSchema = object<PostingCadence>(
+  Object.fromEntries(platforms.map((platform) => [platform, perWeek])) as Record<
+    Platform,
+    typeof perWeek
+  >
+);
+
+export const seriesRequestSchema = object<SeriesRequest>({
+  theme: string({ min: 1, max: 2000, trim: true }),
+  tone: string({ min: 1, max: 80, trim: true }),
+  lengthSeconds: number({ min: lengthBounds.min, max: lengthBounds.max, integer: true }),
+  targetAudience: string({ min: 1, max: 300, trim: true }),
+  brandId: optional(string({ min: 1, max: 64 })),
+  voiceProfileId: optional(string({ min: 1, max: 64 })),
+  learnFromResults: optional(boolean()),
+  startDate: calendarDate(),
+  endDate: calendarDate(),
+  cadence: cadenceSchema,
+  timeZone: timeZone(),
+});
+
+export const rescheduleRequestSchema = object<RescheduleRequest>({
+  campaignId: string({ min: 1 }),
+  platform: oneOf(platforms),
+  scheduledTime: isoDate(),
+});
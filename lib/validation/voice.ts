@@ -0,0 +1,8 @@
+import { voices, type SpeechRequest } from "@/types/voice";
+import { number, object, oneOf, optional, string } from "./schema";
+
+export const speechRequestSchema = object<SpeechRequest>({
+  text: string({ min: 1, max: 4000, trim: true }),
+  voice: optional(oneOf(voices)),
+  rate: optional(number({ min: 0.5, max: 2 })),
+});
@@ -0,0 +1,29 @@
+import { emojiPolicies, paceBounds, type VoiceProfileSettings } from "@/types/voiceProfile";
+import type { VoiceProfilePatch } from "@/lib/voiceProfiles";
+import { array, number, object, oneOf, optional, string } from "./schema";
+
+const wordList = array(string({ min: 1, max: 60, trim: true }), { max: 200 });
+
+const voiceProfileShape = {
+  name: string({ min: 1, max: 80, trim: true }),
+  tone: string({ min: 1, max: 80, trim: true }),
+  description: string({ max: 1000, trim: true }),
+  exampleScripts: array(string({ min: 1, max: 4000, trim: true }), { max: 5 }),
+  preferredWords: wordList,
+  avoidedWords: wordList,
+  wordsPerMinute: number({ min: paceBounds.min, max: paceBounds.max, integer: true }),
+  emoji: oneOf(emojiPolicies),
+};
+
+export const voiceProfileSettingsSchema = object<VoiceProfileSettings>(voiceProfileShape);
+
+export const voiceProfilePatchSchema = object<VoiceProfilePatch>({
+  name: optional(voiceProfileShape.name),
+  tone: optional(voiceProfileShape.tone),
+  description: optional(voiceProfileShape.description),
+  exampleScripts: optional(voiceProfileShape.exampleScripts),
+  preferredWords: optional(voiceProfileShape.preferredWords),
+  avoidedWords: optional(voiceProfileShape.avoidedWords),
+  wordsPerMinute: optional(voiceProfileShape.wordsPerMinute),
+  emoji: optional(voiceProfileShape.emoji),
+});
@@ -0,0 +1,34 @@
+import { webhookEvents, type WebhookPatch, type WebhookRequest } from "@/types/webhook";
+import { array, boolean, object, oneOf, optional, type Schema } from "./schema";
+
+const toUrl = (value: unknown) => {
+  try {
+    return typeof value === "string" && value.length <= 500 ? new URL(value.trim()) : null;
+  } catch {
+    return null;
+  }
+};
+
+const webhookUrl = (): Schema<string> => ({
+  check: (value, path, issues) => {
+    const url = toUrl(value);
+    if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) {
+      issues.push({ path, code: "invalid_format", message: `${path} must be an http(s) URL` });
+      return undefined;
+    }
+    return url.toString();
+  },
+});
+
+const events = () => array(oneOf(webhookEvents), { min: 1, max: webhookEvents.length });
+
+export const webhookRequestSchema = object<WebhookRequest>({
+  url: webhookUrl(),
+  events: events(),
+});
+
+export const webhookPatchSchema = object<WebhookPatch>({
+  url: optional(webhookUrl()),
+  events: optional(events()),
+  active: optional(boolean()),
+});
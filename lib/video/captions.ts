@@ -0,0 +1,174 @@
+import type { ScenePlan } from "@/types/agent";
+import {
+  endsPhrase,
+  isUnspaced,
+  joinWords,
+  splitWords,
+  wordTimings,
+  type WordTiming,
+} from "./timing";
+
+export const captionPresets = ["off", "classic", "boxed", "highlight"] as const;
+
+export type CaptionPreset = (typeof captionPresets)[number];
+
+export const captionPresetLabels: Record<CaptionPreset, string> = {
+  off: "No captions",
+  classic: "Classic outline",
+  boxed: "Boxed",
+  highlight: "Word highlight",
+};
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  // Absolute word timings, used for per-word highlighting.
+  words: WordTiming[];
+}
+
+export interface BurnedCaptions {
+  preset: CaptionPreset;
+  cues: CaptionCue[];
+}
+
+/** Where a scene's voiceover sits inside the scene, with its detected speech spans. */
+export interface VoiceTiming {
+  offset: number;
+  duration: number;
+  spans: { start: number; end: number }[];
+}
+
+const MAX_CUE_WORDS = 6;
+const MAX_CUE_CHARACTERS = 32;
+const MIN_CUE_SECONDS = 0.8;
+
+// Chinese and Japanese characters take about twice a Latin letter's width and carry a word's
+// worth of meaning in one or two units, so cue limits count them that way.
+const cueWords = (words: string[]) =>
+  Math.ceil(words.reduce((count, word) => count + (isUnspaced(word) ? 0.5 : 1), 0));
+
+const cueColumns = (words: string[]) =>
+  [...joinWords(words)].reduce((count, char) => count + (isUnspaced(char) ? 2 : 1), 0);
+
+const phrasesOf = (text: string) => {
+  const phrases: string[][] = [];
+  let current: string[] = [];
+  splitWords(text).forEach((word) => {
+    current.push(word);
+    if (endsPhrase(word)) {
+      phrases.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) {
+    phrases.push(current);
+  }
+  return phrases;
+};
+
+const shift = (timings: WordTiming[], offset: number) =>
+  timings.map((timing) => ({ ...timing, start: timing.start + offset, end: timing.end + offset }));
+
+/**
+ * Word timings relative to the scene start. With a voiceover, phrases are matched to the
+ * pauses detected in the audio when the counts agree, otherwise spread over the clip.
+ */
+export const sceneWordTimings = (scene: ScenePlan, voice?: VoiceTiming): WordTiming[] => {
+  if (!voice) {
+    return wordTimings(scene.narration, scene.durationSeconds);
+  }
+  const phrases = phrasesOf(scene.narration);
+  const timings =
+    phrases.length > 1 && phrases.length === voice.spans.length
+      ? phrases.flatMap((phrase, index) => {
+          const span = voice.spans[index];
+          return shift(wordTimings(joinWords(phrase), span.end - span.start, 0), span.start);
+        })
+      : wordTimings(scene.narration, voice.duration, 0);
+  return shift(timings, voice.offset).map((timing) => ({
+    ...timing,
+    start: Math.min(timing.start, scene.durationSeconds),
+    end: Math.min(timing.end, scene.durationSeconds),
+  }));
+};
+
+const chunkWords = (words: WordTiming[]) => {
+  const chunks: WordTiming[][] = [];
+  let current: WordTiming[] = [];
+  words.forEach((timing) => {
+    const words = current.map((item) => item.word);
+    const overflows =
+      cueWords(words) >= MAX_CUE_WORDS || cueColumns([...words, timing.word]) > MAX_CUE_CHARACTERS;
+    if (current.length > 0 && overflows) {
+      chunks.push(current);
+      current = [];
+    }
+    current.push(timing);
+    if (endsPhrase(timing.word)) {
+      chunks.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+};
+
+export const buildCaptionCues = (
+  scenes: ScenePlan[],
+  voices: Record<string, VoiceTiming> = {}
+): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  let sceneStart = 0;
+  scenes.forEach((scene) => {
+    const words = shift(sceneWordTimings(scene, voices[scene.id]), sceneStart);
+    const sceneEnd = sceneStart + scene.durationSeconds;
+    chunkWords(words).forEach((chunk) => {
+      const last = chunk[chunk.length - 1];
+      cues.push({
+        start: chunk[0].start,
+        end: Math.min(sceneEnd, Math.max(last.end, chunk[0].start + MIN_CUE_SECONDS)),
+        text: joinWords(chunk.map((item) => item.word)),
+        words: chunk,
+      });
+    });
+    sceneStart = sceneEnd;
+  });
+
+  // Cues never overlap, so players don't stack two lines.
+  return cues
+    .map((cue, index) => {
+      const next = cues[index + 1];
+      return next && cue.end > next.start ? { ...cue, end: next.start } : cue;
+    })
+    .filter((cue) => cue.end > cue.start);
+};
+
+export const cueAt = (cues: CaptionCue[], time: number) =>
+  cues.find((cue) => time >= cue.start && time < cue.end) ?? null;
+
+const timestamp = (seconds: number, separator: "," | ".") => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, size = 2) => String(value).padStart(size, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+export const toSrt = (cues: CaptionCue[]) =>
+  cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${timestamp(cue.start, ",")} --> ${timestamp(cue.end, ",")}\n${cue.text}\n`
+    )
+    .join("\n");
+
+export const toVtt = (cues: CaptionCue[]) =>
+  [
+    "WEBVTT\n",
+    ...cues.map((cue) => `${timestamp(cue.start, ".")} --> ${timestamp(cue.end, ".")}\n${cue.text}\n`),
+  ].join("\n");
@@ -0,0 +1,82 @@
+import type { ScenePlan } from "@/types/agent";
+import { totalDuration } from "@/lib/timeline";
+import {
+  drawFrame,
+  sceneAt,
+  TRANSITION_SECONDS,
+  type DrawingContext,
+  type FrameOptions,
+  type Surface,
+} from "./scene";
+import { visualFor, type SceneVisuals } from "./visuals";
+
+// Shared by the browser and the server render worker, so both step through identical frames.
+export const DEFAULT_FPS = 30;
+
+export const wait = (durationMs: number) =>
+  new Promise<void>((resolve) => setTimeout(() => resolve(), durationMs));
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException("Render aborted", "AbortError");
+  }
+};
+
+export const frameCount = (scenes: ScenePlan[], fps: number) =>
+  Math.max(1, Math.round(totalDuration(scenes) * fps));
+
+/**
+ * Moves every clip visible at `time` to the matching point in its footage, looping clips shorter
+ * than their scene. The previous scene counts too while it is still transitioning out.
+ */
+export const seekVisuals = async (visuals: SceneVisuals, scenes: ScenePlan[], time: number) => {
+  const current = sceneAt(scenes, time);
+  if (!current) {
+    return;
+  }
+  const visible = [{ scene: current.scene, localTime: current.localTime }];
+  const previous = scenes[current.index - 1];
+  if (previous && current.localTime < TRANSITION_SECONDS) {
+    visible.push({ scene: previous, localTime: previous.durationSeconds + current.localTime });
+  }
+  for (const { scene, localTime } of visible) {
+    const clip = visualFor(scene, visuals)?.clip;
+    if (!clip || !Number.isFinite(clip.duration) || clip.duration <= 0) {
+      continue;
+    }
+    await clip.seek(localTime % clip.duration);
+  }
+};
+
+export interface FrameLoop extends FrameOptions {
+  scenes: ScenePlan[];
+  fps: number;
+  signal?: AbortSignal;
+  onProgress?: (ratio: number) => void;
+}
+
+/**
+ * Draws the timeline frame by frame at a fixed rate, handing each finished frame to `emit`
+ * before the next is drawn over it. Progress is reported once per second of video.
+ */
+export const drawFrames = async (
+  { scenes, fps, signal, onProgress, ...options }: FrameLoop,
+  ctx: DrawingContext,
+  surface: Surface,
+  emit: (index: number) => void | Promise<void>
+) => {
+  const total = frameCount(scenes, fps);
+  for (let index = 0; index < total; index += 1) {
+    throwIfAborted(signal);
+    if (options.visuals) {
+      await seekVisuals(options.visuals, scenes, index / fps);
+    }
+    drawFrame(ctx, surface, scenes, index / fps, options);
+    await emit(index);
+    if (index % fps === 0) {
+      onProgress?.(index / total);
+      await wait(0);
+    }
+  }
+  return total;
+};
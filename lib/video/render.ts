@@ -0,0 +1,364 @@
+import type { ScenePlan } from "@/types/agent";
+import type { TextDirection } from "@/lib/localization";
+import { totalDuration } from "@/lib/timeline";
+import type { BurnedCaptions } from "./captions";
+import { DEFAULT_FPS, drawFrames, seekVisuals, throwIfAborted, wait } from "./frames";
+import { drawFrame, type SceneStyle } from "./scene";
+import type { SceneVisuals } from "./visuals";
+import {
+  muxWebm,
+  WEBM_AUDIO_TRACK,
+  WEBM_VIDEO_TRACK,
+  type WebmAudioTrack,
+  type WebmFrame,
+  type WebmVideoTrack,
+} from "./webm";
+
+export interface RenderOptions {
+  scenes: ScenePlan[];
+  // Mixed soundtrack, muxed as an Opus track when present.
+  audio?: AudioBuffer | null;
+  captions?: BurnedCaptions | null;
+  style?: SceneStyle;
+  // Decoded scene backgrounds; see loadSceneVisuals.
+  visuals?: SceneVisuals;
+  direction?: TextDirection;
+  canvas: HTMLCanvasElement;
+  width: number;
+  height: number;
+  fps?: number;
+  signal?: AbortSignal;
+  onProgress?: (ratio: number) => void;
+}
+
+export type RenderMode = "frame-stepped" | "realtime";
+
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+
+const codecCandidates: { codec: string; codecId: WebmVideoTrack["codecId"] }[] = [
+  { codec: "vp09.00.10.08", codecId: "V_VP9" },
+  { codec: "vp8", codecId: "V_VP8" },
+];
+
+export const supportsFrameStepping = () =>
+  typeof window !== "undefined" &&
+  typeof window.VideoEncoder !== "undefined" &&
+  typeof window.VideoFrame !== "undefined";
+
+export const supportsAudioEncoding = () =>
+  typeof window !== "undefined" &&
+  typeof window.AudioEncoder !== "undefined" &&
+  typeof window.AudioData !== "undefined";
+
+export const realtimeMimeType = (withAudio = false) => {
+  if (typeof window === "undefined" || typeof MediaRecorder === "undefined") {
+    return null;
+  }
+  const candidates = [
+    ...(withAudio ? ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus"] : []),
+    "video/webm;codecs=vp9",
+    "video/webm;codecs=vp8",
+    "video/webm",
+  ];
+  return candidates.find((mimeType) => MediaRecorder.isTypeSupported(mimeType)) ?? null;
+};
+
+const OPUS_FRAME_SAMPLES = 960;
+
+const audioEncoderConfig = (buffer: AudioBuffer): AudioEncoderConfig => ({
+  codec: "opus",
+  sampleRate: buffer.sampleRate,
+  numberOfChannels: buffer.numberOfChannels,
+  bitrate: 128_000,
+});
+
+// Matroska expects an OpusHead as CodecPrivate; encoders don't always provide one.
+const opusHead = (channels: number, sampleRate: number) => {
+  const bytes = new Uint8Array(19);
+  const view = new DataView(bytes.buffer);
+  bytes.set(Array.from("OpusHead", (char) => char.charCodeAt(0)));
+  view.setUint8(8, 1);
+  view.setUint8(9, channels);
+  view.setUint16(10, 312, true);
+  view.setUint32(12, sampleRate, true);
+  return bytes;
+};
+
+const encodeAudio = async (
+  buffer: AudioBuffer,
+  signal?: AbortSignal
+): Promise<{ track: WebmAudioTrack; frames: WebmFrame[] }> => {
+  const frames: WebmFrame[] = [];
+  let codecPrivate: Uint8Array | undefined;
+  let failure: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const description = metadata?.decoderConfig?.description;
+      if (description && !codecPrivate) {
+        codecPrivate = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+          : new Uint8Array(description).slice();
+      }
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({
+        track: WEBM_AUDIO_TRACK,
+        timestampMs: chunk.timestamp / 1000,
+        keyframe: true,
+        data,
+      });
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure(audioEncoderConfig(buffer));
+
+  const channels = buffer.numberOfChannels;
+  try {
+    for (let offset = 0; offset < buffer.length; offset += OPUS_FRAME_SAMPLES) {
+      throwIfAborted(signal);
+      if (failure) {
+        throw failure;
+      }
+      const length = Math.min(OPUS_FRAME_SAMPLES, buffer.length - offset);
+      const planar = new Float32Array(length * channels);
+      for (let channel = 0; channel < channels; channel += 1) {
+        planar.set(buffer.getChannelData(channel).subarray(offset, offset + length), channel * length);
+      }
+      const data = new AudioData({
+        format: "f32-planar",
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: length,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset / buffer.sampleRate) * 1_000_000),
+        data: planar,
+      });
+      encoder.encode(data);
+      data.close();
+      if (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await wait(4);
+      }
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== "closed") {
+      encoder.close();
+    }
+  }
+
+  return {
+    track: {
+      codecId: "A_OPUS",
+      sampleRate: buffer.sampleRate,
+      channels,
+      codecPrivate: codecPrivate ?? opusHead(channels, buffer.sampleRate),
+    },
+    frames,
+  };
+};
+
+const pickEncoderConfig = async (width: number, height: number, fps: number) => {
+  for (const candidate of codecCandidates) {
+    const config: VideoEncoderConfig = {
+      codec: candidate.codec,
+      width,
+      height,
+      bitrate: 4_000_000,
+      framerate: fps,
+    };
+    const support = await VideoEncoder.isConfigSupported(config);
+    if (support.supported) {
+      return { config, codecId: candidate.codecId };
+    }
+  }
+  return null;
+};
+
+/**
+ * Computes every frame at a fixed rate and encodes it with WebCodecs, so rendering runs as
+ * fast as the encoder allows and frame timing is exact regardless of tab visibility.
+ */
+export const renderFrameStepped = async ({
+  scenes,
+  audio,
+  captions,
+  style,
+  visuals,
+  direction,
+  canvas,
+  width,
+  height,
+  fps = DEFAULT_FPS,
+  signal,
+  onProgress,
+}: RenderOptions): Promise<Blob> => {
+  const selected = await pickEncoderConfig(width, height, fps);
+  if (!selected) {
+    throw new Error("No WebCodecs video encoder available for WebM.");
+  }
+
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas context unavailable");
+  }
+
+  const frames: WebmFrame[] = [];
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({
+        track: WEBM_VIDEO_TRACK,
+        timestampMs: chunk.timestamp / 1000,
+        keyframe: chunk.type === "key",
+        data,
+      });
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure(selected.config);
+
+  const duration = totalDuration(scenes);
+  const frameDuration = 1_000_000 / fps;
+
+  try {
+    const loop = { scenes, fps, signal, onProgress, captions, style, visuals, direction };
+    await drawFrames(loop, ctx, canvas, async (index) => {
+      if (failure) {
+        throw failure;
+      }
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(index * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      encoder.encode(frame, { keyFrame: index % (fps * KEYFRAME_INTERVAL_SECONDS) === 0 });
+      frame.close();
+
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await wait(4);
+      }
+    });
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== "closed") {
+      encoder.close();
+    }
+  }
+
+  const soundtrack = audio ? await encodeAudio(audio, signal) : null;
+
+  onProgress?.(1);
+  return muxWebm({
+    video: { codecId: selected.codecId, width, height },
+    audio: soundtrack?.track,
+    frames: soundtrack ? [...frames, ...soundtrack.frames] : frames,
+    durationMs: duration * 1000,
+  });
+};
+
+/**
+ * Fallback for browsers without WebCodecs: plays the timeline in real time and captures the
+ * canvas with MediaRecorder.
+ */
+export const renderRealtime = async ({
+  scenes,
+  audio,
+  captions,
+  style,
+  visuals,
+  direction,
+  canvas,
+  width,
+  height,
+  fps = DEFAULT_FPS,
+  signal,
+  onProgress,
+}: RenderOptions): Promise<Blob> => {
+  const mimeType = realtimeMimeType(Boolean(audio));
+  if (!mimeType) {
+    throw new Error("No compatible video codec available in this browser.");
+  }
+
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas context unavailable");
+  }
+
+  const stream = canvas.captureStream(fps);
+  const audioContext = audio ? new AudioContext({ sampleRate: audio.sampleRate }) : null;
+  let audioSource: AudioBufferSourceNode | null = null;
+  if (audio && audioContext) {
+    const destination = audioContext.createMediaStreamDestination();
+    audioSource = audioContext.createBufferSource();
+    audioSource.buffer = audio;
+    audioSource.connect(destination);
+    destination.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+  }
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: BlobPart[] = [];
+
+  const recordingPromise = new Promise<Blob>((resolve, reject) => {
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+    recorder.onerror = (event) => {
+      reject(event.error);
+    };
+    recorder.onstop = () => {
+      resolve(new Blob(chunks, { type: mimeType }));
+    };
+  });
+
+  const duration = totalDuration(scenes);
+  if (visuals) {
+    await seekVisuals(visuals, scenes, 0);
+  }
+  drawFrame(ctx, canvas, scenes, 0, { captions, style, visuals, direction });
+  recorder.start();
+  audioSource?.start();
+  const startedAt = performance.now();
+
+  try {
+    let elapsed = 0;
+    while (elapsed < duration) {
+      throwIfAborted(signal);
+      if (visuals) {
+        await seekVisuals(visuals, scenes, elapsed);
+      }
+      drawFrame(ctx, canvas, scenes, elapsed, { captions, style, visuals, direction });
+      onProgress?.(elapsed / duration);
+      await wait(1000 / fps);
+      elapsed = (performance.now() - startedAt) / 1000;
+    }
+  } finally {
+    recorder.stop();
+    audioSource?.stop();
+    void audioContext?.close();
+  }
+
+  onProgress?.(1);
+  return recordingPromise;
+};
+
+export const renderVideo = async (
+  options: RenderOptions
+): Promise<{ blob: Blob; mode: RenderMode }> => {
+  if (supportsFrameStepping() && (!options.audio || supportsAudioEncoding())) {
+    const fps = options.fps ?? DEFAULT_FPS;
+    if (await pickEncoderConfig(options.width, options.height, fps)) {
+      return { blob: await renderFrameStepped(options), mode: "frame-stepped" };
+    }
+  }
+  return { blob: await renderRealtime(options), mode: "realtime" };
+};
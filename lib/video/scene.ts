@@ -0,0 +1,619 @@
+import type { SceneAnimation, ScenePlan } from "@/types/agent";
+import type { TextDirection } from "@/lib/localization";
+import type { BrandCard, LogoPosition } from "@/types/brand";
+import { cueAt, type BurnedCaptions } from "./captions";
+import { joinWords, spaceBetween, splitWords, wordTimings } from "./timing";
+import { drawCover, visualFor, type SceneVisualSource, type SceneVisuals } from "./visuals";
+
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface Surface {
+  width: number;
+  height: number;
+}
+
+const colors = [
+  ["#0ea5e9", "#1e3a8a"],
+  ["#22d3ee", "#0f172a"],
+  ["#a855f7", "#312e81"],
+  ["#f97316", "#7c2d12"],
+  ["#38bdf8", "#1e293b"],
+];
+
+export const TRANSITION_SECONDS = 0.6;
+
+export interface SceneStyle {
+  // Background gradient pairs, cycled per scene.
+  palettes: string[][];
+  textColor: string;
+  accentColor: string;
+  headingFont: string;
+  bodyFont: string;
+  logo: {
+    image: CanvasImageSource;
+    // Height over width.
+    aspect: number;
+    position: LogoPosition;
+    opacity: number;
+    scale: number;
+  } | null;
+  intro: BrandCard | null;
+  outro: BrandCard | null;
+}
+
+export const defaultStyle: SceneStyle = {
+  palettes: colors,
+  textColor: "#f8fafc",
+  accentColor: "#fde047",
+  headingFont: "Inter",
+  bodyFont: "Inter",
+  logo: null,
+  intro: null,
+  outro: null,
+};
+
+export interface FrameOptions {
+  // Bottom-third captions; when shown, the narration text is left out of the scene card.
+  captions?: BurnedCaptions | null;
+  style?: SceneStyle;
+  visuals?: SceneVisuals;
+  // Right-to-left scripts wrap and align from the right edge.
+  direction?: TextDirection;
+}
+
+export const defaultAnimation: SceneAnimation = {
+  background: "static",
+  captions: "paragraph",
+  progressBar: false,
+};
+
+export const pickPalette = (index: number, style: SceneStyle = defaultStyle) =>
+  style.palettes[index % style.palettes.length];
+
+const BRAND_CARD_PREFIX = "brand-";
+
+const isBrandCard = (scene: ScenePlan) => scene.id.startsWith(BRAND_CARD_PREFIX);
+
+const brandCardScene = (card: BrandCard, id: "intro" | "outro"): ScenePlan => ({
+  id: `${BRAND_CARD_PREFIX}${id}`,
+  title: card.text,
+  narration: "",
+  visualDirection: "",
+  durationSeconds: card.durationSeconds,
+  transition: id === "outro" ? "crossfade" : undefined,
+});
+
+/** Wraps the plan in the brand's intro and outro cards, when the style has them. */
+export const withBrandCards = (scenes: ScenePlan[], style: SceneStyle = defaultStyle) => [
+  ...(style.intro ? [brandCardScene(style.intro, "intro")] : []),
+  ...scenes,
+  ...(style.outro ? [brandCardScene(style.outro, "outro")] : []),
+];
+
+interface Layout {
+  unit: number;
+  padding: number;
+  card: { x: number; y: number; width: number; height: number };
+  titleY: number;
+  bodyTop: number;
+  textX: number;
+  textWidth: number;
+  footerY: number;
+}
+
+/**
+ * Derives layout from the surface so one scene plan renders at any aspect ratio. Sizes scale
+ * with the short edge; the original 720x1280 design is the reference (unit = 1).
+ */
+const layoutFor = (canvas: Surface): Layout => {
+  const unit = Math.min(canvas.width, canvas.height) / 720;
+  const padding = 48 * unit;
+  const portrait = canvas.height > canvas.width * 1.2;
+  const insetY = portrait ? canvas.height * 0.156 : padding;
+  const card = {
+    x: padding,
+    y: insetY,
+    width: canvas.width - padding * 2,
+    height: canvas.height - insetY * 2,
+  };
+  return {
+    unit,
+    padding,
+    card,
+    titleY: card.y + 120 * unit,
+    bodyTop: card.y + 220 * unit,
+    textX: card.x + 40 * unit,
+    textWidth: card.width - 80 * unit,
+    footerY: portrait ? canvas.height - 120 * unit : card.y + card.height - 40 * unit,
+  };
+};
+
+const font = (weight: string, size: number, layout: Layout, family = "Inter") =>
+  `${weight} ${Math.round(size * layout.unit)}px "${family}", sans-serif`;
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2);
+
+const easeOutBack = (t: number) => {
+  const c1 = 1.70158;
+  const c3 = c1 + 1;
+  return 1 + c3 * (t - 1) ** 3 + c1 * (t - 1) ** 2;
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const drawBackground = (
+  ctx: DrawingContext,
+  canvas: Surface,
+  palette: string[],
+  animation: SceneAnimation,
+  localTime: number
+) => {
+  const [start, end] = palette;
+  let gradient: CanvasGradient;
+  if (animation.background === "static") {
+    gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  } else {
+    // Slowly rotate the gradient axis around the frame centre.
+    const angle = Math.PI / 4 + localTime * 0.25;
+    const radius = Math.hypot(canvas.width, canvas.height) / 2;
+    const cx = canvas.width / 2;
+    const cy = canvas.height / 2;
+    gradient = ctx.createLinearGradient(
+      cx - Math.cos(angle) * radius,
+      cy - Math.sin(angle) * radius,
+      cx + Math.cos(angle) * radius,
+      cy + Math.sin(angle) * radius
+    );
+  }
+  gradient.addColorStop(0, start);
+  gradient.addColorStop(1, end);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (animation.background === "parallax") {
+    const layers = [
+      { count: 5, size: 0.22, speed: 18, alpha: 0.08 },
+      { count: 7, size: 0.12, speed: 42, alpha: 0.1 },
+      { count: 9, size: 0.05, speed: 80, alpha: 0.14 },
+    ];
+    layers.forEach((layer, depth) => {
+      ctx.fillStyle = `rgba(248, 250, 252, ${layer.alpha})`;
+      for (let index = 0; index < layer.count; index += 1) {
+        const seed = (index + 1) * (depth + 3);
+        const baseX = ((seed * 97) % 100) / 100;
+        const baseY = ((seed * 57) % 100) / 100;
+        const radius =
+          Math.min(canvas.width, canvas.height) * layer.size * (0.6 + ((seed * 13) % 10) / 25);
+        const y =
+          (((baseY * canvas.height - localTime * layer.speed) % (canvas.height + radius * 2)) +
+            canvas.height +
+            radius * 2) %
+            (canvas.height + radius * 2) -
+          radius;
+        const x = baseX * canvas.width + Math.sin(localTime * 0.6 + seed) * layer.speed * 0.4;
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    });
+  }
+};
+
+const isRtl = (ctx: DrawingContext) => ctx.direction === "rtl";
+
+const wrapWords = (ctx: DrawingContext, words: string[], maxWidth: number) => {
+  const lines: string[][] = [];
+  let current: string[] = [];
+  words.forEach((word) => {
+    const candidate = joinWords([...current, word]);
+    if (current.length > 0 && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(current);
+      current = [word];
+    } else {
+      current.push(word);
+    }
+  });
+  if (current.length > 0) {
+    lines.push(current);
+  }
+  return lines;
+};
+
+const drawParagraph = (
+  ctx: DrawingContext,
+  layout: Layout,
+  scene: ScenePlan,
+  style: SceneStyle
+) => {
+  ctx.font = font("400", 36, layout, style.bodyFont);
+  ctx.textAlign = "start";
+  const x = isRtl(ctx) ? layout.textX + layout.textWidth : layout.textX;
+  const lines = wrapWords(ctx, splitWords(scene.narration), layout.textWidth);
+  lines.forEach((line, idx) => {
+    ctx.fillText(joinWords(line), x, layout.bodyTop + idx * 48 * layout.unit);
+  });
+};
+
+/**
+ * Lays out a wrapped line word by word, as offsets from its left edge. Words sit in reading
+ * order, so a right-to-left line runs from its right edge.
+ */
+const placeWords = (ctx: DrawingContext, line: string[]) => {
+  const spaceWidth = ctx.measureText(" ").width;
+  let offset = 0;
+  const placed = line.map((word, index) => {
+    if (index > 0 && spaceBetween(line[index - 1], word)) {
+      offset += spaceWidth;
+    }
+    const width = ctx.measureText(word).width;
+    const start = offset;
+    offset += width;
+    return { word, start, width };
+  });
+  const lineWidth = offset;
+  const words = isRtl(ctx)
+    ? placed.map((item) => ({ ...item, x: lineWidth - item.start - item.width }))
+    : placed.map((item) => ({ ...item, x: item.start }));
+  return { words, width: lineWidth };
+};
+
+const drawKinetic = (
+  ctx: DrawingContext,
+  layout: Layout,
+  scene: ScenePlan,
+  localTime: number,
+  style: SceneStyle
+) => {
+  ctx.font = font("600", 40, layout, style.bodyFont);
+  ctx.textAlign = "left";
+  const timings = wordTimings(scene.narration, scene.durationSeconds);
+  const lines = wrapWords(
+    ctx,
+    timings.map((timing) => timing.word),
+    layout.textWidth
+  );
+  const lift = 14 * layout.unit;
+  let wordIndex = 0;
+
+  lines.forEach((line, lineIndex) => {
+    const placed = placeWords(ctx, line);
+    const left = isRtl(ctx) ? layout.textX + layout.textWidth - placed.width : layout.textX;
+    const y = layout.bodyTop + (10 + lineIndex * 54) * layout.unit;
+    placed.words.forEach(({ word, x: offset, width }) => {
+      const timing = timings[wordIndex];
+      wordIndex += 1;
+      const x = left + offset;
+      const appear = clamp01((localTime - timing.start) / 0.18);
+      if (appear > 0) {
+        const active = localTime >= timing.start && localTime < timing.end;
+        const scale = 0.6 + 0.4 * easeOutBack(appear);
+        ctx.save();
+        ctx.globalAlpha *= appear;
+        ctx.translate(x + width / 2, y - lift);
+        ctx.scale(scale, scale);
+        ctx.fillStyle = active ? style.accentColor : style.textColor;
+        ctx.fillText(word, -width / 2, lift);
+        ctx.restore();
+      }
+    });
+  });
+};
+
+const drawBrandCard = (
+  ctx: DrawingContext,
+  canvas: Surface,
+  scene: ScenePlan,
+  style: SceneStyle,
+  localTime: number
+) => {
+  const layout = layoutFor(canvas);
+  const appear = easeInOut(clamp01(localTime / 0.5));
+  let textY = canvas.height / 2;
+  ctx.save();
+  ctx.globalAlpha *= appear;
+  if (style.logo) {
+    const width = Math.min(canvas.width, canvas.height) * 0.32;
+    const height = width * style.logo.aspect;
+    ctx.drawImage(style.logo.image, (canvas.width - width) / 2, textY - height, width, height);
+    textY += 72 * layout.unit;
+  }
+  ctx.fillStyle = style.textColor;
+  ctx.font = font("bold", 56, layout, style.headingFont);
+  ctx.textAlign = "center";
+  ctx.fillText(scene.title, canvas.width / 2, textY, canvas.width - layout.padding * 2);
+  ctx.restore();
+};
+
+// Stills push in slowly unless the scene's background is static; clips have their own motion.
+const drawVisual = (
+  ctx: DrawingContext,
+  canvas: Surface,
+  scene: ScenePlan,
+  visual: SceneVisualSource,
+  animation: SceneAnimation,
+  localTime: number
+) => {
+  const push =
+    visual.clip || animation.background === "static"
+      ? 0
+      : 0.08 * clamp01(localTime / scene.durationSeconds);
+  drawCover(ctx, canvas, visual, 1 + push);
+  ctx.fillStyle = "rgba(2, 6, 23, 0.35)";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+};
+
+const drawSceneLayer = (
+  ctx: DrawingContext,
+  canvas: Surface,
+  scene: ScenePlan,
+  palette: string[],
+  localTime: number,
+  style: SceneStyle = defaultStyle,
+  narration = true,
+  visual: SceneVisualSource | null = null
+) => {
+  const animation = scene.animation ?? defaultAnimation;
+  drawBackground(ctx, canvas, palette, animation, localTime);
+  if (isBrandCard(scene)) {
+    drawBrandCard(ctx, canvas, scene, style, localTime);
+    return;
+  }
+  if (visual) {
+    drawVisual(ctx, canvas, scene, visual, animation, localTime);
+  }
+
+  const layout = layoutFor(canvas);
+  const { card } = layout;
+  // A lighter card lets the scene's imagery show through.
+  ctx.fillStyle = visual ? "rgba(15, 23, 42, 0.5)" : "rgba(15, 23, 42, 0.75)";
+  ctx.fillRect(card.x, card.y, card.width, card.height);
+
+  ctx.fillStyle = style.textColor;
+  ctx.font = font("bold", 64, layout, style.headingFont);
+  ctx.textAlign = "center";
+  ctx.fillText(scene.title, canvas.width / 2, layout.titleY, card.width - 32 * layout.unit);
+
+  if (narration && animation.captions === "kinetic") {
+    drawKinetic(ctx, layout, scene, localTime, style);
+  } else if (narration) {
+    ctx.fillStyle = style.textColor;
+    drawParagraph(ctx, layout, scene, style);
+  }
+
+  // Until imagery is picked, the direction stands in for it.
+  if (!visual) {
+    ctx.fillStyle = "rgba(226, 232, 240, 0.72)";
+    ctx.font = font("500", 28, layout, style.bodyFont);
+    ctx.textAlign = "left";
+    // Visual directions stay in the source language, so they keep its reading order.
+    ctx.save();
+    ctx.direction = "ltr";
+    const footer = `Visual: ${scene.visualDirection}`;
+    ctx.fillText(footer, layout.textX, layout.footerY, layout.textWidth);
+    ctx.restore();
+  }
+};
+
+export const drawScene = (
+  ctx: DrawingContext,
+  canvas: Surface,
+  scene: ScenePlan,
+  palette: string[],
+  localTime = 0,
+  style: SceneStyle = defaultStyle
+) => drawSceneLayer(ctx, canvas, scene, palette, localTime, style);
+
+export interface SceneAt {
+  index: number;
+  scene: ScenePlan;
+  start: number;
+  localTime: number;
+}
+
+export const sceneAt = (scenes: ScenePlan[], time: number): SceneAt | null => {
+  let start = 0;
+  for (let index = 0; index < scenes.length; index += 1) {
+    const scene = scenes[index];
+    if (time < start + scene.durationSeconds || index === scenes.length - 1) {
+      return { index, scene, start, localTime: time - start };
+    }
+    start += scene.durationSeconds;
+  }
+  return null;
+};
+
+const drawTransition = (
+  ctx: DrawingContext,
+  canvas: Surface,
+  scenes: ScenePlan[],
+  current: SceneAt,
+  progress: number,
+  style: SceneStyle,
+  narration: boolean,
+  visuals?: SceneVisuals
+) => {
+  const previous = scenes[current.index - 1];
+  const previousTime = previous.durationSeconds + current.localTime;
+  const previousPalette = pickPalette(current.index - 1, style);
+  const palette = pickPalette(current.index, style);
+  const eased = easeInOut(progress);
+  const drawPrevious = () =>
+    drawSceneLayer(
+      ctx,
+      canvas,
+      previous,
+      previousPalette,
+      previousTime,
+      style,
+      narration,
+      visualFor(previous, visuals)
+    );
+  const drawCurrent = () =>
+    drawSceneLayer(
+      ctx,
+      canvas,
+      current.scene,
+      palette,
+      current.localTime,
+      style,
+      narration,
+      visualFor(current.scene, visuals)
+    );
+
+  switch (current.scene.transition) {
+    case "crossfade":
+      drawPrevious();
+      ctx.save();
+      ctx.globalAlpha = eased;
+      drawCurrent();
+      ctx.restore();
+      break;
+    case "slide":
+      ctx.save();
+      ctx.translate(-eased * canvas.width, 0);
+      drawPrevious();
+      ctx.restore();
+      ctx.save();
+      ctx.translate((1 - eased) * canvas.width, 0);
+      drawCurrent();
+      ctx.restore();
+      break;
+    case "wipe":
+      drawPrevious();
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, 0, eased * canvas.width, canvas.height);
+      ctx.clip();
+      drawCurrent();
+      ctx.restore();
+      break;
+    default:
+      drawCurrent();
+  }
+};
+
+const drawProgressBar = (
+  ctx: DrawingContext,
+  canvas: Surface,
+  ratio: number,
+  style: SceneStyle
+) => {
+  const height = Math.max(4, Math.round(layoutFor(canvas).unit * 10));
+  ctx.fillStyle = "rgba(15, 23, 42, 0.45)";
+  ctx.fillRect(0, 0, canvas.width, height);
+  ctx.fillStyle = style.accentColor;
+  ctx.fillRect(0, 0, canvas.width * clamp01(ratio), height);
+};
+
+const drawBurnedCaptions = (
+  ctx: DrawingContext,
+  canvas: Surface,
+  captions: BurnedCaptions,
+  time: number,
+  style: SceneStyle
+) => {
+  const cue = cueAt(captions.cues, time);
+  if (!cue) {
+    return;
+  }
+  const layout = layoutFor(canvas);
+  ctx.font = font("800", 46, layout, style.bodyFont);
+  ctx.textAlign = "left";
+  ctx.lineJoin = "round";
+  const lines = wrapWords(
+    ctx,
+    cue.words.map((timing) => timing.word),
+    canvas.width * 0.84
+  );
+  const lineHeight = 60 * layout.unit;
+  const top = canvas.height * 0.8 - (lines.length * lineHeight) / 2;
+  let wordIndex = 0;
+
+  lines.forEach((line, lineIndex) => {
+    const { words, width } = placeWords(ctx, line);
+    const baseline = top + (lineIndex + 0.75) * lineHeight;
+    const left = (canvas.width - width) / 2;
+    if (captions.preset === "boxed") {
+      ctx.fillStyle = "rgba(2, 6, 23, 0.72)";
+      const inset = 16 * layout.unit;
+      ctx.fillRect(left - inset, top + lineIndex * lineHeight, width + inset * 2, lineHeight);
+    }
+    words.forEach(({ word, x: offset }) => {
+      const timing = cue.words[wordIndex];
+      wordIndex += 1;
+      const x = left + offset;
+      if (captions.preset !== "boxed") {
+        ctx.lineWidth = 8 * layout.unit;
+        ctx.strokeStyle = "rgba(2, 6, 23, 0.9)";
+        ctx.strokeText(word, x, baseline);
+      }
+      const active = time >= timing.start && time < timing.end;
+      const highlighted = captions.preset === "highlight" && active;
+      ctx.fillStyle = highlighted ? style.accentColor : style.textColor;
+      ctx.fillText(word, x, baseline);
+    });
+  });
+};
+
+const drawLogo = (ctx: DrawingContext, canvas: Surface, logo: NonNullable<SceneStyle["logo"]>) => {
+  const layout = layoutFor(canvas);
+  const width = Math.min(canvas.width, canvas.height) * logo.scale;
+  const height = width * logo.aspect;
+  const margin = 24 * layout.unit;
+  const x = logo.position.endsWith("left") ? margin : canvas.width - width - margin;
+  const y = logo.position.startsWith("top") ? margin : canvas.height - height - margin;
+  ctx.save();
+  ctx.globalAlpha *= logo.opacity;
+  ctx.drawImage(logo.image, x, y, width, height);
+  ctx.restore();
+};
+
+/**
+ * Paints the frame at `time` seconds into the timeline: the active scene with its background
+ * motion and captions, any transition in from the previous scene, and overlays.
+ */
+export const drawFrame = (
+  ctx: DrawingContext,
+  canvas: Surface,
+  scenes: ScenePlan[],
+  time: number,
+  options: FrameOptions = {}
+) => {
+  const current = sceneAt(scenes, time);
+  if (!current) {
+    return;
+  }
+  const style = options.style ?? defaultStyle;
+  ctx.direction = options.direction ?? "ltr";
+  const captions = options.captions && options.captions.preset !== "off" ? options.captions : null;
+
+  const transitionWindow = Math.min(TRANSITION_SECONDS, current.scene.durationSeconds / 2);
+  const inTransition =
+    current.index > 0 &&
+    current.scene.transition !== undefined &&
+    current.scene.transition !== "cut" &&
+    current.localTime < transitionWindow;
+
+  if (inTransition) {
+    const progress = current.localTime / transitionWindow;
+    drawTransition(ctx, canvas, scenes, current, progress, style, !captions, options.visuals);
+  } else {
+    const palette = pickPalette(current.index, style);
+    const visual = visualFor(current.scene, options.visuals);
+    const { scene, localTime } = current;
+    drawSceneLayer(ctx, canvas, scene, palette, localTime, style, !captions, visual);
+  }
+
+  if (style.logo && !isBrandCard(current.scene)) {
+    drawLogo(ctx, canvas, style.logo);
+  }
+
+  if (captions) {
+    drawBurnedCaptions(ctx, canvas, captions, time, style);
+  }
+
+  if ((current.scene.animation ?? defaultAnimation).progressBar) {
+    const total = scenes.reduce((acc, scene) => acc + scene.durationSeconds, 0);
+    drawProgressBar(ctx, canvas, total > 0 ? time / total : 0, style);
+  }
+};
@@ -0,0 +1,72 @@
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const cjkScripts = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}";
+// Chinese and Japanese run without spaces, and a line may break between any two characters.
+const unspaced = new RegExp(`[${cjkScripts}\\u3000-\\u303f\\uff01-\\uff60]`, "u");
+const unspacedStart = new RegExp(`^${unspaced.source}`, "u");
+const unspacedEnd = new RegExp(`${unspaced.source}$`, "u");
+
+// Line-breaking rules: closing marks and small kana cling to the character before them,
+// opening brackets to the one after. Latin runs inside such text stay whole.
+const opening = "（「『【〈《〔“";
+const closing = "、。，．！？：；）」』】〉》〕”ー…・ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ々";
+const unspacedUnit = new RegExp(
+  `[${opening}]*(?:[${cjkScripts}]|[^\\s${cjkScripts}${opening}]+)[${closing}]*`,
+  "gu"
+);
+
+const splitUnspaced = (word: string) => {
+  const units = word.match(unspacedUnit) ?? [];
+  // A stray bracket matches no unit; keep the word whole rather than lose it.
+  return units.join("") === word ? units : [word];
+};
+
+export const isUnspaced = (word: string) => unspacedStart.test(word);
+
+/**
+ * Splits text into the units it may wrap between: words for spaced scripts, characters (with
+ * the punctuation that has to stay on their line) for Chinese and Japanese.
+ */
+export const splitWords = (text: string) =>
+  text
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+    .flatMap((word) => (unspaced.test(word) ? splitUnspaced(word) : [word]));
+
+/** Whether a space goes between two adjacent units; never next to Chinese or Japanese text. */
+export const spaceBetween = (left: string, right: string) =>
+  !unspacedEnd.test(left) && !unspacedStart.test(right);
+
+export const joinWords = (words: string[]) =>
+  words.reduce(
+    (text, word) => (text && spaceBetween(text, word) ? `${text} ${word}` : text + word),
+    ""
+  );
+
+// Clause-ending punctuation, where a reader pauses and a caption may end.
+export const endsPhrase = (word: string) => /[.!?,;:—。、！？，；：]$/.test(word);
+
+/**
+ * Spreads words over a duration, weighting each by its length plus a pause for trailing
+ * punctuation, which tracks natural reading pace closer than an even split.
+ */
+export const wordTimings = (text: string, durationSeconds: number, leadIn = 0.15): WordTiming[] => {
+  const words = splitWords(text);
+  if (words.length === 0) {
+    return [];
+  }
+  const weights = words.map((word) => word.length + 1 + (endsPhrase(word) ? 3 : 0));
+  const total = weights.reduce((acc, weight) => acc + weight, 0);
+  const usable = Math.max(0, durationSeconds - leadIn * 2);
+  let cursor = leadIn;
+  return words.map((word, index) => {
+    const span = (weights[index] / total) * usable;
+    const timing = { word, start: cursor, end: cursor + span };
+    cursor += span;
+    return timing;
+  });
+};
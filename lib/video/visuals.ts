@@ -0,0 +1,54 @@
+import type { ScenePlan } from "@/types/agent";
+import type { DrawingContext, Surface } from "./scene";
+
+/**
+ * Footage behind a clip visual. Seeking changes what the source's `image` shows: a video element
+ * in the browser, a decoded frame on the render worker.
+ */
+export interface SceneClip {
+  duration: number;
+  seek: (time: number) => Promise<void>;
+}
+
+export interface SceneVisualSource {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  // Set for clips, which are seeked to the scene's local time before each frame is drawn.
+  clip: SceneClip | null;
+}
+
+// Keyed by media asset id, so scenes that share an asset share its decoded source.
+export type SceneVisuals = Map<string, SceneVisualSource>;
+
+export const visualFor = (scene: ScenePlan, visuals?: SceneVisuals) =>
+  (scene.visual && visuals?.get(scene.visual.assetId)) || null;
+
+/**
+ * Draws the source so it covers the whole surface, cropping the overflow evenly from both sides.
+ * `zoom` above 1 crops further into the centre, for a slow push-in.
+ */
+export const drawCover = (
+  ctx: DrawingContext,
+  canvas: Surface,
+  source: SceneVisualSource,
+  zoom = 1
+) => {
+  if (source.width === 0 || source.height === 0) {
+    return;
+  }
+  const scale = Math.max(canvas.width / source.width, canvas.height / source.height) * zoom;
+  const width = canvas.width / scale;
+  const height = canvas.height / scale;
+  ctx.drawImage(
+    source.image,
+    (source.width - width) / 2,
+    (source.height - height) / 2,
+    width,
+    height,
+    0,
+    0,
+    canvas.width,
+    canvas.height
+  );
+};
@@ -0,0 +1,237 @@
+/**
+ * Minimal in-memory WebM (Matroska) muxer for WebCodecs output. It writes a single
+ * segment with SeekHead, Info, Tracks, Clusters and Cues so the result is seekable.
+ */
+
+type EbmlNode = { id: number; value: Uint8Array | EbmlNode[] };
+
+export interface WebmVideoTrack {
+  codecId: "V_VP8" | "V_VP9";
+  width: number;
+  height: number;
+}
+
+export interface WebmAudioTrack {
+  codecId: "A_OPUS";
+  sampleRate: number;
+  channels: number;
+  codecPrivate?: Uint8Array;
+}
+
+export interface WebmFrame {
+  track: number;
+  timestampMs: number;
+  keyframe: boolean;
+  data: Uint8Array;
+}
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+const MAX_CLUSTER_SPAN_MS = 30000;
+
+const idBytes = (id: number) => {
+  const bytes: number[] = [];
+  let value = id;
+  while (value > 0) {
+    bytes.unshift(value & 0xff);
+    value = Math.floor(value / 256);
+  }
+  return Uint8Array.from(bytes);
+};
+
+const sizeBytes = (size: number) => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) {
+    length += 1;
+  }
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let index = length - 1; index >= 0; index -= 1) {
+    bytes[index] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+};
+
+const uintBytes = (value: number, fixedLength?: number) => {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    bytes.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  while (fixedLength !== undefined && bytes.length < fixedLength) {
+    bytes.unshift(0);
+  }
+  return Uint8Array.from(bytes);
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const length = parts.reduce((acc, part) => acc + part.byteLength, 0);
+  const output = new Uint8Array(length);
+  let offset = 0;
+  parts.forEach((part) => {
+    output.set(part, offset);
+    offset += part.byteLength;
+  });
+  return output;
+};
+
+const encode = (node: EbmlNode): Uint8Array => {
+  const payload = node.value instanceof Uint8Array ? node.value : concat(node.value.map(encode));
+  return concat([idBytes(node.id), sizeBytes(payload.byteLength), payload]);
+};
+
+const uint = (id: number, value: number, fixedLength?: number): EbmlNode => ({
+  id,
+  value: uintBytes(value, fixedLength),
+});
+
+const float = (id: number, value: number): EbmlNode => {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  return { id, value: new Uint8Array(view.buffer) };
+};
+
+const text = (id: number, value: string): EbmlNode => ({
+  id,
+  value: Uint8Array.from(value, (char) => char.charCodeAt(0)),
+});
+
+const master = (id: number, children: EbmlNode[]): EbmlNode => ({ id, value: children });
+
+const simpleBlock = (frame: WebmFrame, clusterTimestamp: number): EbmlNode => {
+  const header = new Uint8Array(4);
+  const relative = Math.round(frame.timestampMs - clusterTimestamp);
+  header[0] = 0x80 | frame.track;
+  header[1] = (relative >> 8) & 0xff;
+  header[2] = relative & 0xff;
+  header[3] = frame.keyframe ? 0x80 : 0;
+  return { id: 0xa3, value: concat([header, frame.data]) };
+};
+
+const groupClusters = (frames: WebmFrame[], hasVideo: boolean) => {
+  const clusters: { timestamp: number; frames: WebmFrame[] }[] = [];
+  frames.forEach((frame) => {
+    const current = clusters[clusters.length - 1];
+    const startsCluster =
+      !current ||
+      (frame.keyframe && (!hasVideo || frame.track === VIDEO_TRACK) && frame.timestampMs > current.timestamp) ||
+      frame.timestampMs - current.timestamp > MAX_CLUSTER_SPAN_MS;
+    if (startsCluster) {
+      clusters.push({ timestamp: Math.round(frame.timestampMs), frames: [frame] });
+    } else {
+      current.frames.push(frame);
+    }
+  });
+  return clusters;
+};
+
+export const muxWebm = ({
+  video,
+  audio,
+  frames,
+  durationMs,
+}: {
+  video?: WebmVideoTrack;
+  audio?: WebmAudioTrack;
+  frames: WebmFrame[];
+  durationMs: number;
+}) => {
+  const header = encode(
+    master(0x1a45dfa3, [
+      uint(0x4286, 1),
+      uint(0x42f7, 1),
+      uint(0x42f2, 4),
+      uint(0x42f3, 8),
+      text(0x4282, "webm"),
+      uint(0x4287, 2),
+      uint(0x4285, 2),
+    ])
+  );
+
+  const info = encode(
+    master(0x1549a966, [
+      uint(0x2ad7b1, 1000000),
+      float(0x4489, durationMs),
+      text(0x4d80, "agentic-creator-studio"),
+      text(0x5741, "agentic-creator-studio"),
+    ])
+  );
+
+  const entries: EbmlNode[] = [];
+  if (video) {
+    entries.push(
+      master(0xae, [
+        uint(0xd7, VIDEO_TRACK),
+        uint(0x73c5, VIDEO_TRACK),
+        uint(0x83, 1),
+        text(0x86, video.codecId),
+        master(0xe0, [uint(0xb0, video.width), uint(0xba, video.height)]),
+      ])
+    );
+  }
+  if (audio) {
+    entries.push(
+      master(0xae, [
+        uint(0xd7, AUDIO_TRACK),
+        uint(0x73c5, AUDIO_TRACK),
+        uint(0x83, 2),
+        text(0x86, audio.codecId),
+        ...(audio.codecPrivate ? [{ id: 0x63a2, value: audio.codecPrivate }] : []),
+        master(0xe1, [float(0xb5, audio.sampleRate), uint(0x9f, audio.channels)]),
+      ])
+    );
+  }
+  const tracks = encode(master(0x1654ae6b, entries));
+
+  const ordered = [...frames].sort((a, b) => a.timestampMs - b.timestampMs || a.track - b.track);
+  const clusters = groupClusters(ordered, Boolean(video)).map((cluster) => ({
+    timestamp: cluster.timestamp,
+    bytes: encode(
+      master(0x1f43b675, [
+        uint(0xe7, cluster.timestamp),
+        ...cluster.frames.map((frame) => simpleBlock(frame, cluster.timestamp)),
+      ])
+    ),
+  }));
+
+  // SeekHead positions are fixed-width so its own size doesn't depend on them.
+  const seekEntry = (id: number, position: number) =>
+    master(0x4dbb, [{ id: 0x53ab, value: idBytes(id) }, uint(0x53ac, position, 8)]);
+  const seekHeadSize = encode(
+    master(0x114d9b74, [seekEntry(0x1549a966, 0), seekEntry(0x1654ae6b, 0), seekEntry(0x1c53bb6b, 0)])
+  ).byteLength;
+
+  const infoPosition = seekHeadSize;
+  const tracksPosition = infoPosition + info.byteLength;
+  let clusterPosition = tracksPosition + tracks.byteLength;
+  const cuePoints: EbmlNode[] = [];
+  clusters.forEach((cluster) => {
+    cuePoints.push(
+      master(0xbb, [
+        uint(0xb3, cluster.timestamp),
+        master(0xb7, [uint(0xf7, video ? VIDEO_TRACK : AUDIO_TRACK), uint(0xf1, clusterPosition)]),
+      ])
+    );
+    clusterPosition += cluster.bytes.byteLength;
+  });
+  const cues = encode(master(0x1c53bb6b, cuePoints));
+
+  const seekHead = encode(
+    master(0x114d9b74, [
+      seekEntry(0x1549a966, infoPosition),
+      seekEntry(0x1654ae6b, tracksPosition),
+      seekEntry(0x1c53bb6b, clusterPosition),
+    ])
+  );
+
+  const segmentPayload = concat([seekHead, info, tracks, ...clusters.map((cluster) => cluster.bytes), cues]);
+  const segment = concat([idBytes(0x18538067), sizeBytes(segmentPayload.byteLength), segmentPayload]);
+
+  return new Blob([header, segment] as BlobPart[], { type: "video/webm" });
+};
+
+export const WEBM_VIDEO_TRACK = VIDEO_TRACK;
+export const WEBM_AUDIO_TRACK = AUDIO_TRACK;
@@ -0,0 +1,36 @@
+import type { SpeechProvider, VoiceProviderId } from "./types";
+import { createOfflineVoiceProvider } from "./providers/offline";
+import { createOpenAIVoiceProvider } from "./providers/openai";
+
+export interface VoiceConfig {
+  provider: VoiceProviderId;
+  openai: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    voice: string;
+  };
+}
+
+const parseProvider = (value: string | undefined): VoiceProviderId =>
+  value === "openai" ? "openai" : "offline";
+
+export const readVoiceConfig = (env: NodeJS.ProcessEnv = process.env): VoiceConfig => ({
+  provider: parseProvider(env.VOICE_PROVIDER),
+  openai: {
+    baseUrl: env.VOICE_OPENAI_BASE_URL ?? env.AGENT_OPENAI_BASE_URL ?? "https://api.openai.com/v1",
+    apiKey: env.VOICE_OPENAI_API_KEY ?? env.AGENT_OPENAI_API_KEY,
+    model: env.VOICE_OPENAI_MODEL ?? "tts-1",
+    voice: env.VOICE_OPENAI_VOICE ?? "alloy",
+  },
+});
+
+export const createVoiceProvider = (config: VoiceConfig): SpeechProvider => {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIVoiceProvider(config.openai);
+    case "offline":
+    default:
+      return createOfflineVoiceProvider();
+  }
+};
@@ -0,0 +1,18 @@
+import type { SpeechAudio, SpeechRequest } from "@/types/voice";
+import type { SpeechContext, SpeechProvider } from "./types";
+import { createVoiceProvider, readVoiceConfig } from "./config";
+
+export type { SpeechContext, SpeechProvider, VoiceProviderId } from "./types";
+export { createVoiceProvider, readVoiceConfig } from "./config";
+
+export interface SynthesizeOptions extends SpeechContext {
+  provider?: SpeechProvider;
+}
+
+export const synthesizeSpeech = (
+  request: SpeechRequest,
+  options: SynthesizeOptions = {}
+): Promise<SpeechAudio> => {
+  const provider = options.provider ?? createVoiceProvider(readVoiceConfig());
+  return provider.synthesize(request, { signal: options.signal });
+};
@@ -0,0 +1,149 @@
+import type { SpeechRequest, Voice } from "@/types/voice";
+import { createRandom } from "@/lib/agent/random";
+import type { SpeechProvider } from "../types";
+import { encodeWav } from "../wav";
+
+export interface OfflineVoiceOptions {
+  sampleRate?: number;
+}
+
+interface VoiceShape {
+  pitch: number;
+  pace: number;
+}
+
+const voiceShapes: Record<Voice, VoiceShape> = {
+  narrator: { pitch: 118, pace: 1 },
+  bright: { pitch: 190, pace: 1.08 },
+  deep: { pitch: 92, pace: 0.94 },
+};
+
+// First two formant frequencies (Hz) for each written vowel.
+const formants: Record<string, [number, number]> = {
+  a: [730, 1090],
+  e: [530, 1840],
+  i: [300, 2250],
+  o: [570, 840],
+  u: [320, 900],
+  y: [300, 2100],
+};
+
+const SYLLABLE_PATTERN = /[^aeiouy]*[aeiouy]+(?:[^aeiouy]*$)?/gi;
+
+interface Segment {
+  kind: "voiced" | "noise" | "silence";
+  seconds: number;
+  vowel?: string;
+  pitch?: number;
+}
+
+const syllablesOf = (word: string) => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+  const matches = letters.match(SYLLABLE_PATTERN);
+  return matches && matches.length > 0 ? matches : letters ? [letters] : [];
+};
+
+const planSegments = (text: string, voice: VoiceShape, rate: number, random: () => number) => {
+  const segments: Segment[] = [];
+  const words = text.split(/\s+/).filter((word) => word.length > 0);
+  const pace = voice.pace * rate;
+
+  words.forEach((word, wordIndex) => {
+    // Pitch drifts down across a sentence and lifts on questions.
+    const progress = words.length > 1 ? wordIndex / (words.length - 1) : 0;
+    const question = /\?$/.test(word);
+    syllablesOf(word).forEach((syllable, syllableIndex) => {
+      const onset = syllable.match(/^[^aeiouy]+/)?.[0] ?? "";
+      const vowel = syllable.match(/[aeiouy]/)?.[0] ?? "a";
+      if (onset.length > 0) {
+        segments.push({ kind: "noise", seconds: (0.025 + onset.length * 0.015) / pace });
+      }
+      const stress = syllableIndex === 0 ? 1.06 : 1;
+      const pitch =
+        voice.pitch * stress * (1.08 - progress * 0.16 + (question ? progress * 0.3 : 0)) *
+        (0.97 + random() * 0.06);
+      segments.push({ kind: "voiced", seconds: (0.11 + random() * 0.05) / pace, vowel, pitch });
+    });
+
+    const pause = /[.!?]$/.test(word) ? 0.38 : /[,;:—]$/.test(word) ? 0.2 : 0.06;
+    segments.push({ kind: "silence", seconds: pause / pace });
+  });
+  return segments;
+};
+
+const resonator = (frequency: number, bandwidth: number, sampleRate: number) => {
+  const r = Math.exp((-Math.PI * bandwidth) / sampleRate);
+  const b1 = 2 * r * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  const b2 = -r * r;
+  return { gain: 1 - r, b1, b2 };
+};
+
+/**
+ * Renders the plan with a tiny source-filter model: a pulse train through two formant
+ * resonators for vowels and shaped noise for consonants. It is a guide voice with natural
+ * pacing and intonation, not intelligible speech; use a real TTS provider for publishing.
+ */
+const synthesize = ({ text, voice, rate }: SpeechRequest, sampleRate: number) => {
+  const selected = voiceShapes[voice ?? "narrator"];
+  const random = createRandom(`${voice ?? "narrator"}::${text}`);
+  const segments = planSegments(text, selected, rate ?? 1, random);
+  const seconds = segments.reduce((acc, segment) => acc + segment.seconds, 0.2);
+  const total = Math.ceil(seconds * sampleRate);
+  const samples = new Float32Array(total);
+
+  let cursor = Math.round(0.1 * sampleRate);
+  let phase = 0;
+  const state = [0, 0, 0, 0];
+
+  segments.forEach((segment) => {
+    const length = Math.round(segment.seconds * sampleRate);
+    const ramp = Math.min(length / 2, sampleRate * 0.012);
+    const [f1, f2] = formants[segment.vowel ?? "a"];
+    const first = resonator(f1, 90, sampleRate);
+    const second = resonator(f2, 130, sampleRate);
+
+    for (let index = 0; index < length && cursor < total; index += 1, cursor += 1) {
+      const envelope = Math.min(1, index / ramp, (length - index) / ramp);
+      let source = 0;
+      if (segment.kind === "voiced") {
+        phase += (segment.pitch ?? selected.pitch) / sampleRate;
+        if (phase >= 1) {
+          phase -= 1;
+        }
+        source = (phase < 0.08 ? 1 : 0) - 0.08 + (random() - 0.5) * 0.02;
+      } else if (segment.kind === "noise") {
+        source = (random() - 0.5) * 0.35;
+      }
+
+      const y1 = first.gain * source + first.b1 * state[0] + first.b2 * state[1];
+      state[1] = state[0];
+      state[0] = y1;
+      const y2 = second.gain * source + second.b1 * state[2] + second.b2 * state[3];
+      state[3] = state[2];
+      state[2] = y2;
+
+      const shaped = segment.kind === "noise" ? source * 0.5 + y2 : y1 + y2 * 0.6;
+      samples[cursor] = shaped * envelope;
+    }
+  });
+
+  const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+  if (peak > 0) {
+    const scale = 0.8 / peak;
+    samples.forEach((sample, index) => {
+      samples[index] = sample * scale;
+    });
+  }
+  return samples;
+};
+
+export const createOfflineVoiceProvider = (options: OfflineVoiceOptions = {}): SpeechProvider => {
+  const sampleRate = options.sampleRate ?? 24000;
+  return {
+    id: "offline",
+    synthesize: async (request) => ({
+      data: encodeWav(synthesize(request, sampleRate), sampleRate),
+      mimeType: "audio/wav",
+    }),
+  };
+};
@@ -0,0 +1,47 @@
+import type { Voice } from "@/types/voice";
+import type { SpeechProvider } from "../types";
+
+export interface OpenAIVoiceOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  voice: string;
+}
+
+// Maps the studio's voice presets onto the endpoint's voice names; the narrator is configurable.
+const voiceNames = (options: OpenAIVoiceOptions): Record<Voice, string> => ({
+  narrator: options.voice,
+  bright: "nova",
+  deep: "onyx",
+});
+
+/** Works with OpenAI and with local servers that mirror its `/audio/speech` endpoint. */
+export const createOpenAIVoiceProvider = (options: OpenAIVoiceOptions): SpeechProvider => ({
+  id: "openai",
+  synthesize: async (request, context) => {
+    const response = await fetch(`${options.baseUrl.replace(/\/$/, "")}/audio/speech`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: options.model,
+        voice: voiceNames(options)[request.voice ?? "narrator"],
+        input: request.text,
+        speed: request.rate ?? 1,
+        response_format: "wav",
+      }),
+      signal: context.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Speech endpoint responded with ${response.status}`);
+    }
+
+    return {
+      data: new Uint8Array(await response.arrayBuffer()),
+      mimeType: response.headers.get("content-type") ?? "audio/wav",
+    };
+  },
+});
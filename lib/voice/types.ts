@@ -0,0 +1,12 @@
+import type { SpeechAudio, SpeechRequest } from "@/types/voice";
+
+export type VoiceProviderId = "offline" | "openai";
+
+export interface SpeechContext {
+  signal?: AbortSignal;
+}
+
+export interface SpeechProvider {
+  id: VoiceProviderId;
+  synthesize: (request: SpeechRequest, context: SpeechContext) => Promise<SpeechAudio>;
+}
@@ -0,0 +1,35 @@
+import type { VoiceProfile, VoiceProfileSettings, VoiceProfileSummary } from "@/types/voiceProfile";
+import type { VoiceProfilePatch } from "./index";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(
+      payload.issues?.[0]?.message ?? payload.error ?? `Request failed with ${response.status}`
+    );
+  }
+  return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+};
+
+export const fetchVoiceProfiles = async () =>
+  (await request<{ profiles: VoiceProfileSummary[] }>("/api/voice-profiles")).profiles;
+
+export const fetchVoiceProfile = (id: string) => request<VoiceProfile>(`/api/voice-profiles/${id}`);
+
+export const createVoiceProfile = (settings: VoiceProfileSettings) =>
+  request<VoiceProfile>("/api/voice-profiles", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  });
+
+export const patchVoiceProfile = (id: string, patch: VoiceProfilePatch) =>
+  request<VoiceProfile>(`/api/voice-profiles/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+
+export const removeVoiceProfile = (id: string) =>
+  request<void>(`/api/voice-profiles/${id}`, { method: "DELETE" });
@@ -0,0 +1,12 @@
+import type { VoiceProfileSettings } from "@/types/voiceProfile";
+
+export const defaultVoiceProfileSettings: VoiceProfileSettings = {
+  name: "New voice",
+  tone: "Energetic",
+  description: "",
+  exampleScripts: [],
+  preferredWords: [],
+  avoidedWords: [],
+  wordsPerMinute: 150,
+  emoji: "sparing",
+};
@@ -0,0 +1,49 @@
+import { randomUUID } from "crypto";
+import type {
+  VoiceProfile,
+  VoiceProfileSettings,
+  VoiceProfileSummary,
+} from "@/types/voiceProfile";
+import { createJsonStore } from "@/lib/store/fileStore";
+
+const store = createJsonStore<VoiceProfile>("voice-profiles");
+
+export const toVoiceProfileSummary = (profile: VoiceProfile): VoiceProfileSummary => ({
+  id: profile.id,
+  name: profile.name,
+  tone: profile.tone,
+  updatedAt: profile.updatedAt,
+});
+
+export const listVoiceProfiles = async (filter: { workspaceId?: string } = {}) =>
+  (await store.list())
+    .filter((profile) => !filter.workspaceId || profile.workspaceId === filter.workspaceId)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(toVoiceProfileSummary);
+
+/** The profile, or null when it doesn't exist or is in another workspace than the one given. */
+export const getVoiceProfile = async (id: string, workspaceId?: string) => {
+  const profile = await store.get(id);
+  return profile && (!workspaceId || profile.workspaceId === workspaceId) ? profile : null;
+};
+
+export const createVoiceProfile = (settings: VoiceProfileSettings, workspaceId: string) => {
+  const now = new Date().toISOString();
+  return store.put({ ...settings, id: randomUUID(), workspaceId, createdAt: now, updatedAt: now });
+};
+
+export type VoiceProfilePatch = Partial<VoiceProfileSettings>;
+
+export const updateVoiceProfile = (id: string, patch: VoiceProfilePatch) =>
+  store.update(id, (profile) => ({ ...profile, ...patch, updatedAt: new Date().toISOString() }));
+
+export const deleteVoiceProfile = (id: string) => store.remove(id);
+
+/** Hands voice profiles made before workspaces existed to the first workspace. */
+export const adoptVoiceProfiles = async (workspaceId: string) => {
+  for (const profile of await store.list()) {
+    if (!profile.workspaceId) {
+      await store.update(profile.id, (current) => ({ ...current, workspaceId }));
+    }
+  }
+};
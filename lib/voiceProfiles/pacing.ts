@@ -0,0 +1,38 @@
+import type { ScenePlan } from "@/types/agent";
+import { narrationWords } from "@/lib/timeline";
+
+// Narration up to 10% over the scene's length still reads fine, just a little quicker.
+const TOLERANCE = 1.1;
+
+export interface ScenePacing {
+  index: number;
+  words: number;
+  // How long the narration takes to read at the profile's pace.
+  neededSeconds: number;
+  rushed: boolean;
+}
+
+export const readingSeconds = (words: number, wordsPerMinute: number) =>
+  (words * 60) / wordsPerMinute;
+
+export const scenePacing = (scenes: ScenePlan[], wordsPerMinute: number): ScenePacing[] =>
+  scenes.map((scene, index) => {
+    const words = narrationWords(scene).length;
+    const neededSeconds = readingSeconds(words, wordsPerMinute);
+    return {
+      index,
+      words,
+      neededSeconds,
+      rushed: neededSeconds > scene.durationSeconds * TOLERANCE,
+    };
+  });
+
+/** Lengthens every rushed scene to the time its narration needs, rounded up to half a second. */
+export const fitToPace = (scenes: ScenePlan[], wordsPerMinute: number) => {
+  const pacing = scenePacing(scenes, wordsPerMinute);
+  return scenes.map((scene, index) =>
+    pacing[index].rushed
+      ? { ...scene, durationSeconds: Math.ceil(pacing[index].neededSeconds * 2) / 2 }
+      : scene
+  );
+};
@@ -0,0 +1,78 @@
+import type { AgentResponse, Localization, ScenePlan, SocialPostPlan } from "@/types/agent";
+import type { EmojiPolicy } from "@/types/voiceProfile";
+import { emojiPattern } from "@/lib/rules/fixes";
+
+const stripEmoji = (text: string) =>
+  text.replace(emojiPattern, "").replace(/[ \t]{2,}/g, " ").replace(/ +\n/g, "\n").trim();
+
+// Keeps the first emoji, for the "sparing" policy.
+const keepFirstEmoji = (text: string) => {
+  let seen = false;
+  const kept = text.replace(emojiPattern, (match) => {
+    if (seen) {
+      return "";
+    }
+    seen = true;
+    return match;
+  });
+  return kept === text ? text : kept.replace(/[ \t]{2,}/g, " ").trim();
+};
+
+// Hooks, scripts and narration are read aloud, so only "expressive" keeps emoji in them.
+export const applyEmojiPolicyToText = (text: string, emoji: EmojiPolicy) =>
+  emoji === "expressive" ? text : stripEmoji(text);
+
+export const applyEmojiPolicyToPost = (post: SocialPostPlan, emoji: EmojiPolicy): SocialPostPlan =>
+  emoji === "expressive"
+    ? post
+    : {
+        ...post,
+        caption: emoji === "none" ? stripEmoji(post.caption) : keepFirstEmoji(post.caption),
+        callToAction: stripEmoji(post.callToAction),
+      };
+
+export const applyEmojiPolicyToScene = <T extends Pick<ScenePlan, "title" | "narration">>(
+  scene: T,
+  emoji: EmojiPolicy
+): T =>
+  emoji === "expressive"
+    ? scene
+    : { ...scene, title: stripEmoji(scene.title), narration: stripEmoji(scene.narration) };
+
+/**
+ * Holds the copy to the profile's emoji policy: "none" strips every emoji, "sparing" keeps one
+ * per caption and none in anything read aloud, and "expressive" leaves the copy alone.
+ */
+export const applyEmojiPolicy = (response: AgentResponse, emoji: EmojiPolicy): AgentResponse => {
+  if (emoji === "expressive") {
+    return response;
+  }
+  const posts = (items: SocialPostPlan[]) =>
+    items.map((post) => applyEmojiPolicyToPost(post, emoji));
+  return {
+    ...response,
+    hook: stripEmoji(response.hook),
+    script: stripEmoji(response.script),
+    scenes: response.scenes.map((scene) => applyEmojiPolicyToScene(scene, emoji)),
+    socialPosts: posts(response.socialPosts),
+    variants: response.variants?.map((variant) => ({
+      ...variant,
+      hook: stripEmoji(variant.hook),
+      socialPosts: posts(variant.socialPosts),
+    })),
+  };
+};
+
+export const applyEmojiPolicyToLocalization = (
+  localization: Localization,
+  emoji: EmojiPolicy
+): Localization =>
+  emoji === "expressive"
+    ? localization
+    : {
+        ...localization,
+        hook: stripEmoji(localization.hook),
+        script: stripEmoji(localization.script),
+        scenes: localization.scenes.map((scene) => applyEmojiPolicyToScene(scene, emoji)),
+        socialPosts: localization.socialPosts.map((post) => applyEmojiPolicyToPost(post, emoji)),
+      };
@@ -0,0 +1,39 @@
+import type {
+  CreatedWebhook,
+  Webhook,
+  WebhookDelivery,
+  WebhookPatch,
+  WebhookRequest,
+} from "@/types/webhook";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error ?? `Request failed with ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+};
+
+export const fetchWebhooks = async () =>
+  (await request<{ webhooks: Webhook[] }>("/api/webhooks")).webhooks;
+
+export const createWebhook = (webhook: WebhookRequest) =>
+  request<CreatedWebhook>("/api/webhooks", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(webhook),
+  });
+
+export const updateWebhook = (id: string, patch: WebhookPatch) =>
+  request<Webhook>(`/api/webhooks/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+
+export const deleteWebhook = (id: string) =>
+  request<void>(`/api/webhooks/${id}`, { method: "DELETE" });
+
+export const fetchDeliveries = async (id: string) =>
+  (await request<{ deliveries: WebhookDelivery[] }>(`/api/webhooks/${id}/deliveries`)).deliveries;
@@ -0,0 +1,232 @@
+import { randomBytes, randomUUID } from "crypto";
+import type {
+  CreatedWebhook,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookPatch,
+  WebhookRequest,
+} from "@/types/webhook";
+import { createJsonStore } from "@/lib/store/fileStore";
+
+interface StoredWebhook extends Webhook {
+  secret: string;
+}
+
+const hooks = createJsonStore<StoredWebhook>("webhooks");
+const deliveries = createJsonStore<WebhookDelivery>("webhookDeliveries");
+
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 60 * 60;
+// Finished deliveries kept per webhook for the admin's log; older ones are dropped as new ones
+// arrive. Deliveries still to be sent are never dropped.
+const KEPT_DELIVERIES = 50;
+
+const toWebhook = (hook: StoredWebhook): Webhook => {
+  const { secret, ...webhook } = hook;
+  return webhook;
+};
+
+const ownHook = async (workspaceId: string, id: string) => {
+  const hook = await hooks.get(id);
+  return hook && hook.workspaceId === workspaceId ? hook : null;
+};
+
+export const listWebhooks = async (workspaceId: string) =>
+  (await hooks.list())
+    .filter((hook) => hook.workspaceId === workspaceId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(toWebhook);
+
+/** Adds an endpoint. The returned secret is shown once; deliveries are signed with it. */
+export const createWebhook = async (
+  workspaceId: string,
+  request: WebhookRequest
+): Promise<CreatedWebhook> => {
+  const now = new Date().toISOString();
+  const secret = `whsec_${randomBytes(24).toString("base64url")}`;
+  const hook = await hooks.put({
+    id: randomUUID(),
+    workspaceId,
+    url: request.url,
+    events: request.events,
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+    secret,
+  });
+  return { webhook: toWebhook(hook), secret };
+};
+
+/** Null when the workspace has no such webhook. */
+export const updateWebhook = async (workspaceId: string, id: string, patch: WebhookPatch) => {
+  if (!(await ownHook(workspaceId, id))) {
+    return null;
+  }
+  const hook = await hooks.update(id, (current) => ({
+    ...current,
+    url: patch.url ?? current.url,
+    events: patch.events ?? current.events,
+    active: patch.active ?? current.active,
+    updatedAt: new Date().toISOString(),
+  }));
+  return hook ? toWebhook(hook) : null;
+};
+
+/** Removes the webhook and its delivery log. */
+export const deleteWebhook = async (workspaceId: string, id: string) => {
+  if (!(await ownHook(workspaceId, id))) {
+    return false;
+  }
+  for (const delivery of await deliveries.list()) {
+    if (delivery.webhookId === id) {
+      await deliveries.remove(delivery.id);
+    }
+  }
+  return hooks.remove(id);
+};
+
+/** The webhook's latest deliveries, newest first; null when the workspace has no such webhook. */
+export const listDeliveries = async (workspaceId: string, webhookId: string) => {
+  if (!(await ownHook(workspaceId, webhookId))) {
+    return null;
+  }
+  return (await deliveries.list())
+    .filter((delivery) => delivery.webhookId === webhookId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+const prune = async (webhookId: string) => {
+  const old = (await deliveries.list())
+    .filter(
+      (delivery) =>
+        delivery.webhookId === webhookId &&
+        (delivery.status === "delivered" || delivery.status === "failed")
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(KEPT_DELIVERIES);
+  for (const delivery of old) {
+    await deliveries.remove(delivery.id);
+  }
+};
+
+/**
+ * Queues the event for every active webhook of the workspace that subscribed to it; the
+ * dispatcher sends them. Never throws, so a broken webhook store can't fail the change that
+ * raised the event. Campaigns from before workspaces have no workspace and raise nothing.
+ */
+export const emitEvent = async (
+  workspaceId: string | undefined,
+  type: WebhookEvent,
+  data: unknown
+) => {
+  if (!workspaceId) {
+    return [];
+  }
+  try {
+    const subscribed = (await hooks.list()).filter(
+      (hook) => hook.workspaceId === workspaceId && hook.active && hook.events.includes(type)
+    );
+    const now = new Date().toISOString();
+    const payload = { id: randomUUID(), type, createdAt: now, workspaceId, data };
+    const queued: WebhookDelivery[] = [];
+    for (const hook of subscribed) {
+      queued.push(
+        await deliveries.put({
+          id: randomUUID(),
+          webhookId: hook.id,
+          payload,
+          status: "pending",
+          attempts: 0,
+          maxAttempts: MAX_DELIVERY_ATTEMPTS,
+          dueAt: now,
+          history: [],
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+      await prune(hook.id);
+    }
+    return queued;
+  } catch (error) {
+    console.error(`Failed to queue ${type} webhooks`, error);
+    return [];
+  }
+};
+
+export const listDueDeliveries = async (now: Date) =>
+  (await deliveries.list()).filter(
+    (delivery) => delivery.status === "pending" && delivery.dueAt <= now.toISOString()
+  );
+
+/** The URL and signing secret a delivery goes to; null once its webhook is gone or paused. */
+export const destinationOf = async (delivery: WebhookDelivery) => {
+  const hook = await hooks.get(delivery.webhookId);
+  return hook?.active ? { url: hook.url, secret: hook.secret } : null;
+};
+
+/** Marks a due delivery as being sent. Returns null when another tick got there first. */
+export const claimDelivery = async (id: string, now: Date) => {
+  let claimed = false;
+  const delivery = await deliveries.update(id, (current) => {
+    if (current.status !== "pending" || current.dueAt > now.toISOString()) {
+      return current;
+    }
+    claimed = true;
+    return { ...current, status: "sending", lockedAt: now.toISOString() };
+  });
+  return claimed ? delivery : null;
+};
+
+export const backoffSeconds = (attempt: number) =>
+  Math.min(BACKOFF_MAX_SECONDS, BACKOFF_BASE_SECONDS * 2 ** Math.max(0, attempt - 1));
+
+/**
+ * Records an attempt. A failure backs off for another try until the attempts run out, or
+ * straight away when `retryable` is false.
+ */
+export const recordAttempt = (
+  id: string,
+  attempt: { ok: boolean; status?: number; error?: string },
+  retryable = true
+) =>
+  deliveries.update(id, (delivery) => {
+    const now = new Date();
+    const attempts = delivery.attempts + 1;
+    const exhausted = !retryable || attempts >= delivery.maxAttempts;
+    return {
+      ...delivery,
+      status: attempt.ok ? "delivered" : exhausted ? "failed" : "pending",
+      attempts,
+      dueAt:
+        attempt.ok || exhausted
+          ? delivery.dueAt
+          : new Date(now.getTime() + backoffSeconds(attempts) * 1000).toISOString(),
+      history: [...delivery.history, { at: now.toISOString(), ...attempt }],
+      lockedAt: undefined,
+      updatedAt: now.toISOString(),
+    };
+  });
+
+/** Requeues deliveries left "sending" by a process that died mid-request. */
+export const releaseStaleDeliveries = async (olderThan: Date) => {
+  const stale = (await deliveries.list()).filter(
+    (delivery) =>
+      delivery.status === "sending" &&
+      (!delivery.lockedAt || delivery.lockedAt < olderThan.toISOString())
+  );
+  for (const delivery of stale) {
+    await deliveries.update(delivery.id, (current) =>
+      current.status === "sending"
+        ? {
+            ...current,
+            status: "pending",
+            lockedAt: undefined,
+            updatedAt: new Date().toISOString(),
+          }
+        : current
+    );
+  }
+  return stale.length;
+};
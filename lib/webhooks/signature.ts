@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const SIGNATURE_HEADER = "X-Agentic-Signature";
+
+// Deliveries older than this are refused by verifySignature, so a captured one can't be replayed.
+const TOLERANCE_SECONDS = 5 * 60;
+
+const digest = (secret: string, timestamp: number, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+/** The signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`. */
+export const signPayload = (
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+) => `t=${timestamp},v1=${digest(secret, timestamp, body)}`;
+
+/** Checks a delivery the way a receiver should; exported for tools written against this API. */
+export const verifySignature = (
+  secret: string,
+  header: string | null,
+  body: string,
+  now = Date.now()
+) => {
+  const parts = new Map(
+    (header ?? "").split(",").map((part) => part.split("=", 2) as [string, string])
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - timestamp) > TOLERANCE_SECONDS) {
+    return false;
+  }
+  const expected = Buffer.from(digest(secret, timestamp, body), "hex");
+  const given = Buffer.from(signature, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
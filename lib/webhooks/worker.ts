@@ -0,0 +1,103 @@
+import type { WebhookDelivery } from "@/types/webhook";
+import {
+  claimDelivery,
+  destinationOf,
+  listDueDeliveries,
+  recordAttempt,
+  releaseStaleDeliveries,
+} from "./index";
+import { SIGNATURE_HEADER, signPayload } from "./signature";
+
+const TICK_MS = 5_000;
+const STALE_LOCK_MS = 5 * 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface DeliveryResult {
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+export type DeliverySender = (
+  url: string,
+  headers: Record<string, string>,
+  body: string
+) => Promise<DeliveryResult>;
+
+const post: DeliverySender = async (url, headers, body) => {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    return response.ok
+      ? { ok: true, status: response.status }
+      : { ok: false, status: response.status, error: `Receiver answered ${response.status}` };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : "Request failed" };
+  }
+};
+
+const send = async (delivery: WebhookDelivery, sender: DeliverySender) => {
+  const destination = await destinationOf(delivery);
+  if (!destination) {
+    return recordAttempt(delivery.id, { ok: false, error: "Webhook removed or paused" }, false);
+  }
+  const body = JSON.stringify(delivery.payload);
+  const result = await sender(
+    destination.url,
+    {
+      "Content-Type": "application/json",
+      "User-Agent": "agentic-webhooks/1",
+      "X-Agentic-Event": delivery.payload.type,
+      "X-Agentic-Delivery": delivery.id,
+      [SIGNATURE_HEADER]: signPayload(destination.secret, body),
+    },
+    body
+  );
+  return recordAttempt(delivery.id, result);
+};
+
+/** Sends every pending delivery whose due time has passed. Returns how many were attempted. */
+export const runDueDeliveries = async (sender: DeliverySender = post, now = new Date()) => {
+  let attempted = 0;
+  for (const candidate of await listDueDeliveries(now)) {
+    const delivery = await claimDelivery(candidate.id, now);
+    if (!delivery) {
+      continue;
+    }
+    attempted += 1;
+    await send(delivery, sender);
+  }
+  return attempted;
+};
+
+const globalDispatcher = globalThis as typeof globalThis & {
+  __agenticWebhooks?: ReturnType<typeof setInterval>;
+};
+
+/** Starts the in-process webhook dispatcher once per server, like the publish scheduler. */
+export const startWebhookDispatcher = () => {
+  if (globalDispatcher.__agenticWebhooks || process.env.WEBHOOKS_DISABLED === "true") {
+    return;
+  }
+  let running = false;
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await releaseStaleDeliveries(new Date(Date.now() - STALE_LOCK_MS));
+      await runDueDeliveries();
+    } catch (error) {
+      console.error("Webhook dispatch failed", error);
+    } finally {
+      running = false;
+    }
+  };
+  globalDispatcher.__agenticWebhooks = setInterval(tick, TICK_MS);
+  void tick();
+};
@@ -0,0 +1,41 @@
+import type { MemberRequest, Role, SessionInfo, WorkspaceMember } from "@/types/workspace";
+
+const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error ?? `Request failed with ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+};
+
+export const createWorkspace = (name: string) =>
+  request<SessionInfo>("/api/workspaces", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name }),
+  });
+
+export const fetchMembers = async () =>
+  (await request<{ members: WorkspaceMember[] }>("/api/workspaces/members")).members;
+
+export const addMember = async (member: MemberRequest) =>
+  (
+    await request<{ members: WorkspaceMember[] }>("/api/workspaces/members", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(member),
+    })
+  ).members;
+
+export const setMemberRole = async (userId: string, role: Role) =>
+  (
+    await request<{ members: WorkspaceMember[] }>(`/api/workspaces/members/${userId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ role }),
+    })
+  ).members;
+
+export const removeMember = (userId: string) =>
+  request<void>(`/api/workspaces/members/${userId}`, { method: "DELETE" });
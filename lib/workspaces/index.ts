@@ -0,0 +1,130 @@
+import { randomUUID } from "crypto";
+import type { MemberRequest, Role, Workspace, WorkspaceMember } from "@/types/workspace";
+import { createUser, findUserByUsername, getUsers } from "@/lib/auth/users";
+import { adoptBrands } from "@/lib/brands";
+import { adoptCampaigns } from "@/lib/campaigns";
+import { adoptMedia } from "@/lib/media";
+import { adoptSeries } from "@/lib/series";
+import { createJsonStore } from "@/lib/store/fileStore";
+import { adoptVoiceProfiles } from "@/lib/voiceProfiles";
+
+const store = createJsonStore<Workspace>("workspaces");
+
+/**
+ * Raised for a membership change the workspace can't take: adding someone twice, or leaving it
+ * without an admin. `path` is set when the request itself is incomplete.
+ */
+export class MembershipError extends Error {
+  path?: string;
+
+  constructor(message: string, path?: string) {
+    super(message);
+    this.name = "MembershipError";
+    this.path = path;
+  }
+}
+
+export const getWorkspace = (id: string) => store.get(id);
+
+export const roleIn = (workspace: Workspace, userId: string): Role | null =>
+  workspace.members.find((member) => member.userId === userId)?.role ?? null;
+
+export const workspacesFor = async (userId: string) =>
+  (await store.list())
+    .filter((workspace) => roleIn(workspace, userId) !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Creates a workspace with its creator as admin. The first one on an instance also takes over
+ * campaigns, series, brand kits, voice profiles and media made before workspaces existed.
+ */
+export const createWorkspace = async (name: string, adminId: string) => {
+  const first = (await store.list()).length === 0;
+  const now = new Date().toISOString();
+  const workspace = await store.put({
+    id: randomUUID(),
+    name,
+    members: [{ userId: adminId, role: "admin" }],
+    createdAt: now,
+    updatedAt: now,
+  });
+  if (first) {
+    await adoptCampaigns(workspace.id);
+    await adoptSeries(workspace.id);
+    await adoptBrands(workspace.id);
+    await adoptVoiceProfiles(workspace.id);
+    await adoptMedia(workspace.id);
+  }
+  return workspace;
+};
+
+export const listMembers = async (workspace: Workspace): Promise<WorkspaceMember[]> => {
+  const users = await getUsers(workspace.members.map((member) => member.userId));
+  return workspace.members
+    .flatMap((member) => {
+      const user = users.find((item) => item.id === member.userId);
+      return user ? [{ ...user, role: member.role }] : [];
+    })
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+};
+
+/** Adds an existing account, or creates one with the given initial password. */
+export const addMember = async (workspaceId: string, request: MemberRequest) => {
+  let user = await findUserByUsername(request.username);
+  if (!user) {
+    if (!request.password) {
+      throw new MembershipError("Set an initial password for the new account", "password");
+    }
+    user = await createUser(request);
+  }
+  const userId = user.id;
+  return store.update(workspaceId, (workspace) => {
+    if (roleIn(workspace, userId)) {
+      throw new MembershipError(`${request.username} is already a member`);
+    }
+    return {
+      ...workspace,
+      members: [...workspace.members, { userId, role: request.role }],
+      updatedAt: new Date().toISOString(),
+    };
+  });
+};
+
+const keepAnAdmin = (workspace: Workspace) => {
+  if (!workspace.members.some((member) => member.role === "admin")) {
+    throw new MembershipError("A workspace needs at least one admin");
+  }
+  return workspace;
+};
+
+/** Changes a member's role; null when the workspace or member doesn't exist. */
+export const setMemberRole = async (workspaceId: string, userId: string, role: Role) => {
+  const workspace = await getWorkspace(workspaceId);
+  if (!workspace || !roleIn(workspace, userId)) {
+    return null;
+  }
+  return store.update(workspaceId, (current) =>
+    keepAnAdmin({
+      ...current,
+      members: current.members.map((member) =>
+        member.userId === userId ? { ...member, role } : member
+      ),
+      updatedAt: new Date().toISOString(),
+    })
+  );
+};
+
+/** Removes a member; the account stays, as it may belong to other workspaces. */
+export const removeMember = async (workspaceId: string, userId: string) => {
+  const workspace = await getWorkspace(workspaceId);
+  if (!workspace || !roleIn(workspace, userId)) {
+    return null;
+  }
+  return store.update(workspaceId, (current) =>
+    keepAnAdmin({
+      ...current,
+      members: current.members.filter((member) => member.userId !== userId),
+      updatedAt: new Date().toISOString(),
+    })
+  );
+};
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/auth/token";
+
+// Signing in has to work without a session, and the public API authenticates with API keys
+// in its own routes; everything else needs a session.
+const isPublic = (pathname: string) =>
+  pathname === "/login" || pathname.startsWith("/api/auth/") || pathname.startsWith("/api/v1/");
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (isPublic(pathname)) {
+    return NextResponse.next();
+  }
+  // Only the signature is checked here; routes look up the member and their role.
+  const claims = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (claims) {
+    return NextResponse.next();
+  }
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+  const login = new URL("/login", request.url);
+  login.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/((?!_next/|favicon.ico).*)"],
+};
@@ -1,6 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
+    instrumentationHook: true,
+    // Native Skia bindings for the render worker; bundling them would break the .node binary.
+    serverComponentsExternalPackages: ['@napi-rs/canvas'],
     serverActions: {
       bodySizeLimit: '2mb'
     }
@@ -0,0 +1,431 @@
+#!/usr/bin/env node
+// Local stand-in for the TikTok, Instagram, YouTube and LinkedIn publishing APIs. It mirrors the
+// request/response shapes the adapters in lib/publishers use, keeps everything in memory and
+// "processes" uploads for a moment so status polling is exercised.
+//
+//   node scripts/mock-platforms.mjs
+//   PUBLISHER_MOCK_URL=http://localhost:4010 npm run dev
+//
+// MOCK_PLATFORMS_PORT changes the port; MOCK_FAILURE_RATE (0-1) makes that share of upload
+// sessions answer 503 so the queue's retries can be watched. Published posts gain views, likes,
+// comments and shares over time, with one mock hour standing in for roughly a day of reach.
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const port = Number(process.env.MOCK_PLATFORMS_PORT ?? 4010);
+const failureRate = Number(process.env.MOCK_FAILURE_RATE ?? 0);
+const PROCESSING_MS = 1500;
+const TOKEN = "mock-access-token";
+
+const uploads = new Map();
+const published = [];
+let sequence = 7_300_000_000;
+
+const nextId = () => String((sequence += 1));
+
+const readBody = (request) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    request.on("data", (chunk) => chunks.push(chunk));
+    request.on("end", () => resolve(Buffer.concat(chunks)));
+    request.on("error", reject);
+  });
+
+const parseBody = (request, body) => {
+  const type = request.headers["content-type"] ?? "";
+  if (type.includes("application/json")) {
+    return JSON.parse(body.toString("utf8") || "{}");
+  }
+  if (type.includes("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(body.toString("utf8")));
+  }
+  return {};
+};
+
+const send = (response, status, payload, headers = {}) => {
+  response.writeHead(status, {
+    ...(payload === undefined ? {} : { "Content-Type": "application/json" }),
+    ...headers,
+  });
+  response.end(payload === undefined ? undefined : JSON.stringify(payload));
+};
+
+const authorized = (request) => {
+  const header = request.headers.authorization ?? "";
+  return header === `Bearer ${TOKEN}` || header === `OAuth ${TOKEN}`;
+};
+
+const flaky = () => Math.random() < failureRate;
+
+// "bytes 0-1023/4096" -> { start, end, total }
+const contentRange = (request) => {
+  const match = /bytes (\d+)-(\d+)\/(\d+)/.exec(request.headers["content-range"] ?? "");
+  return match ? { start: Number(match[1]), end: Number(match[2]), total: Number(match[3]) } : null;
+};
+
+const receive = (upload, bytes) => {
+  upload.received += bytes;
+  if (upload.received >= upload.size && !upload.completedAt) {
+    upload.completedAt = Date.now();
+  }
+};
+
+const processed = (upload) =>
+  Boolean(upload.completedAt && Date.now() - upload.completedAt >= PROCESSING_MS);
+
+const record = (platform, upload, externalId, url) => {
+  upload.externalId = externalId;
+  published.push({
+    platform,
+    externalId,
+    url,
+    caption: upload.caption,
+    size: upload.size,
+    publishedAt: new Date().toISOString(),
+  });
+  console.log(`[mock] ${platform} published ${externalId} (${upload.size} bytes)`);
+};
+
+const metricsFor = (externalId) => {
+  const entry = published.find((item) => item.externalId === externalId);
+  if (!entry) {
+    return null;
+  }
+  const seed = [...externalId].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+  const minutes = (Date.now() - Date.parse(entry.publishedAt)) / 60_000;
+  const reach = 2_000 + (seed % 18_000);
+  const rate = 0.04 + (seed % 60) / 1_000;
+  const views = Math.round(reach * (1 - Math.exp(-minutes / 60)));
+  return {
+    views,
+    likes: Math.round(views * rate),
+    comments: Math.round((views * rate) / 8),
+    shares: Math.round((views * rate) / 5),
+  };
+};
+
+const tiktok = async (request, response, path, body, origin) => {
+  if (path === "/v2/post/publish/video/init/" && request.method === "POST") {
+    if (flaky()) {
+      return send(response, 503, { error: { code: "internal_error", message: "Try again" } });
+    }
+    const { post_info: postInfo, source_info: sourceInfo } = parseBody(request, body);
+    const id = `v_pub_file~v2-1.${nextId()}`;
+    uploads.set(id, {
+      size: sourceInfo.video_size,
+      received: 0,
+      caption: postInfo.title,
+    });
+    return send(response, 200, {
+      data: { publish_id: id, upload_url: `${origin}/tiktok/upload/${encodeURIComponent(id)}` },
+      error: { code: "ok", message: "" },
+    });
+  }
+  if (path.startsWith("/upload/") && request.method === "PUT") {
+    const upload = uploads.get(decodeURIComponent(path.slice("/upload/".length)));
+    if (!upload) {
+      return send(response, 404, { error: { code: "not_found" } });
+    }
+    receive(upload, body.length);
+    return send(response, upload.completedAt ? 201 : 206, undefined);
+  }
+  if (path === "/v2/post/publish/status/fetch/" && request.method === "POST") {
+    const { publish_id: id } = parseBody(request, body);
+    const upload = uploads.get(id);
+    if (!upload) {
+      return send(response, 400, {
+        error: { code: "invalid_params", message: "Unknown publish_id" },
+      });
+    }
+    if (!processed(upload)) {
+      const status = upload.completedAt ? "PROCESSING_DOWNLOAD" : "PROCESSING_UPLOAD";
+      return send(response, 200, { data: { status }, error: { code: "ok", message: "" } });
+    }
+    if (!upload.externalId) {
+      const postId = nextId();
+      record("tiktok", upload, postId, `https://www.tiktok.com/video/${postId}`);
+    }
+    return send(response, 200, {
+      data: { status: "PUBLISH_COMPLETE", publicaly_available_post_id: [upload.externalId] },
+      error: { code: "ok", message: "" },
+    });
+  }
+  if (path === "/v2/video/query/" && request.method === "POST") {
+    const { filters } = parseBody(request, body);
+    const videos = (filters?.video_ids ?? []).flatMap((id) => {
+      const metrics = metricsFor(id);
+      return metrics
+        ? [
+            {
+              id,
+              view_count: metrics.views,
+              like_count: metrics.likes,
+              comment_count: metrics.comments,
+              share_count: metrics.shares,
+            },
+          ]
+        : [];
+    });
+    return send(response, 200, { data: { videos }, error: { code: "ok", message: "" } });
+  }
+  return send(response, 404, { error: { code: "not_found" } });
+};
+
+const instagram = async (request, response, path, body, origin, url) => {
+  const rupload = /^\/rupload\/(\d+)$/.exec(path);
+  if (rupload && request.method === "POST") {
+    const upload = uploads.get(rupload[1]);
+    if (!upload) {
+      return send(response, 404, { debug_info: { message: "Unknown container" } });
+    }
+    upload.size = Number(request.headers.file_size ?? body.length);
+    receive(upload, body.length);
+    return send(response, 200, { success: true });
+  }
+  const [, version, id, edge] = /^\/(v[\d.]+)\/([^/]+)(?:\/([^/]+))?$/.exec(path) ?? [];
+  if (!version) {
+    return send(response, 404, { error: { message: "Unknown path" } });
+  }
+  if (edge === "media" && request.method === "POST") {
+    if (flaky()) {
+      return send(response, 503, { error: { message: "Service unavailable", code: 2 } });
+    }
+    const fields = parseBody(request, body);
+    const containerId = nextId();
+    uploads.set(containerId, { size: Infinity, received: 0, caption: fields.caption });
+    return send(response, 200, {
+      id: containerId,
+      uri: `${origin}/instagram/rupload/${containerId}`,
+    });
+  }
+  if (edge === "media_publish" && request.method === "POST") {
+    const { creation_id: creationId } = parseBody(request, body);
+    const upload = uploads.get(creationId);
+    if (!upload || !processed(upload)) {
+      return send(response, 400, { error: { message: "Media ID is not available", code: 9007 } });
+    }
+    const mediaId = upload.externalId ?? nextId();
+    if (!upload.externalId) {
+      record("instagram", upload, mediaId, `https://www.instagram.com/reel/${mediaId}/`);
+      uploads.set(mediaId, upload);
+    }
+    return send(response, 200, { id: mediaId });
+  }
+  if (edge === "insights" && request.method === "GET") {
+    const metrics = metricsFor(id);
+    if (!metrics) {
+      return send(response, 404, { error: { message: "Unsupported get request" } });
+    }
+    const names = (url.searchParams.get("metric") ?? "").split(",");
+    return send(response, 200, {
+      data: names
+        .filter((name) => name in metrics)
+        .map((name) => ({ name, period: "lifetime", values: [{ value: metrics[name] }] })),
+    });
+  }
+  if (!edge && request.method === "GET") {
+    const upload = uploads.get(id);
+    if (!upload) {
+      return send(response, 404, { error: { message: "Unsupported get request" } });
+    }
+    if (url.searchParams.get("fields")?.includes("permalink")) {
+      return send(response, 200, { id, permalink: `https://www.instagram.com/reel/${id}/` });
+    }
+    const statusCode = upload.externalId
+      ? "PUBLISHED"
+      : processed(upload)
+        ? "FINISHED"
+        : "IN_PROGRESS";
+    return send(response, 200, { id, status_code: statusCode, status: statusCode });
+  }
+  return send(response, 404, { error: { message: "Unknown path" } });
+};
+
+const youtube = async (request, response, path, body, origin, url) => {
+  if (path === "/upload/youtube/v3/videos" && request.method === "POST") {
+    if (flaky()) {
+      return send(response, 503, { error: { code: 503, message: "Backend Error" } });
+    }
+    const metadata = parseBody(request, body);
+    const session = randomUUID();
+    uploads.set(session, {
+      size: Number(request.headers["x-upload-content-length"]),
+      received: 0,
+      caption: metadata.snippet?.description,
+      title: metadata.snippet?.title,
+    });
+    return send(response, 200, undefined, {
+      Location: `${origin}/youtube/upload/session/${session}`,
+    });
+  }
+  const session = /^\/upload\/session\/(.+)$/.exec(path);
+  if (session && request.method === "PUT") {
+    const upload = uploads.get(session[1]);
+    const range = contentRange(request);
+    if (!upload || !range) {
+      return send(response, 404, { error: { code: 404, message: "Upload session not found" } });
+    }
+    receive(upload, body.length);
+    if (!upload.completedAt) {
+      return send(response, 308, undefined, { Range: `bytes=0-${upload.received - 1}` });
+    }
+    const videoId = randomUUID().replace(/-/g, "").slice(0, 11);
+    uploads.set(videoId, upload);
+    upload.videoId = videoId;
+    return send(response, 201, {
+      kind: "youtube#video",
+      id: videoId,
+      status: { uploadStatus: "uploaded" },
+    });
+  }
+  if (path === "/youtube/v3/videos" && request.method === "GET") {
+    const id = url.searchParams.get("id");
+    if (url.searchParams.get("part") === "statistics") {
+      const metrics = metricsFor(id);
+      const statistics = metrics && {
+        viewCount: String(metrics.views),
+        likeCount: String(metrics.likes),
+        commentCount: String(metrics.comments),
+      };
+      return send(response, 200, { items: statistics ? [{ id, statistics }] : [] });
+    }
+    const upload = uploads.get(id);
+    if (!upload) {
+      return send(response, 200, { items: [] });
+    }
+    const done = processed(upload);
+    if (done && !upload.externalId) {
+      record("youtube", upload, id, `https://www.youtube.com/shorts/${id}`);
+    }
+    return send(response, 200, {
+      items: [
+        {
+          id,
+          status: { uploadStatus: done ? "processed" : "uploaded" },
+          processingDetails: { processingStatus: done ? "succeeded" : "processing" },
+        },
+      ],
+    });
+  }
+  return send(response, 404, { error: { code: 404, message: "Not found" } });
+};
+
+const LINKEDIN_PART_BYTES = 4 * 1024 * 1024;
+
+const linkedin = async (request, response, path, body, origin, url) => {
+  const action = url.searchParams.get("action");
+  if (path === "/rest/videos" && action === "initializeUpload") {
+    if (flaky()) {
+      return send(response, 503, { message: "Service unavailable", status: 503 });
+    }
+    const { initializeUploadRequest: init } = parseBody(request, body);
+    const urn = `urn:li:video:${nextId()}`;
+    const size = init.fileSizeBytes;
+    const uploadInstructions = [];
+    for (let first = 0, part = 0; first < size; first += LINKEDIN_PART_BYTES, part += 1) {
+      uploadInstructions.push({
+        uploadUrl: `${origin}/linkedin/upload/${encodeURIComponent(urn)}/${part}`,
+        firstByte: first,
+        lastByte: Math.min(size, first + LINKEDIN_PART_BYTES) - 1,
+      });
+    }
+    uploads.set(urn, { size, received: 0, finalized: false });
+    return send(response, 200, { value: { video: urn, uploadInstructions, uploadToken: "" } });
+  }
+  const part = /^\/upload\/([^/]+)\/(\d+)$/.exec(path);
+  if (part && request.method === "PUT") {
+    const upload = uploads.get(decodeURIComponent(part[1]));
+    if (!upload) {
+      return send(response, 404, { message: "Unknown video", status: 404 });
+    }
+    upload.received += body.length;
+    return send(response, 200, undefined, { ETag: `"part-${part[2]}-${body.length}"` });
+  }
+  if (path === "/rest/videos" && action === "finalizeUpload") {
+    const { finalizeUploadRequest: finalize } = parseBody(request, body);
+    const upload = uploads.get(finalize.video);
+    if (!upload || upload.received < upload.size) {
+      return send(response, 400, { message: "Upload incomplete", status: 400 });
+    }
+    upload.completedAt = Date.now();
+    return send(response, 200, undefined);
+  }
+  const video = /^\/rest\/videos\/(.+)$/.exec(path);
+  if (video && request.method === "GET") {
+    const upload = uploads.get(decodeURIComponent(video[1]));
+    if (!upload) {
+      return send(response, 404, { message: "Not found", status: 404 });
+    }
+    const status = !upload.completedAt
+      ? "WAITING_UPLOAD"
+      : processed(upload)
+        ? "AVAILABLE"
+        : "PROCESSING";
+    return send(response, 200, { id: decodeURIComponent(video[1]), status });
+  }
+  if (path === "/rest/posts" && request.method === "POST") {
+    const post = parseBody(request, body);
+    const upload = uploads.get(post.content?.media?.id);
+    if (!upload || !processed(upload)) {
+      return send(response, 422, { message: "Media is not available", status: 422 });
+    }
+    const urn = `urn:li:share:${nextId()}`;
+    upload.caption = post.commentary;
+    record("linkedin", upload, urn, `https://www.linkedin.com/feed/update/${urn}`);
+    return send(response, 201, undefined, { "x-restli-id": urn });
+  }
+  const social = /^\/rest\/socialActions\/(.+)$/.exec(path);
+  if (social && request.method === "GET") {
+    const metrics = metricsFor(decodeURIComponent(social[1]));
+    if (!metrics) {
+      return send(response, 404, { message: "Not found", status: 404 });
+    }
+    return send(response, 200, {
+      likesSummary: { totalLikes: metrics.likes },
+      commentsSummary: { aggregatedTotalComments: metrics.comments },
+    });
+  }
+  if (path === "/rest/videoAnalytics" && request.method === "GET") {
+    const metrics = metricsFor(url.searchParams.get("entity") ?? "");
+    return send(response, 200, {
+      elements: metrics ? [{ value: metrics.views, type: "VIDEO_VIEW" }] : [],
+    });
+  }
+  return send(response, 404, { message: "Not found", status: 404 });
+};
+
+const routes = { tiktok, instagram, youtube, linkedin };
+
+const server = createServer(async (request, response) => {
+  const origin = `http://${request.headers.host ?? `localhost:${port}`}`;
+  const url = new URL(request.url ?? "/", origin);
+  const [, platform, ...rest] = url.pathname.split("/");
+  const path = `/${rest.join("/")}`;
+
+  try {
+    if (url.pathname === "/_published") {
+      return send(response, 200, { published });
+    }
+    const handler = routes[platform];
+    if (!handler) {
+      return send(response, 404, { error: "Unknown platform" });
+    }
+    const body = await readBody(request);
+    // TikTok upload URLs are pre-signed; every other call carries the access token.
+    const presigned = platform === "tiktok" && path.startsWith("/upload/");
+    if (!presigned && !authorized(request)) {
+      return send(response, 401, {
+        error: { code: "access_token_invalid", message: "Invalid token" },
+      });
+    }
+    console.log(`[mock] ${request.method} ${url.pathname}${url.search}`);
+    return await handler(request, response, path, body, origin, url);
+  } catch (error) {
+    console.error("[mock] request failed", error);
+    return send(response, 500, { error: "Mock server error" });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`[mock] platform APIs listening on http://localhost:${port}`);
+});
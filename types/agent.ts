@@ -1,4 +1,24 @@
-export type Platform = "youtube" | "tiktok" | "instagram" | "linkedin";
+import type { HookRationale } from "./insights";
+import type { Locale } from "./locale";
+import type { SceneVisual } from "./media";
+
+export const platforms = ["youtube", "tiktok", "instagram", "linkedin"] as const;
+
+export type Platform = (typeof platforms)[number];
+
+export const lengthBounds = { min: 30, max: 120 } as const;
+
+// Tones offered in the dashboard; requests may use any tone.
+export const tonePresets = [
+  "Energetic",
+  "Educational",
+  "Inspirational",
+  "Persuasive",
+  "Playful",
+  "Analytical",
+] as const;
+
+export const variantBounds = { min: 1, max: 4 } as const;
 
 export interface AgentRequest {
   idea: string;
@@ -6,6 +26,34 @@ export interface AgentRequest {
   lengthSeconds: number;
   platforms: Platform[];
   targetAudience: string;
+  brandId?: string;
+  // Saved voice profile the copy is written in; its tone is also sent as `tone`.
+  voiceProfileId?: string;
+  // Past post performance steers generation unless this is false.
+  learnFromResults?: boolean;
+  // How many hook and caption takes to write; 1, the default, means no variants.
+  variants?: number;
+  // Languages the campaign ships in. The first is the one it is written in (English when
+  // omitted); the rest are translated.
+  locales?: Locale[];
+}
+
+export const sceneTransitions = ["cut", "crossfade", "slide", "wipe"] as const;
+
+export type SceneTransition = (typeof sceneTransitions)[number];
+
+export const backgroundMotions = ["static", "gradient", "parallax"] as const;
+
+export type BackgroundMotion = (typeof backgroundMotions)[number];
+
+export const captionMotions = ["paragraph", "kinetic"] as const;
+
+export type CaptionMotion = (typeof captionMotions)[number];
+
+export interface SceneAnimation {
+  background: BackgroundMotion;
+  captions: CaptionMotion;
+  progressBar: boolean;
 }
 
 export interface ScenePlan {
@@ -14,6 +62,11 @@ export interface ScenePlan {
   narration: string;
   visualDirection: string;
   durationSeconds: number;
+  // Transition into this scene from the previous one.
+  transition?: SceneTransition;
+  animation?: SceneAnimation;
+  // Picked or uploaded imagery behind the scene; without one the background is a gradient.
+  visual?: SceneVisual;
 }
 
 export interface SocialPostPlan {
@@ -24,10 +77,71 @@ export interface SocialPostPlan {
   scheduledTime: string;
 }
 
+/** An alternative take on the hook and captions; scenes and schedule are shared. */
+export interface CopyVariant {
+  // "a", "b", …; shown as Variant A, Variant B.
+  id: string;
+  hook: string;
+  socialPosts: SocialPostPlan[];
+}
+
+export interface LocalizedScene {
+  id: string;
+  title: string;
+  narration: string;
+}
+
+/** The campaign's copy in another language; scenes are matched by id, posts by platform. */
+export interface Localization {
+  locale: Locale;
+  hook: string;
+  script: string;
+  scenes: LocalizedScene[];
+  socialPosts: SocialPostPlan[];
+  // False when the provider could not translate and the source copy was kept for hand editing.
+  translated: boolean;
+}
+
 export interface AgentResponse {
   script: string;
   scenes: ScenePlan[];
   socialPosts: SocialPostPlan[];
   talkingPoints: string[];
   hook: string;
+  // Why the hook should work, citing past results; only set when there were results to learn from.
+  rationale?: HookRationale;
+  variants?: CopyVariant[];
+  // The variant whose copy is in hook and socialPosts right now.
+  activeVariantId?: string;
+  // One per translated locale of the request, in request order.
+  localizations?: Localization[];
+}
+
+export type AgentStreamEvent =
+  | { type: "hook"; hook: string }
+  | { type: "script"; script: string }
+  | { type: "scene"; index: number; scene: ScenePlan }
+  | { type: "socialPost"; index: number; post: SocialPostPlan }
+  | { type: "talkingPoints"; talkingPoints: string[] }
+  | { type: "done"; response: AgentResponse }
+  | { type: "error"; error: string };
+
+export type RegenerateTarget =
+  | { kind: "scene"; index: number }
+  | { kind: "socialPost"; platform: Platform };
+
+export interface RegenerateRequest {
+  request: AgentRequest;
+  response: AgentResponse;
+  target: RegenerateTarget;
+}
+
+export interface TranslateRequest {
+  request: AgentRequest;
+  response: AgentResponse;
+  locale: Locale;
 }
+
+export type RegenerateResult =
+  | { kind: "scene"; index: number; scene: ScenePlan }
+  | { kind: "socialPost"; post: SocialPostPlan };
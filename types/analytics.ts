@@ -0,0 +1,50 @@
+import type { Platform } from "./agent";
+import type { Locale } from "./locale";
+
+export const metricSources = ["platform", "import"] as const;
+
+export type MetricSource = (typeof metricSources)[number];
+
+export interface MetricCounts {
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+}
+
+export interface MetricSample extends MetricCounts {
+  capturedAt: string;
+  source: MetricSource;
+}
+
+/**
+ * Time series for one live post. A campaign has one live post per platform and language, or one
+ * per variant while an A/B test runs there.
+ */
+export interface PostMetrics {
+  id: string;
+  campaignId: string;
+  platform: Platform;
+  variantId?: string;
+  locale?: Locale;
+  externalId?: string;
+  publishedAt: string;
+  // Oldest first, one entry per capture time.
+  samples: MetricSample[];
+  lastError?: string;
+  updatedAt: string;
+}
+
+export interface MetricsImportRequest {
+  campaignId: string;
+  csv: string;
+}
+
+export interface MetricsImportResult {
+  imported: number;
+  skipped: { line: number; reason: string }[];
+}
+
+export interface MetricsRefreshRequest {
+  campaignId?: string;
+}
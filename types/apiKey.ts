@@ -0,0 +1,47 @@
+export const apiScopes = [
+  "campaigns:read",
+  "campaigns:write",
+  "renders:write",
+  "schedule:write",
+  "analytics:read",
+] as const;
+
+export type ApiScope = (typeof apiScopes)[number];
+
+export const apiScopeLabels: Record<ApiScope, string> = {
+  "campaigns:read": "Read campaigns, renders and scheduled posts",
+  "campaigns:write": "Generate campaigns",
+  "renders:write": "Upload rendered videos and queue server renders",
+  "schedule:write": "Schedule approved campaigns",
+  "analytics:read": "Read analytics",
+};
+
+// Requests per minute for each key.
+export const rateLimitBounds = { min: 1, max: 1000, default: 60 } as const;
+
+/** A workspace API key as shown to admins; the secret itself is only returned on creation. */
+export interface ApiKey {
+  id: string;
+  workspaceId: string;
+  name: string;
+  // The start of the key, so admins can tell keys apart, e.g. "ak_3f9c1a2b".
+  prefix: string;
+  scopes: ApiScope[];
+  rateLimit: number;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export interface ApiKeyRequest {
+  name: string;
+  scopes: ApiScope[];
+  rateLimit?: number;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  // The full bearer token; it can't be shown again.
+  secret: string;
+}
@@ -0,0 +1,71 @@
+export const logoPositions = ["top-left", "top-right", "bottom-left", "bottom-right"] as const;
+
+export type LogoPosition = (typeof logoPositions)[number];
+
+export const brandAssetKinds = ["font", "logo"] as const;
+
+export type BrandAssetKind = (typeof brandAssetKinds)[number];
+
+export interface BrandAsset {
+  id: string;
+  kind: BrandAssetKind;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
+
+export interface BrandFont {
+  family: string;
+  // Uploaded font file; without one the family must be installed or a web-safe font.
+  assetId?: string;
+}
+
+export interface BrandLogo {
+  assetId?: string;
+  position: LogoPosition;
+  opacity: number;
+  // Logo width as a fraction of the frame's short edge.
+  scale: number;
+}
+
+export interface BrandCard {
+  enabled: boolean;
+  text: string;
+  durationSeconds: number;
+}
+
+export interface BrandSettings {
+  name: string;
+  // Background gradient stops; scenes cycle through consecutive pairs.
+  palette: string[];
+  textColor: string;
+  accentColor: string;
+  fonts: { heading: BrandFont; body: BrandFont };
+  logo: BrandLogo;
+  intro: BrandCard;
+  outro: BrandCard;
+  bannedWords: string[];
+  requiredHashtags: string[];
+  defaultCallToAction: string;
+}
+
+export interface BrandKit extends BrandSettings {
+  id: string;
+  assets: BrandAsset[];
+  // Unset only on kits made before workspaces existed; the first workspace adopts them.
+  workspaceId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BrandRules = Pick<
+  BrandSettings,
+  "name" | "bannedWords" | "requiredHashtags" | "defaultCallToAction"
+>;
+
+export interface BrandSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+}
@@ -0,0 +1,68 @@
+import type { AgentRequest, AgentResponse, SocialPostPlan } from "./agent";
+import type { Locale } from "./locale";
+import type { CampaignReview, ReviewComment, ReviewState } from "./review";
+import type { SeriesLink } from "./series";
+
+export interface PublishedPost extends SocialPostPlan {
+  publishedAt: string;
+  // Set when a platform adapter published the post.
+  externalId?: string;
+  url?: string;
+  // Set for posts published as part of an A/B test.
+  variantId?: string;
+  // Set for translated posts; the source-language post has none.
+  locale?: Locale;
+  analytics: {
+    views: number;
+    likes: number;
+    comments: number;
+  };
+}
+
+export interface CampaignGeneration {
+  id: string;
+  createdAt: string;
+  request: AgentRequest;
+  response: AgentResponse;
+}
+
+export interface CampaignAsset {
+  id: string;
+  generationId: string;
+  kind: "video";
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
+
+export type PublishState = "draft" | "partially-published" | "published";
+
+export interface Campaign {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  activeGenerationId: string;
+  generations: CampaignGeneration[];
+  assets: CampaignAsset[];
+  published: PublishedPost[];
+  publishState: PublishState;
+  series?: SeriesLink;
+  // Unset only on campaigns saved before workspaces existed; the first workspace adopts them.
+  workspaceId?: string;
+  // Missing means draft.
+  review?: CampaignReview;
+  comments?: ReviewComment[];
+}
+
+export interface CampaignSummary {
+  id: string;
+  title: string;
+  updatedAt: string;
+  generationCount: number;
+  publishState: PublishState;
+  platforms: AgentRequest["platforms"];
+  series?: SeriesLink;
+  reviewState: ReviewState;
+}
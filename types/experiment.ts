@@ -0,0 +1,51 @@
+import type { Platform } from "./agent";
+
+export const experimentMetrics = ["views", "engagement"] as const;
+
+export type ExperimentMetric = (typeof experimentMetrics)[number];
+
+export const experimentStatuses = ["running", "decided", "inconclusive", "cancelled"] as const;
+
+export type ExperimentStatus = (typeof experimentStatuses)[number];
+
+export const confidenceLevels = [0.8, 0.9, 0.95, 0.99] as const;
+
+export interface VariantResult {
+  variantId: string;
+  views: number;
+  engagements: number;
+  engagementRate: number;
+}
+
+/** An A/B test: each variant of one platform's post goes out in its own slot. */
+export interface Experiment {
+  id: string;
+  campaignId: string;
+  generationId: string;
+  platform: Platform;
+  variantIds: string[];
+  metric: ExperimentMetric;
+  // Confidence the leader must reach against every other variant to be declared the winner.
+  confidence: number;
+  spacingHours: number;
+  status: ExperimentStatus;
+  // Counts compared at the same age for every variant, from the latest evaluation.
+  results: VariantResult[];
+  comparedAtHours?: number;
+  leaderVariantId?: string;
+  achievedConfidence?: number;
+  winnerVariantId?: string;
+  decidedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExperimentRequest {
+  platform: Platform;
+  variantIds: string[];
+  metric: ExperimentMetric;
+  confidence: number;
+  // Gap between one variant's slot and the next.
+  spacingHours: number;
+  timeZone: string;
+}
@@ -0,0 +1,52 @@
+import type { Platform } from "./agent";
+
+/** How one generated hook did once its posts went live. */
+export interface HookResult {
+  campaignId: string;
+  title: string;
+  hook: string;
+  tone: string;
+  lengthSeconds: number;
+  platforms: Platform[];
+  views: number;
+  engagementRate: number;
+  // Views relative to the median post on the same platform; 1 is a typical post.
+  score: number;
+}
+
+export interface InsightBucket {
+  label: string;
+  posts: number;
+  averageScore: number;
+}
+
+export interface PostingHour {
+  platform: Platform;
+  // Hour of day (UTC), matching the generator's posting slots.
+  hour: number;
+  posts: number;
+  averageScore: number;
+}
+
+/**
+ * Past results handed to the generator. `scope` is "all" when too few posts matched the target
+ * audience and every audience was used instead.
+ */
+export interface PerformanceInsights {
+  scope: "audience" | "all";
+  targetAudience: string;
+  platforms: Platform[];
+  posts: number;
+  topHooks: HookResult[];
+  bottomHooks: HookResult[];
+  // Best first.
+  tones: InsightBucket[];
+  lengths: InsightBucket[];
+  bestHours: PostingHour[];
+}
+
+export interface HookRationale {
+  summary: string;
+  notes: string[];
+  references: HookResult[];
+}
@@ -0,0 +1,37 @@
+export const lintSeverities = ["error", "warning"] as const;
+
+export type LintSeverity = (typeof lintSeverities)[number];
+
+export type LintField = "caption" | "tags" | "video";
+
+export type LintFix =
+  | { kind: "truncateCaption"; maxLength: number }
+  | { kind: "trimTags"; maxTags: number }
+  | { kind: "removeLinks" }
+  | { kind: "removeCharacters"; characters: string }
+  | { kind: "removeEmoji" };
+
+export interface LintIssue {
+  rule: string;
+  severity: LintSeverity;
+  field: LintField;
+  message: string;
+  fix?: { label: string; action: LintFix };
+}
+
+/** What is known about the video a post would go out with. */
+export interface VideoFacts {
+  durationSeconds: number;
+  width: number;
+  height: number;
+  size: number;
+  // "export" is the platform's own cut; "render" is the full vertical render used as a fallback.
+  source: "export" | "render";
+}
+
+export interface LintContext {
+  // Undefined when nothing is known about the saved video, null when there isn't one yet.
+  video?: VideoFacts | null;
+  // Length of the full edit, before any platform clipping.
+  plannedSeconds?: number;
+}
@@ -0,0 +1,37 @@
+// Languages a campaign can be written or translated in, as BCP 47 primary subtags.
+export const locales = [
+  "en",
+  "es",
+  "fr",
+  "de",
+  "pt",
+  "it",
+  "ja",
+  "ko",
+  "zh",
+  "ar",
+  "he",
+  "hi",
+] as const;
+
+export type Locale = (typeof locales)[number];
+
+// Names in the language itself, as a speaker would look for them in a picker.
+export const localeNames: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  fr: "Français",
+  de: "Deutsch",
+  pt: "Português",
+  it: "Italiano",
+  ja: "日本語",
+  ko: "한국어",
+  zh: "中文",
+  ar: "العربية",
+  he: "עברית",
+  hi: "हिन्दी",
+};
+
+export const rtlLocales: readonly Locale[] = ["ar", "he"];
+
+export const localeBounds = { max: 6 } as const;
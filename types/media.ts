@@ -0,0 +1,71 @@
+export const mediaKinds = ["image", "video"] as const;
+
+export type MediaKind = (typeof mediaKinds)[number];
+
+// What can be uploaded to the library. Files are served from the app's origin, so formats that
+// can carry script, like SVG, are left out.
+export const mediaUploadTypes: Record<MediaKind, string[]> = {
+  image: ["image/png", "image/jpeg", "image/webp", "image/gif"],
+  video: ["video/mp4", "video/webm", "video/quicktime"],
+};
+
+export const mediaSources = ["upload", "stock", "generated"] as const;
+
+export type MediaSource = (typeof mediaSources)[number];
+
+export interface MediaAsset {
+  id: string;
+  kind: MediaKind;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  // What the asset shows; searched together with its tags.
+  description: string;
+  tags: string[];
+  source: MediaSource;
+  // Stock or generation provider the asset came from, and the attribution it asks for.
+  provider?: string;
+  credit?: string;
+  width?: number;
+  height?: number;
+  // Unset only on media added before workspaces existed; the first workspace adopts it.
+  workspaceId?: string;
+  createdAt: string;
+}
+
+export interface MediaMatch {
+  asset: MediaAsset;
+  // Cosine similarity between the query and the asset, 0 to 1.
+  score: number;
+}
+
+/** A stock result that isn't in the library yet; importing downloads it. */
+export interface MediaCandidate {
+  provider: string;
+  externalId: string;
+  kind: MediaKind;
+  description: string;
+  previewUrl: string;
+  downloadUrl: string;
+  width: number;
+  height: number;
+  credit?: string;
+}
+
+/** Labels of the configured providers; null when none is set up. */
+export interface MediaProviders {
+  stock: string | null;
+  generate: string | null;
+}
+
+export interface GenerateImageRequest {
+  prompt: string;
+  // Portrait suits the vertical render; platform cuts are cropped from it.
+  orientation: "portrait" | "landscape" | "square";
+}
+
+/** The library asset shown behind a scene, cropped to fill the frame. */
+export interface SceneVisual {
+  assetId: string;
+  kind: MediaKind;
+}
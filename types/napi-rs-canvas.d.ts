@@ -0,0 +1,27 @@
+// The server render worker's canvas is an optional native package, installed only where renders
+// run, so the type-check doesn't depend on it. These cover just the parts lib/render uses.
+declare module "@napi-rs/canvas" {
+  export interface Image {
+    readonly width: number;
+    readonly height: number;
+  }
+
+  export interface SKRSContext2D {
+    getImageData(x: number, y: number, width: number, height: number): ImageData;
+  }
+
+  export interface Canvas {
+    width: number;
+    height: number;
+    getContext(contextType: "2d"): SKRSContext2D;
+  }
+
+  export const createCanvas: (width: number, height: number) => Canvas;
+
+  export const loadImage: (source: Uint8Array | string) => Promise<Image>;
+
+  export const GlobalFonts: {
+    register: (font: Uint8Array, nameAlias?: string) => unknown;
+    loadFontsFromDir: (dir: string) => number;
+  };
+}
@@ -0,0 +1,51 @@
+import type { MusicBed } from "@/lib/audio/music";
+import type { CaptionPreset } from "@/lib/video/captions";
+import type { Platform } from "./agent";
+import type { Locale } from "./locale";
+import type { Voice } from "./voice";
+
+export const renderStatuses = ["queued", "rendering", "done", "failed", "cancelled"] as const;
+
+export type RenderStatus = (typeof renderStatuses)[number];
+
+/** The audio a server render mixes in, matching the composer's soundtrack settings. */
+export interface RenderSoundtrack {
+  // Narrates each scene in this voice; without one the video has no voiceover.
+  voice?: Voice;
+  music: MusicBed;
+  musicVolume: number;
+  ducking: boolean;
+}
+
+/** A video the server renders headlessly, so scheduled posts get one without an open tab. */
+export interface RenderJob {
+  id: string;
+  campaignId: string;
+  generationId: string;
+  // That platform's cut, at its format and length limit; without one, the full vertical render.
+  platform?: Platform;
+  // Renders the translation's copy, with its own caption language and text direction.
+  locale?: Locale;
+  captions: CaptionPreset;
+  // Missing on renders queued before server soundtracks; those render with the default one.
+  soundtrack?: RenderSoundtrack;
+  status: RenderStatus;
+  // 0 to 1 while rendering.
+  progress: number;
+  error?: string;
+  // The campaign asset the finished video was saved as.
+  assetId?: string;
+  lockedAt?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RenderRequest {
+  // One platform cut each; without platforms, the full-length vertical render.
+  platforms?: Platform[];
+  locale?: Locale;
+  captions?: CaptionPreset;
+  soundtrack?: RenderSoundtrack;
+}
@@ -0,0 +1,62 @@
+import type { Platform } from "./agent";
+import type { Locale } from "./locale";
+import type { Permission } from "./workspace";
+
+export const reviewStates = ["draft", "in-review", "approved", "scheduled"] as const;
+
+export type ReviewState = (typeof reviewStates)[number];
+
+export const reviewStateLabels: Record<ReviewState, string> = {
+  draft: "Draft",
+  "in-review": "In review",
+  approved: "Approved",
+  scheduled: "Scheduled",
+};
+
+export const reviewActions = ["submit", "withdraw", "approve", "request-changes"] as const;
+
+export type ReviewAction = (typeof reviewActions)[number];
+
+export const reviewActionPermissions: Record<ReviewAction, Permission> = {
+  submit: "create",
+  withdraw: "create",
+  approve: "review",
+  "request-changes": "review",
+};
+
+export interface CampaignReview {
+  state: ReviewState;
+  updatedAt: string;
+  // Display name of whoever moved the campaign into this state.
+  updatedBy?: string;
+}
+
+export type CommentTarget =
+  | { kind: "campaign" }
+  | { kind: "scene"; sceneId: string }
+  | { kind: "socialPost"; platform: Platform; locale?: Locale };
+
+export interface ReviewComment {
+  id: string;
+  target: CommentTarget;
+  body: string;
+  authorId: string;
+  authorName: string;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+export interface ReviewActionRequest {
+  action: ReviewAction;
+  // Posted as a comment on the campaign, e.g. what to change.
+  note?: string;
+}
+
+export interface CommentRequest {
+  target: CommentTarget;
+  body: string;
+}
+
+export interface CommentPatch {
+  resolved: boolean;
+}
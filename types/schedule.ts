@@ -0,0 +1,77 @@
+import type { SocialPostPlan } from "./agent";
+import type { Locale } from "./locale";
+
+export const jobStatuses = [
+  "queued",
+  "running",
+  "published",
+  "failed",
+  "paused",
+  "cancelled",
+] as const;
+
+export type JobStatus = (typeof jobStatuses)[number];
+
+export const jobActions = ["pause", "resume", "reschedule", "retry", "cancel"] as const;
+
+export type JobAction = (typeof jobActions)[number];
+
+export interface JobAttempt {
+  startedAt: string;
+  finishedAt: string;
+  ok: boolean;
+  error?: string;
+}
+
+/** What a publish attempt already created on the platform, so the next one picks up from there. */
+export interface PublishCheckpoint {
+  // The platform's id for it, e.g. TikTok's publish_id or a YouTube videoId.
+  id: string;
+  // "upload" is finished but not posted yet (an Instagram container); "post" is live or goes
+  // live on its own, so it must never be uploaded again.
+  stage: "upload" | "post";
+}
+
+export interface PublishJob {
+  id: string;
+  campaignId: string;
+  generationId: string;
+  post: SocialPostPlan;
+  // Set for jobs that publish one variant of an A/B test.
+  experimentId?: string;
+  variantId?: string;
+  // Set for jobs that publish a translated post with that locale's video.
+  locale?: Locale;
+  // IANA zone the post was scheduled in; wall-clock times without an offset are read in it.
+  timeZone: string;
+  runAt: string;
+  // When the worker next picks the job up: runAt, or a backoff slot after a failed attempt.
+  dueAt: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  history: JobAttempt[];
+  lastError?: string;
+  checkpoint?: PublishCheckpoint;
+  lockedAt?: string;
+  publishedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobActionRequest {
+  action: JobAction;
+  // Required for "reschedule".
+  runAt?: string;
+  timeZone?: string;
+}
+
+export interface ScheduleRequest {
+  timeZone: string;
+  // Defaults to every post of the active generation that isn't live yet.
+  platforms?: SocialPostPlan["platform"][];
+  // Queue for the next worker tick instead of each post's scheduledTime.
+  now?: boolean;
+  // Schedules that translation's posts instead of the source-language ones.
+  locale?: Locale;
+}
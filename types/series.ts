@@ -0,0 +1,75 @@
+import type { Platform } from "./agent";
+import type { JobStatus } from "./schedule";
+
+export const seriesBounds = { maxWeeks: 12, maxPerWeek: 7, maxEpisodes: 12 } as const;
+
+// Posts per week on each platform; platforms left out or at 0 get none.
+export type PostingCadence = Partial<Record<Platform, number>>;
+
+export interface SeriesRequest {
+  theme: string;
+  tone: string;
+  lengthSeconds: number;
+  targetAudience: string;
+  brandId?: string;
+  voiceProfileId?: string;
+  learnFromResults?: boolean;
+  // Calendar days, "YYYY-MM-DD", both included.
+  startDate: string;
+  endDate: string;
+  cadence: PostingCadence;
+  // Zone the platforms' posting hours are read in.
+  timeZone: string;
+}
+
+export interface SeriesEpisode {
+  index: number;
+  angle: string;
+  campaignId: string;
+}
+
+/** A run of linked campaigns on one theme, each episode taking a different angle. */
+export interface ContentSeries {
+  id: string;
+  title: string;
+  request: SeriesRequest;
+  episodes: SeriesEpisode[];
+  workspaceId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SeriesSummary {
+  id: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+  episodeCount: number;
+  updatedAt: string;
+}
+
+/** Set on campaigns generated as an episode of a series. */
+export interface SeriesLink {
+  seriesId: string;
+  episode: number;
+}
+
+export type CalendarEntryStatus = "planned" | Exclude<JobStatus, "cancelled">;
+
+export interface CalendarEntry {
+  campaignId: string;
+  episode: number;
+  angle: string;
+  title: string;
+  hook: string;
+  platform: Platform;
+  // When the post goes (or went) out: its planned time, queued time or publish time.
+  scheduledTime: string;
+  status: CalendarEntryStatus;
+}
+
+export interface RescheduleRequest {
+  campaignId: string;
+  platform: Platform;
+  scheduledTime: string;
+}
@@ -0,0 +1,15 @@
+export const voices = ["narrator", "bright", "deep"] as const;
+
+export type Voice = (typeof voices)[number];
+
+export interface SpeechRequest {
+  text: string;
+  voice?: Voice;
+  // Speaking rate multiplier; 1 is the provider's natural pace.
+  rate?: number;
+}
+
+export interface SpeechAudio {
+  data: Uint8Array;
+  mimeType: string;
+}
@@ -0,0 +1,35 @@
+export const emojiPolicies = ["none", "sparing", "expressive"] as const;
+
+export type EmojiPolicy = (typeof emojiPolicies)[number];
+
+// Reading pace in words per minute; most voiceovers sit around 150.
+export const paceBounds = { min: 90, max: 220 } as const;
+
+export interface VoiceProfileSettings {
+  name: string;
+  // Base tone sent with each request; the offline writer picks its hook templates by it.
+  tone: string;
+  description: string;
+  exampleScripts: string[];
+  preferredWords: string[];
+  avoidedWords: string[];
+  wordsPerMinute: number;
+  emoji: EmojiPolicy;
+}
+
+export interface VoiceProfile extends VoiceProfileSettings {
+  id: string;
+  // Unset only on profiles made before workspaces existed; the first workspace adopts them.
+  workspaceId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type VoiceRules = Omit<VoiceProfileSettings, "tone">;
+
+export interface VoiceProfileSummary {
+  id: string;
+  name: string;
+  tone: string;
+  updatedAt: string;
+}
@@ -0,0 +1,78 @@
+export const webhookEvents = [
+  "campaign.generated",
+  "video.rendered",
+  "post.published",
+  "post.failed",
+] as const;
+
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+export const webhookEventLabels: Record<WebhookEvent, string> = {
+  "campaign.generated": "A generation is saved to a campaign",
+  "video.rendered": "A rendered video is stored",
+  "post.published": "A scheduled post goes live",
+  "post.failed": "A scheduled post gives up after its last attempt",
+};
+
+/** An endpoint that receives the workspace's events; its signing secret is only shown once. */
+export interface Webhook {
+  id: string;
+  workspaceId: string;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookRequest {
+  url: string;
+  events: WebhookEvent[];
+}
+
+export interface WebhookPatch {
+  url?: string;
+  events?: WebhookEvent[];
+  active?: boolean;
+}
+
+export interface CreatedWebhook {
+  webhook: Webhook;
+  // Key for the HMAC-SHA256 signature on every delivery.
+  secret: string;
+}
+
+/** The JSON body POSTed to a webhook. */
+export interface WebhookPayload<T = unknown> {
+  // Stable across retries, so receivers can ignore a delivery they already handled.
+  id: string;
+  type: WebhookEvent;
+  createdAt: string;
+  workspaceId: string;
+  data: T;
+}
+
+export type DeliveryStatus = "pending" | "sending" | "delivered" | "failed";
+
+export interface DeliveryAttempt {
+  at: string;
+  ok: boolean;
+  // The receiver's HTTP status; missing when it couldn't be reached.
+  status?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  payload: WebhookPayload;
+  status: DeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  // When the dispatcher next tries: right away, or a backoff slot after a failed attempt.
+  dueAt: string;
+  history: DeliveryAttempt[];
+  lockedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,90 @@
+export const roles = ["creator", "reviewer", "admin"] as const;
+
+export type Role = (typeof roles)[number];
+
+export const roleLabels: Record<Role, string> = {
+  creator: "Creator",
+  reviewer: "Reviewer",
+  admin: "Admin",
+};
+
+// What each role may do beyond reading its workspace and commenting.
+export const permissions = {
+  // Generate, edit and schedule campaigns; manage brand kits, voice profiles and media.
+  create: ["creator", "admin"],
+  // Approve campaigns or send them back for changes.
+  review: ["reviewer", "admin"],
+  // Add and remove members and change their roles.
+  manage: ["admin"],
+} as const satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof permissions;
+
+export const credentialBounds = { minPassword: 8, maxPassword: 200 } as const;
+
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  createdAt: string;
+}
+
+export interface Membership {
+  userId: string;
+  role: Role;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  members: Membership[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceMember extends User {
+  role: Role;
+}
+
+/** The signed-in user, the workspace they are acting in and every workspace they belong to. */
+export interface SessionInfo {
+  user: User;
+  workspace: { id: string; name: string };
+  role: Role;
+  workspaces: { id: string; name: string; role: Role }[];
+}
+
+export interface SignUpRequest {
+  username: string;
+  password: string;
+  displayName?: string;
+  workspaceName?: string;
+}
+
+export interface SignInRequest {
+  username: string;
+  password: string;
+}
+
+export interface WorkspaceSwitchRequest {
+  workspaceId: string;
+}
+
+export interface WorkspaceCreateRequest {
+  name: string;
+}
+
+/**
+ * Adds someone to the workspace. An unknown username creates the account, which then needs
+ * an initial password; an existing account keeps its own.
+ */
+export interface MemberRequest {
+  username: string;
+  role: Role;
+  displayName?: string;
+  password?: string;
+}
+
+export interface MemberPatch {
+  role: Role;
+}